@@ -20,6 +20,7 @@ const execFileAsync = promisify(execFile)
 
 import fs from 'node:fs'
 import os from 'node:os'
+import { randomBytes } from 'node:crypto'
 
 // Local modules — these are JS files imported as ESM so Vite will bundle them.
 import {
@@ -38,19 +39,31 @@ import SessionStore                              from './stores/session-store'
 import { PolicyStore }                           from './stores/policy-store'
 import { enforcePolicy, installGlobalOpenCodePlugin } from './services/policy-enforcer'
 import { generatePolicy, generateSessionTitle }  from './services/policy-generator'
+import { simulatePolicy, parseSessionPolicies }  from './services/policy-simulator'
+import { runPolicyTests }                        from './services/policy-tests'
+import { learnPolicy }                           from './services/policy-learner'
+import { importNativePolicy }                    from './services/policy-importer'
+import { lintPolicy }                            from './lib/policy-lint'
+import { flattenPolicyIn }                       from './lib/policy-inheritance'
+import { POLICY_FRAGMENTS }                      from './lib/policy-fragments'
+import { parsePolicyFile, policyFileFormat, serializePolicy } from './lib/policy-io'
+import { discoverRepoPolicy, approveRepoPolicy } from './services/repo-policy'
 import { SkillsStore }                           from './stores/skills-store'
 import { McpStore }                              from './stores/mcp-store'
 import { syncMcpToHarness }                      from './services/mcp-sync'
 import { introspectMcpServer }                   from './services/mcp-introspect'
+import { classificationOverrides, classifyTool, mcpToolName, suggestClassification, type ToolClassificationMap } from './lib/tool-classification'
 
 import PtyManager                                from './lib/pty-manager'
 import DockerManager                             from './lib/docker-manager'
 import { SandboxManager }                        from './lib/sandbox/sandbox-manager'
-import { AuthzServer }                           from './services/authz-server'
+import { AuthzServer, resolveSessionPolicy }     from './services/authz-server'
 import { Supervisor }                            from './services/supervisor'
 import { ActivityStore }                         from './stores/activity-store'
 import { FeedStore }                            from './stores/feed-store'
+import { ApprovalGrantStore }                    from './stores/approval-grant-store'
 import { Radar }                                 from './services/radar'
+import { ConfigGuard }                           from './services/config-guard'
 import { SettingsStore }                         from './stores/settings-store'
 import { SecretStore }                           from './stores/secret-store'
 import { initTelemetrySDK, bindTelemetrySettings, track } from './services/telemetry'
@@ -58,10 +71,12 @@ import {
   validateIpc,
   PtyCreateSchema, PtyWriteSchema, PtyResizeSchema, PtyKillSchema,
   SessionCreateSchema, SessionUpdateSchema,
-  PolicySaveSchema, SkillSaveSchema, McpSaveSchema,
+  PolicySaveSchema, PolicyRevisionSchema, PolicyDiffSchema, PolicySimulateSchema, PolicyLintSchema,
+  PolicyResolveSchema, PolicyTestSchema, PolicyLearnSchema, PolicyImportNativeSchema, PolicyExportSchema, RepoPolicySchema,
+  SkillSaveSchema, McpSaveSchema, McpClassifySchema,
   AgentsReadSchema, AgentsWriteSchema,
   SettingsKeySchema, SettingsSetSchema,
-  SecretSaveSchema, DockerStartSchema, AuthzRegisterSchema,
+  SecretSaveSchema, DockerStartSchema, AuthzRegisterSchema, AuthzQuotasSchema, ConfigTamperRespondSchema, ApprovalResolveSchema, GrantListSchema, GrantRevokeSchema, ActivityListSchema, ActivityTraceSchema,
   GitStatusSchema, GitCreateWorktreeSchema, GitListWorktreesSchema,
   GitRemoveWorktreeSchema, GitListBranchesSchema, GitDefaultBranchSchema,
   GitMergeBranchSchema,
@@ -76,6 +91,7 @@ import { SERVICE_CATALOG, getCatalogService }     from './lib/service-catalog'
 import { DataClassifier }                        from './services/data-classifier'
 import { CredentialManager }                     from './services/credential-manager'
 import { LatchProxy }                            from './services/latch-proxy'
+import type { LeakPrompt }                       from './services/latch-proxy'
 import { GatewayManager }                        from './lib/gateway-manager'
 import { createFeedbackSender }                  from './services/proxy/proxy-feedback'
 import { SkillGenerator }                        from './services/skill-generator'
@@ -107,6 +123,8 @@ import { ConversationStore }                     from './stores/conversation-sto
 import {
   ConversationRegistry,
   ClaudeConversationSource,
+  DroidConversationSource,
+  GeminiConversationSource,
   PluginConversationSource,
 } from './lib/conversation-source'
 import { computeConversationAnalytics, computeDashboard } from './lib/analytics-engine'
@@ -139,7 +157,9 @@ let authzServer: AuthzServer | null = null
 let supervisor: Supervisor | null = null
 let activityStore: ActivityStore | null = null
 let feedStore: FeedStore | null = null
+let grantStore: ApprovalGrantStore | null = null
 let radar: Radar | null = null
+let configGuard: ConfigGuard | null = null
 let settingsStore: SettingsStore | null = null
 let secretStore: SecretStore | null = null
 let serviceStore: ServiceStore | null = null
@@ -161,6 +181,39 @@ const openCodeTailers = new Map<string, OpenCodeTailer>()
 const proxyInstances = new Map<string, LatchProxy>()
 const gatewaySandboxConfigs = new Map<string, { command: string; args: string[] }>()
 const gatewayStartTimes = new Map<string, number>()
+/** Policy revision in force when each gateway session started — recorded on the receipt. */
+const gatewayPolicyRevisions = new Map<string, { policyId: string; revision: number }>()
+/** Outbound leak prompts from gateway proxies awaiting the user, by approval id. */
+const proxyLeakPrompts = new Map<string, { sessionId: string; prompt: LeakPrompt; timer: ReturnType<typeof setTimeout> }>()
+const LEAK_PROMPT_TIMEOUT_MS = 120_000
+
+/** Author recorded on policy revisions (OS account — there is no app-level identity). */
+function policyAuthor(): string | null {
+  try { return os.userInfo().username || null } catch { return null }
+}
+
+/** Reload the secret values masked in recorded tool inputs. */
+function refreshActivityRedaction(): void {
+  if (!activityStore || !secretStore) return
+  try {
+    activityStore.setRedactionValues(secretStore.allValues())
+  } catch (err) {
+    console.warn('[activity] Failed to load secret values for redaction:', err instanceof Error ? err.message : String(err))
+  }
+}
+
+/** MCP tool classification overrides set on the stored servers. */
+function currentToolClassifications(): ToolClassificationMap {
+  return mcpStore ? classificationOverrides(mcpStore.listServers().servers ?? []) : {}
+}
+
+/** Push the MCP tool classification overrides to the authz server and Radar. */
+function refreshToolClassifications(): void {
+  if (!mcpStore) return
+  const overrides = currentToolClassifications()
+  authzServer?.setToolClassifications(overrides)
+  radar?.setToolClassifications(overrides)
+}
 
 // ─── Window ───────────────────────────────────────────────────────────────────
 
@@ -269,6 +322,7 @@ app.whenReady().then(() => {
 
     activityStore = ActivityStore.open(db)
     feedStore     = FeedStore.open(db)
+    grantStore    = ApprovalGrantStore.open(db)
     settingsStore = SettingsStore.open(db)
     secretStore   = SecretStore.open(db)
     serviceStore  = ServiceStore.open(db)
@@ -279,6 +333,8 @@ app.whenReady().then(() => {
     conversationStore = ConversationStore.open(db)
     conversationRegistry = new ConversationRegistry()
     conversationRegistry.register(new ClaudeConversationSource())
+    conversationRegistry.register(new DroidConversationSource())
+    conversationRegistry.register(new GeminiConversationSource())
     pluginConversationSource = new PluginConversationSource(conversationStore)
     pluginConversationSource.setSessionLookup((sessionId) => {
       const { sessions } = sessionStore.listSessions()
@@ -318,11 +374,14 @@ app.whenReady().then(() => {
       }).show()
     })
 
+    refreshActivityRedaction()
+
     // Start authz server + radar
     authzServer = new AuthzServer(policyStore, activityStore, sendToRenderer)
     radar = new Radar(activityStore, sendToRenderer)
     authzServer.setRadar(radar)
     if (feedStore) authzServer.setFeedStore(feedStore)
+    if (grantStore) authzServer.setGrantStore(grantStore)
     authzServer.setSettingsStore(settingsStore)
     if (secretStore) authzServer.setSecretStore(secretStore)
     if (conversationStore) authzServer.setConversationStore(conversationStore)
@@ -352,8 +411,41 @@ app.whenReady().then(() => {
       console.error('Authz server start failed:', err instanceof Error ? err.message : String(err))
       authzServer = null
     })
+    refreshToolClassifications()
     radar.start()
 
+    // Guard the harness config enforcePolicy writes: an agent editing it to
+    // loosen its own limits gets it restored, and optionally gets paused.
+    configGuard = new ConfigGuard((tamper) => {
+      const what = tamper.change === 'deleted' ? 'deleted' : 'modified'
+      const item = feedStore?.record({
+        sessionId: tamper.sessionId,
+        message: `Policy config ${what}: ${tamper.filePath} — ${tamper.restored ? 'restored' : `could not be restored (${tamper.error})`}`,
+        harnessId: 'latch',
+      })
+      if (item) sendToRenderer('latch:feed-update', item)
+      sendToRenderer('latch:radar-signal', {
+        id: `radar-tamper-${Date.now()}`,
+        level: 'high',
+        message: `Harness config tampered: ${path.basename(tamper.filePath)} ${what} during session${tamper.restored ? ' (restored)' : ''}`,
+        observedAt: new Date().toISOString(),
+      })
+
+      if (settingsStore?.get('config-tamper-pause') !== 'true') return
+      const paused = (supervisor?.getTabs(tamper.sessionId) ?? []).filter((tabId) => ptyManager.pause(tabId))
+      if (!paused.length) return
+      const pausedItem = feedStore?.record({ sessionId: tamper.sessionId, message: 'Session paused after policy config tampering.', harnessId: 'latch' })
+      if (pausedItem) sendToRenderer('latch:feed-update', pausedItem)
+      sendToRenderer('latch:config-tamper-alert', {
+        id: `tamper-${Date.now()}`,
+        sessionId: tamper.sessionId,
+        filePath: tamper.filePath,
+        change: tamper.change,
+        restored: tamper.restored,
+        timestamp: new Date().toISOString(),
+      })
+    })
+
     // Start supervisor — terminal-driving policy enforcement.
     // The supervisor watches PTY output for harness permission prompts and
     // types yes/no based on policy decisions queued by the authz server.
@@ -487,7 +579,12 @@ app.whenReady().then(() => {
       listPolicies: () => unavailable('PolicyStore'),
       getPolicy:    () => unavailable('PolicyStore'),
       savePolicy:   () => unavailable('PolicyStore'),
-      deletePolicy: () => unavailable('PolicyStore')
+      deletePolicy: () => unavailable('PolicyStore'),
+      listRevisions:      () => unavailable('PolicyStore'),
+      getRevision:        () => unavailable('PolicyStore'),
+      getCurrentRevision: () => null,
+      diffRevisions:      () => unavailable('PolicyStore'),
+      rollbackPolicy:     () => unavailable('PolicyStore')
     } as unknown as PolicyStore
     skillsStore = {
       listSkills:    () => unavailable('SkillsStore'),
@@ -656,7 +753,13 @@ app.whenReady().then(() => {
 
   ipcMain.handle('latch:harness-install', async (_event: any, payload: { harnessId: string }) => {
     const { harnessId } = payload
-    if (harnessId !== 'opencode') {
+    // npm package and Homebrew formula for each harness Latch can install
+    const packages: Record<string, { npm: string; brew: string }> = {
+      opencode: { npm: 'opencode-ai', brew: 'opencode' },
+      gemini:   { npm: '@google/gemini-cli', brew: 'gemini-cli' },
+    }
+    const pkg = packages[harnessId]
+    if (!pkg) {
       return { ok: false, error: `Auto-install not supported for harness '${harnessId}'.` }
     }
 
@@ -666,16 +769,16 @@ app.whenReady().then(() => {
 
     // Try npm first, then brew on macOS
     try {
-      await exec('npm', ['install', '-g', 'opencode-ai'], { timeout: 120000 })
+      await exec('npm', ['install', '-g', pkg.npm], { timeout: 120000 })
       return { ok: true }
     } catch {
       if (process.platform === 'darwin') {
         try {
-          await exec('brew', ['install', 'opencode'], { timeout: 120000 })
+          await exec('brew', ['install', pkg.brew], { timeout: 120000 })
           return { ok: true }
         } catch { /* brew also failed */ }
       }
-      return { ok: false, error: 'Installation failed. Try running: npm i -g opencode-ai' }
+      return { ok: false, error: `Installation failed. Try running: npm i -g ${pkg.npm}` }
     }
   })
 
@@ -811,7 +914,9 @@ app.whenReady().then(() => {
     const v = validateIpc(PolicySaveSchema, policy)
     if (!v.ok) return v
     try {
-      return policyStore.savePolicy(v.data)
+      const result = policyStore.savePolicy(v.data, policyAuthor())
+      authzServer?.invalidatePolicyCache()
+      return result
     } catch (err) {
       console.error('[policy-save] Error:', err instanceof Error ? err.message : String(err))
       return { ok: false, error: err instanceof Error ? err.message : 'Failed to save policy' }
@@ -819,7 +924,196 @@ app.whenReady().then(() => {
   })
 
   ipcMain.handle('latch:policy-delete', async (_event: any, { id }: any) => {
-    return policyStore.deletePolicy(id)
+    const result = policyStore.deletePolicy(id)
+    authzServer?.invalidatePolicyCache()
+    return result
+  })
+
+  ipcMain.handle('latch:policy-revisions', async (_event: any, { id }: any) => {
+    if (!id) return { ok: false, revisions: [] }
+    return policyStore.listRevisions(id)
+  })
+
+  ipcMain.handle('latch:policy-revision-get', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyRevisionSchema, payload)
+    if (!v.ok) return v
+    return policyStore.getRevision(v.data.id, v.data.revision)
+  })
+
+  ipcMain.handle('latch:policy-diff', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyDiffSchema, payload)
+    if (!v.ok) return v
+    return policyStore.diffRevisions(v.data.id, v.data.from, v.data.to)
+  })
+
+  ipcMain.handle('latch:policy-rollback', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyRevisionSchema, payload)
+    if (!v.ok) return v
+    try {
+      const result = policyStore.rollbackPolicy(v.data.id, v.data.revision, policyAuthor())
+      authzServer?.invalidatePolicyCache()
+      return result
+    } catch (err) {
+      console.error('[policy-rollback] Error:', err instanceof Error ? err.message : String(err))
+      return { ok: false, error: err instanceof Error ? err.message : 'Failed to roll back policy' }
+    }
+  })
+
+  ipcMain.handle('latch:policy-simulate', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicySimulateSchema, payload)
+    if (!v.ok) return v
+    if (!activityStore) return { ok: false, error: 'ActivityStore unavailable' }
+    try {
+      const draft = v.data.policy as any
+      let baseline = null
+      if (v.data.baselineRevision === null) {
+        baseline = null
+      } else if (v.data.baselineRevision !== undefined) {
+        const rev = policyStore.getRevision(draft.id, v.data.baselineRevision)
+        if (!rev.ok) return { ok: false, error: rev.error }
+        baseline = rev.revision!.policy
+      } else {
+        const stored = policyStore.getPolicy(draft.id)
+        baseline = stored.ok ? stored.policy : null
+      }
+
+      const sessions = new Map(
+        (sessionStore.listSessions().sessions ?? []).map((row) => [row.id as string, parseSessionPolicies(row)])
+      )
+      // Mirror the authz server: confirmDestructive only prompts when auto-accept is off.
+      const autoAccept = settingsStore?.get('auto-accept')
+      const result = simulatePolicy({
+        draft,
+        baseline,
+        policies: policyStore.listPolicies().policies ?? [],
+        sessions,
+        events: activityStore.listForReplay({ sessionId: v.data.sessionId, limit: v.data.limit }),
+        confirmDestructivePrompts: !(autoAccept === null || autoAccept === 'true'),
+        classifications: currentToolClassifications(),
+      })
+      return { ok: true, result }
+    } catch (err) {
+      console.error('[policy-simulate] Error:', err instanceof Error ? err.message : String(err))
+      return { ok: false, error: err instanceof Error ? err.message : 'Simulation failed' }
+    }
+  })
+
+  ipcMain.handle('latch:policy-lint', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyLintSchema, payload)
+    if (!v.ok) return v
+    const mcpServers = (mcpStore?.listServers().servers ?? []).map((s: any) => s.name as string)
+    return { ok: true, diagnostics: lintPolicy(v.data.policy as any, { mcpServers }) }
+  })
+
+  ipcMain.handle('latch:policy-resolve', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyResolveSchema, payload)
+    if (!v.ok) return v
+    return flattenPolicyIn(v.data.policy as any, policyStore.listPolicies().policies)
+  })
+
+  ipcMain.handle('latch:policy-test', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyTestSchema, payload)
+    if (!v.ok) return v
+    return runPolicyTests(v.data.policy as any, policyStore.listPolicies().policies)
+  })
+
+  ipcMain.handle('latch:policy-learn', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyLearnSchema, payload)
+    if (!v.ok) return v
+    if (!activityStore) return { ok: false, error: 'ActivityStore unavailable' }
+    const sessionIds = [...new Set(v.data.sessionIds)]
+    const { sessions } = sessionStore.listSessions()
+    const rows = sessionIds.map((id) => sessions.find((s: any) => s.id === id))
+    const missing = sessionIds.filter((_id, i) => !rows[i])
+    if (missing.length) return { ok: false, error: `Unknown session: ${missing.join(', ')}` }
+
+    const events = sessionIds.flatMap((sessionId) => activityStore!.listForReplay({ sessionId, limit: 10_000 }))
+    const audit = sessionIds.flatMap((sessionId) => attestationStore?.listEvents(sessionId) ?? [])
+    const workspaceRoots = Object.fromEntries(rows.map((row: any) => [row.id, row.worktree_path ?? row.repo_root ?? row.project_dir ?? null]))
+    const name = rows.length === 1 ? `Learned: ${rows[0]?.name}` : undefined
+    const { policy, summary } = learnPolicy({ sessionIds, events, audit, workspaceRoots, name })
+    track('policy_learned')
+    return { ok: true, policy, summary }
+  })
+
+  ipcMain.handle('latch:policy-import-native', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyImportNativeSchema, payload)
+    if (!v.ok) return v
+    let dir = v.data.dir
+    if (!dir) {
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Import Harness Permissions',
+        properties: ['openDirectory'],
+      })
+      if (result.canceled || !result.filePaths.length) return { ok: false, error: 'Cancelled' }
+      dir = result.filePaths[0]
+    }
+    const result = importNativePolicy(dir)
+    if (result.ok) track('policy_imported_native')
+    return result
+  })
+
+  ipcMain.handle('latch:policy-audit-stats', async () => {
+    if (!activityStore) return { ok: false, stats: [], error: 'ActivityStore unavailable' }
+    return { ok: true, stats: activityStore.auditStats() }
+  })
+
+  ipcMain.handle('latch:policy-fragments', async () => {
+    return { ok: true, fragments: POLICY_FRAGMENTS }
+  })
+
+  ipcMain.handle('latch:policy-export', async (_event: any, payload: any) => {
+    const v = validateIpc(PolicyExportSchema, payload)
+    if (!v.ok) return v
+    const stored = policyStore.getPolicy(v.data.id)
+    if (!stored.ok) return stored
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Export Policy',
+      defaultPath: `${v.data.id}.yaml`,
+      filters: [
+        { name: 'YAML', extensions: ['yaml', 'yml'] },
+        { name: 'JSON', extensions: ['json'] },
+      ],
+    })
+    if (result.canceled || !result.filePath) return { ok: false, error: 'Cancelled' }
+
+    const fs = await import('node:fs/promises')
+    await fs.writeFile(result.filePath, serializePolicy(stored.policy, policyFileFormat(result.filePath)), 'utf-8')
+    return { ok: true, filePath: result.filePath }
+  })
+
+  ipcMain.handle('latch:policy-import', async () => {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Import Policy',
+      properties: ['openFile'],
+      filters: [{ name: 'Policy', extensions: ['yaml', 'yml', 'json'] }],
+    })
+    if (result.canceled || !result.filePaths.length) return { ok: false, error: 'Cancelled' }
+
+    const fs = await import('node:fs/promises')
+    const filePath = result.filePaths[0]
+    const name = path.basename(filePath, path.extname(filePath))
+    const parsed = parsePolicyFile(await fs.readFile(filePath, 'utf-8'), { id: `policy-${Date.now()}`, name })
+    if (!parsed.ok) return parsed
+    const saved = policyStore.savePolicy(parsed.policy, policyAuthor())
+    if (!saved.ok) return saved
+    authzServer?.invalidatePolicyCache()
+    return { ok: true, policy: parsed.policy }
+  })
+
+  ipcMain.handle('latch:repo-policy-discover', async (_event: any, payload: any) => {
+    const v = validateIpc(RepoPolicySchema, payload)
+    if (!v.ok) return v
+    return discoverRepoPolicy(v.data.repoRoot, policyStore)
+  })
+
+  ipcMain.handle('latch:repo-policy-approve', async (_event: any, payload: any) => {
+    const v = validateIpc(RepoPolicySchema, payload)
+    if (!v.ok) return v
+    const result = approveRepoPolicy(v.data.repoRoot, policyStore, policyAuthor())
+    if (result.ok) authzServer?.invalidatePolicyCache()
+    return result
   })
 
   ipcMain.handle('latch:policy-enforce', async (_event: any, payload: any) => {
@@ -828,7 +1122,11 @@ app.whenReady().then(() => {
       payload.authzPort = authzServer.getPort()
       payload.authzSecret = authzServer.getSecret()
     }
-    return enforcePolicy(policyStore, payload)
+    const result = await enforcePolicy(policyStore, payload)
+    if (result.ok && result.generatedFiles?.length && payload?.sessionId) {
+      configGuard?.protect(payload.sessionId, result.generatedFiles)
+    }
+    return result
   })
 
   ipcMain.handle('latch:policy-generate', async (_event: any, { prompt }: any) => {
@@ -914,12 +1212,16 @@ app.whenReady().then(() => {
     if (!secretStore) return { ok: false, error: 'SecretStore unavailable' }
     const v = validateIpc(SecretSaveSchema, params)
     if (!v.ok) return v
-    return secretStore.save(v.data)
+    const result = secretStore.save(v.data)
+    refreshActivityRedaction()
+    return result
   })
 
   ipcMain.handle('latch:secret-delete', async (_event: any, { id }: any) => {
     if (!secretStore) return { ok: false, error: 'SecretStore unavailable' }
-    return secretStore.delete(id)
+    const result = secretStore.delete(id)
+    refreshActivityRedaction()
+    return result
   })
 
   ipcMain.handle('latch:secret-validate', async (_event: any, { env }: any) => {
@@ -1115,11 +1417,15 @@ app.whenReady().then(() => {
   ipcMain.handle('latch:mcp-save', async (_event: any, server: any) => {
     const v = validateIpc(McpSaveSchema, server)
     if (!v.ok) return v
-    return mcpStore.saveServer(v.data)
+    const result = mcpStore.saveServer(v.data)
+    if (result.ok) refreshToolClassifications()
+    return result
   })
 
   ipcMain.handle('latch:mcp-delete', async (_event: any, { id }: any) => {
-    return mcpStore.deleteServer(id)
+    const result = mcpStore.deleteServer(id)
+    refreshToolClassifications()
+    return result
   })
 
   ipcMain.handle('latch:mcp-sync', async (_event: any, { harnessId, targetDir }: any) => {
@@ -1136,11 +1442,36 @@ app.whenReady().then(() => {
     return introspectMcpServer(result.server, secretStore)
   })
 
+  ipcMain.handle('latch:mcp-classify-tools', async (_event: any, payload: any) => {
+    const v = validateIpc(McpClassifySchema, payload)
+    if (!v.ok) return { ...v, tools: [] }
+    const { server, tools, toolDescriptions = {} } = v.data
+    return {
+      ok: true,
+      tools: tools.map((tool) => ({
+        tool,
+        heuristic: classifyTool(mcpToolName(server, tool)),
+        suggestion: suggestClassification(tool, toolDescriptions[tool]),
+      })),
+    }
+  })
+
   // ── Activity / Authz handlers ──────────────────────────────────────────
 
   ipcMain.handle('latch:activity-list', async (_event: any, payload: any = {}) => {
     if (!activityStore) return { ok: false, events: [], total: 0 }
-    const result = activityStore.list(payload)
+    const v = validateIpc(ActivityListSchema, payload ?? {})
+    if (!v.ok) return { ...v, events: [], total: 0 }
+    const result = activityStore.list(v.data)
+    return { ok: true, ...result }
+  })
+
+  ipcMain.handle('latch:activity-trace', async (_event: any, payload: any) => {
+    const v = validateIpc(ActivityTraceSchema, payload)
+    if (!v.ok) return v
+    if (!activityStore) return { ok: false, error: 'ActivityStore unavailable' }
+    const result = activityStore.getTrace(v.data.id)
+    if (!result) return { ok: false, error: `Activity event "${v.data.id}" not found` }
     return { ok: true, ...result }
   })
 
@@ -1331,26 +1662,70 @@ app.whenReady().then(() => {
     return { ok: true, port: authzServer?.getPort() ?? 0 }
   })
 
+  ipcMain.handle('latch:authz-metrics', async () => {
+    if (!authzServer) return { ok: false, error: 'Authorization server is not running.' }
+    return { ok: true, metrics: authzServer.getMetrics() }
+  })
+
   ipcMain.handle('latch:authz-register', async (_event: any, payload: any) => {
     const v = validateIpc(AuthzRegisterSchema, payload)
     if (!v.ok) return v
-    authzServer?.registerSession(v.data.sessionId, v.data.harnessId, v.data.policyIds, v.data.policyOverride ?? null)
+    authzServer?.registerSession(v.data.sessionId, v.data.harnessId, v.data.policyIds, v.data.policyOverride ?? null, v.data.workspaceRoot)
     return { ok: true }
   })
 
   ipcMain.handle('latch:authz-unregister', async (_event: any, { sessionId }: any) => {
     authzServer?.unregisterSession(sessionId)
+    configGuard?.release(sessionId)
     return { ok: true }
   })
 
-  ipcMain.handle('latch:approval-resolve', async (_event: any, { id, decision }: any) => {
+  ipcMain.handle('latch:authz-quotas', async (_event: any, payload: any) => {
+    const v = validateIpc(AuthzQuotasSchema, payload)
+    if (!v.ok) return { ...v, quotas: [] }
+    return { ok: true, quotas: authzServer?.getQuotaStatus(v.data.sessionId) ?? [] }
+  })
+
+  ipcMain.handle('latch:approval-resolve', async (_event: any, payload: any) => {
+    const v = validateIpc(ApprovalResolveSchema, payload)
+    if (!v.ok) return v
+    const { id, decision, scope = 'once' } = v.data
+    // Outbound leak prompts from a gateway proxy: the request was refused,
+    // so approval only lets the retry through.
+    const leak = proxyLeakPrompts.get(id)
+    if (leak) {
+      clearTimeout(leak.timer)
+      proxyLeakPrompts.delete(id)
+      if (decision === 'approve') {
+        proxyInstances.get(leak.sessionId)?.grantLeak(leak.prompt.domain, leak.prompt.secrets, scope === 'once')
+      }
+      sendToRenderer('latch:approval-resolved', { id })
+      return { ok: true }
+    }
     // Try supervisor first (handles escalated prompt decisions for Claude sessions).
-    // Falls through to authzServer for Codex/OpenClaw's ApprovalBar flow.
-    supervisor?.resolveDecision(id, decision)
-    authzServer?.resolveApproval(id, decision)
+    // The supervisor answers the terminal prompt itself, so only wider scopes
+    // need a grant. Falls through to authzServer for Codex/OpenClaw's ApprovalBar flow.
+    const escalated = supervisor?.resolveDecision(id, decision)
+    if (escalated && decision === 'approve' && scope !== 'once') {
+      authzServer?.grantApproval(escalated, scope, policyAuthor())
+    }
+    authzServer?.resolveApproval(id, decision, scope, policyAuthor())
     return { ok: true }
   })
 
+  ipcMain.handle('latch:grant-list', async (_event: any, payload: any) => {
+    const v = validateIpc(GrantListSchema, payload)
+    if (!v.ok) return { ...v, grants: [] }
+    return { ok: true, grants: authzServer?.listGrants(v.data.sessionId) ?? [] }
+  })
+
+  ipcMain.handle('latch:grant-revoke', async (_event: any, payload: any) => {
+    const v = validateIpc(GrantRevokeSchema, payload)
+    if (!v.ok) return v
+    if (!authzServer) return { ok: false, error: 'Authorization server is not running.' }
+    return authzServer.revokeGrant(v.data.id, policyAuthor())
+  })
+
   // ── Budget handlers ────────────────────────────────────────────────────
 
   ipcMain.handle('latch:budget-respond', async (_event: any, payload: any) => {
@@ -1362,6 +1737,25 @@ app.whenReady().then(() => {
     return { ok: true }
   })
 
+  // ── Config tamper handlers ─────────────────────────────────────────────
+
+  ipcMain.handle('latch:config-tamper-respond', async (_event: any, payload: any) => {
+    const v = validateIpc(ConfigTamperRespondSchema, payload)
+    if (!v.ok) return v
+    const { sessionId, action } = v.data
+    for (const tabId of supervisor?.getTabs(sessionId) ?? []) {
+      if (action === 'kill') ptyManager.kill(tabId)
+      else ptyManager.resume(tabId)
+    }
+    const item = feedStore?.record({
+      sessionId,
+      message: action === 'kill' ? 'Session killed after policy config tampering.' : 'Session resumed after policy config tampering.',
+      harnessId: 'latch',
+    })
+    if (item) sendToRenderer('latch:feed-update', item)
+    return { ok: true }
+  })
+
   // ── Supervisor handlers ─────────────────────────────────────────────────
 
   ipcMain.handle('latch:supervisor-register-tab', async (_event: any, payload: any) => {
@@ -1418,7 +1812,7 @@ app.whenReady().then(() => {
   // ── Gateway orchestration handlers ──────────────────────────────────────
 
   ipcMain.handle('latch:gateway-start', async (_event: any, payload: any) => {
-    const { sessionId, serviceIds, maxDataTier, policyId, policyOverride, workspacePath, enableTls, harnessId } = payload ?? {}
+    const { sessionId, serviceIds, maxDataTier, policyId, policyIds, policyOverride, workspacePath, enableTls, harnessId } = payload ?? {}
     if (!sessionId) return { ok: false, error: 'Missing sessionId' }
     const resolvedServiceIds: string[] = serviceIds ?? []
 
@@ -1470,6 +1864,40 @@ app.whenReady().then(() => {
         }
       }
 
+      // Outbound DLP: stored secret values and the policy's leak action
+      const secrets = secretStore ? await secretStore.allKeyValuesAsync() : {}
+      // Resolved like the authz server does: flattened, strictest-wins, then the override
+      const allPolicies = policyStore.listPolicies()
+      const leakPolicy = resolveSessionPolicy(
+        allPolicies.ok ? allPolicies.policies : null,
+        policyIds ?? (policyId ? [policyId] : []),
+        harnessId ?? '',
+        policyOverride ?? null,
+      )
+      const promptLeak = (prompt: LeakPrompt) => {
+        const id = randomBytes(8).toString('hex')
+        const approval: import('../types').PendingApproval = {
+          id,
+          sessionId,
+          toolName: 'Network egress',
+          toolInput: { domain: prompt.domain, secrets: prompt.secrets, location: prompt.location },
+          actionClass: 'send',
+          risk: 'high',
+          harnessId: harnessId ?? 'latch',
+          createdAt: new Date().toISOString(),
+          timeoutMs: LEAK_PROMPT_TIMEOUT_MS,
+          timeoutDefault: 'deny',
+          reason: `${prompt.secrets.join(', ')} in ${prompt.location} to ${prompt.domain}`,
+          promptTool: true,
+        }
+        const timer = setTimeout(() => {
+          proxyLeakPrompts.delete(id)
+          sendToRenderer('latch:approval-resolved', { id })
+        }, LEAK_PROMPT_TIMEOUT_MS)
+        proxyLeakPrompts.set(id, { sessionId, prompt, timer })
+        sendToRenderer('latch:approval-request', approval)
+      }
+
       // Create and start proxy
       const proxy = new LatchProxy({
         sessionId,
@@ -1478,6 +1906,9 @@ app.whenReady().then(() => {
         maxDataTier: maxDataTier ?? 'internal',
         enableTls: enableTls ?? false,
         attestationStore: attestationStore ?? undefined,
+        secrets,
+        leakAction: leakPolicy.permissions.outboundLeakAction,
+        onLeakPrompt: promptLeak,
       })
       const proxyPort = await proxy.start()
 
@@ -1515,6 +1946,8 @@ app.whenReady().then(() => {
       // Store instances for later cleanup
       proxyInstances.set(sessionId, proxy)
       gatewayStartTimes.set(sessionId, Date.now())
+      const startRevision = policyId ? policyStore.getCurrentRevision(policyId) : null
+      if (startRevision !== null) gatewayPolicyRevisions.set(sessionId, { policyId, revision: startRevision })
       if (sandboxCommand && sandboxArgs) {
         gatewaySandboxConfigs.set(sessionId, { command: sandboxCommand, args: sandboxArgs })
       }
@@ -1585,8 +2018,14 @@ app.whenReady().then(() => {
       const sandboxType = (sandboxStatus.backend ?? 'seatbelt') as 'docker' | 'seatbelt' | 'bubblewrap'
 
       // Get policy — use first selected policy for receipt (merge is done at enforcement time)
-      const receiptPolicyId = Array.isArray(payload.policyIds) ? payload.policyIds[0] : (payload.policyId ?? 'default')
-      const policy = policyStore.getPolicy(receiptPolicyId)
+      // Prefer the revision that was in force at gateway start over the current one.
+      const startRevision = gatewayPolicyRevisions.get(sessionId)
+      const receiptPolicyId = Array.isArray(payload.policyIds) ? payload.policyIds[0] : (payload.policyId ?? startRevision?.policyId ?? 'default')
+      const pinned = startRevision && startRevision.policyId === receiptPolicyId
+        ? policyStore.getRevision(receiptPolicyId, startRevision.revision)
+        : null
+      const policy = pinned?.ok ? { ok: true, policy: pinned.revision!.policy } : policyStore.getPolicy(receiptPolicyId)
+      const policyRevision = pinned?.ok ? pinned.revision!.revision : (policyStore.getCurrentRevision(receiptPolicyId) ?? undefined)
       const policyDoc = policy?.ok ? policy.policy : {
         id: 'default', name: 'Default', description: '', permissions: {
           allowBash: true, allowNetwork: false, allowFileWrite: true,
@@ -1600,6 +2039,7 @@ app.whenReady().then(() => {
         receipt = attestationEngine.generateReceipt({
           sessionId,
           policy: policyDoc,
+          policyRevision,
           maxDataTier: 'internal',
           servicesGranted,
           servicesUsed,
@@ -1630,6 +2070,7 @@ app.whenReady().then(() => {
       proxyInstances.delete(sessionId)
       gatewaySandboxConfigs.delete(sessionId)
       gatewayStartTimes.delete(sessionId)
+      gatewayPolicyRevisions.delete(sessionId)
 
       return { ok: true, receipt }
     } catch (err: unknown) {
@@ -2083,12 +2524,14 @@ app.on('before-quit', () => {
   proxyInstances.clear()
   gatewaySandboxConfigs.clear()
   gatewayStartTimes.clear()
+  gatewayPolicyRevisions.clear()
 
   ptyManager?.disposeAll()
   dockerManager?.disposeAll()
   sandboxManager?.disposeAll()
   authzServer?.stop()
   radar?.stop()
+  configGuard?.stop()
   stopUsageWatcher()
   stopLiveTailer()
   stopBudgetEnforcer()
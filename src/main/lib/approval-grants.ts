@@ -0,0 +1,134 @@
+/**
+ * @module approval-grants
+ * @description Argument matching for approval grants and the policy rules
+ * that "always allow" grants write back.
+ *
+ * A grant is pinned to the argument that makes a call what it is: the shell
+ * command for Bash, the path for file tools, the URL for fetches, and the
+ * canonical JSON of the whole input for everything else. Matching is exact —
+ * `npm test` does not cover `npm test && curl …`.
+ */
+
+import type { CommandRule, HarnessesConfig, PolicyDocument, ToolInputPredicate, ToolRule } from '../../types'
+import { canonicalJsonStringify } from './canonical-json'
+import { splitShellCommand } from './shell-parse'
+import { toolRuleKey } from './tool-predicates'
+
+/** Input fields that identify a call, per normalized tool name. */
+const TARGET_FIELDS: Record<string, string[]> = {
+  bash:         ['command', 'cmd'],
+  shell:        ['command', 'cmd'],
+  write:        ['file_path', 'filePath', 'path'],
+  edit:         ['file_path', 'filePath', 'path'],
+  multiedit:    ['file_path', 'filePath', 'path'],
+  read:         ['file_path', 'filePath', 'path'],
+  notebookedit: ['notebook_path', 'file_path', 'path'],
+  webfetch:     ['url'],
+  websearch:    ['query'],
+}
+
+const SHELL_TOOLS = new Set(['bash', 'shell'])
+
+/** Policy additions made by a project-scoped grant, kept so it can be revoked. */
+export interface GrantRule {
+  harnessId: string
+  commandRules?: CommandRule[]
+  toolRule?: ToolRule
+}
+
+function toolKey(toolName: string): string {
+  return toolName.toLowerCase().replace(/_/g, '')
+}
+
+function targetField(toolName: string, toolInput: Record<string, unknown>): string | null {
+  const fields = TARGET_FIELDS[toolKey(toolName)] ?? []
+  return fields.find((f) => typeof toolInput[f] === 'string' && toolInput[f] !== '') ?? null
+}
+
+/** The argument a grant for this call is pinned to. */
+export function grantTarget(toolName: string, toolInput: Record<string, unknown>): string {
+  const field = targetField(toolName, toolInput)
+  if (!field) return canonicalJsonStringify(toolInput ?? {})
+  const value = String(toolInput[field])
+  return SHELL_TOOLS.has(toolKey(toolName)) ? value.trim() : value
+}
+
+/** True if a grant covers this call: same tool, and same target unless the grant is tool-wide. */
+export function grantMatches(
+  grant: { toolName: string; target: string | null },
+  toolName: string,
+  toolInput: Record<string, unknown>,
+): boolean {
+  if (toolKey(grant.toolName) !== toolKey(toolName)) return false
+  return grant.target === null || grant.target === grantTarget(toolName, toolInput)
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build the allow rule(s) that make this exact call pass policy. Shell
+ * commands get one anchored command rule per segment, since rules are
+ * evaluated per segment; other tools get a tool rule with `eq` predicates on
+ * the identifying field (or on every scalar field when there isn't one).
+ */
+export function buildGrantRule(toolName: string, toolInput: Record<string, unknown>, harnessId: string): GrantRule {
+  const reason = 'Approved for this project.'
+  if (SHELL_TOOLS.has(toolKey(toolName))) {
+    const texts = [...new Set(splitShellCommand(grantTarget(toolName, toolInput)).map((seg) => seg.text))]
+    return { harnessId, commandRules: texts.map((text) => ({ pattern: `^${escapeRegex(text)}$`, decision: 'allow', reason })) }
+  }
+
+  const field = targetField(toolName, toolInput)
+  const when: ToolInputPredicate[] = field
+    ? [{ field, op: 'eq', value: String(toolInput[field]) }]
+    : Object.entries(toolInput ?? {})
+      .filter(([, v]) => typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean')
+      .map(([k, v]) => ({ field: k, op: 'eq', value: typeof v === 'number' ? v : String(v) }))
+  return { harnessId, toolRule: { pattern: toolName, decision: 'allow', reason, ...(when.length ? { when } : {}) } }
+}
+
+/**
+ * Add a grant rule to a policy. The rules go first so they win over the
+ * policy's own prompt rules. `defaultCommandRules` stands in for an unset
+ * `commandRules`, which would otherwise fall back to the defaults.
+ */
+export function applyGrantRule(policy: PolicyDocument, rule: GrantRule, defaultCommandRules: CommandRule[]): PolicyDocument {
+  const next: PolicyDocument = { ...policy, permissions: { ...policy.permissions } }
+  if (rule.commandRules?.length) {
+    const existing = policy.permissions.commandRules ?? defaultCommandRules
+    const fresh = rule.commandRules.filter((r) => !existing.some((e) => e.pattern === r.pattern && e.decision === r.decision))
+    next.permissions.commandRules = [...fresh, ...existing]
+  }
+  if (rule.toolRule) {
+    const key = rule.harnessId as keyof HarnessesConfig
+    const hc = { ...policy.harnesses?.[key] } as { toolRules?: ToolRule[] }
+    const ruleKey = toolRuleKey(rule.toolRule)
+    hc.toolRules = [rule.toolRule, ...(hc.toolRules ?? []).filter((r) => toolRuleKey(r) !== ruleKey)]
+    next.harnesses = { ...policy.harnesses, [key]: hc }
+  }
+  return next
+}
+
+/** Remove the rules a grant added. */
+export function removeGrantRule(policy: PolicyDocument, rule: GrantRule): PolicyDocument {
+  const next: PolicyDocument = { ...policy, permissions: { ...policy.permissions } }
+  if (rule.commandRules?.length && policy.permissions.commandRules) {
+    next.permissions.commandRules = policy.permissions.commandRules.filter(
+      (e) => !rule.commandRules!.some((r) => e.pattern === r.pattern && e.decision === r.decision),
+    )
+  }
+  if (rule.toolRule) {
+    const key = rule.harnessId as keyof HarnessesConfig
+    const hc = policy.harnesses?.[key] as { toolRules?: ToolRule[] } | undefined
+    if (hc?.toolRules) {
+      const ruleKey = toolRuleKey(rule.toolRule)
+      next.harnesses = {
+        ...policy.harnesses,
+        [key]: { ...hc, toolRules: hc.toolRules.filter((r) => !(toolRuleKey(r) === ruleKey && r.decision === 'allow')) },
+      }
+    }
+  }
+  return next
+}
@@ -1,15 +1,21 @@
 /**
  * @module conversation-source.test
  * @description Tests for ConversationSource interface, ConversationRegistry,
- * ClaudeConversationSource, and PluginConversationSource turn assembly.
+ * ClaudeConversationSource, DroidConversationSource, GeminiConversationSource,
+ * and PluginConversationSource turn assembly.
  */
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 import Database from 'better-sqlite3'
 import { ConversationStore } from '../stores/conversation-store'
 import {
   ConversationRegistry,
   ClaudeConversationSource,
+  DroidConversationSource,
+  GeminiConversationSource,
   PluginConversationSource,
 } from './conversation-source'
 import type { ConversationSource } from './conversation-source'
@@ -116,6 +122,166 @@ describe('ClaudeConversationSource', () => {
   })
 })
 
+// ── DroidConversationSource tests ───────────────────────────────────────────
+
+describe('DroidConversationSource', () => {
+  let dir: string
+
+  function writeSession(slug: string, id: string, lines: unknown[], tokenUsage?: Record<string, number>): string {
+    const projectDir = path.join(dir, slug)
+    fs.mkdirSync(projectDir, { recursive: true })
+    const filePath = path.join(projectDir, `${id}.jsonl`)
+    fs.writeFileSync(filePath, lines.map((l) => JSON.stringify(l)).join('\n') + '\n')
+    if (tokenUsage) {
+      fs.writeFileSync(path.join(projectDir, `${id}.settings.json`), JSON.stringify({ model: 'claude-sonnet-4-5-20250929', tokenUsage }))
+    }
+    return filePath
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-droid-sessions-'))
+    writeSession('-work-shop', 'sess-1', [
+      { type: 'session_start', id: 'sess-1', title: 'Fix the build', cwd: '/work/shop' },
+      { type: 'message', id: 'm1', timestamp: '2026-01-01T10:00:00.000Z', message: { role: 'user', content: [{ type: 'text', text: 'Fix the failing build' }] } },
+      { type: 'message', id: 'm2', timestamp: '2026-01-01T10:00:05.000Z', message: { role: 'assistant', content: [
+        { type: 'text', text: 'Running the build.' },
+        { type: 'tool_use', id: 'tu1', name: 'Execute', input: { command: 'npm run build' } },
+      ] } },
+      { type: 'message', id: 'm3', timestamp: '2026-01-01T10:00:09.000Z', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu1', content: 'error TS2304', is_error: true }] } },
+      { type: 'message', id: 'm4', timestamp: '2026-01-01T10:00:12.000Z', message: { role: 'assistant', content: [
+        { type: 'tool_use', id: 'tu2', name: 'Edit', input: { file_path: '/work/shop/src/index.ts', old_str: 'a', new_str: 'b' } },
+      ] } },
+    ], { inputTokens: 1000, outputTokens: 200, thinkingTokens: 50, cacheCreationTokens: 0, cacheReadTokens: 4000 })
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('has id = "droid-jsonl"', () => {
+    expect(new DroidConversationSource(dir).id).toBe('droid-jsonl')
+  })
+
+  it('lists sessions with their project and token totals', () => {
+    const [convo, ...rest] = new DroidConversationSource(dir).listConversations()
+    expect(rest).toEqual([])
+    expect(convo).toMatchObject({
+      id: 'sess-1',
+      projectSlug: '-work-shop',
+      projectName: 'shop',
+      promptPreview: 'Fix the failing build',
+      totalTokens: 5250,
+      turnCount: 2,
+      harnessId: 'droid',
+    })
+    expect(convo.totalCostUsd).toBeGreaterThan(0)
+    expect(new DroidConversationSource(dir).listConversations('-elsewhere')).toEqual([])
+  })
+
+  it('loads a session as prompt and assistant turns with tool results', () => {
+    const data = new DroidConversationSource(dir).loadConversation('sess-1')!
+    expect(data.turns.map((t) => t.actionType)).toEqual(['prompt', 'error', 'write'])
+    expect(data.turns[1].toolCalls).toEqual([
+      { name: 'Execute', id: 'tu1', inputSummary: 'npm run build', resultSummary: 'error TS2304', isError: true },
+    ])
+    expect(data.turns[2].toolCalls[0].inputSummary).toBe('/work/shop/src/index.ts')
+    expect(data.totalDurationMs).toBe(12_000)
+    expect(data.models).toEqual(['claude-sonnet-4-5'])
+  })
+
+  it('returns null for an unknown session', () => {
+    expect(new DroidConversationSource(dir).loadConversation('missing')).toBeNull()
+  })
+})
+
+// ── GeminiConversationSource tests ──────────────────────────────────────────
+
+describe('GeminiConversationSource', () => {
+  let dir: string
+
+  function writeChat(project: string, name: string, session: unknown, projectRoot?: string): string {
+    const chatsDir = path.join(dir, project, 'chats')
+    fs.mkdirSync(chatsDir, { recursive: true })
+    if (projectRoot) fs.writeFileSync(path.join(dir, project, '.project_root'), projectRoot)
+    const filePath = path.join(chatsDir, name)
+    fs.writeFileSync(filePath, JSON.stringify(session))
+    return filePath
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-gemini-sessions-'))
+    writeChat('a1b2c3', 'session-2026-01-01T10-00-0f3e.json', {
+      sessionId: 'chat-1',
+      projectHash: 'a1b2c3',
+      startTime: '2026-01-01T10:00:00.000Z',
+      lastUpdated: '2026-01-01T10:00:12.000Z',
+      messages: [
+        { id: 'u1', timestamp: '2026-01-01T10:00:00.000Z', type: 'user', content: 'Fix the failing build' },
+        {
+          id: 'g1', timestamp: '2026-01-01T10:00:05.000Z', type: 'gemini', content: 'Running the build.', model: 'gemini-2.5-pro',
+          thoughts: [{ subject: 'Plan', description: 'Run the build first' }],
+          tokens: { input: 5000, output: 200, cached: 4000, thoughts: 50, tool: 0, total: 5250 },
+          toolCalls: [{ id: 'tc1', name: 'run_shell_command', args: { command: 'npm run build' }, status: 'error', resultDisplay: 'error TS2304' }],
+        },
+        { id: 'i1', timestamp: '2026-01-01T10:00:06.000Z', type: 'info', content: 'Request cancelled.' },
+        {
+          id: 'g2', timestamp: '2026-01-01T10:00:12.000Z', type: 'gemini', content: '', model: 'gemini-2.5-pro',
+          tokens: { input: 6000, output: 100, cached: 5000, thoughts: 0, tool: 0, total: 6100 },
+          toolCalls: [{
+            id: 'tc2', name: 'replace', args: { file_path: '/work/shop/src/index.ts', old_string: 'a', new_string: 'b' }, status: 'success',
+            result: [{ functionResponse: { id: 'tc2', name: 'replace', response: { output: 'Replaced 1 occurrence.' } } }],
+          }],
+        },
+      ],
+    }, '/work/shop')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('has id = "gemini-json"', () => {
+    expect(new GeminiConversationSource(dir).id).toBe('gemini-json')
+  })
+
+  it('lists chats with their project and token totals', () => {
+    const [convo, ...rest] = new GeminiConversationSource(dir).listConversations()
+    expect(rest).toEqual([])
+    expect(convo).toMatchObject({
+      id: 'chat-1',
+      projectSlug: 'a1b2c3',
+      projectName: 'shop',
+      promptPreview: 'Fix the failing build',
+      lastModified: '2026-01-01T10:00:12.000Z',
+      // Cached tokens are counted once, thoughts as output
+      totalTokens: 11350,
+      turnCount: 2,
+      harnessId: 'gemini',
+    })
+    expect(convo.totalCostUsd).toBeGreaterThan(0)
+    expect(new GeminiConversationSource(dir).listConversations('elsewhere')).toEqual([])
+  })
+
+  it('loads a chat as prompt and reply turns with tool results and usage', () => {
+    const data = new GeminiConversationSource(dir).loadConversation('chat-1')!
+    expect(data.turns.map((t) => t.actionType)).toEqual(['prompt', 'error', 'write'])
+    expect(data.turns[1].toolCalls).toEqual([
+      { name: 'run_shell_command', id: 'tc1', inputSummary: 'npm run build', resultSummary: 'error TS2304', isError: true },
+    ])
+    expect(data.turns[1]).toMatchObject({ inputTokens: 1000, outputTokens: 250, cacheReadTokens: 4000, thinkingSummary: 'Plan: Run the build first' })
+    expect(data.turns[2].toolCalls[0]).toMatchObject({ inputSummary: '/work/shop/src/index.ts', resultSummary: 'Replaced 1 occurrence.' })
+    expect(data.totalDurationMs).toBe(12_000)
+    expect(data.models).toEqual(['gemini-2.5-pro'])
+  })
+
+  it('skips chats without replies and unreadable files', () => {
+    writeChat('d4e5f6', 'session-empty.json', { sessionId: 'chat-2', messages: [{ id: 'u1', type: 'user', content: 'hi' }] })
+    fs.writeFileSync(path.join(dir, 'd4e5f6', 'chats', 'session-partial.json'), '{"sessionId": "chat-3", "mess')
+    expect(new GeminiConversationSource(dir).listConversations().map((c) => c.id)).toEqual(['chat-1'])
+    expect(new GeminiConversationSource(dir).loadConversation('chat-2')).toBeNull()
+  })
+})
+
 // ── PluginConversationSource tests ──────────────────────────────────────────
 
 describe('PluginConversationSource', () => {
@@ -7,6 +7,8 @@
  */
 
 import { listConversations as listClaudeConversations, parseTimeline } from './timeline-parser'
+import { listDroidConversations, parseDroidTimeline } from './droid-sessions'
+import { listGeminiConversations, parseGeminiTimeline } from './gemini-sessions'
 import { classifyAction } from './timeline-classifier'
 import type { ConversationStore, ConversationEventRecord, ConversationSummaryRow } from '../stores/conversation-store'
 import type {
@@ -87,6 +89,56 @@ export class ClaudeConversationSource implements ConversationSource {
   }
 }
 
+// ── DroidConversationSource ──────────────────────────────────────────────────
+
+/**
+ * Conversation source backed by Droid (Factory.ai) session files on disk.
+ */
+export class DroidConversationSource implements ConversationSource {
+  readonly id = 'droid-jsonl'
+  private baseDir: string | undefined
+
+  /** `baseDir` overrides ~/.factory/sessions (tests). */
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir
+  }
+
+  listConversations(projectSlug?: string): TimelineConversation[] {
+    return listDroidConversations(projectSlug, this.baseDir)
+  }
+
+  loadConversation(conversationId: string): TimelineData | null {
+    const convo = this.listConversations().find((c) => c.id === conversationId)
+    if (!convo) return null
+    return parseDroidTimeline(convo.filePath)
+  }
+}
+
+// ── GeminiConversationSource ─────────────────────────────────────────────────
+
+/**
+ * Conversation source backed by Gemini CLI chat recordings on disk.
+ */
+export class GeminiConversationSource implements ConversationSource {
+  readonly id = 'gemini-json'
+  private baseDir: string | undefined
+
+  /** `baseDir` overrides ~/.gemini/tmp (tests). */
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir
+  }
+
+  listConversations(projectSlug?: string): TimelineConversation[] {
+    return listGeminiConversations(projectSlug, this.baseDir)
+  }
+
+  loadConversation(conversationId: string): TimelineData | null {
+    const convo = this.listConversations().find((c) => c.id === conversationId)
+    if (!convo) return null
+    return parseGeminiTimeline(convo.filePath)
+  }
+}
+
 // ── PluginConversationSource ─────────────────────────────────────────────────
 
 /** Session metadata for plugin source conversations. */
@@ -0,0 +1,351 @@
+/**
+ * @module droid-sessions
+ * @description Reads Droid (Factory.ai) session files for replay and usage.
+ *
+ * Droid keeps each session under ~/.factory/sessions (one directory per
+ * working directory, or flat in older versions) as two files:
+ * - `<id>.jsonl` — a `session_start` line (id, title, cwd) followed by
+ *   `message` lines holding Anthropic-style content blocks (text, thinking,
+ *   tool_use, tool_result)
+ * - `<id>.settings.json` — session settings, including the model and the
+ *   session's cumulative `tokenUsage`
+ *
+ * Droid records tokens per session rather than per message, so timeline
+ * turns carry no token counts; totals come from the settings file.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import os from 'node:os'
+import { classifyAction } from './timeline-classifier'
+import { normalizeModelId, calculateCost } from './pricing'
+import type { TokenUsage } from './pricing'
+import type { TimelineTurn, TimelineToolCall, TimelineConversation, TimelineData } from '../../types'
+
+/** Root directory Droid writes session files to. */
+export function droidSessionsDir(): string {
+  return path.join(os.homedir(), '.factory', 'sessions')
+}
+
+/** The `session_start` line of a session file. */
+export interface DroidSessionStart {
+  id: string
+  title: string | null
+  cwd: string | null
+}
+
+/** Cumulative token usage from a session's settings file. */
+export interface DroidTokenUsage extends TokenUsage {
+  model: string
+}
+
+/** One line of a session file (only the fields read here). */
+interface DroidLine {
+  type?: string
+  id?: unknown
+  title?: unknown
+  cwd?: unknown
+  timestamp?: string
+  message?: { role?: string; content?: unknown }
+}
+
+/** An Anthropic-style content block. */
+interface ContentBlock {
+  type?: string
+  text?: string
+  thinking?: string
+  id?: string
+  name?: string
+  input?: Record<string, unknown>
+  tool_use_id?: string
+  content?: unknown
+  is_error?: boolean
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function summarize(text: string | null | undefined, maxLen = 2000): string | null {
+  if (!text) return null
+  const clean = text.trim()
+  if (!clean) return null
+  return clean.length > maxLen ? clean.slice(0, maxLen) + '…' : clean
+}
+
+function toolInputSummary(name: string, input: Record<string, unknown>): string {
+  if (name === 'Read' || name === 'Create' || name === 'Edit' || name === 'MultiEdit') return String(input.file_path ?? input.path ?? '')
+  if (name === 'LS') return String(input.directory_path ?? input.path ?? '')
+  if (name === 'Glob' || name === 'Grep') return String(input.pattern ?? input.patterns ?? '')
+  if (name === 'Execute') return summarize(String(input.command ?? ''), 120) ?? ''
+  if (name === 'WebSearch') return String(input.query ?? '')
+  if (name === 'FetchUrl') return String(input.url ?? '')
+  for (const v of Object.values(input)) {
+    if (typeof v === 'string' && v.length > 0) return summarize(v, 120) ?? ''
+  }
+  return ''
+}
+
+function blocks(content: unknown): ContentBlock[] {
+  return Array.isArray(content) ? content.filter((b): b is ContentBlock => !!b && typeof b === 'object') : []
+}
+
+function blockText(content: unknown): string {
+  if (typeof content === 'string') return content
+  return blocks(content)
+    .filter((b) => b.type === 'text' && typeof b.text === 'string')
+    .map((b) => b.text)
+    .join('\n')
+}
+
+function readLines(filePath: string): DroidLine[] {
+  const entries: DroidLine[] = []
+  for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+    if (!line.trim()) continue
+    try { entries.push(JSON.parse(line)) } catch { /* partial line mid-write */ }
+  }
+  return entries
+}
+
+/** Read the `session_start` line of a session file, or null if it has none. */
+export function readDroidSessionStart(filePath: string): DroidSessionStart | null {
+  let first = ''
+  try {
+    const fd = fs.openSync(filePath, 'r')
+    try {
+      const buf = Buffer.alloc(16 * 1024)
+      const n = fs.readSync(fd, buf, 0, buf.length, 0)
+      first = buf.subarray(0, n).toString('utf8').split('\n')[0]
+    } finally {
+      fs.closeSync(fd)
+    }
+  } catch {
+    return null
+  }
+  let obj: DroidLine
+  try { obj = JSON.parse(first) } catch { return null }
+  if (obj?.type !== 'session_start') return null
+  return {
+    id: String(obj.id ?? path.basename(filePath, '.jsonl')),
+    title: typeof obj.title === 'string' ? obj.title : null,
+    cwd: typeof obj.cwd === 'string' ? obj.cwd : null,
+  }
+}
+
+/** Settings file written next to a session's `.jsonl`. */
+export function droidSettingsPath(sessionFile: string): string {
+  return sessionFile.replace(/\.jsonl$/, '.settings.json')
+}
+
+/** Read a session's cumulative token usage, or null if none is recorded. */
+export function readDroidTokenUsage(settingsPath: string): DroidTokenUsage | null {
+  let obj: { model?: unknown; tokenUsage?: Record<string, unknown> }
+  try { obj = JSON.parse(fs.readFileSync(settingsPath, 'utf8')) } catch { return null }
+  const usage = obj?.tokenUsage
+  if (!usage || typeof usage !== 'object') return null
+  return {
+    model: typeof obj.model === 'string' && obj.model ? obj.model : 'unknown',
+    inputTokens: Number(usage.inputTokens) || 0,
+    // Droid counts reasoning separately; it is billed as output
+    outputTokens: (Number(usage.outputTokens) || 0) + (Number(usage.thinkingTokens) || 0),
+    cacheWriteTokens: Number(usage.cacheCreationTokens) || 0,
+    cacheReadTokens: Number(usage.cacheReadTokens) || 0,
+  }
+}
+
+function usageTotals(settingsPath: string): { model: string | null; totalTokens: number; totalCostUsd: number } {
+  const usage = readDroidTokenUsage(settingsPath)
+  if (!usage) return { model: null, totalTokens: 0, totalCostUsd: 0 }
+  return {
+    model: usage.model,
+    totalTokens: usage.inputTokens + usage.outputTokens + usage.cacheWriteTokens + usage.cacheReadTokens,
+    totalCostUsd: calculateCost(usage, usage.model),
+  }
+}
+
+// ── Conversation listing ────────────────────────────────────────────────────
+
+/** Every session file under the sessions root, paired with its project slug. */
+export function droidSessionFiles(baseDir = droidSessionsDir(), projectSlug?: string): { filePath: string; slug: string }[] {
+  const found: { filePath: string; slug: string }[] = []
+  let entries: fs.Dirent[]
+  try { entries = fs.readdirSync(baseDir, { withFileTypes: true }) } catch { return found }
+
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+      if (!projectSlug) found.push({ filePath: path.join(baseDir, entry.name), slug: '' })
+      continue
+    }
+    if (!entry.isDirectory() || (projectSlug && entry.name !== projectSlug)) continue
+    let files: string[]
+    try { files = fs.readdirSync(path.join(baseDir, entry.name)) } catch { continue }
+    for (const file of files) {
+      if (file.endsWith('.jsonl')) found.push({ filePath: path.join(baseDir, entry.name, file), slug: entry.name })
+    }
+  }
+  return found
+}
+
+function projectNameOf(start: DroidSessionStart | null, slug: string): string {
+  if (start?.cwd) return path.basename(start.cwd)
+  return slug.replace(/^-/, '').split('-').pop() || 'Droid'
+}
+
+/** List Droid sessions, optionally filtered to one project directory. */
+export function listDroidConversations(projectSlug?: string, baseDir = droidSessionsDir()): TimelineConversation[] {
+  const conversations: TimelineConversation[] = []
+
+  for (const { filePath, slug } of droidSessionFiles(baseDir, projectSlug)) {
+    try {
+      const stat = fs.statSync(filePath)
+      const start = readDroidSessionStart(filePath)
+      let promptPreview: string | null = null
+      let turnCount = 0
+      for (const obj of readLines(filePath)) {
+        if (obj.type !== 'message' || !obj.message) continue
+        const role = obj.message.role
+        if (role === 'assistant') turnCount++
+        if (!promptPreview && role === 'user') {
+          const text = blockText(obj.message.content).trim().replace(/\n+/g, ' ')
+          if (text) promptPreview = text.length > 140 ? text.slice(0, 140) + '…' : text
+        }
+      }
+      if (!turnCount) continue
+      const { totalTokens, totalCostUsd } = usageTotals(droidSettingsPath(filePath))
+      conversations.push({
+        id: start?.id ?? path.basename(filePath, '.jsonl'),
+        filePath,
+        projectSlug: slug || 'droid',
+        projectName: projectNameOf(start, slug),
+        lastModified: stat.mtime.toISOString(),
+        sizeBytes: stat.size,
+        promptPreview: promptPreview ?? start?.title ?? null,
+        totalCostUsd,
+        totalTokens,
+        turnCount,
+        sourceId: 'droid-jsonl',
+        harnessId: 'droid',
+      })
+    } catch { continue }
+  }
+
+  conversations.sort((a, b) => b.lastModified.localeCompare(a.lastModified))
+  return conversations
+}
+
+// ── Timeline parsing ────────────────────────────────────────────────────────
+
+function emptyTurn(timestamp: string): TimelineTurn {
+  return {
+    index: -1,
+    requestId: null,
+    timestamp,
+    durationMs: null,
+    model: '',
+    stopReason: null,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    thinkingSummary: null,
+    textSummary: null,
+    toolCalls: [],
+    actionType: 'respond',
+  }
+}
+
+/** Parse a Droid session file into timeline data. */
+export function parseDroidTimeline(filePath: string): TimelineData {
+  const start = readDroidSessionStart(filePath)
+  const { model, totalTokens, totalCostUsd } = usageTotals(droidSettingsPath(filePath))
+  const normalizedModel = model ? normalizeModelId(model) : ''
+
+  // Tool results arrive in the following user message — collect them first.
+  const messages = readLines(filePath).filter((obj) => obj.type === 'message' && obj.message)
+  const results = new Map<string, { content: string; isError: boolean }>()
+  for (const obj of messages) {
+    if (obj.message!.role !== 'user') continue
+    for (const block of blocks(obj.message!.content)) {
+      if (block.type !== 'tool_result' || !block.tool_use_id) continue
+      results.set(block.tool_use_id, { content: blockText(block.content), isError: block.is_error === true })
+    }
+  }
+
+  const turns: TimelineTurn[] = []
+  for (const obj of messages) {
+    const msg = obj.message!
+    const timestamp = obj.timestamp ?? new Date().toISOString()
+
+    if (msg.role === 'user') {
+      const text = summarize(blockText(msg.content))
+      if (text) turns.push({ ...emptyTurn(timestamp), textSummary: text, actionType: 'prompt' })
+      continue
+    }
+    if (msg.role !== 'assistant') continue
+
+    let thinkingText: string | null = null
+    let responseText: string | null = null
+    const toolCalls: TimelineToolCall[] = []
+    for (const block of blocks(msg.content)) {
+      if (block.type === 'thinking' && block.thinking) thinkingText = block.thinking
+      else if (block.type === 'text' && block.text) responseText = block.text
+      else if (block.type === 'tool_use') {
+        const result = block.id ? results.get(block.id) : undefined
+        toolCalls.push({
+          name: block.name ?? 'unknown',
+          id: block.id ?? '',
+          inputSummary: toolInputSummary(block.name ?? '', block.input ?? {}),
+          resultSummary: result ? summarize(result.content, 2000) : null,
+          isError: result?.isError ?? false,
+        })
+      }
+    }
+
+    turns.push({
+      ...emptyTurn(timestamp),
+      model: normalizedModel,
+      thinkingSummary: summarize(thinkingText),
+      textSummary: summarize(responseText),
+      toolCalls,
+      actionType: classifyAction(toolCalls[0]?.name ?? null, toolCalls.some((tc) => tc.isError)),
+    })
+  }
+
+  turns.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (let i = 0; i < turns.length; i++) {
+    turns[i].index = i
+    if (i < turns.length - 1) {
+      const gap = new Date(turns[i + 1].timestamp).getTime() - new Date(turns[i].timestamp).getTime()
+      turns[i].durationMs = gap >= 0 ? gap : null
+    }
+  }
+
+  const totalDurationMs = turns.length >= 2
+    ? new Date(turns[turns.length - 1].timestamp).getTime() - new Date(turns[0].timestamp).getTime()
+    : 0
+
+  let fileStat: fs.Stats | null = null
+  try { fileStat = fs.statSync(filePath) } catch { /* ignore */ }
+  const slug = path.basename(path.dirname(filePath))
+
+  return {
+    conversation: {
+      id: start?.id ?? path.basename(filePath, '.jsonl'),
+      filePath,
+      projectSlug: slug,
+      projectName: projectNameOf(start, slug),
+      lastModified: fileStat?.mtime.toISOString() ?? new Date().toISOString(),
+      sizeBytes: fileStat?.size ?? 0,
+      promptPreview: start?.title ?? null,
+      totalCostUsd,
+      totalTokens,
+      turnCount: turns.length,
+      sourceId: 'droid-jsonl',
+      harnessId: 'droid',
+    },
+    turns,
+    totalCostUsd,
+    totalDurationMs,
+    turnCount: turns.length,
+    models: normalizedModel ? [normalizedModel] : [],
+  }
+}
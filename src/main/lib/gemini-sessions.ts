@@ -0,0 +1,315 @@
+/**
+ * @module gemini-sessions
+ * @description Reads Gemini CLI chat recordings for replay and usage.
+ *
+ * Gemini CLI records each chat as one JSON file under
+ * ~/.gemini/tmp/<project>/chats/session-*.json, where <project> is the
+ * SHA-256 of the project root (newer releases also write the root itself to
+ * `<project>/.project_root`). The file is rewritten as the chat grows and
+ * holds a `messages` array:
+ * - `user` messages — the prompt (string or Gemini parts)
+ * - `gemini` messages — the reply, its thoughts, the tool calls it made
+ *   (with their results inline), the model, and per-message `tokens`
+ * - `info` / `error` / `warning` messages — CLI notices, skipped here
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import os from 'node:os'
+import crypto from 'node:crypto'
+import { classifyAction } from './timeline-classifier'
+import { normalizeModelId, calculateCost } from './pricing'
+import type { TokenUsage } from './pricing'
+import type { TimelineTurn, TimelineToolCall, TimelineConversation, TimelineData } from '../../types'
+
+/** Root directory Gemini CLI writes per-project data (and chats) to. */
+export function geminiTmpDir(): string {
+  return path.join(os.homedir(), '.gemini', 'tmp')
+}
+
+/** Directory name Gemini CLI uses for a project root. */
+export function geminiProjectHash(projectRoot: string): string {
+  return crypto.createHash('sha256').update(projectRoot).digest('hex')
+}
+
+/** A tool call recorded on a `gemini` message (only the fields read here). */
+interface GeminiToolCall {
+  id?: string
+  name?: string
+  args?: Record<string, unknown>
+  result?: unknown
+  resultDisplay?: unknown
+  status?: string
+}
+
+/** One recorded message (only the fields read here). */
+export interface GeminiMessage {
+  id?: string
+  timestamp?: string
+  type?: string
+  content?: unknown
+  thoughts?: { subject?: string; description?: string }[]
+  tokens?: { input?: number; output?: number; cached?: number; thoughts?: number; tool?: number }
+  model?: string
+  toolCalls?: GeminiToolCall[]
+}
+
+/** A chat recording file. */
+export interface GeminiSession {
+  sessionId?: string
+  projectHash?: string
+  startTime?: string
+  lastUpdated?: string
+  messages?: GeminiMessage[]
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function summarize(text: string | null | undefined, maxLen = 2000): string | null {
+  if (!text) return null
+  const clean = text.trim()
+  if (!clean) return null
+  return clean.length > maxLen ? clean.slice(0, maxLen) + '…' : clean
+}
+
+function toolInputSummary(name: string, args: Record<string, unknown>): string {
+  if (name === 'read_file' || name === 'write_file' || name === 'replace') return String(args.file_path ?? args.absolute_path ?? '')
+  if (name === 'list_directory') return String(args.dir_path ?? args.path ?? '')
+  if (name === 'glob' || name === 'search_file_content') return String(args.pattern ?? '')
+  if (name === 'run_shell_command') return summarize(String(args.command ?? ''), 120) ?? ''
+  if (name === 'google_web_search') return String(args.query ?? '')
+  if (name === 'web_fetch') return summarize(String(args.prompt ?? ''), 120) ?? ''
+  for (const v of Object.values(args)) {
+    if (typeof v === 'string' && v.length > 0) return summarize(v, 120) ?? ''
+  }
+  return ''
+}
+
+/** Text of a message's content: a string, or Gemini parts with `text`. */
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .map((part) => (part && typeof part === 'object' && typeof (part as { text?: unknown }).text === 'string' ? (part as { text: string }).text : ''))
+    .filter(Boolean)
+    .join('\n')
+}
+
+/** Readable result of a tool call: its display text, or the functionResponse output. */
+function toolResultText(call: GeminiToolCall): string {
+  if (typeof call.resultDisplay === 'string') return call.resultDisplay
+  if (!Array.isArray(call.result)) return ''
+  for (const part of call.result) {
+    const response = (part as { functionResponse?: { response?: Record<string, unknown> } })?.functionResponse?.response
+    if (!response) continue
+    const out = response.output ?? response.error
+    if (typeof out === 'string') return out
+  }
+  return ''
+}
+
+/** Read a chat recording, or null if it is missing or mid-write. */
+export function readGeminiSession(filePath: string): GeminiSession | null {
+  try {
+    const obj = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    return obj && typeof obj === 'object' ? obj as GeminiSession : null
+  } catch {
+    return null
+  }
+}
+
+/** Billable token usage of a `gemini` message, or null if it records none. */
+export function geminiMessageUsage(msg: GeminiMessage): TokenUsage | null {
+  const t = msg.tokens
+  if (msg.type !== 'gemini' || !t) return null
+  const cached = Number(t.cached) || 0
+  return {
+    // Gemini counts cached tokens inside the prompt total; tool-use prompt tokens are input too
+    inputTokens: Math.max((Number(t.input) || 0) - cached, 0) + (Number(t.tool) || 0),
+    // Thoughts are billed as output
+    outputTokens: (Number(t.output) || 0) + (Number(t.thoughts) || 0),
+    cacheWriteTokens: 0,
+    cacheReadTokens: cached,
+  }
+}
+
+function usageTotals(messages: GeminiMessage[]): { models: string[]; totalTokens: number; totalCostUsd: number } {
+  const models = new Set<string>()
+  let totalTokens = 0
+  let totalCostUsd = 0
+  for (const msg of messages) {
+    const usage = geminiMessageUsage(msg)
+    if (!usage) continue
+    const model = msg.model || 'unknown'
+    if (msg.model) models.add(normalizeModelId(msg.model))
+    totalTokens += usage.inputTokens + usage.outputTokens + usage.cacheReadTokens
+    totalCostUsd += calculateCost(usage, model)
+  }
+  return { models: [...models], totalTokens, totalCostUsd: Math.round(totalCostUsd * 1_000_000) / 1_000_000 }
+}
+
+// ── Conversation listing ────────────────────────────────────────────────────
+
+/** Every chat recording under the tmp root, paired with its project directory name. */
+export function geminiSessionFiles(baseDir = geminiTmpDir(), projectSlug?: string): { filePath: string; slug: string }[] {
+  const found: { filePath: string; slug: string }[] = []
+  let entries: fs.Dirent[]
+  try { entries = fs.readdirSync(baseDir, { withFileTypes: true }) } catch { return found }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || (projectSlug && entry.name !== projectSlug)) continue
+    const chatsDir = path.join(baseDir, entry.name, 'chats')
+    let files: string[]
+    try { files = fs.readdirSync(chatsDir) } catch { continue }
+    for (const file of files) {
+      if (file.startsWith('session-') && file.endsWith('.json')) found.push({ filePath: path.join(chatsDir, file), slug: entry.name })
+    }
+  }
+  return found
+}
+
+/** Project directory name (`<project>`) a chat recording lives under. */
+export function geminiProjectSlug(filePath: string): string {
+  return path.basename(path.dirname(path.dirname(filePath)))
+}
+
+function projectNameOf(filePath: string): string {
+  try {
+    const root = fs.readFileSync(path.join(path.dirname(path.dirname(filePath)), '.project_root'), 'utf8').trim()
+    if (root) return path.basename(root)
+  } catch { /* older releases only keep the hash */ }
+  return 'Gemini CLI'
+}
+
+function conversationOf(filePath: string, session: GeminiSession, stat: fs.Stats | null, turnCount: number): TimelineConversation {
+  const messages = session.messages ?? []
+  const { totalTokens, totalCostUsd } = usageTotals(messages)
+  const prompt = messages.find((m) => m.type === 'user' && contentText(m.content).trim())
+  const promptText = prompt ? contentText(prompt.content).trim().replace(/\n+/g, ' ') : ''
+  return {
+    id: session.sessionId ?? path.basename(filePath, '.json'),
+    filePath,
+    projectSlug: geminiProjectSlug(filePath),
+    projectName: projectNameOf(filePath),
+    lastModified: session.lastUpdated ?? stat?.mtime.toISOString() ?? new Date().toISOString(),
+    sizeBytes: stat?.size ?? 0,
+    promptPreview: promptText ? (promptText.length > 140 ? promptText.slice(0, 140) + '…' : promptText) : null,
+    totalCostUsd,
+    totalTokens,
+    turnCount,
+    sourceId: 'gemini-json',
+    harnessId: 'gemini',
+  }
+}
+
+/** List Gemini CLI chats, optionally filtered to one project directory. */
+export function listGeminiConversations(projectSlug?: string, baseDir = geminiTmpDir()): TimelineConversation[] {
+  const conversations: TimelineConversation[] = []
+
+  for (const { filePath } of geminiSessionFiles(baseDir, projectSlug)) {
+    try {
+      const session = readGeminiSession(filePath)
+      if (!session) continue
+      const turnCount = (session.messages ?? []).filter((m) => m.type === 'gemini').length
+      if (!turnCount) continue
+      conversations.push(conversationOf(filePath, session, fs.statSync(filePath), turnCount))
+    } catch { continue }
+  }
+
+  conversations.sort((a, b) => b.lastModified.localeCompare(a.lastModified))
+  return conversations
+}
+
+// ── Timeline parsing ────────────────────────────────────────────────────────
+
+function emptyTurn(timestamp: string): TimelineTurn {
+  return {
+    index: -1,
+    requestId: null,
+    timestamp,
+    durationMs: null,
+    model: '',
+    stopReason: null,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    thinkingSummary: null,
+    textSummary: null,
+    toolCalls: [],
+    actionType: 'respond',
+  }
+}
+
+/** Parse a Gemini CLI chat recording into timeline data, or null if unreadable. */
+export function parseGeminiTimeline(filePath: string): TimelineData | null {
+  const session = readGeminiSession(filePath)
+  if (!session) return null
+  const { models, totalCostUsd } = usageTotals(session.messages ?? [])
+
+  const turns: TimelineTurn[] = []
+  for (const msg of session.messages ?? []) {
+    const timestamp = msg.timestamp ?? session.startTime ?? new Date().toISOString()
+
+    if (msg.type === 'user') {
+      const text = summarize(contentText(msg.content))
+      if (text) turns.push({ ...emptyTurn(timestamp), textSummary: text, actionType: 'prompt' })
+      continue
+    }
+    if (msg.type !== 'gemini') continue
+
+    const toolCalls: TimelineToolCall[] = (msg.toolCalls ?? []).map((call) => ({
+      name: call.name ?? 'unknown',
+      id: call.id ?? '',
+      inputSummary: toolInputSummary(call.name ?? '', call.args ?? {}),
+      resultSummary: summarize(toolResultText(call)),
+      isError: call.status === 'error',
+    }))
+    const thinking = (msg.thoughts ?? [])
+      .map((t) => [t.subject, t.description].filter(Boolean).join(': '))
+      .filter(Boolean)
+      .join('\n')
+    const usage = geminiMessageUsage(msg)
+    const model = msg.model ? normalizeModelId(msg.model) : ''
+
+    turns.push({
+      ...emptyTurn(timestamp),
+      requestId: msg.id ?? null,
+      model,
+      costUsd: usage ? calculateCost(usage, msg.model || 'unknown') : 0,
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+      cacheReadTokens: usage?.cacheReadTokens ?? 0,
+      thinkingSummary: summarize(thinking),
+      textSummary: summarize(contentText(msg.content)),
+      toolCalls,
+      actionType: classifyAction(toolCalls[0]?.name ?? null, toolCalls.some((tc) => tc.isError)),
+    })
+  }
+
+  turns.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (let i = 0; i < turns.length; i++) {
+    turns[i].index = i
+    if (i < turns.length - 1) {
+      const gap = new Date(turns[i + 1].timestamp).getTime() - new Date(turns[i].timestamp).getTime()
+      turns[i].durationMs = gap >= 0 ? gap : null
+    }
+  }
+
+  const totalDurationMs = turns.length >= 2
+    ? new Date(turns[turns.length - 1].timestamp).getTime() - new Date(turns[0].timestamp).getTime()
+    : 0
+
+  let fileStat: fs.Stats | null = null
+  try { fileStat = fs.statSync(filePath) } catch { /* ignore */ }
+
+  return {
+    conversation: conversationOf(filePath, session, fileStat, turns.length),
+    turns,
+    totalCostUsd,
+    totalDurationMs,
+    turnCount: turns.length,
+    models,
+  }
+}
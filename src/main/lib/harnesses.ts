@@ -12,6 +12,7 @@ const HARNESS_DEFINITIONS = [
   { id: 'codex',    label: 'Codex',       dotDir: '.codex',    commands: ['codex'],                 url: 'https://openai.com/codex' },
   { id: 'openclaw', label: 'OpenClaw',    dotDir: '.openclaw', commands: ['openclaw'],              url: '' },
   { id: 'droid',    label: 'Droid',       dotDir: '.factory',  commands: ['droid'],                 url: 'https://droid.dev' },
+  { id: 'gemini',   label: 'Gemini CLI',  dotDir: '.gemini',   commands: ['gemini'],                url: 'https://github.com/google-gemini/gemini-cli' },
 ]
 
 async function pathExists(target: string): Promise<boolean> {
@@ -56,14 +56,74 @@ export const SessionUpdateSchema = z.object({
 
 // ── Policies ─────────────────────────────────────────────────────────────────
 
+export const PolicyTestCaseSchema = z.object({
+  name: z.string().max(500).optional(),
+  harness: z.string().min(1).max(100),
+  toolName: z.string().min(1).max(500),
+  toolInput: z.record(z.string(), z.unknown()),
+  workspaceRoot: z.string().max(4096).optional(),
+  expect: z.enum(['allow', 'prompt', 'deny']),
+})
+
 export const PolicySaveSchema = z.object({
   id: z.string().min(1).max(200),
   name: z.string().min(1).max(500),
   description: z.string().max(5000).optional(),
   permissions: z.object({}).passthrough(),
   harnesses: z.object({}).passthrough(),
+  extends: z.array(z.string().min(1).max(200)).optional(),
+  fragments: z.array(z.string().min(1).max(200)).optional(),
+  tests: z.array(PolicyTestCaseSchema).optional(),
+  mode: z.enum(['enforce', 'audit']).optional(),
 }).passthrough()
 
+export const PolicyRevisionSchema = z.object({
+  id: z.string().min(1).max(200),
+  revision: z.number().int().min(1),
+})
+
+export const PolicyDiffSchema = z.object({
+  id: z.string().min(1).max(200),
+  from: z.number().int().min(1),
+  to: z.number().int().min(1),
+})
+
+export const PolicySimulateSchema = z.object({
+  policy: PolicySaveSchema,
+  /** Revision to compare against; null = policy absent; omitted = stored version. */
+  baselineRevision: z.number().int().min(1).nullable().optional(),
+  sessionId: z.string().min(1).max(200).optional(),
+  limit: z.number().int().min(1).max(10_000).optional(),
+})
+
+export const PolicyLintSchema = z.object({
+  policy: PolicySaveSchema,
+})
+
+export const PolicyResolveSchema = z.object({
+  policy: PolicySaveSchema,
+})
+
+export const PolicyTestSchema = z.object({
+  policy: PolicySaveSchema,
+})
+
+export const PolicyLearnSchema = z.object({
+  sessionIds: z.array(z.string().min(1).max(200)).min(1).max(50),
+})
+
+export const PolicyImportNativeSchema = z.object({
+  dir: z.string().min(1).max(4096).optional(),
+})
+
+export const PolicyExportSchema = z.object({
+  id: z.string().min(1).max(200),
+})
+
+export const RepoPolicySchema = z.object({
+  repoRoot: z.string().min(1).max(4096),
+})
+
 // ── Skills ───────────────────────────────────────────────────────────────────
 
 export const SkillSaveSchema = z.object({
@@ -77,6 +137,11 @@ export const SkillSaveSchema = z.object({
 
 // ── MCP Servers ──────────────────────────────────────────────────────────────
 
+const ToolClassificationSchema = z.object({
+  actionClass: z.enum(['read', 'write', 'execute', 'send']),
+  risk: z.enum(['low', 'medium', 'high']),
+})
+
 export const McpSaveSchema = z.object({
   id: z.string().min(1).max(200),
   name: z.string().min(1).max(500),
@@ -86,6 +151,7 @@ export const McpSaveSchema = z.object({
   args: z.array(z.string().max(2048)).max(50).optional(),
   tools: z.array(z.string().max(200)).max(500).optional(),
   toolDescriptions: z.record(z.string(), z.string().max(2000)).optional(),
+  toolClassifications: z.record(z.string(), ToolClassificationSchema).optional(),
   env: z.record(z.string(), z.string().max(10000)).optional(),
   url: z.string().max(2048).optional(),
   headers: z.record(z.string(), z.string().max(10000)).optional(),
@@ -95,6 +161,12 @@ export const McpSaveSchema = z.object({
   catalogId: z.string().max(200).nullable().optional(),
 }).passthrough()
 
+export const McpClassifySchema = z.object({
+  server: z.string().min(1).max(500),
+  tools: z.array(z.string().max(200)).max(500),
+  toolDescriptions: z.record(z.string(), z.string().max(2000)).optional(),
+})
+
 // ── Agents ───────────────────────────────────────────────────────────────────
 
 export const AgentsReadSchema = z.object({
@@ -148,6 +220,24 @@ export const DockerStartSchema = z.object({
   })).max(20).optional(),
 })
 
+// ── Activity ─────────────────────────────────────────────────────────────────
+
+export const ActivityListSchema = z.object({
+  sessionId: z.string().min(1).max(200).optional(),
+  toolName: z.string().min(1).max(200).optional(),
+  decision: z.enum(['allow', 'deny', 'ask']).optional(),
+  path: z.string().min(1).max(1024).optional(),
+  text: z.string().max(500).optional(),
+  since: z.string().max(40).optional(),
+  until: z.string().max(40).optional(),
+  limit: z.number().int().min(1).max(10_000).optional(),
+  offset: z.number().int().min(0).optional(),
+})
+
+export const ActivityTraceSchema = z.object({
+  id: z.string().min(1).max(200),
+})
+
 // ── Authz ────────────────────────────────────────────────────────────────────
 
 export const AuthzRegisterSchema = z.object({
@@ -155,6 +245,30 @@ export const AuthzRegisterSchema = z.object({
   harnessId: z.string().min(1).max(100),
   policyIds: z.array(z.string().min(1).max(200)),
   policyOverride: z.any().nullable().optional(),
+  workspaceRoot: z.string().max(4096).nullable().optional(),
+})
+
+export const AuthzQuotasSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+})
+
+export const ConfigTamperRespondSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+  action: z.enum(['resume', 'kill']),
+})
+
+export const ApprovalResolveSchema = z.object({
+  id: z.string().min(1).max(200),
+  decision: z.enum(['approve', 'deny']),
+  scope: z.enum(['once', 'exact', 'session', 'project']).optional(),
+})
+
+export const GrantListSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+})
+
+export const GrantRevokeSchema = z.object({
+  id: z.string().min(1).max(200),
 })
 
 // ── Git ─────────────────────────────────────────────────────────────────
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { LatencyWindow } from './latency-stats'
+
+describe('LatencyWindow', () => {
+  it('reports nearest-rank percentiles', () => {
+    const window = new LatencyWindow()
+    for (let ms = 1; ms <= 100; ms++) window.record(ms)
+    expect(window.summary()).toEqual({ count: 100, windowSize: 100, p50Ms: 50, p95Ms: 95, p99Ms: 99, maxMs: 100 })
+  })
+
+  it('keeps only the most recent samples', () => {
+    const window = new LatencyWindow(3)
+    for (const ms of [100, 1, 2, 3]) window.record(ms)
+    expect(window.summary()).toMatchObject({ count: 4, windowSize: 3, maxMs: 3 })
+  })
+
+  it('is all zeros when empty', () => {
+    expect(new LatencyWindow().summary().p99Ms).toBe(0)
+  })
+})
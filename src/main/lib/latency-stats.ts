@@ -0,0 +1,47 @@
+/**
+ * @module latency-stats
+ * @description Fixed-size rolling window of latency samples with percentile
+ * summaries. Cheap to record into on a hot path; sorting happens only when a
+ * summary is requested.
+ */
+
+import type { LatencySummary } from '../../types'
+
+const DEFAULT_CAPACITY = 1_000
+
+export class LatencyWindow {
+  private samples: number[] = []
+  private next = 0
+  private count = 0
+  private capacity: number
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.capacity = capacity
+  }
+
+  /** Record one sample in milliseconds, overwriting the oldest when full. */
+  record(ms: number): void {
+    if (this.samples.length < this.capacity) this.samples.push(ms)
+    else this.samples[this.next] = ms
+    this.next = (this.next + 1) % this.capacity
+    this.count++
+  }
+
+  /** Nearest-rank percentiles over the window, rounded to 0.01 ms. */
+  summary(): LatencySummary {
+    const sorted = [...this.samples].sort((a, b) => a - b)
+    const rank = (q: number): number => {
+      if (!sorted.length) return 0
+      const value = sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)]
+      return Math.round(value * 100) / 100
+    }
+    return {
+      count: this.count,
+      windowSize: sorted.length,
+      p50Ms: rank(0.5),
+      p95Ms: rank(0.95),
+      p99Ms: rank(0.99),
+      maxMs: rank(1),
+    }
+  }
+}
@@ -147,3 +147,46 @@ export function scanForLeaks(
 
   return matches
 }
+
+/**
+ * Mask credential patterns in a string, replacing each match with its
+ * redacted preview. Only the named patterns are applied: the entropy check
+ * also fires on long paths and identifiers, which would make stored tool
+ * inputs unsearchable.
+ */
+export function redactLeaks(text: string): string {
+  let out = text
+  for (const pat of PATTERNS) {
+    pat.regex.lastIndex = 0
+    out = out.replace(pat.regex, (m) => pat.redact(m))
+  }
+  return out
+}
+
+/** Where a named credential pattern matched in a string. */
+export interface LeakLocation {
+  kind: string
+  start: number
+  end: number
+}
+
+/**
+ * Locate named credential patterns in a string. As with `redactLeaks`, the
+ * entropy check is left out: request bodies are full of ids and encoded data.
+ */
+export function locateLeaks(text: string): LeakLocation[] {
+  const found: LeakLocation[] = []
+  for (const pat of PATTERNS) {
+    pat.regex.lastIndex = 0
+    let m: RegExpExecArray | null
+    while ((m = pat.regex.exec(text)) !== null) {
+      found.push({ kind: pat.kind, start: m.index, end: m.index + m[0].length })
+    }
+  }
+  return found
+}
+
+/** Source and flags of each named pattern, for scanners that keep matches whole across chunks. */
+export function leakPatternSources(): { pattern: string; flags: string }[] {
+  return PATTERNS.map((pat) => ({ pattern: pat.regex.source, flags: pat.regex.flags }))
+}
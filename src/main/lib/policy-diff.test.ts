@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { diffPolicies } from './policy-diff'
+import type { PolicyDocument } from '../../types'
+
+function makePolicy(overrides: Partial<PolicyDocument> = {}): PolicyDocument {
+  return {
+    id: 'test',
+    name: 'Test',
+    description: '',
+    permissions: {
+      allowBash: true,
+      allowNetwork: true,
+      allowFileWrite: true,
+      confirmDestructive: true,
+      blockedGlobs: [],
+    },
+    harnesses: {},
+    ...overrides,
+  }
+}
+
+describe('diffPolicies', () => {
+  it('returns no changes for identical policies', () => {
+    expect(diffPolicies(makePolicy(), makePolicy())).toEqual([])
+  })
+
+  it('reports permission flag changes', () => {
+    const after = makePolicy({ permissions: { ...makePolicy().permissions, allowNetwork: false } })
+    expect(diffPolicies(makePolicy(), after)).toEqual([
+      { section: 'permissions', key: 'allowNetwork', kind: 'changed', before: true, after: false },
+    ])
+  })
+
+  it('keys command rules by pattern and ignores reordering', () => {
+    const a = { pattern: '^sudo', decision: 'deny' as const }
+    const b = { pattern: 'curl', decision: 'prompt' as const }
+    const before = makePolicy({ permissions: { ...makePolicy().permissions, commandRules: [a, b] } })
+    const reordered = makePolicy({ permissions: { ...makePolicy().permissions, commandRules: [b, a] } })
+    expect(diffPolicies(before, reordered)).toEqual([])
+
+    const loosened = makePolicy({ permissions: { ...makePolicy().permissions, commandRules: [{ ...b, decision: 'allow' }] } })
+    expect(diffPolicies(before, loosened)).toEqual([
+      { section: 'commandRules', key: '^sudo', kind: 'removed', before: a },
+      { section: 'commandRules', key: 'curl', kind: 'changed', before: b, after: { ...b, decision: 'allow' } },
+    ])
+  })
+
+  it('reports per-harness tool and MCP server rules', () => {
+    const before = makePolicy({ harnesses: { claude: { toolRules: [{ pattern: 'Bash', decision: 'deny' }] } } })
+    const after = makePolicy({
+      harnesses: {
+        claude: { toolRules: [{ pattern: 'Bash', decision: 'prompt' }] },
+        codex: { mcpServerRules: [{ server: 'github', decision: 'allow' }], sandbox: 'strict' },
+      },
+    })
+    expect(diffPolicies(before, after)).toEqual([
+      { section: 'toolRules', harness: 'claude', key: 'Bash', kind: 'changed',
+        before: { pattern: 'Bash', decision: 'deny' }, after: { pattern: 'Bash', decision: 'prompt' } },
+      { section: 'mcpServerRules', harness: 'codex', key: 'github', kind: 'added',
+        after: { server: 'github', decision: 'allow' } },
+      { section: 'harness', harness: 'codex', key: 'sandbox', kind: 'added', after: 'strict' },
+    ])
+  })
+})
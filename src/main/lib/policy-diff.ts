@@ -0,0 +1,126 @@
+/**
+ * @module policy-diff
+ * @description Structured diff between two PolicyDocument snapshots.
+ *
+ * Rules are keyed by their identity (command/tool pattern plus any argument
+ * predicates, MCP server name, glob string) so reordering a list is not reported as a change; only rules
+ * that were added, removed, or had their decision/reason edited show up.
+ */
+
+import type {
+  PolicyDocument,
+  PolicyDiffChange,
+  PolicyDiffSection,
+  HarnessesConfig,
+} from '../../types'
+import { canonicalJsonStringify } from './canonical-json'
+import { describeToolRule } from './tool-predicates'
+import { quotaKey } from './quotas'
+
+type HarnessKey = keyof HarnessesConfig
+
+const PERMISSION_FLAGS = ['allowBash', 'allowNetwork', 'allowFileWrite', 'confirmDestructive'] as const
+
+/** Harness fields that get rule-level diffs; everything else is compared as a whole value. */
+const HARNESS_RULE_FIELDS = new Set(['toolRules', 'mcpServerRules'])
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return canonicalJsonStringify(a) === canonicalJsonStringify(b)
+}
+
+/** Diff two keyed lists, emitting added / removed / changed entries. */
+function diffKeyed<T>(
+  section: PolicyDiffSection,
+  before: T[] | undefined,
+  after: T[] | undefined,
+  keyOf: (item: T) => string,
+  harness?: HarnessKey,
+): PolicyDiffChange[] {
+  const changes: PolicyDiffChange[] = []
+  const beforeMap = new Map((before ?? []).map((item) => [keyOf(item), item]))
+  const afterMap  = new Map((after ?? []).map((item) => [keyOf(item), item]))
+  const base = harness ? { section, harness } : { section }
+
+  for (const [key, prev] of beforeMap) {
+    const next = afterMap.get(key)
+    if (next === undefined) {
+      changes.push({ ...base, key, kind: 'removed', before: prev })
+    } else if (!sameValue(prev, next)) {
+      changes.push({ ...base, key, kind: 'changed', before: prev, after: next })
+    }
+  }
+  for (const [key, next] of afterMap) {
+    if (!beforeMap.has(key)) changes.push({ ...base, key, kind: 'added', after: next })
+  }
+  return changes
+}
+
+/** Diff a single scalar / object value. */
+function diffValue(
+  section: PolicyDiffSection,
+  key: string,
+  before: unknown,
+  after: unknown,
+  harness?: HarnessKey,
+): PolicyDiffChange[] {
+  if (sameValue(before, after)) return []
+  const base = harness ? { section, harness } : { section }
+  if (before === undefined) return [{ ...base, key, kind: 'added', after }]
+  if (after === undefined)  return [{ ...base, key, kind: 'removed', before }]
+  return [{ ...base, key, kind: 'changed', before, after }]
+}
+
+/**
+ * Diff write scopes. Turning scoping on or off changes what an empty list
+ * means, so that is reported as one change of the whole list.
+ */
+function diffWriteScopes(before: string[] | undefined, after: string[] | undefined): PolicyDiffChange[] {
+  if (before === undefined || after === undefined) return diffValue('writeScopes', 'writeScopes', before, after)
+  return diffKeyed('writeScopes', before, after, (s) => s)
+}
+
+/**
+ * Compute the changes needed to go from `before` to `after`.
+ * Returned in a stable order: metadata, permissions, globs, command rules, quotas,
+ * then per-harness tool / MCP rules, then the LLM evaluator.
+ */
+export function diffPolicies(before: PolicyDocument, after: PolicyDocument): PolicyDiffChange[] {
+  const changes: PolicyDiffChange[] = []
+
+  changes.push(...diffValue('metadata', 'name', before.name, after.name))
+  changes.push(...diffValue('metadata', 'description', before.description || undefined, after.description || undefined))
+  changes.push(...diffValue('metadata', 'mode', before.mode ?? 'enforce', after.mode ?? 'enforce'))
+
+  for (const flag of PERMISSION_FLAGS) {
+    changes.push(...diffValue('permissions', flag, before.permissions?.[flag], after.permissions?.[flag]))
+  }
+  changes.push(...diffValue('permissions', 'outboundLeakAction', before.permissions?.outboundLeakAction, after.permissions?.outboundLeakAction))
+
+  changes.push(...diffKeyed('blockedGlobs', before.permissions?.blockedGlobs, after.permissions?.blockedGlobs, (g) => g))
+  changes.push(...diffWriteScopes(before.permissions?.writeScopes, after.permissions?.writeScopes))
+  changes.push(...diffKeyed('commandRules', before.permissions?.commandRules, after.permissions?.commandRules, (r) => r.pattern))
+  changes.push(...diffKeyed('quotas', before.permissions?.quotas, after.permissions?.quotas, quotaKey))
+
+  const harnessIds = new Set<HarnessKey>([
+    ...Object.keys(before.harnesses ?? {}),
+    ...Object.keys(after.harnesses ?? {}),
+  ] as HarnessKey[])
+
+  for (const harness of [...harnessIds].sort()) {
+    const prev = (before.harnesses?.[harness] ?? {}) as Record<string, any>
+    const next = (after.harnesses?.[harness] ?? {}) as Record<string, any>
+
+    changes.push(...diffKeyed('toolRules', prev.toolRules, next.toolRules, describeToolRule, harness))
+    changes.push(...diffKeyed('mcpServerRules', prev.mcpServerRules, next.mcpServerRules, (r: { server: string }) => r.server, harness))
+
+    const fields = new Set([...Object.keys(prev), ...Object.keys(next)])
+    for (const field of [...fields].sort()) {
+      if (HARNESS_RULE_FIELDS.has(field)) continue
+      changes.push(...diffValue('harness', field, prev[field], next[field], harness))
+    }
+  }
+
+  changes.push(...diffValue('llmEvaluator', 'llmEvaluator', before.llmEvaluator, after.llmEvaluator))
+
+  return changes
+}
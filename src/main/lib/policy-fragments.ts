@@ -0,0 +1,80 @@
+/**
+ * @module policy-fragments
+ * @description Built-in named rule fragments that policies mix in with
+ * `fragments: [...]` instead of copying the same lists around. Fragments only
+ * carry harness-agnostic rules — blocked globs and command rules — and are
+ * flattened into a policy by flattenPolicy (policy-inheritance).
+ */
+
+import type { PolicyFragment } from '../../types'
+
+export const POLICY_FRAGMENTS: PolicyFragment[] = [
+  {
+    id: 'secrets-globs',
+    name: 'Secrets',
+    description: 'Block access to credential stores, keys and .env files.',
+    blockedGlobs: [
+      '**/.env',
+      '**/.env.*',
+      '**/*.pem',
+      '**/*.key',
+      '**/id_rsa*',
+      '~/.ssh/**',
+      '~/.aws/**',
+      '~/.gnupg/**',
+      '~/.config/gcloud/**',
+      '~/.kube/config',
+      '~/.docker/config.json',
+      '~/.netrc',
+    ],
+  },
+  {
+    id: 'destructive-git',
+    name: 'Destructive git',
+    description: 'Prompt before git commands that rewrite or discard history.',
+    commandRules: [
+      { pattern: 'git\\s+push\\s+.*(--force|-f\\b)', decision: 'prompt', reason: 'Destructive git' },
+      { pattern: 'git\\s+push\\s+.*--delete', decision: 'prompt', reason: 'Destructive git' },
+      { pattern: 'git\\s+reset\\s+--hard', decision: 'prompt', reason: 'Destructive git' },
+      { pattern: 'git\\s+clean\\s+-[^\\s]*f', decision: 'prompt', reason: 'Destructive git' },
+      { pattern: 'git\\s+branch\\s+-D\\b', decision: 'prompt', reason: 'Destructive git' },
+      { pattern: 'git\\s+(checkout|restore)\\s+.*--\\s+\\.', decision: 'prompt', reason: 'Destructive git' },
+    ],
+  },
+  {
+    id: 'destructive-fs',
+    name: 'Destructive filesystem',
+    description: 'Deny disk formatting and recursive deletes or permission changes of root paths.',
+    commandRules: [
+      { pattern: 'rm\\s+-[^\\s]*r[^\\s]*\\s+/', decision: 'deny', reason: 'Recursive delete of root paths' },
+      { pattern: '\\b(mkfs|dd\\s+of=/dev)', decision: 'deny', reason: 'Disk formatting' },
+      { pattern: 'chmod\\s+(777|\\+s)\\b', decision: 'deny', reason: 'Broad permission change' },
+      { pattern: 'chown\\s+-[^\\s]*R[^\\s]*\\s+[^\\s]+\\s+/', decision: 'deny', reason: 'Recursive ownership change of root paths' },
+    ],
+  },
+  {
+    id: 'remote-exec',
+    name: 'Remote code execution',
+    description: 'Deny piping downloaded scripts into a shell.',
+    commandRules: [
+      { pattern: '(curl|wget)\\s+.*\\|\\s*(sh|bash|zsh)', decision: 'deny', reason: 'Pipe-to-shell' },
+      { pattern: '(sh|bash|zsh)\\s+<\\(\\s*(curl|wget)\\b', decision: 'deny', reason: 'Pipe-to-shell' },
+    ],
+  },
+  {
+    id: 'package-publish',
+    name: 'Package publishing',
+    description: 'Prompt before publishing packages to a registry.',
+    commandRules: [
+      { pattern: '\\b(npm|pnpm|yarn)\\s+publish\\b', decision: 'prompt', reason: 'Package publish' },
+      { pattern: '\\bcargo\\s+publish\\b', decision: 'prompt', reason: 'Package publish' },
+      { pattern: '\\btwine\\s+upload\\b', decision: 'prompt', reason: 'Package publish' },
+      { pattern: '\\bgem\\s+push\\b', decision: 'prompt', reason: 'Package publish' },
+    ],
+  },
+]
+
+/** Look up a built-in fragment by id. */
+export function getPolicyFragment(id: string): PolicyFragment | undefined {
+  return POLICY_FRAGMENTS.find((f) => f.id === id)
+}
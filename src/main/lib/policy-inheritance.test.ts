@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import { flattenPolicies, flattenPolicyIn, policyDependents } from './policy-inheritance'
+import { POLICY_FRAGMENTS, getPolicyFragment } from './policy-fragments'
+import { lintPolicy } from './policy-lint'
+import type { PolicyDocument } from '../../types'
+
+function makePolicy(id: string, overrides: Partial<PolicyDocument> = {}, permissions: Partial<PolicyDocument['permissions']> = {}): PolicyDocument {
+  return {
+    id,
+    name: id,
+    description: '',
+    permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [], ...permissions },
+    harnesses: {},
+    ...overrides,
+  }
+}
+
+describe('policy-inheritance', () => {
+  it('returns a policy without extends or fragments unchanged', () => {
+    const policy = makePolicy('plain')
+    expect(flattenPolicyIn(policy, [])).toEqual({ ok: true, policy })
+  })
+
+  it('puts own rules first, then fragments, then bases in order', () => {
+    const first = makePolicy('first', {}, { commandRules: [{ pattern: 'first', decision: 'deny' }], blockedGlobs: ['/a/**'] })
+    const second = makePolicy('second', {}, { commandRules: [{ pattern: 'second', decision: 'deny' }], blockedGlobs: ['/b/**'] })
+    const child = makePolicy('child', { extends: ['first', 'second'], fragments: ['remote-exec'] }, {
+      commandRules: [{ pattern: 'own', decision: 'allow' }],
+      blockedGlobs: ['/a/**', '/c/**'],
+    })
+
+    const result = flattenPolicyIn(child, [first, second])
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const remoteExec = getPolicyFragment('remote-exec')!.commandRules!.map((r) => r.pattern)
+    expect(result.policy.permissions.commandRules!.map((r) => r.pattern)).toEqual(['own', ...remoteExec, 'first', 'second'])
+    expect(result.policy.permissions.blockedGlobs).toEqual(['/a/**', '/c/**', '/b/**'])
+    expect(result.policy).not.toHaveProperty('extends')
+    expect(result.policy).not.toHaveProperty('fragments')
+    expect(result.policy.id).toBe('child')
+  })
+
+  it('lets a higher layer replace a rule with the same key', () => {
+    const base = makePolicy('base', {
+      harnesses: { claude: { toolRules: [{ pattern: 'Bash', decision: 'deny' }, { pattern: 'Read', decision: 'allow' }], deniedTools: ['Task'] } },
+    }, { commandRules: [{ pattern: 'git push', decision: 'deny' }] })
+    const child = makePolicy('child', {
+      extends: ['base'],
+      harnesses: { claude: { toolRules: [{ pattern: 'Bash', decision: 'prompt' }], deniedTools: ['WebSearch'] } },
+    }, { commandRules: [{ pattern: 'git push', decision: 'prompt' }] })
+
+    const result = flattenPolicyIn(child, [base])
+    expect(result.ok && result.policy.permissions.commandRules).toEqual([{ pattern: 'git push', decision: 'prompt' }])
+    expect(result.ok && result.policy.harnesses.claude).toEqual({
+      toolRules: [{ pattern: 'Bash', decision: 'prompt' }, { pattern: 'Read', decision: 'allow' }],
+      deniedTools: ['WebSearch', 'Task'],
+    })
+  })
+
+  it('merges quotas, the extending policy replacing a base quota over the same calls', () => {
+    const base = makePolicy('base', {}, {
+      quotas: [
+        { actionClass: 'write', max: 20, windowSeconds: 60, decision: 'deny' },
+        { tool: 'WebFetch', max: 50, windowSeconds: 3600, decision: 'deny' },
+      ],
+    })
+    const child = makePolicy('child', { extends: ['base'] }, {
+      quotas: [{ actionClass: 'write', max: 5, windowSeconds: 60, decision: 'prompt' }],
+    })
+
+    const result = flattenPolicyIn(child, [base])
+    expect(result.ok && result.policy.permissions.quotas).toEqual([
+      { actionClass: 'write', max: 5, windowSeconds: 60, decision: 'prompt' },
+      { tool: 'WebFetch', max: 50, windowSeconds: 3600, decision: 'deny' },
+    ])
+  })
+
+  it('fills unset settings from the first base that sets them', () => {
+    const base = makePolicy('base', {
+      harnesses: { codex: { approvalMode: 'read-only', sandbox: 'strict' } },
+      llmEvaluator: { enabled: true, intent: 'review', scope: 'fallback' },
+    }, { writeScopes: ['.'] })
+    const child = makePolicy('child', { extends: ['base'], harnesses: { codex: { sandbox: 'moderate' } } })
+
+    const result = flattenPolicyIn(child, [base])
+    expect(result.ok && result.policy.permissions.writeScopes).toEqual(['.'])
+    expect(result.ok && result.policy.harnesses.codex).toEqual({ sandbox: 'moderate', approvalMode: 'read-only' })
+    expect(result.ok && result.policy.llmEvaluator?.intent).toBe('review')
+  })
+
+  it('leaves commandRules unset when no layer sets them', () => {
+    const base = makePolicy('base', {}, { blockedGlobs: ['/x/**'] })
+    const result = flattenPolicyIn(makePolicy('child', { extends: ['base'] }), [base])
+    expect(result.ok && result.policy.permissions).not.toHaveProperty('commandRules')
+  })
+
+  it('resolves bases transitively and through a diamond', () => {
+    const root = makePolicy('root', {}, { blockedGlobs: ['/root/**'] })
+    const left = makePolicy('left', { extends: ['root'] })
+    const right = makePolicy('right', { extends: ['root'] })
+    const child = makePolicy('child', { extends: ['left', 'right'] })
+    const result = flattenPolicyIn(child, [root, left, right])
+    expect(result.ok && result.policy.permissions.blockedGlobs).toEqual(['/root/**'])
+  })
+
+  it('reports cycles with the chain', () => {
+    const a = makePolicy('a', { extends: ['b'] })
+    const b = makePolicy('b', { extends: ['c'] })
+    const c = makePolicy('c', { extends: ['a'] })
+    expect(flattenPolicyIn(a, [a, b, c])).toEqual({ ok: false, error: 'Policy inheritance cycle: a → b → c → a' })
+    expect(flattenPolicyIn(makePolicy('self', { extends: ['self'] }), [])).toEqual({ ok: false, error: 'Policy inheritance cycle: self → self' })
+  })
+
+  it('uses the draft in place of its stored copy', () => {
+    const stored = makePolicy('a')
+    const b = makePolicy('b', { extends: ['a'] })
+    const draft = makePolicy('a', { extends: ['b'] })
+    expect(flattenPolicyIn(draft, [stored, b]).ok).toBe(false)
+  })
+
+  it('reports missing bases and unknown fragments', () => {
+    expect(flattenPolicyIn(makePolicy('child', { extends: ['gone'] }), [])).toEqual({ ok: false, error: 'Policy "child" extends missing policy "gone".' })
+    expect(flattenPolicyIn(makePolicy('child', { fragments: ['nope'] }), [])).toEqual({ ok: false, error: 'Policy "child" uses unknown fragment "nope".' })
+    const broken = makePolicy('broken', { extends: ['gone'] })
+    expect(flattenPolicies([makePolicy('fine'), broken], [broken]).ok).toBe(false)
+  })
+
+  it('lists the policies extending a policy', () => {
+    const policies = [makePolicy('base'), makePolicy('a', { extends: ['base'] }), makePolicy('b', { extends: ['other', 'base'] })]
+    expect(policyDependents('base', policies)).toEqual(['a', 'b'])
+    expect(policyDependents('a', policies)).toEqual([])
+  })
+
+  it('ships fragments that lint clean', () => {
+    const all = makePolicy('all', { fragments: POLICY_FRAGMENTS.map((f) => f.id) })
+    const result = flattenPolicyIn(all, [])
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(lintPolicy(result.policy).filter((d) => d.severity !== 'info')).toEqual([])
+  })
+})
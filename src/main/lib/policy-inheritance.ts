@@ -0,0 +1,173 @@
+/**
+ * @module policy-inheritance
+ * @description Flattens `extends` and `fragments` into a self-contained policy.
+ *
+ * A policy is layered over what it mixes in and inherits from, in precedence
+ * order: its own rules, then its fragments, then each base (itself flattened)
+ * in the order listed. Merging walks the layers highest first:
+ *  - permission flags, writeScopes, outboundLeakAction, llmEvaluator and
+ *    harness scalars: first
+ *    layer that sets them
+ *  - blockedGlobs and harness string lists: union
+ *  - commandRules: concatenated, so the extending policy's rules match first
+ *    (first match wins). A pattern already listed by a higher layer is
+ *    dropped. Unset in every layer stays unset, so the authz defaults apply.
+ *  - quotas: concatenated, a quota counting the same calls over the same
+ *    window in a higher layer replaces the lower one
+ *  - toolRules / mcpServerRules: concatenated, a rule with the same pattern
+ *    and predicates (or server) in a higher layer replaces the lower one
+ *
+ * A base that is missing or extends itself, directly or not, is an error —
+ * dropping it would silently loosen the policy.
+ */
+
+import type { CommandRule, HarnessesConfig, McpServerRule, PolicyDocument, PolicyPermissions, QuotaRule, ToolRule } from '../../types'
+import { getPolicyFragment } from './policy-fragments'
+import { toolRuleKey } from './tool-predicates'
+import { quotaKey } from './quotas'
+
+export type FlattenResult = { ok: true; policy: PolicyDocument } | { ok: false; error: string }
+
+type PolicyLookup = (id: string) => PolicyDocument | undefined
+
+const HARNESS_KEYS: (keyof HarnessesConfig)[] = ['claude', 'codex', 'openclaw', 'opencode', 'droid', 'gemini']
+
+/** Concatenate lists highest layer first, keeping the first item per key. */
+function concatByKey<T>(lists: (T[] | undefined)[], keyOf: (item: T) => string): T[] | undefined {
+  if (lists.every((l) => l === undefined)) return undefined
+  const seen = new Set<string>()
+  const out: T[] = []
+  for (const item of lists.flatMap((l) => l ?? [])) {
+    const key = keyOf(item)
+    if (seen.has(key)) continue
+    seen.add(key)
+    out.push(item)
+  }
+  return out
+}
+
+function firstDefined<T>(values: (T | undefined)[]): T | undefined {
+  return values.find((v) => v !== undefined)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Merge one harness's config across layers (highest first). */
+function mergeHarnessLayers(layers: (Record<string, unknown> | undefined)[]): Record<string, unknown> | undefined {
+  const present = layers.filter((l): l is Record<string, unknown> => l !== undefined)
+  if (!present.length) return undefined
+
+  const merged: Record<string, unknown> = {}
+  const keys = new Set(present.flatMap((l) => Object.keys(l)))
+  for (const key of keys) {
+    const values = present.map((l) => l[key]).filter((v) => v !== undefined)
+    if (key === 'toolRules') {
+      merged[key] = concatByKey(values as ToolRule[][], toolRuleKey)
+    } else if (key === 'mcpServerRules') {
+      merged[key] = concatByKey(values as McpServerRule[][], (r) => r.server)
+    } else if (values.every(Array.isArray)) {
+      merged[key] = [...new Set((values as unknown[][]).flat())]
+    } else if (values.every(isPlainObject)) {
+      merged[key] = Object.assign({}, ...[...values].reverse())
+    } else {
+      merged[key] = values[0]
+    }
+  }
+  return merged
+}
+
+/** Merge already-flattened layers, highest precedence first, onto `own`'s metadata. */
+function mergeLayers(own: PolicyDocument, layers: PolicyDocument[]): PolicyDocument {
+  const perms = layers.map((l) => (l.permissions ?? {}) as Partial<PolicyPermissions>)
+
+  const permissions: PolicyPermissions = {
+    allowBash:          firstDefined(perms.map((p) => p.allowBash)) ?? true,
+    allowNetwork:       firstDefined(perms.map((p) => p.allowNetwork)) ?? true,
+    allowFileWrite:     firstDefined(perms.map((p) => p.allowFileWrite)) ?? true,
+    confirmDestructive: firstDefined(perms.map((p) => p.confirmDestructive)) ?? true,
+    blockedGlobs:       [...new Set(perms.flatMap((p) => p.blockedGlobs ?? []))],
+  }
+  const commandRules = concatByKey<CommandRule>(perms.map((p) => p.commandRules), (r) => r.pattern)
+  if (commandRules !== undefined) permissions.commandRules = commandRules
+  const quotas = concatByKey<QuotaRule>(perms.map((p) => p.quotas), quotaKey)
+  if (quotas !== undefined) permissions.quotas = quotas
+  const writeScopes = firstDefined(perms.map((p) => p.writeScopes))
+  if (writeScopes !== undefined) permissions.writeScopes = writeScopes
+  const outboundLeakAction = firstDefined(perms.map((p) => p.outboundLeakAction))
+  if (outboundLeakAction !== undefined) permissions.outboundLeakAction = outboundLeakAction
+
+  const harnesses: HarnessesConfig = {}
+  for (const key of HARNESS_KEYS) {
+    const merged = mergeHarnessLayers(layers.map((l) => l.harnesses?.[key] as Record<string, unknown> | undefined))
+    if (merged) (harnesses as Record<string, unknown>)[key] = merged
+  }
+
+  const { extends: _extends, fragments: _fragments, ...meta } = own
+  const flattened: PolicyDocument = { ...meta, permissions, harnesses }
+  const llmEvaluator = firstDefined(layers.map((l) => l.llmEvaluator))
+  if (llmEvaluator !== undefined) flattened.llmEvaluator = llmEvaluator
+  else delete flattened.llmEvaluator
+  return flattened
+}
+
+function flatten(policy: PolicyDocument, lookup: PolicyLookup, chain: string[]): FlattenResult {
+  if (chain.includes(policy.id)) {
+    return { ok: false, error: `Policy inheritance cycle: ${[...chain, policy.id].join(' → ')}` }
+  }
+  if (!policy.extends?.length && !policy.fragments?.length) return { ok: true, policy }
+
+  const layers: PolicyDocument[] = [policy]
+  for (const fragmentId of policy.fragments ?? []) {
+    const fragment = getPolicyFragment(fragmentId)
+    if (!fragment) return { ok: false, error: `Policy "${policy.name}" uses unknown fragment "${fragmentId}".` }
+    layers.push({
+      id: fragment.id,
+      name: fragment.name,
+      description: fragment.description,
+      permissions: { blockedGlobs: fragment.blockedGlobs, commandRules: fragment.commandRules } as PolicyPermissions,
+      harnesses: {},
+    })
+  }
+  for (const baseId of policy.extends ?? []) {
+    const base = lookup(baseId)
+    if (!base) return { ok: false, error: `Policy "${policy.name}" extends missing policy "${baseId}".` }
+    const flattened = flatten(base, lookup, [...chain, policy.id])
+    if (!flattened.ok) return flattened
+    layers.push(flattened.policy)
+  }
+  return { ok: true, policy: mergeLayers(policy, layers) }
+}
+
+/**
+ * Resolve a policy's `extends` and `fragments` into one policy without
+ * either. `lookup` finds bases by id; a policy without either is returned as is.
+ */
+export function flattenPolicy(policy: PolicyDocument, lookup: PolicyLookup): FlattenResult {
+  return flatten(policy, lookup, [])
+}
+
+/** flattenPolicy with bases looked up in a list of policies, `policy` standing in for its stored copy. */
+export function flattenPolicyIn(policy: PolicyDocument, policies: PolicyDocument[]): FlattenResult {
+  return flattenPolicy(policy, (id) => id === policy.id ? policy : policies.find((p) => p.id === id))
+}
+
+/** Ids of the policies that list `policyId` in their `extends`. */
+export function policyDependents(policyId: string, policies: PolicyDocument[]): string[] {
+  return policies.filter((p) => p.id !== policyId && p.extends?.includes(policyId)).map((p) => p.id)
+}
+
+/** Flatten every policy in `selected`, looking bases up in `policies`. Fails on the first error. */
+export function flattenPolicies(
+  selected: PolicyDocument[],
+  policies: PolicyDocument[],
+): { ok: true; policies: PolicyDocument[] } | { ok: false; error: string } {
+  const flattened: PolicyDocument[] = []
+  for (const policy of selected) {
+    const result = flattenPolicyIn(policy, policies)
+    if (!result.ok) return result
+    flattened.push(result.policy)
+  }
+  return { ok: true, policies: flattened }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { parsePolicyFile, policyFileFormat, serializePolicy } from './policy-io'
+import type { PolicyDocument } from '../../types'
+
+const FALLBACK = { id: 'fallback-id', name: 'Fallback' }
+
+const POLICY: PolicyDocument = {
+  id: 'strict',
+  name: 'Strict',
+  description: 'No network, prompts for pushes.',
+  permissions: {
+    allowBash: true,
+    allowNetwork: false,
+    allowFileWrite: true,
+    confirmDestructive: true,
+    blockedGlobs: ['~/.ssh/**'],
+    commandRules: [{ pattern: '^git push\\b', decision: 'prompt' }],
+  },
+  harnesses: {
+    claude: { toolRules: [{ pattern: 'WebFetch', decision: 'allow', when: [{ field: 'url', op: 'domain', value: 'docs.python.org' }] }] },
+  },
+}
+
+describe('policy-io', () => {
+  it('round-trips YAML and JSON', () => {
+    for (const format of ['yaml', 'json'] as const) {
+      const text = serializePolicy({ ...POLICY, updatedAt: '2026-01-01T00:00:00.000Z' } as PolicyDocument, format)
+      expect(text).not.toContain('updatedAt')
+      const parsed = parsePolicyFile(text, FALLBACK)
+      expect(parsed).toEqual({ ok: true, policy: POLICY })
+    }
+  })
+
+  it('fills in a missing id, name and harnesses', () => {
+    const parsed = parsePolicyFile('permissions:\n  allowNetwork: false\n', FALLBACK)
+    expect(parsed.ok && parsed.policy).toMatchObject({ id: 'fallback-id', name: 'Fallback', description: '', harnesses: {} })
+  })
+
+  it('keeps YAML-only scalars as strings', () => {
+    const parsed = parsePolicyFile('name: 2026-01-01\npermissions: {}\n', FALLBACK)
+    expect(parsed.ok && parsed.policy.name).toBe('2026-01-01')
+  })
+
+  it('reports schema violations with their path', () => {
+    const parsed = parsePolicyFile('permissions:\n  commandRules:\n    - pattern: rm\n      decision: block\n', FALLBACK)
+    expect(parsed.ok).toBe(false)
+    expect(!parsed.ok && parsed.error).toContain('permissions.commandRules.0.decision')
+  })
+
+  it('rejects unparseable and non-mapping documents', () => {
+    expect(parsePolicyFile('permissions: [', FALLBACK).ok).toBe(false)
+    expect(parsePolicyFile('- a\n- b\n', FALLBACK)).toEqual({ ok: false, error: 'Policy file must contain a mapping (object).' })
+  })
+
+  it('picks the format from the file extension', () => {
+    expect(policyFileFormat('/repo/policy.JSON')).toBe('json')
+    expect(policyFileFormat('/repo/.latch/policy.yaml')).toBe('yaml')
+    expect(policyFileFormat('/repo/policy.yml')).toBe('yaml')
+  })
+})
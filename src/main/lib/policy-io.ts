@@ -0,0 +1,122 @@
+/**
+ * @module policy-io
+ * @description PolicyDocuments as YAML or JSON files, for reviewing policies
+ * in PRs and shipping them with a repo.
+ *
+ * Files are read with the YAML JSON schema — YAML is a superset of JSON, so
+ * one parser handles both formats, and scalars never turn into dates or
+ * other non-JSON types. Parsed documents are validated against
+ * PolicySaveSchema, tightened here to check rule shapes as well.
+ */
+
+import path from 'node:path'
+import yaml from 'js-yaml'
+import { z } from 'zod'
+import type { PolicyDocument } from '../../types'
+import { PolicySaveSchema } from './ipc-schemas'
+
+export type PolicyFileFormat = 'yaml' | 'json'
+
+const DecisionSchema = z.enum(['allow', 'deny', 'prompt'])
+
+const ToolRuleSchema = z.object({
+  pattern: z.string().min(1),
+  decision: DecisionSchema,
+  reason: z.string().optional(),
+  when: z.array(z.object({
+    field: z.string().min(1),
+    op: z.enum(['glob', 'regex', 'domain', 'eq', 'gt', 'gte', 'lt', 'lte']),
+    value: z.union([z.string(), z.number()]),
+    negate: z.boolean().optional(),
+  })).optional(),
+})
+
+const CommandRuleSchema = z.object({
+  pattern: z.string().min(1),
+  decision: DecisionSchema,
+  reason: z.string().optional(),
+})
+
+const McpServerRuleSchema = z.object({
+  server: z.string().min(1),
+  decision: DecisionSchema,
+  reason: z.string().optional(),
+})
+
+const QuotaRuleSchema = z.object({
+  actionClass: z.enum(['read', 'write', 'execute', 'send']).optional(),
+  tool: z.string().min(1).optional(),
+  command: z.string().min(1).optional(),
+  max: z.number().int().min(0),
+  windowSeconds: z.number().int().min(1).optional(),
+  decision: z.enum(['deny', 'prompt']),
+  reason: z.string().optional(),
+})
+
+const HarnessSchema = z.object({
+  allowedTools: z.array(z.string()).optional(),
+  deniedTools: z.array(z.string()).optional(),
+  toolRules: z.array(ToolRuleSchema).optional(),
+  mcpServerRules: z.array(McpServerRuleSchema).optional(),
+}).passthrough()
+
+/** PolicySaveSchema with the permission flags and rule lists checked. */
+export const PolicyFileSchema = PolicySaveSchema.extend({
+  permissions: z.object({
+    allowBash: z.boolean().optional(),
+    allowNetwork: z.boolean().optional(),
+    allowFileWrite: z.boolean().optional(),
+    confirmDestructive: z.boolean().optional(),
+    blockedGlobs: z.array(z.string()).optional(),
+    commandRules: z.array(CommandRuleSchema).optional(),
+    writeScopes: z.array(z.string()).optional(),
+    quotas: z.array(QuotaRuleSchema).optional(),
+    outboundLeakAction: z.enum(['block', 'strip', 'prompt']).optional(),
+  }).passthrough(),
+  harnesses: z.object({
+    claude: HarnessSchema.optional(),
+    codex: HarnessSchema.optional(),
+    openclaw: HarnessSchema.optional(),
+    opencode: HarnessSchema.optional(),
+    droid: HarnessSchema.optional(),
+    gemini: HarnessSchema.optional(),
+  }).passthrough(),
+})
+
+/** Format implied by a file name: `.json` is JSON, anything else YAML. */
+export function policyFileFormat(filePath: string): PolicyFileFormat {
+  return path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml'
+}
+
+/** Serialize a policy for a file, dropping fields the store adds on read. */
+export function serializePolicy(policy: PolicyDocument, format: PolicyFileFormat): string {
+  const { updatedAt: _updatedAt, ...doc } = policy as PolicyDocument & { updatedAt?: string }
+  if (format === 'json') return `${JSON.stringify(doc, null, 2)}\n`
+  return yaml.dump(doc, { schema: yaml.JSON_SCHEMA, noRefs: true, lineWidth: 120 })
+}
+
+/**
+ * Parse and validate a policy file. `fallback` fills in an id and name when
+ * the file leaves them out (repo policies usually do).
+ */
+export function parsePolicyFile(
+  text: string,
+  fallback: { id: string; name: string },
+): { ok: true; policy: PolicyDocument } | { ok: false; error: string } {
+  let doc: unknown
+  try {
+    doc = yaml.load(text, { schema: yaml.JSON_SCHEMA })
+  } catch (err) {
+    return { ok: false, error: `Could not parse policy: ${err instanceof Error ? err.message : String(err)}` }
+  }
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    return { ok: false, error: 'Policy file must contain a mapping (object).' }
+  }
+
+  const result = PolicyFileSchema.safeParse({ ...fallback, description: '', harnesses: {}, ...doc })
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')
+    return { ok: false, error: `Invalid policy: ${issues}` }
+  }
+  return { ok: true, policy: result.data as unknown as PolicyDocument }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { findReDoSFragment, lintPolicy } from './policy-lint'
+import type { PolicyDocument } from '../../types'
+
+function policy(overrides: Partial<PolicyDocument['permissions']> = {}, harnesses: PolicyDocument['harnesses'] = {}): PolicyDocument {
+  return {
+    id: 'p1',
+    name: 'Test',
+    description: '',
+    permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [], ...overrides },
+    harnesses,
+  }
+}
+
+describe('lintPolicy', () => {
+  it('reports a specific deny shadowed by an earlier broad allow', () => {
+    const diags = lintPolicy(policy({}, {
+      claude: {
+        toolRules: [
+          { pattern: 'mcp__github__*', decision: 'allow' },
+          { pattern: 'mcp__github__delete_repo', decision: 'deny' },
+        ],
+      },
+    }))
+    expect(diags).toHaveLength(1)
+    expect(diags[0]).toMatchObject({ code: 'shadowed-rule', severity: 'error', section: 'toolRules', harness: 'claude', index: 1 })
+  })
+
+  it('accepts a specific exception placed before the broad rule', () => {
+    const diags = lintPolicy(policy({}, {
+      claude: {
+        toolRules: [
+          { pattern: 'mcp__github__delete_repo', decision: 'deny' },
+          { pattern: 'mcp__github__*', decision: 'allow' },
+        ],
+      },
+    }))
+    expect(diags).toEqual([])
+  })
+
+  it('reports a conditional earlier rule as an overlap, not a shadow', () => {
+    const diags = lintPolicy(policy({}, {
+      claude: {
+        toolRules: [
+          { pattern: 'WebFetch', decision: 'allow', when: [{ field: 'url', op: 'domain', value: 'docs.python.org' }] },
+          { pattern: 'WebFetch', decision: 'deny' },
+        ],
+      },
+    }))
+    expect(diags.map((d) => d.code)).toEqual(['overlapping-rule'])
+  })
+
+  it('reports MCP server rules that a tool rule already covers', () => {
+    const diags = lintPolicy(policy({}, {
+      codex: {
+        toolRules: [{ pattern: 'mcp__*', decision: 'prompt' }],
+        mcpServerRules: [{ server: 'github', decision: 'deny' }],
+      },
+    }))
+    expect(diags).toMatchObject([{ code: 'shadowed-rule', section: 'mcpServerRules', harness: 'codex', key: 'github' }])
+  })
+
+  it('flags invalid and ReDoS-prone command rules', () => {
+    const diags = lintPolicy(policy({
+      commandRules: [
+        { pattern: '(unclosed', decision: 'deny' },
+        { pattern: '^(\\w+\\s?)*$', decision: 'deny' },
+        { pattern: '\\brm\\s+-rf\\b', decision: 'deny' },
+      ],
+    }))
+    expect(diags.map((d) => [d.code, d.index])).toEqual([['invalid-regex', 0], ['redos-regex', 1]])
+  })
+
+  it('checks regex predicates on tool rules', () => {
+    const diags = lintPolicy(policy({}, {
+      claude: { toolRules: [{ pattern: 'WebFetch', decision: 'deny', when: [{ field: 'url', op: 'regex', value: '(a|a)+b' }] }] },
+    }))
+    expect(diags.map((d) => d.code)).toEqual(['redos-regex'])
+  })
+
+  it('flags blocked globs that cannot match', () => {
+    const diags = lintPolicy(policy({ blockedGlobs: ['**/.env', '~root/.ssh/*', 'secrets/*.pem', '/etc/', '**/~/.aws/*'] }))
+    expect(diags.map((d) => d.key)).toEqual(['~root/.ssh/*', 'secrets/*.pem', '/etc/', '**/~/.aws/*'])
+    expect(diags[0].severity).toBe('error')
+  })
+
+  it('reports MCP servers missing from the catalog when a list is given', () => {
+    const doc = policy({}, {
+      claude: {
+        toolRules: [{ pattern: 'mcp__github__*', decision: 'allow' }, { pattern: 'mcp__jira__*', decision: 'prompt' }],
+        mcpServerRules: [{ server: 'slack', decision: 'deny' }],
+      },
+    })
+    expect(lintPolicy(doc)).toEqual([])
+    const diags = lintPolicy(doc, { mcpServers: ['GitHub'] })
+    expect(diags.map((d) => [d.section, d.message])).toEqual([
+      ['mcpServerRules', 'MCP server "slack" is not configured in Latch.'],
+      ['toolRules', 'MCP server "jira" is not configured in Latch.'],
+    ])
+  })
+
+  it('notes rules a disabled permission makes unreachable', () => {
+    const diags = lintPolicy(policy({ allowBash: false, commandRules: [{ pattern: '^git ', decision: 'allow' }] }))
+    expect(diags).toMatchObject([{ code: 'unreachable-rule', severity: 'info', section: 'commandRules' }])
+  })
+})
+
+describe('findReDoSFragment', () => {
+  it('finds nested unbounded repetition', () => {
+    expect(findReDoSFragment('(a+)+$')).toBe('(a+)+')
+    expect(findReDoSFragment('^(?:\\d*,)*x')).toBe('(?:\\d*,)*')
+    expect(findReDoSFragment('((ab)*c)+')).toBe('((ab)*c)+')
+    expect(findReDoSFragment('(x|x){2,}')).toBe('(x|x){2,}')
+  })
+
+  it('accepts linear patterns', () => {
+    expect(findReDoSFragment('^git (push|pull)\\b')).toBeNull()
+    expect(findReDoSFragment('(ab)+c*')).toBeNull()
+    expect(findReDoSFragment('(a{1,3})+')).toBeNull()
+    expect(findReDoSFragment('[(+*]+\\(a+\\)+')).toBeNull()
+  })
+})
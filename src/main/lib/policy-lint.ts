@@ -0,0 +1,352 @@
+/**
+ * @module policy-lint
+ * @description Static analysis of a PolicyDocument: rules that can never
+ * apply, allow/deny overlaps, regexes that are invalid or prone to
+ * catastrophic backtracking, blocked globs that can't match, and MCP
+ * servers that aren't configured.
+ *
+ * The checks mirror how authz-server evaluates a policy: tool rules are
+ * first-match-wins and take precedence over MCP server rules, command rules
+ * are regexes tested with a timeout (a timeout counts as "no match"), and
+ * blocked globs are anchored against the absolute path of the file with only
+ * a leading `~` expanded.
+ */
+
+import type {
+  CommandRule,
+  HarnessesConfig,
+  McpServerRule,
+  PolicyDocument,
+  PolicyLintDiagnostic,
+  PolicyLintSeverity,
+  QuotaRule,
+  ToolRule,
+} from '../../types'
+import { canonicalJsonStringify } from './canonical-json'
+import { describeToolRule } from './tool-predicates'
+import { quotaKey } from './quotas'
+
+type HarnessKey = keyof HarnessesConfig
+
+export interface PolicyLintOptions {
+  /** Names of the MCP servers configured in Latch. Omit to skip the check. */
+  mcpServers?: string[]
+}
+
+const HARNESS_KEYS: HarnessKey[] = ['claude', 'codex', 'openclaw', 'opencode', 'droid', 'gemini']
+
+// ─── Tool rule coverage ─────────────────────────────────────────────────────
+
+/** True if every tool name matched by `inner` is also matched by `outer` (see matchToolPattern). */
+function patternCovers(outer: string, inner: string): boolean {
+  const o = outer.toLowerCase()
+  const i = inner.toLowerCase()
+  if (o === i) return true
+  if (!o.endsWith('*')) return false
+  const innerPrefix = i.endsWith('*') ? i.slice(0, -1) : i
+  return innerPrefix.startsWith(o.slice(0, -1))
+}
+
+/** True if `outer`'s predicates hold whenever `inner`'s do (they are a subset). */
+function predicatesCover(outer: ToolRule, inner: ToolRule): boolean {
+  if (!outer.when?.length) return true
+  const innerKeys = new Set((inner.when ?? []).map((p) => canonicalJsonStringify(p)))
+  return outer.when.every((p) => innerKeys.has(canonicalJsonStringify(p)))
+}
+
+function extractMcpServer(pattern: string): string | null {
+  const m = pattern.match(/^mcp__([^_]+)__/)
+  return m ? m[1] : null
+}
+
+// ─── Regex analysis ─────────────────────────────────────────────────────────
+
+interface GroupFrame {
+  start: number
+  /** Body contains an unbounded quantifier (`*`, `+`, `{n,}`). */
+  repeats: boolean
+  /** Offsets of top-level `|` in the group body. */
+  bars: number[]
+}
+
+/** Length of an unbounded quantifier at `i` (`*`, `+`, `{n,}`), or 0. */
+function unboundedQuantifierAt(pattern: string, i: number): number {
+  const c = pattern[i]
+  if (c === '*' || c === '+') return 1
+  const m = c === '{' ? pattern.slice(i).match(/^\{\d+,\}/) : null
+  return m ? m[0].length : 0
+}
+
+/**
+ * Find a construct prone to catastrophic backtracking: a group repeated
+ * without bound whose body can itself repeat without bound (`(a+)+`,
+ * `(\w+\s?)*`), or whose alternatives are identical (`(a|a)*`). Returns the
+ * offending fragment, or null. A heuristic — it flags the shapes behind
+ * nearly all real-world ReDoS, not every super-linear pattern.
+ */
+export function findReDoSFragment(pattern: string): string | null {
+  const stack: GroupFrame[] = [{ start: -1, repeats: false, bars: [] }]
+  let i = 0
+  while (i < pattern.length) {
+    const c = pattern[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === '[') {
+      // Skip the character class; `]` right after `[` or `[^` is literal.
+      let j = i + 1
+      if (pattern[j] === '^') j++
+      if (pattern[j] === ']') j++
+      while (j < pattern.length && pattern[j] !== ']') j += pattern[j] === '\\' ? 2 : 1
+      i = j + 1
+      continue
+    }
+    if (c === '(') {
+      stack.push({ start: i, repeats: false, bars: [] })
+      i++
+      continue
+    }
+    if (c === '|') {
+      stack[stack.length - 1].bars.push(i)
+      i++
+      continue
+    }
+    if (c === ')' && stack.length > 1) {
+      const frame = stack.pop()!
+      const q = unboundedQuantifierAt(pattern, i + 1)
+      if (q) {
+        const fragment = pattern.slice(frame.start, i + 1 + q)
+        if (frame.repeats) return fragment
+        const bodyStart = frame.start + 1 + (pattern.slice(frame.start + 1).match(/^\?(?::|=|!|<=|<!|<[A-Za-z_]\w*>)/)?.[0].length ?? 0)
+        const cuts = [bodyStart - 1, ...frame.bars, i]
+        const branches = cuts.slice(1).map((end, k) => pattern.slice(cuts[k] + 1, end))
+        if (branches.length > 1 && new Set(branches).size < branches.length) return fragment
+      }
+      const parent = stack[stack.length - 1]
+      parent.repeats ||= frame.repeats || q > 0
+      i += 1 + q
+      continue
+    }
+    const q = unboundedQuantifierAt(pattern, i)
+    if (q) stack[stack.length - 1].repeats = true
+    i += q || 1
+  }
+  return null
+}
+
+function regexError(pattern: string, flags: string): string | null {
+  try {
+    new RegExp(pattern, flags)
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+// ─── Glob analysis ──────────────────────────────────────────────────────────
+
+/** Reasons a blocked glob can't match (or matches less than it appears to). */
+function globProblems(glob: string): { severity: PolicyLintSeverity; message: string }[] {
+  const problems: { severity: PolicyLintSeverity; message: string }[] = []
+  const g = glob.trim()
+  if (!g) return [{ severity: 'error', message: 'Empty glob never matches.' }]
+  if (/^~[^/]/.test(g)) {
+    problems.push({ severity: 'error', message: `"${g.split('/')[0]}" is not expanded; only a leading "~/" refers to the home directory.` })
+  } else if (g.indexOf('~', 1) !== -1) {
+    problems.push({ severity: 'warning', message: 'Only a leading "~" is expanded; a "~" elsewhere matches literally.' })
+  }
+  if (!/^[~/*]/.test(g) && !/^[A-Za-z]:[\\/]/.test(g)) {
+    problems.push({ severity: 'warning', message: `Relative glob never matches absolute file paths; use "**/${g}".` })
+  }
+  if (/[/\\]$/.test(g)) {
+    problems.push({ severity: 'warning', message: `Trailing "/" matches no file; use "${g}**" to block the directory's contents.` })
+  }
+  if (/[[\]{}?]/.test(g)) {
+    problems.push({ severity: 'warning', message: 'Only "*" and "**" are wildcards; "?", "[…]" and "{…}" match literally.' })
+  }
+  return problems
+}
+
+// ─── Lint ───────────────────────────────────────────────────────────────────
+
+function decisionsConflict(a: { decision: string }, b: { decision: string }): boolean {
+  return a.decision !== b.decision
+}
+
+function lintCommandRules(rules: CommandRule[], allowBash: boolean, out: PolicyLintDiagnostic[]): void {
+  if (!allowBash && rules.length) {
+    out.push({
+      code: 'unreachable-rule', severity: 'info', section: 'commandRules', key: 'allowBash',
+      message: 'Shell execution is disabled, so command rules are never evaluated.',
+    })
+  }
+  rules.forEach((rule, index) => {
+    const base = { section: 'commandRules' as const, index, key: rule.pattern }
+    const error = regexError(rule.pattern, 'i')
+    if (error) {
+      out.push({ ...base, code: 'invalid-regex', severity: 'error', message: `Invalid regex: ${error}` })
+      return
+    }
+    const fragment = findReDoSFragment(rule.pattern)
+    if (fragment) {
+      out.push({
+        ...base, code: 'redos-regex', severity: 'error',
+        message: `"${fragment}" nests unbounded repetition and can backtrack catastrophically; a timed-out match counts as no match, so the rule is skipped.`,
+      })
+    }
+    const earlier = rules.findIndex((r, j) => j < index && r.pattern === rule.pattern)
+    if (earlier !== -1) {
+      const prev = rules[earlier]
+      out.push({
+        ...base, code: 'shadowed-rule', severity: decisionsConflict(prev, rule) ? 'error' : 'warning',
+        message: `Never applies: rule #${earlier + 1} has the same pattern (${prev.decision}) and matches first.`,
+      })
+    }
+  })
+}
+
+function lintToolRules(harness: HarnessKey, rules: ToolRule[], out: PolicyLintDiagnostic[]): void {
+  rules.forEach((rule, index) => {
+    const base = { section: 'toolRules' as const, harness, index, key: describeToolRule(rule) }
+
+    for (const pred of rule.when ?? []) {
+      if (pred.op !== 'regex') continue
+      const pattern = String(pred.value)
+      const error = regexError(pattern, 'i')
+      const fragment = error ? null : findReDoSFragment(pattern)
+      if (error) out.push({ ...base, code: 'invalid-regex', severity: 'error', message: `Invalid regex on "${pred.field}": ${error}` })
+      else if (fragment) {
+        out.push({
+          ...base, code: 'redos-regex', severity: 'error',
+          message: `"${fragment}" on "${pred.field}" nests unbounded repetition and can backtrack catastrophically; a timed-out match counts as no match.`,
+        })
+      }
+    }
+
+    for (let j = 0; j < index; j++) {
+      const prev = rules[j]
+      if (!patternCovers(prev.pattern, rule.pattern)) continue
+      const prevLabel = `rule #${j + 1} "${describeToolRule(prev)}" (${prev.decision})`
+      if (predicatesCover(prev, rule)) {
+        out.push({
+          ...base, code: 'shadowed-rule', severity: decisionsConflict(prev, rule) ? 'error' : 'warning',
+          message: decisionsConflict(prev, rule)
+            ? `Never applies: ${prevLabel} matches every call this ${rule.decision} rule would, and matches first.`
+            : `Redundant: ${prevLabel} already matches every call this rule would.`,
+        })
+        break
+      }
+      if (decisionsConflict(prev, rule)) {
+        out.push({
+          ...base, code: 'overlapping-rule', severity: 'warning',
+          message: `Overlaps ${prevLabel}; calls that satisfy its conditions get ${prev.decision}, not ${rule.decision}.`,
+        })
+        break
+      }
+    }
+  })
+}
+
+function lintMcpServerRules(harness: HarnessKey, rules: McpServerRule[], toolRules: ToolRule[], out: PolicyLintDiagnostic[]): void {
+  rules.forEach((rule, index) => {
+    const base = { section: 'mcpServerRules' as const, harness, index, key: rule.server }
+    const dup = rules.findIndex((r, j) => j < index && r.server.toLowerCase() === rule.server.toLowerCase())
+    if (dup !== -1) {
+      out.push({
+        ...base, code: 'shadowed-rule', severity: decisionsConflict(rules[dup], rule) ? 'error' : 'warning',
+        message: `Never applies: server rule #${dup + 1} for "${rules[dup].server}" (${rules[dup].decision}) matches first.`,
+      })
+      return
+    }
+    const serverGlob = `mcp__${rule.server}__*`
+    const cover = toolRules.find((t) => !t.when?.length && patternCovers(t.pattern, serverGlob))
+    if (cover) {
+      out.push({
+        ...base, code: 'shadowed-rule', severity: decisionsConflict(cover, rule) ? 'error' : 'warning',
+        message: `Never applies: tool rule "${cover.pattern}" (${cover.decision}) covers every tool on this server, and tool rules are checked first.`,
+      })
+    }
+  })
+}
+
+function lintMcpReferences(policy: PolicyDocument, known: Set<string>, out: PolicyLintDiagnostic[]): void {
+  const unknown = (server: string) => !known.has(server.toLowerCase())
+  const message = (server: string) => `MCP server "${server}" is not configured in Latch.`
+
+  for (const harness of HARNESS_KEYS) {
+    const hc = policy.harnesses?.[harness] as { toolRules?: ToolRule[]; mcpServerRules?: McpServerRule[]; disabledMcpTools?: string[] } | undefined
+    hc?.mcpServerRules?.forEach((rule, index) => {
+      if (unknown(rule.server)) {
+        out.push({ code: 'unknown-mcp-server', severity: 'warning', section: 'mcpServerRules', harness, index, key: rule.server, message: message(rule.server) })
+      }
+    })
+    hc?.toolRules?.forEach((rule, index) => {
+      const server = extractMcpServer(rule.pattern)
+      if (server && unknown(server)) {
+        out.push({ code: 'unknown-mcp-server', severity: 'warning', section: 'toolRules', harness, index, key: describeToolRule(rule), message: message(server) })
+      }
+    })
+    hc?.disabledMcpTools?.forEach((tool, index) => {
+      // Entries are `server/tool` (Codex disabled_tools) or namespaced `mcp__server__tool`.
+      const server = tool.includes('/') ? tool.split('/')[0] : extractMcpServer(tool)
+      if (server && server !== '*' && unknown(server)) {
+        out.push({ code: 'unknown-mcp-server', severity: 'warning', section: 'harness', harness, index, key: tool, message: message(server) })
+      }
+    })
+  }
+
+  policy.llmEvaluator?.servers?.forEach((server, index) => {
+    if (unknown(server)) {
+      out.push({ code: 'unknown-mcp-server', severity: 'warning', section: 'llmEvaluator', index, key: server, message: message(server) })
+    }
+  })
+}
+
+function lintQuotas(quotas: QuotaRule[], out: PolicyLintDiagnostic[]): void {
+  quotas.forEach((quota, index) => {
+    if (!quota.command) return
+    const error = regexError(quota.command, 'i')
+    if (error) out.push({ code: 'invalid-regex', severity: 'error', section: 'quotas', index, key: quotaKey(quota), message: `Invalid regex: ${error}` })
+  })
+}
+
+/** Analyze a policy and return its diagnostics in document order. */
+export function lintPolicy(policy: PolicyDocument, options: PolicyLintOptions = {}): PolicyLintDiagnostic[] {
+  const out: PolicyLintDiagnostic[] = []
+  const p = policy.permissions ?? ({} as PolicyDocument['permissions'])
+
+  const seenGlobs = new Set<string>()
+  for (const glob of p.blockedGlobs ?? []) {
+    for (const problem of globProblems(glob)) {
+      out.push({ code: 'unmatchable-glob', section: 'blockedGlobs', key: glob, ...problem })
+    }
+    if (seenGlobs.has(glob)) {
+      out.push({ code: 'shadowed-rule', severity: 'warning', section: 'blockedGlobs', key: glob, message: 'Duplicate glob.' })
+    }
+    seenGlobs.add(glob)
+  }
+
+  if (p.allowFileWrite === false && p.writeScopes) {
+    out.push({
+      code: 'unreachable-rule', severity: 'info', section: 'writeScopes', key: 'allowFileWrite',
+      message: 'File writes are disabled, so write scopes are never consulted for file tools.',
+    })
+  }
+
+  lintCommandRules(p.commandRules ?? [], p.allowBash !== false, out)
+  lintQuotas(p.quotas ?? [], out)
+
+  for (const harness of HARNESS_KEYS) {
+    const hc = policy.harnesses?.[harness] as { toolRules?: ToolRule[]; mcpServerRules?: McpServerRule[] } | undefined
+    if (!hc) continue
+    lintToolRules(harness, hc.toolRules ?? [], out)
+    lintMcpServerRules(harness, hc.mcpServerRules ?? [], hc.toolRules ?? [], out)
+  }
+
+  if (options.mcpServers) {
+    lintMcpReferences(policy, new Set(options.mcpServers.map((s) => s.toLowerCase())), out)
+  }
+
+  return out
+}
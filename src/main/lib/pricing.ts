@@ -49,10 +49,19 @@ const OPENAI_PRICING: Record<string, ModelPricing> = {
   'o4-mini':       { inputPerMTok: 1.10, outputPerMTok: 4.40,  cacheWritePerMTok: 0, cacheReadPerMTok: 0.275 },
 }
 
+const GEMINI_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview':  { inputPerMTok: 2.00, outputPerMTok: 12.00, cacheWritePerMTok: 0, cacheReadPerMTok: 0.20  },
+  'gemini-2.5-pro':        { inputPerMTok: 1.25, outputPerMTok: 10.00, cacheWritePerMTok: 0, cacheReadPerMTok: 0.31  },
+  'gemini-2.5-flash':      { inputPerMTok: 0.30, outputPerMTok: 2.50,  cacheWritePerMTok: 0, cacheReadPerMTok: 0.075 },
+  'gemini-2.5-flash-lite': { inputPerMTok: 0.10, outputPerMTok: 0.40,  cacheWritePerMTok: 0, cacheReadPerMTok: 0.025 },
+}
+
 /** Most expensive Claude rate — fallback for unknown Claude models */
 const CLAUDE_FALLBACK = CLAUDE_PRICING['claude-opus-4-1']
 /** Most expensive OpenAI rate — fallback for unknown OpenAI models */
 const OPENAI_FALLBACK = OPENAI_PRICING['o3']
+/** Most expensive Gemini rate — fallback for unknown Gemini models */
+const GEMINI_FALLBACK = GEMINI_PRICING['gemini-3-pro-preview']
 
 // ── Public API ──────────────────────────────────────────────────────────────
 
@@ -72,6 +81,7 @@ export function getModelPricing(rawModelId: string): ModelPricing {
   const id = normalizeModelId(rawModelId)
   if (CLAUDE_PRICING[id]) return CLAUDE_PRICING[id]
   if (OPENAI_PRICING[id]) return OPENAI_PRICING[id]
+  if (GEMINI_PRICING[id]) return GEMINI_PRICING[id]
 
   // Fuzzy family match
   if (id.startsWith('claude-')) {
@@ -82,6 +92,10 @@ export function getModelPricing(rawModelId: string): ModelPricing {
     console.warn(`[pricing] Unknown OpenAI model "${id}", using o3 fallback`)
     return OPENAI_FALLBACK
   }
+  if (id.startsWith('gemini-')) {
+    console.warn(`[pricing] Unknown Gemini model "${id}", using gemini-3-pro-preview fallback`)
+    return GEMINI_FALLBACK
+  }
 
   console.warn(`[pricing] Unknown model family "${id}", using Claude opus fallback`)
   return CLAUDE_FALLBACK
@@ -103,9 +117,10 @@ export function calculateCost(usage: TokenUsage, rawModelId: string): number {
 /**
  * Detect harness family from model ID.
  */
-export function harnessFromModel(rawModelId: string): 'claude' | 'codex' | 'unknown' {
+export function harnessFromModel(rawModelId: string): 'claude' | 'codex' | 'gemini' | 'unknown' {
   const id = normalizeModelId(rawModelId)
   if (id.startsWith('claude-')) return 'claude'
   if (id.startsWith('gpt-') || id.startsWith('o3') || id.startsWith('o4')) return 'codex'
+  if (id.startsWith('gemini-')) return 'gemini'
   return 'unknown'
 }
@@ -1,3 +1,4 @@
+import { execFileSync } from 'node:child_process'
 import * as fs from 'node:fs'
 import * as os from 'node:os'
 import * as pty from 'node-pty'
@@ -10,9 +11,27 @@ interface PtyRecord {
   dockerContainerId?: string
   lastCols:           number
   lastRows:           number
+  /** Processes stopped by pause(), continued by resume(). */
+  pausedPids?:        number[]
 }
 
 type SendFn = (channel: string, payload: unknown) => void
+
+/** The shell and everything started under it (the harness runs in its own process group). */
+function processTree(rootPid: number): number[] {
+  const children = new Map<number, number[]>()
+  const out = execFileSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf-8', timeout: 2000 })
+  for (const line of out.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map(Number)
+    if (!pid || Number.isNaN(ppid)) continue
+    const list = children.get(ppid) ?? []
+    list.push(pid)
+    children.set(ppid, list)
+  }
+  const tree = [rootPid]
+  for (let i = 0; i < tree.length; i++) tree.push(...(children.get(tree[i]) ?? []))
+  return tree
+}
 type ExitCallback = (sessionId: string) => void
 type DataCallback = (sessionId: string, data: string) => void
 
@@ -152,6 +171,38 @@ class PtyManager {
     record.ptyProcess.resize(cols, rows)
   }
 
+  /**
+   * Stop the shell and its descendants with SIGSTOP, which they can't catch.
+   * Returns false when the session has no PTY, is already paused, or signals
+   * aren't available (Windows).
+   */
+  pause(sessionId: string): boolean {
+    const record = this.sessions.get(sessionId)
+    if (!record || record.pausedPids || process.platform === 'win32') return false
+    try {
+      const pids = processTree(record.ptyProcess.pid)
+      for (const pid of pids) {
+        try { process.kill(pid, 'SIGSTOP') } catch { /* exited meanwhile */ }
+      }
+      record.pausedPids = pids
+      return true
+    } catch (err: unknown) {
+      console.warn('[pty-manager] Pause failed:', err instanceof Error ? err.message : String(err))
+      return false
+    }
+  }
+
+  /** Continue processes stopped by pause(). */
+  resume(sessionId: string): boolean {
+    const record = this.sessions.get(sessionId)
+    if (!record?.pausedPids) return false
+    for (const pid of record.pausedPids) {
+      try { process.kill(pid, 'SIGCONT') } catch { /* exited meanwhile */ }
+    }
+    record.pausedPids = undefined
+    return true
+  }
+
   kill(sessionId: string): void {
     const record = this.sessions.get(sessionId)
     if (!record) return
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { QuotaTracker, describeQuota, quotaKey, quotaMatches } from './quotas'
+import type { QuotaCall } from './quotas'
+import type { QuotaRule } from '../../types'
+
+function call(toolName: string, toolInput: Record<string, unknown> = {}): QuotaCall {
+  const actionClass = toolName === 'Write' || toolName === 'Edit' ? 'write' : toolName === 'Bash' ? 'execute' : 'read'
+  return { toolName, actionClass, toolInput }
+}
+
+const writes: QuotaRule = { actionClass: 'write', max: 2, windowSeconds: 60, decision: 'deny' }
+const pushes: QuotaRule = { command: '^git\\s+push', max: 1, decision: 'prompt' }
+const fetches: QuotaRule = { tool: 'Web*', max: 50, windowSeconds: 3600, decision: 'deny' }
+
+describe('quotaMatches', () => {
+  it('matches by action class, tool pattern and command', () => {
+    expect(quotaMatches(writes, call('Write'))).toBe(true)
+    expect(quotaMatches(writes, call('Read'))).toBe(false)
+    expect(quotaMatches(fetches, call('WebFetch'))).toBe(true)
+    expect(quotaMatches(fetches, call('Bash'))).toBe(false)
+    expect(quotaMatches(pushes, call('Bash', { command: 'npm test && git push origin main' }))).toBe(true)
+    expect(quotaMatches(pushes, call('Bash', { command: 'git status' }))).toBe(false)
+    expect(quotaMatches(pushes, call('Write', { file_path: 'git push' }))).toBe(false)
+  })
+
+  it('counts every call when nothing is selected', () => {
+    expect(quotaMatches({ max: 10, decision: 'deny' }, call('Read'))).toBe(true)
+  })
+})
+
+describe('describeQuota', () => {
+  it('names what is counted and the window', () => {
+    expect(describeQuota(writes)).toBe('max 2 write calls per minute')
+    expect(describeQuota(fetches)).toBe('max 50 Web* calls per hour')
+    expect(describeQuota(pushes)).toBe('max 1 `^git\\s+push` per session')
+  })
+
+  it('keys quotas by selector and window', () => {
+    expect(quotaKey(writes)).toBe('class:write/60')
+    expect(quotaKey({ ...writes, max: 5 })).toBe(quotaKey(writes))
+    expect(quotaKey({ ...writes, windowSeconds: undefined })).toBe('class:write/session')
+  })
+})
+
+describe('QuotaTracker', () => {
+  it('denies calls over a deny quota without counting them', () => {
+    const tracker = new QuotaTracker()
+    expect(tracker.consume('s1', [writes], call('Write'), undefined, 0)).toBeNull()
+    expect(tracker.consume('s1', [writes], call('Edit'), undefined, 1000)).toBeNull()
+    expect(tracker.consume('s1', [writes], call('Write'), undefined, 2000)).toBe(writes)
+    expect(tracker.status('s1', [writes], 2000)[0]).toMatchObject({ used: 2, max: 2, windowSeconds: 60, decision: 'deny' })
+  })
+
+  it('frees the quota as calls leave the window', () => {
+    const tracker = new QuotaTracker()
+    tracker.consume('s1', [writes], call('Write'), undefined, 0)
+    tracker.consume('s1', [writes], call('Write'), undefined, 30_000)
+    expect(tracker.consume('s1', [writes], call('Write'), undefined, 59_000)).toBe(writes)
+    expect(tracker.consume('s1', [writes], call('Write'), undefined, 60_000)).toBeNull()
+  })
+
+  it('counts prompted calls and keeps per-session quotas for the session', () => {
+    const tracker = new QuotaTracker()
+    const push = call('Bash', { command: 'git push' })
+    expect(tracker.consume('s1', [pushes], push, undefined, 0)).toBeNull()
+    expect(tracker.consume('s1', [pushes], push, undefined, 10_000_000)).toBe(pushes)
+    expect(tracker.status('s1', [pushes])[0].used).toBe(2)
+    expect(tracker.consume('s2', [pushes], push)).toBeNull()
+  })
+
+  it('only counts a call when no deny quota stops it', () => {
+    const tracker = new QuotaTracker()
+    const tight: QuotaRule = { actionClass: 'write', max: 0, decision: 'deny' }
+    const loose: QuotaRule = { tool: 'Write', max: 5, decision: 'deny' }
+    expect(tracker.consume('s1', [loose, tight], call('Write'))).toBe(tight)
+    expect(tracker.status('s1', [loose])[0].used).toBe(0)
+  })
+
+  it('forgets a session on clear', () => {
+    const tracker = new QuotaTracker()
+    tracker.consume('s1', [pushes], call('Bash', { command: 'git push' }))
+    tracker.clear('s1')
+    expect(tracker.status('s1', [pushes])[0].used).toBe(0)
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * @module quotas
+ * @description Per-session rate and quota rules (`permissions.quotas`).
+ *
+ * A quota counts the calls it matches — by action class, tool pattern or
+ * shell command regex — over a sliding window or the whole session. A call
+ * that would take a quota past its max gets the quota's decision (deny or
+ * prompt) instead. Calls count once they get past the quota check, whether
+ * they are then allowed or prompted, so a quota caps attempts rather than
+ * approvals. Counters live in memory and end with the session.
+ */
+
+import type { ActionClass, QuotaRule, QuotaStatus } from '../../types'
+import { defaultRegexMatcher } from './safe-regex'
+import type { RegexMatcher } from './safe-regex'
+import { splitShellCommand } from './shell-parse'
+import { matchToolPattern } from './tool-predicates'
+
+/** The call a quota is checked against. */
+export interface QuotaCall {
+  toolName: string
+  actionClass: ActionClass
+  toolInput: Record<string, unknown>
+}
+
+/** Identity of a quota for counting, merging and diffing. */
+export function quotaKey(rule: QuotaRule): string {
+  const what = rule.actionClass ? `class:${rule.actionClass}` : rule.tool ? `tool:${rule.tool}` : rule.command ? `command:${rule.command}` : 'all'
+  return `${what}/${rule.windowSeconds ?? 'session'}`
+}
+
+function describeWindow(seconds: number | undefined): string {
+  if (!seconds) return 'per session'
+  if (seconds === 60) return 'per minute'
+  if (seconds === 3600) return 'per hour'
+  if (seconds === 86_400) return 'per day'
+  if (seconds % 3600 === 0) return `per ${seconds / 3600} hours`
+  if (seconds % 60 === 0) return `per ${seconds / 60} minutes`
+  return `per ${seconds}s`
+}
+
+/** Display label, e.g. "max 20 write calls per minute" or "max 5 `git\s+push` per session". */
+export function describeQuota(rule: QuotaRule): string {
+  const what = rule.actionClass
+    ? `${rule.actionClass} calls`
+    : rule.tool
+      ? `${rule.tool} calls`
+      : rule.command
+        ? `\`${rule.command}\``
+        : 'calls'
+  return `max ${rule.max} ${what} ${describeWindow(rule.windowSeconds)}`
+}
+
+/** True if a call counts toward a quota. */
+export function quotaMatches(rule: QuotaRule, call: QuotaCall, regex: RegexMatcher = defaultRegexMatcher): boolean {
+  if (rule.actionClass && rule.actionClass !== call.actionClass) return false
+  if (rule.tool && !matchToolPattern(rule.tool, call.toolName)) return false
+  if (rule.command) {
+    const command = call.toolInput?.command
+    if (typeof command !== 'string' || !command) return false
+    return splitShellCommand(command).some((seg) => regex.test(rule.command!, 'i', seg.text))
+  }
+  return true
+}
+
+/** Per-session call counters for quota rules. */
+export class QuotaTracker {
+  /** sessionId → quota key → timestamps (ms) of counted calls. */
+  private uses = new Map<string, Map<string, number[]>>()
+
+  private timestamps(sessionId: string, rule: QuotaRule, now: number): number[] {
+    let session = this.uses.get(sessionId)
+    if (!session) {
+      session = new Map()
+      this.uses.set(sessionId, session)
+    }
+    const key = quotaKey(rule)
+    let times = session.get(key)
+    if (!times) {
+      times = []
+      session.set(key, times)
+    }
+    if (rule.windowSeconds) {
+      const cutoff = now - rule.windowSeconds * 1000
+      while (times.length > 0 && times[0] <= cutoff) times.shift()
+    }
+    return times
+  }
+
+  /**
+   * Check a call against the quotas it matches. Returns the first quota it
+   * would exceed; otherwise counts the call toward every matching quota and
+   * returns null. A call over a prompting quota is counted too.
+   */
+  consume(sessionId: string, quotas: QuotaRule[] | undefined, call: QuotaCall, regex?: RegexMatcher, now = Date.now()): QuotaRule | null {
+    const matching = (quotas ?? []).filter((q) => quotaMatches(q, call, regex))
+    const exceeded = matching.find((q) => this.timestamps(sessionId, q, now).length >= q.max) ?? null
+    if (exceeded?.decision === 'deny') return exceeded
+    for (const q of matching) this.timestamps(sessionId, q, now).push(now)
+    return exceeded
+  }
+
+  /** Usage of each of the policy's quotas in a session. */
+  status(sessionId: string, quotas: QuotaRule[] | undefined, now = Date.now()): QuotaStatus[] {
+    return (quotas ?? []).map((q) => ({
+      key: quotaKey(q),
+      description: describeQuota(q),
+      used: this.timestamps(sessionId, q, now).length,
+      max: q.max,
+      windowSeconds: q.windowSeconds ?? null,
+      decision: q.decision,
+    }))
+  }
+
+  /** Forget a session's counters. */
+  clear(sessionId: string): void {
+    this.uses.delete(sessionId)
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * @module risk-scorer
+ * @description Context-aware risk for a single tool call.
+ *
+ * The action class only gives a starting point: `cat README.md` through a
+ * shell is not as risky as `curl … | sh`, and a write to
+ * `.github/workflows/deploy.yml` is not an ordinary edit. The scorer looks at
+ * what the call touches — the programs a command runs and their flags,
+ * whether it reaches the network, how sensitive the target path is, how much
+ * it writes — plus the session's recent denials, and turns that into a
+ * 0–100 score and a risk level. Each contribution is kept as a short factor
+ * so the UI can say why a call was rated the way it was.
+ */
+
+import path from 'node:path'
+import type { AuthzDecision, RiskLevel, ToolClassification } from '../../types'
+import { splitShellCommand } from './shell-parse'
+
+/** A call the session made earlier, as far as risk scoring cares. */
+export interface RecentCall {
+  timestamp: number
+  decision: AuthzDecision
+  risk: RiskLevel
+}
+
+export interface RiskInput {
+  toolName: string
+  toolInput: Record<string, unknown>
+  /** Static classification from classifyTool (overrides applied). */
+  classification: ToolClassification
+  workspaceRoot?: string | null
+  /** The session's earlier calls, oldest first. */
+  history?: RecentCall[]
+  now?: number
+}
+
+export interface RiskAssessment {
+  risk: RiskLevel
+  /** 0–100; below 30 is low, below 60 medium, otherwise high. */
+  score: number
+  /** Why the score is what it is, most significant first. */
+  factors: string[]
+}
+
+const BASE_SCORE: Record<RiskLevel, number> = { low: 10, medium: 35, high: 60 }
+
+/** Programs that only read or print. */
+const READ_ONLY_PROGRAMS = new Set([
+  'cat', 'ls', 'head', 'tail', 'less', 'more', 'grep', 'egrep', 'rg', 'ag', 'find', 'fd', 'wc', 'echo', 'printf',
+  'pwd', 'which', 'whereis', 'type', 'diff', 'stat', 'file', 'tree', 'sort', 'uniq', 'cut', 'date', 'whoami',
+  'basename', 'dirname', 'realpath', 'du', 'df', 'jq', 'true', 'false', 'test', 'cd',
+])
+const READ_ONLY_GIT = new Set(['status', 'log', 'diff', 'show', 'branch', 'blame', 'rev-parse', 'ls-files', 'remote', 'describe', 'grep'])
+
+const NETWORK_PROGRAMS = new Set(['curl', 'wget', 'ssh', 'scp', 'sftp', 'rsync', 'nc', 'ncat', 'netcat', 'telnet', 'ftp', 'gh'])
+const NETWORK_SUBCOMMANDS: Record<string, Set<string>> = {
+  git: new Set(['push', 'pull', 'fetch', 'clone', 'ls-remote']),
+  npm: new Set(['install', 'i', 'add', 'publish', 'update']),
+  pnpm: new Set(['install', 'i', 'add', 'publish', 'update']),
+  yarn: new Set(['install', 'add', 'publish', 'upgrade']),
+  pip: new Set(['install', 'download']),
+  pip3: new Set(['install', 'download']),
+  cargo: new Set(['install', 'publish']),
+  docker: new Set(['push', 'pull', 'login']),
+}
+
+const DESTRUCTIVE_PROGRAMS = new Set(['rm', 'rmdir', 'dd', 'mkfs', 'shred', 'truncate', 'chmod', 'chown', 'kill', 'pkill', 'killall'])
+const DESTRUCTIVE_GIT = new Set(['reset', 'clean', 'rebase', 'filter-branch'])
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh'])
+
+const RECURSIVE_OR_FORCE = /(?:^|\s)(?:-[a-zA-Z]*[rRf][a-zA-Z]*|--recursive|--force(?:-with-lease)?)(?=\s|$)/
+
+/** Path categories, most sensitive first; a path scores its first match. */
+const SENSITIVE_PATHS: { pattern: RegExp; points: number; label: string; reads?: boolean }[] = [
+  { pattern: /(?:^|\/)\.env(?:\.[^/]*)?$|(?:^|\/)\.ssh\/|(?:^|\/)id_(?:rsa|ed25519|ecdsa)|\.(?:pem|key|p12|pfx)$|(?:^|\/)\.(?:npmrc|netrc|pypirc)$|(?:^|\/)\.aws\/|credentials/i, points: 35, label: 'Secrets file', reads: true },
+  { pattern: /(?:^|\/)\.github\/workflows\/|(?:^|\/)\.gitlab-ci\.ya?ml$|(?:^|\/)\.circleci\/|(?:^|\/)Jenkinsfile$|(?:^|\/)azure-pipelines\.ya?ml$|(?:^|\/)\.buildkite\//, points: 35, label: 'CI configuration' },
+  { pattern: /(?:^|\/)\.git\/(?:hooks\/|config$)|(?:^|\/)\.husky\//, points: 35, label: 'Git hooks or config' },
+  { pattern: /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|poetry\.lock|Pipfile\.lock|Gemfile\.lock|composer\.lock|go\.sum)$/, points: 20, label: 'Lockfile' },
+  { pattern: /(?:^|\/)\.[^/.][^/]*(?:\/|$)/, points: 20, label: 'Dotfile' },
+]
+
+const LARGE_WRITE = 100 * 1024
+const HUGE_WRITE = 1024 * 1024
+
+/** How far back session history counts. */
+const HISTORY_WINDOW_MS = 5 * 60_000
+
+function levelFor(score: number): RiskLevel {
+  return score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low'
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= HUGE_WRITE ? `${(bytes / HUGE_WRITE).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`
+}
+
+/** The most sensitive category a path falls in, if any. */
+function pathSensitivity(filePath: string, forRead: boolean): { points: number; label: string } | null {
+  const normalized = filePath.replace(/\\/g, '/')
+  const hit = SENSITIVE_PATHS.find((c) => (!forRead || c.reads) && c.pattern.test(normalized))
+  return hit ? { points: hit.points, label: `${hit.label} (${path.posix.basename(normalized) || normalized})` } : null
+}
+
+function outsideWorkspace(filePath: string, workspaceRoot: string | null | undefined): boolean {
+  if (!workspaceRoot || !path.isAbsolute(filePath)) return false
+  const rel = path.relative(path.resolve(workspaceRoot), path.resolve(filePath))
+  return rel === '..' || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)
+}
+
+/** Accumulates points and the factors behind them. */
+class Tally {
+  score = 0
+  private factors: { points: number; label: string }[] = []
+
+  add(points: number, label: string): void {
+    if (this.factors.some((f) => f.label === label)) return
+    this.score += points
+    this.factors.push({ points, label })
+  }
+
+  result(): RiskAssessment {
+    const score = Math.max(0, Math.min(100, this.score))
+    const factors = [...this.factors].sort((a, b) => b.points - a.points).map((f) => f.label)
+    return { risk: levelFor(score), score, factors }
+  }
+}
+
+function scoreCommand(command: string, tally: Tally): void {
+  const segments = splitShellCommand(command)
+  let base = 0
+  let baseLabel = ''
+  for (const seg of segments) {
+    const words = seg.text.split(' ').filter(Boolean)
+    // Pipelines are also listed whole; their commands are scored one by one.
+    if (words.includes('|')) continue
+    let i = 0
+    if (words[i] === 'sudo' || words[i] === 'doas') {
+      tally.add(25, 'Runs with elevated privileges')
+      i++
+      while (words[i]?.startsWith('-')) i++
+    }
+    const program = path.posix.basename(words[i] ?? '')
+    if (!program) continue
+    const sub = words[i + 1] ?? ''
+    const args = words.slice(i + 1).join(' ')
+
+    const readOnly = READ_ONLY_PROGRAMS.has(program) || (program === 'git' && READ_ONLY_GIT.has(sub))
+    const segBase = readOnly ? BASE_SCORE.low : BASE_SCORE.medium
+    if (segBase > base) {
+      base = segBase
+      baseLabel = `Runs ${program === 'git' ? `git ${sub}` : program}`
+    }
+
+    if (NETWORK_PROGRAMS.has(program) || NETWORK_SUBCOMMANDS[program]?.has(sub)) {
+      tally.add(25, `Touches the network (${program})`)
+    }
+    if (DESTRUCTIVE_PROGRAMS.has(program) || (program === 'git' && DESTRUCTIVE_GIT.has(sub))) {
+      tally.add(20, `Destructive command (${program === 'git' ? `git ${sub}` : program})`)
+    }
+    if (RECURSIVE_OR_FORCE.test(args) && !readOnly) tally.add(15, 'Recursive or force flags')
+    if (SHELLS.has(program) && segments.length > 1) tally.add(20, 'Runs a nested shell')
+    if (program === 'eval') tally.add(20, 'Runs a nested shell')
+
+    for (const target of [...seg.writes, ...words.slice(i + 1).filter((w) => (w.includes('/') || w.startsWith('.')) && !w.includes('://'))]) {
+      const sensitive = pathSensitivity(target, !seg.writes.includes(target) && readOnly)
+      if (sensitive) tally.add(sensitive.points, sensitive.label)
+    }
+  }
+  if (base > 0) tally.add(base, baseLabel)
+}
+
+function scoreHistory(history: RecentCall[], now: number, tally: Tally): void {
+  const recent = history.filter((c) => now - c.timestamp < HISTORY_WINDOW_MS)
+  const denied = recent.filter((c) => c.decision === 'deny').length
+  if (denied >= 2) tally.add(10 * Math.min(denied, 3), `${denied} denied calls in the last 5 minutes`)
+  const high = recent.filter((c) => c.risk === 'high').length
+  if (high >= 3) tally.add(10, `${high} high-risk calls in the last 5 minutes`)
+}
+
+/** Score a tool call from its classification, arguments and the session's recent calls. */
+export function scoreToolCall(input: RiskInput): RiskAssessment {
+  const { toolInput, classification } = input
+  const tally = new Tally()
+  const command = toolInput?.command
+
+  const shell = classification.actionClass === 'execute' && typeof command === 'string' && command.trim() !== ''
+  if (shell) scoreCommand(command, tally)
+
+  const filePath = toolInput?.file_path ?? toolInput?.filePath ?? toolInput?.notebook_path ?? toolInput?.path
+  if (typeof filePath === 'string' && filePath) {
+    const forRead = classification.actionClass === 'read'
+    const sensitive = pathSensitivity(filePath, forRead)
+    if (sensitive) tally.add(sensitive.points, sensitive.label)
+    if (!forRead && outsideWorkspace(filePath, input.workspaceRoot)) tally.add(20, 'Outside the workspace')
+  }
+
+  if (classification.actionClass === 'write') {
+    const size = ['content', 'new_string', 'new_source', 'text']
+      .map((k) => toolInput?.[k])
+      .reduce<number>((n, v) => n + (typeof v === 'string' ? Buffer.byteLength(v) : 0), 0)
+    if (size > HUGE_WRITE) tally.add(20, `Large write (${formatBytes(size)})`)
+    else if (size > LARGE_WRITE) tally.add(10, `Large write (${formatBytes(size)})`)
+  }
+
+  const url = toolInput?.url
+  if (typeof url === 'string' && /^http:\/\/|^https?:\/\/\d{1,3}(?:\.\d{1,3}){3}(?:[:/]|$)/i.test(url)) {
+    tally.add(10, 'Unencrypted or raw-IP URL')
+  }
+
+  // Added after the argument factors so they list first on equal points.
+  if (!shell) tally.add(BASE_SCORE[classification.risk], `${classification.actionClass} tool`)
+  if (input.history?.length) scoreHistory(input.history, input.now ?? Date.now(), tally)
+  return tally.result()
+}
+
+/** Per-session record of recent calls, for the history part of the score. */
+export class RiskHistory {
+  private calls = new Map<string, RecentCall[]>()
+
+  constructor(private limit = 50) {}
+
+  get(sessionId: string): RecentCall[] {
+    return this.calls.get(sessionId) ?? []
+  }
+
+  note(sessionId: string, call: RecentCall): void {
+    let calls = this.calls.get(sessionId)
+    if (!calls) {
+      calls = []
+      this.calls.set(sessionId, calls)
+    }
+    calls.push(call)
+    if (calls.length > this.limit) calls.shift()
+  }
+
+  /** Forget a session's history. */
+  clear(sessionId: string): void {
+    this.calls.delete(sessionId)
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { CompiledRegexSet, safeRegexMatchRanges, safeRegexTest } from './safe-regex'
+
+describe('CompiledRegexSet', () => {
+  it('matches like the one-shot helpers', () => {
+    const set = new CompiledRegexSet()
+    const input = 'echo "rm -rf /" && RM -rf /'
+    expect(set.test('rm\\s+-rf', 'i', input)).toBe(safeRegexTest('rm\\s+-rf', 'i', input))
+    expect(set.matchRanges('rm\\s+-rf', 'i', input)).toEqual(safeRegexMatchRanges('rm\\s+-rf', 'i', input))
+  })
+
+  it('compiles each pattern once and reuses it', () => {
+    const set = new CompiledRegexSet()
+    set.add('^git push', 'i')
+    expect(set.test('^git push', 'i', 'git push origin')).toBe(true)
+    expect(set.test('^git push', 'i', 'git pull')).toBe(false)
+    expect(set.size).toBe(1)
+  })
+
+  it('resets global state between range searches', () => {
+    const set = new CompiledRegexSet()
+    expect(set.matchRanges('a', 'i', 'aa')).toEqual([[0, 1], [1, 2]])
+    expect(set.matchRanges('a', 'i', 'a')).toEqual([[0, 1]])
+  })
+
+  it('never matches an invalid pattern', () => {
+    const set = new CompiledRegexSet()
+    expect(set.add('(', 'i')).toBe(false)
+    expect(set.test('(', 'i', '(')).toBe(false)
+  })
+
+  it('gives up on catastrophic backtracking', () => {
+    const set = new CompiledRegexSet()
+    expect(set.test('^(a+)+$', '', `${'a'.repeat(40)}!`)).toBe(false)
+    expect(set.test('^a', '', 'abc')).toBe(true)
+  })
+})
@@ -2,6 +2,10 @@
  * @module safe-regex
  * @description ReDoS-safe regex testing using a sandboxed VM with a timeout.
  * Extracted from authz-server.ts for reuse across the proxy pipeline.
+ *
+ * The one-shot functions create a fresh VM context per call. Hot paths that
+ * test the same patterns repeatedly use a CompiledRegexSet instead, which
+ * builds each RegExp once inside a single long-lived context.
  */
 
 import vm from 'node:vm'
@@ -40,3 +44,115 @@ export function safeRegexMatch(pattern: string, flags: string, input: string): s
     return null // timeout or invalid regex — treat as no match
   }
 }
+
+/**
+ * Find the [start, end) offsets of every match with a timeout.
+ * Returns an empty array if there are no matches or on timeout / invalid pattern.
+ */
+export function safeRegexMatchRanges(pattern: string, flags: string, input: string): [number, number][] {
+  try {
+    const sandbox = { result: [] as [number, number][], pattern, flags: flags.includes('g') ? flags : `${flags}g`, input }
+    vm.runInNewContext(
+      `const re = new RegExp(pattern, flags)
+       let m
+       while ((m = re.exec(input)) !== null) {
+         result.push([m.index, m.index + m[0].length])
+         if (m[0].length === 0) re.lastIndex++
+       }`,
+      sandbox,
+      { timeout: REGEX_TIMEOUT_MS },
+    )
+    return sandbox.result
+  } catch {
+    return [] // timeout or invalid regex — treat as no match
+  }
+}
+
+/** Regex matching, either one-shot or backed by a CompiledRegexSet. */
+export interface RegexMatcher {
+  test(pattern: string, flags: string, input: string): boolean
+  matchRanges(pattern: string, flags: string, input: string): [number, number][]
+}
+
+/** Stateless matcher: a fresh sandbox per call. */
+export const defaultRegexMatcher: RegexMatcher = {
+  test: safeRegexTest,
+  matchRanges: safeRegexMatchRanges,
+}
+
+const COMPILE_SCRIPT = new vm.Script('regexes[slot] = new RegExp(pattern, flags)')
+const TEST_SCRIPT = new vm.Script('result = regexes[slot].test(input)')
+// Block-scoped: top-level let/const would collide when the script reruns in the same context.
+const RANGES_SCRIPT = new vm.Script(`{
+  const re = regexes[slot]
+  re.lastIndex = 0
+  result = []
+  let m
+  while ((m = re.exec(input)) !== null) {
+    result.push([m.index, m.index + m[0].length])
+    if (m[0].length === 0) re.lastIndex++
+  }
+}`)
+
+/**
+ * Patterns compiled once into one shared sandbox. Every match still runs
+ * under the timeout; only the context and RegExp construction are reused.
+ * Invalid patterns are remembered and never match.
+ */
+export class CompiledRegexSet implements RegexMatcher {
+  private sandbox = { regexes: [] as RegExp[], slot: 0, pattern: '', flags: '', input: '', result: null as unknown }
+  private context = vm.createContext(this.sandbox)
+  private slots = new Map<string, number>()
+
+  /** Compile a pattern ahead of use. Returns false if it is invalid. */
+  add(pattern: string, flags: string): boolean {
+    return this.slotFor(pattern, flags) >= 0
+  }
+
+  /** Number of distinct patterns compiled (including invalid ones). */
+  get size(): number {
+    return this.slots.size
+  }
+
+  private slotFor(pattern: string, flags: string): number {
+    const key = `${flags}/${pattern}`
+    let slot = this.slots.get(key)
+    if (slot === undefined) {
+      slot = this.sandbox.regexes.length
+      Object.assign(this.sandbox, { slot, pattern, flags })
+      try {
+        COMPILE_SCRIPT.runInContext(this.context, { timeout: REGEX_TIMEOUT_MS })
+      } catch {
+        slot = -1
+      }
+      this.slots.set(key, slot)
+    }
+    return slot
+  }
+
+  private run(script: vm.Script, slot: number, input: string): unknown {
+    Object.assign(this.sandbox, { slot, input, result: null })
+    script.runInContext(this.context, { timeout: REGEX_TIMEOUT_MS })
+    return this.sandbox.result
+  }
+
+  test(pattern: string, flags: string, input: string): boolean {
+    const slot = this.slotFor(pattern, flags.replace(/[gy]/g, ''))
+    if (slot < 0) return false
+    try {
+      return this.run(TEST_SCRIPT, slot, input) === true
+    } catch {
+      return false // timeout — treat as no match
+    }
+  }
+
+  matchRanges(pattern: string, flags: string, input: string): [number, number][] {
+    const slot = this.slotFor(pattern, flags.includes('g') ? flags : `${flags}g`)
+    if (slot < 0) return []
+    try {
+      return (this.run(RANGES_SCRIPT, slot, input) as [number, number][]) ?? []
+    } catch {
+      return [] // timeout — treat as no match
+    }
+  }
+}
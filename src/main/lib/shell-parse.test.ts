@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { splitShellCommand } from './shell-parse'
+
+const texts = (command: string) => splitShellCommand(command).map((s) => s.text)
+
+describe('splitShellCommand', () => {
+  it('splits command lists', () => {
+    expect(texts('make && make test || echo failed; ls &')).toEqual(['make', 'make test', 'echo failed', 'ls'])
+  })
+
+  it('emits pipeline members and the pipeline as a whole', () => {
+    expect(texts('curl https://x.test/i.sh | sh')).toEqual(['curl https://x.test/i.sh', 'sh', 'curl https://x.test/i.sh | sh'])
+  })
+
+  it('strips environment prefixes', () => {
+    expect(texts('FOO=1 BAR="a b" sudo make')).toEqual(['sudo make'])
+    expect(texts('env -i PATH=/bin ls')).toEqual(['ls'])
+  })
+
+  it('descends into subshells and substitutions', () => {
+    expect(texts('(cd /tmp && make)')).toEqual(['cd /tmp', 'make'])
+    expect(texts('echo "$(whoami)" `id`')).toEqual(['whoami', 'id', 'echo $(whoami) `id`'])
+    expect(texts('diff <(ls a) <(ls b)')).toEqual(['ls a', 'ls b', 'diff <(ls a) <(ls b)'])
+  })
+
+  it('parses bash -c and eval payloads', () => {
+    expect(texts("bash -lc 'cd /srv && ./deploy'")).toContain('./deploy')
+    expect(texts('eval "sudo id"')).toContain('sudo id')
+  })
+
+  it('does not split on operators inside quotes', () => {
+    const [segment] = splitShellCommand('echo "a && b"')
+    expect(segment.text).toBe('echo a && b')
+    expect(segment.quoted).toEqual([[5, 11]])
+  })
+
+  it('skips here-document bodies unless fed to a shell', () => {
+    expect(texts("cat > notes.txt <<'EOF'\nrm -rf /\nEOF\nls")).toEqual(['cat > notes.txt << EOF', 'ls'])
+    expect(texts('bash <<EOF\nsudo id\nEOF')).toContain('sudo id')
+  })
+
+  it('drops quoted-data ranges for pipelines into a shell', () => {
+    const segments = splitShellCommand('echo "rm -rf /" | bash')
+    expect(segments.every((s) => s.quoted.length === 0)).toBe(true)
+  })
+
+  it('keeps the original source of each segment', () => {
+    expect(splitShellCommand('ls; FOO=1 sudo x').map((s) => s.source)).toEqual(['ls', 'FOO=1 sudo x'])
+  })
+
+  it('collects redirection targets as writes', () => {
+    expect(splitShellCommand('make > out.log 2>&1; echo x >> "/tmp/a b" 2>/dev/null').map((s) => s.writes)).toEqual([
+      ['out.log'],
+      ['/tmp/a b', '/dev/null'],
+    ])
+    expect(splitShellCommand('cat <in.txt | tee -a x >| y').at(-1)!.writes).toEqual(['y'])
+  })
+
+  it('returns nothing for an empty command', () => {
+    expect(splitShellCommand('   ')).toEqual([])
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * @module shell-parse
+ * @description Split a shell command line into the simple commands it runs.
+ *
+ * Command rules are evaluated per simple command rather than against the raw
+ * string, so `echo ok && rm -rf /` or `FOO=1 sudo x` can't hide a command
+ * behind a harmless leading one. The splitter understands pipelines, `&&` /
+ * `||` / `;` / `&` lists, `( … )` subshells, `$( … )` and backtick
+ * substitutions (including inside double quotes), process substitutions,
+ * `bash -c` / `eval` payloads, here-documents fed to a shell, and leading
+ * `VAR=value` / `env` prefixes. Output redirection targets are collected per
+ * segment so write scopes can be enforced on shell commands.
+ *
+ * This is a best-effort lexer, not a full POSIX parser: anything it can't
+ * make sense of stays in the surrounding segment, and input nested deeper
+ * than MAX_DEPTH falls back to a single segment holding the whole command.
+ */
+
+export interface ShellSegment {
+  /** The segment as written in the command (or `bash -c` payload). */
+  source: string
+  /** Words after quote removal and prefix stripping, joined by single spaces. */
+  text: string
+  /**
+   * [start, end) ranges of `text` that came from quoted strings containing
+   * whitespace — literal arguments such as commit messages, not commands.
+   */
+  quoted: [number, number][]
+  /** Files written by output redirections (`>`, `>>`, `&>`, `>|`), as written. */
+  writes: string[]
+}
+
+interface Word {
+  value: string
+  /** True when part of the word was quoted and contained whitespace. */
+  quotedData: boolean
+}
+
+interface PendingHeredoc {
+  delimiter: string
+  /** Body is executed (fed to a shell) rather than treated as data. */
+  execute: boolean
+}
+
+const MAX_DEPTH = 16
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh'])
+
+/** Reserved words that may precede a command without being the command. */
+const KEYWORDS = new Set(['!', '{', '}', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'time'])
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/
+
+/** Redirection targets in a command the lexer gave up on (fallback only). */
+const FALLBACK_WRITE = /(?:^|[^<>&])>>?\|?\s*([^\s;&|<>()]+)/g
+
+const WORD_BREAK = new Set([' ', '\t', '\n', ';', '|', '&', '<', '>', '(', ')'])
+
+/**
+ * Split a command into evaluation units: every simple command, plus every
+ * multi-command pipeline as a whole (so rules like "curl … | sh" still match).
+ */
+export function splitShellCommand(command: string): ShellSegment[] {
+  const out: ShellSegment[] = []
+  try {
+    parseInto(command, 0, out)
+  } catch {
+    const whole = command.trim()
+    const writes = [...whole.matchAll(FALLBACK_WRITE)].map((m) => m[1])
+    return whole ? [{ source: whole, text: whole, quoted: [], writes }] : []
+  }
+  return out
+}
+
+function basename(word: string): string {
+  return word.slice(word.lastIndexOf('/') + 1)
+}
+
+/** Join words into segment text, recording where quoted data landed. */
+function buildSegment(words: Word[], source: string, writes: string[]): ShellSegment | null {
+  if (!words.length) return null
+  let text = ''
+  const quoted: [number, number][] = []
+  for (const word of words) {
+    if (text) text += ' '
+    if (word.quotedData) quoted.push([text.length, text.length + word.value.length])
+    text += word.value
+  }
+  return { source, text, quoted, writes }
+}
+
+/** Concatenate a pipeline's segments into one unit joined by ` | `. */
+function joinPipeline(segments: ShellSegment[], source: string): ShellSegment {
+  let text = ''
+  const quoted: [number, number][] = []
+  for (const seg of segments) {
+    if (text) text += ' | '
+    for (const [s, e] of seg.quoted) quoted.push([s + text.length, e + text.length])
+    text += seg.text
+  }
+  return { source, text, quoted, writes: segments.flatMap((seg) => seg.writes) }
+}
+
+/** Parse `src` as a command list, appending its segments to `out`. */
+function parseInto(src: string, depth: number, out: ShellSegment[]): void {
+  if (depth > MAX_DEPTH) throw new Error('Command nesting too deep')
+  const heredocs: PendingHeredoc[] = []
+
+  /** Skip here-document bodies that start after the newline at `i`. */
+  const consumeHeredocs = (i: number): number => {
+    for (const doc of heredocs) {
+      const bodyStart = i
+      for (;;) {
+        if (i >= src.length) break
+        const nl = src.indexOf('\n', i)
+        const line = src.slice(i, nl < 0 ? src.length : nl)
+        const lineStart = i
+        i = nl < 0 ? src.length : nl + 1
+        if (line.replace(/^\t+/, '').trim() === doc.delimiter) {
+          if (doc.execute) parseInto(src.slice(bodyStart, lineStart), depth + 1, out)
+          break
+        }
+      }
+    }
+    heredocs.length = 0
+    return i
+  }
+
+  /** Parse a command list until `closer` (or end of input); returns the index after it. */
+  const parseList = (pos: number, closer: string | null, level: number): number => {
+    if (level > MAX_DEPTH) throw new Error('Command nesting too deep')
+    let i = pos
+    while (i < src.length) {
+      const pipeline: ShellSegment[] = []
+      const pipeHeredocs: PendingHeredoc[] = []
+      let feedsShell = false
+      const pipeStart = i
+      for (;;) {
+        const simple = parseSimple(i, closer, level)
+        i = simple.end
+        if (simple.segment) pipeline.push(simple.segment)
+        pipeHeredocs.push(...simple.heredocs)
+        feedsShell ||= simple.readsShellInput
+        if (src[i] === '|' && src[i + 1] !== '|') {
+          i += src[i + 1] === '&' ? 2 : 1
+          continue
+        }
+        break
+      }
+      // Anything piped into a shell is code, not data: `echo "rm -rf /" | sh`.
+      if (feedsShell) {
+        for (const seg of pipeline) seg.quoted = []
+        for (const doc of pipeHeredocs) doc.execute = true
+      }
+      if (pipeline.length) {
+        out.push(...pipeline)
+        if (pipeline.length > 1) out.push(joinPipeline(pipeline, src.slice(pipeStart, i).trim()))
+      }
+
+      if (i >= src.length) break
+      const c = src[i]
+      if (closer && c === closer) return i + 1
+      if (c === '\n') {
+        i = consumeHeredocs(i + 1)
+      } else if (src.startsWith('&&', i) || src.startsWith('||', i) || src.startsWith(';;', i)) {
+        i += 2
+      } else {
+        // `;`, `&`, or a stray `)` — step over it
+        i++
+      }
+    }
+    return i
+  }
+
+  /** Parse one simple command starting at `pos`. */
+  const parseSimple = (pos: number, closer: string | null, level: number): {
+    segment: ShellSegment | null
+    end: number
+    heredocs: PendingHeredoc[]
+    /** The command runs a shell that reads its script from stdin. */
+    readsShellInput: boolean
+  } => {
+    const words: Word[] = []
+    const ownHeredocs: PendingHeredoc[] = []
+    const writes: string[] = []
+    /** The next word is the target of an output redirection. */
+    let writeTarget = false
+    let i = pos
+    let start = -1
+
+    for (;;) {
+      while (i < src.length && (src[i] === ' ' || src[i] === '\t' || (src[i] === '\\' && src[i + 1] === '\n'))) {
+        i += src[i] === '\\' ? 2 : 1
+      }
+      if (i >= src.length) break
+      const c = src[i]
+      if (c === '#' && (i === 0 || WORD_BREAK.has(src[i - 1]))) {
+        while (i < src.length && src[i] !== '\n') i++
+        break
+      }
+      if (c === closer || c === '\n' || c === ';' || c === '|' || c === ')') break
+      if (c === '&' && src[i + 1] !== '>') break
+      if (start < 0) start = i
+
+      if (c === '(') {
+        i = parseList(i + 1, ')', level + 1)
+        continue
+      }
+
+      if (c === '<' || c === '>' || c === '&') {
+        let j = i
+        if (src[j] === '&') j++
+        while (src[j] === '<' || src[j] === '>') j++
+        if (src[j] === '(' && j === i + 1) {
+          // Process substitution: <(cmd) / >(cmd)
+          j = parseList(j + 1, ')', level + 1)
+          words.push({ value: src.slice(i, j), quotedData: false })
+          i = j
+          continue
+        }
+        if (src.slice(i, j) === '<<' && src[j] === '-') j++
+        if (src[j] === '|' && src[j - 1] === '>') j++
+        const op = src.slice(i, j)
+        let duplicates = false
+        if (src[j] === '&') {
+          // `>&2`, `2>&1` duplicate a descriptor rather than naming a file
+          duplicates = true
+          j++
+          while (j < src.length && /[0-9-]/.test(src[j])) j++
+        }
+        words.push({ value: src.slice(i, j), quotedData: false })
+        writeTarget = op.includes('>') && !duplicates
+        i = j
+        if (op === '<<' || op === '<<-') {
+          while (src[i] === ' ' || src[i] === '\t') i++
+          const delim = readWord(i, closer, level)
+          if (delim.word.value) {
+            const doc = { delimiter: delim.word.value, execute: false }
+            heredocs.push(doc)
+            ownHeredocs.push(doc)
+            words.push({ value: delim.word.value, quotedData: false })
+          }
+          i = delim.end
+        }
+        continue
+      }
+
+      const read = readWord(i, closer, level)
+      words.push(read.word)
+      if (writeTarget) writes.push(read.word.value)
+      writeTarget = false
+      i = read.end
+    }
+
+    const source = start < 0 ? '' : src.slice(start, i).trim()
+
+    // Drop reserved words and environment prefixes: `FOO=1 sudo x` runs `sudo x`.
+    let k = 0
+    for (;;) {
+      const w = words[k]
+      if (!w) break
+      if (KEYWORDS.has(w.value) || ASSIGNMENT.test(w.value)) { k++; continue }
+      if (w.value === 'env') {
+        k++
+        while (k < words.length && (words[k].value.startsWith('-') || ASSIGNMENT.test(words[k].value))) k++
+        continue
+      }
+      break
+    }
+    const rest = words.slice(k)
+
+    // Shell payloads: `bash -c "<cmd>"`, `eval "<cmd>"`, `bash <<EOF`.
+    if (rest[0]?.value === 'eval' && rest.length > 1) {
+      parseInto(rest.slice(1).map((w) => w.value).join(' '), depth + 1, out)
+    }
+    let readsShellInput = false
+    const shellIdx = rest.findIndex((w) => SHELLS.has(basename(w.value)))
+    if (shellIdx >= 0) {
+      let payload: string | null = null
+      for (let j = shellIdx + 1; j < rest.length; j++) {
+        const flag = rest[j].value
+        if (/^-[A-Za-z]*c[A-Za-z]*$/.test(flag)) {
+          payload = rest[j + 1]?.value ?? null
+          break
+        }
+        if (!flag.startsWith('-') && !flag.startsWith('+')) break
+      }
+      if (payload !== null) parseInto(payload, depth + 1, out)
+      else readsShellInput = true
+    }
+
+    return { segment: buildSegment(rest, source, writes), end: i, heredocs: ownHeredocs, readsShellInput }
+  }
+
+  /** Read one word, resolving quotes and recursing into substitutions. */
+  const readWord = (pos: number, closer: string | null, level: number): { word: Word; end: number } => {
+    let value = ''
+    let quotedData = false
+    let i = pos
+
+    while (i < src.length) {
+      const c = src[i]
+      if (WORD_BREAK.has(c) || c === closer) break
+
+      if (c === '\\') {
+        value += src[i + 1] ?? ''
+        i += 2
+      } else if (c === "'") {
+        const close = src.indexOf("'", i + 1)
+        const end = close < 0 ? src.length : close
+        const part = src.slice(i + 1, end)
+        if (/\s/.test(part)) quotedData = true
+        value += part
+        i = end + 1
+      } else if (c === '"') {
+        const dq = readDoubleQuoted(i + 1, level)
+        if (/\s/.test(dq.value)) quotedData = true
+        value += dq.value
+        i = dq.end
+      } else if (c === '$' && src[i + 1] === '(') {
+        const end = src[i + 2] === '(' ? skipArithmetic(i + 3) : parseList(i + 2, ')', level + 1)
+        value += src.slice(i, end)
+        i = end
+      } else if (c === '`') {
+        const end = parseList(i + 1, '`', level + 1)
+        value += src.slice(i, end)
+        i = end
+      } else {
+        value += c
+        i++
+      }
+    }
+    return { word: { value, quotedData }, end: i }
+  }
+
+  /** Read a double-quoted string body starting after the opening quote. */
+  const readDoubleQuoted = (pos: number, level: number): { value: string; end: number } => {
+    let value = ''
+    let i = pos
+    while (i < src.length && src[i] !== '"') {
+      const c = src[i]
+      if (c === '\\' && '$`"\\\n'.includes(src[i + 1] ?? '')) {
+        value += src[i + 1]
+        i += 2
+      } else if (c === '$' && src[i + 1] === '(') {
+        const end = src[i + 2] === '(' ? skipArithmetic(i + 3) : parseList(i + 2, ')', level + 1)
+        value += src.slice(i, end)
+        i = end
+      } else if (c === '`') {
+        const end = parseList(i + 1, '`', level + 1)
+        value += src.slice(i, end)
+        i = end
+      } else {
+        value += c
+        i++
+      }
+    }
+    return { value, end: i + 1 }
+  }
+
+  /** Skip a `$(( … ))` arithmetic expansion body; returns the index after `))`. */
+  const skipArithmetic = (pos: number): number => {
+    let open = 2
+    let i = pos
+    while (i < src.length && open > 0) {
+      if (src[i] === '(') open++
+      else if (src[i] === ')') open--
+      i++
+    }
+    return i
+  }
+
+  parseList(0, null, depth)
+}
@@ -7,18 +7,23 @@ import type { TimelineActionType } from '../../types'
 
 const READ_TOOLS = new Set([
   'Read', 'Glob', 'Grep', 'WebFetch', 'WebSearch', 'TaskList', 'TaskGet',
+  'LS', 'FetchUrl',
+  'read_file', 'read_many_files', 'list_directory', 'web_fetch',
 ])
 
 const WRITE_TOOLS = new Set([
   'Write', 'Edit', 'NotebookEdit', 'TaskCreate', 'TaskUpdate',
+  'Create', 'MultiEdit', 'ApplyPatch',
+  'write_file', 'replace',
 ])
 
 const BASH_TOOLS = new Set([
-  'Bash',
+  'Bash', 'Execute', 'run_shell_command',
 ])
 
 const SEARCH_TOOLS = new Set([
   'WebSearch', 'Grep', 'Glob',
+  'google_web_search', 'search_file_content', 'glob',
 ])
 
 const AGENT_TOOLS = new Set([
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyToolClassifications,
+  classificationOverrides,
+  classifyTool,
+  suggestClassification,
+} from './tool-classification'
+import type { ActivityEvent } from '../../types'
+
+describe('classifyTool', () => {
+  it('classifies built-in tools and falls back to execute', () => {
+    expect(classifyTool('Read')).toEqual({ actionClass: 'read', risk: 'low' })
+    expect(classifyTool('Bash')).toEqual({ actionClass: 'execute', risk: 'high' })
+    expect(classifyTool('mcp__github__get_issue')).toEqual({ actionClass: 'execute', risk: 'high' })
+  })
+
+  it('applies overrides from MCP server records, folding server name spelling', () => {
+    const overrides = classificationOverrides([
+      { name: 'My Server', toolClassifications: { get_issue: { actionClass: 'read', risk: 'low' } } },
+      { name: 'ops', toolClassifications: { status: { actionClass: 'execute', risk: 'high' } } },
+    ])
+    expect(classifyTool('mcp__My_Server__get_issue', overrides)).toEqual({ actionClass: 'read', risk: 'low' })
+    expect(classifyTool('mcp__my-server__get_issue', overrides)).toEqual({ actionClass: 'read', risk: 'low' })
+    expect(classifyTool('mcp__ops__status', overrides)).toEqual({ actionClass: 'execute', risk: 'high' })
+    expect(classifyTool('mcp__ops__other', overrides)).toEqual(classifyTool('mcp__ops__other'))
+  })
+})
+
+describe('suggestClassification', () => {
+  it('reads the first sentence of the description', () => {
+    expect(suggestClassification('get_issue', 'Get details of a GitHub issue. Returns title, body and labels.'))
+      .toEqual({ actionClass: 'read', risk: 'low', reason: 'Description says "get".' })
+    expect(suggestClassification('manage_repo', 'Permanently deletes a repository and all of its data.'))
+      .toMatchObject({ actionClass: 'execute', risk: 'high' })
+    expect(suggestClassification('notify', 'Send a message to a Slack channel.'))
+      .toMatchObject({ actionClass: 'send', risk: 'medium' })
+    expect(suggestClassification('create_issue', 'Create a new issue. Existing issues with the same title are not removed.'))
+      .toMatchObject({ actionClass: 'write', risk: 'medium' })
+  })
+
+  it('trusts an explicit read-only statement', () => {
+    expect(suggestClassification('run_query', 'Run a SQL query. This tool is read-only.'))
+      .toEqual({ actionClass: 'read', risk: 'low', reason: 'Description says the tool is read-only.' })
+  })
+
+  it('falls back to the words in the tool name', () => {
+    expect(suggestClassification('listPullRequests')).toMatchObject({ actionClass: 'read', reason: 'Tool name contains "list".' })
+    expect(suggestClassification('delete_branch', '')).toMatchObject({ actionClass: 'execute' })
+    expect(suggestClassification('frobnicate', 'Frobnicates.')).toBeNull()
+  })
+})
+
+describe('applyToolClassifications', () => {
+  it('re-classifies recorded events for overridden tools only', () => {
+    const event = (toolName: string): ActivityEvent => ({
+      id: toolName, sessionId: 's1', timestamp: '2026-01-01T00:00:00Z', toolName,
+      actionClass: 'execute', risk: 'high', decision: 'allow', reason: null, harnessId: 'claude',
+    })
+    const overrides = classificationOverrides([{ name: 'github', toolClassifications: { get_issue: { actionClass: 'read', risk: 'low' } } }])
+    const [issue, bash] = applyToolClassifications([event('mcp__github__get_issue'), event('Bash')], overrides)
+    expect(issue).toMatchObject({ actionClass: 'read', risk: 'low' })
+    expect(bash).toMatchObject({ actionClass: 'execute', risk: 'high' })
+  })
+})
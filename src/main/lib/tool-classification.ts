@@ -0,0 +1,205 @@
+/**
+ * @module tool-classification
+ * @description How a tool call is classified: its action class and risk.
+ *
+ * Built-in harness tools come from a static map. Anything else — mostly MCP
+ * tools — falls back to name heuristics, and unknown tools count as
+ * 'execute'. Users can override the classification of individual MCP tools
+ * on the server record (McpServerRecord.toolClassifications); an override
+ * wins over both. Overrides can be suggested from the tool descriptions MCP
+ * introspection collects, since names like `get_issue` carry little signal.
+ */
+
+import type {
+  ActionClass,
+  ActivityEvent,
+  McpServerRecord,
+  RiskLevel,
+  ToolClassification,
+  ToolClassificationSuggestion,
+} from '../../types'
+
+/** Classification overrides keyed by classificationKey of the full tool name. */
+export type ToolClassificationMap = Record<string, ToolClassification>
+
+// Claude Code uses PascalCase tool names, OpenClaw uses lowercase.
+// We normalize to a canonical key for lookup.
+const TOOL_ACTION_MAP: Record<string, ActionClass> = {
+  // Claude Code — file & search tools
+  bash:      'execute',
+  write:     'write',
+  edit:      'write',
+  read:      'read',
+  glob:      'read',
+  grep:      'read',
+  webfetch:  'send',
+  websearch: 'send',
+  task:      'execute',
+  // Claude Code — planning & navigation (harmless, auto-allow)
+  enterplanmode:    'read',
+  exitplanmode:     'read',
+  todoread:         'read',
+  todowrite:        'read',
+  todolist:         'read',
+  askuserquestion:  'read',
+  notebookedit:     'write',
+  skill:            'read',
+  taskcreate:       'read',
+  taskupdate:       'read',
+  taskget:          'read',
+  tasklist:         'read',
+  taskoutput:       'read',
+  taskstop:         'read',
+  // OpenClaw-specific names (underscores stripped by normalizeToolKey)
+  exec:       'execute',
+  browser:    'send',
+  // Droid (Factory.ai) names
+  execute:    'execute',
+  create:     'write',
+  multiedit:  'write',
+  applypatch: 'write',
+  ls:         'read',
+  fetchurl:   'send',
+  // Gemini CLI names (underscores stripped by normalizeToolKey)
+  runshellcommand:   'execute',
+  writefile:         'write',
+  replace:           'write',
+  readfile:          'read',
+  readmanyfiles:     'read',
+  listdirectory:     'read',
+  searchfilecontent: 'read',
+  googlewebsearch:   'send',
+  savememory:        'read',
+  writetodos:        'read',
+}
+
+const ACTION_RISK_MAP: Record<ActionClass, RiskLevel> = {
+  read:    'low',
+  write:   'medium',
+  execute: 'high',
+  send:    'medium',
+}
+
+// Heuristic patterns for classifying unknown tools (e.g. MCP tools).
+// Checked in order; first match wins.
+const HEURISTIC_PATTERNS: [RegExp, ActionClass][] = [
+  [/\b(delete|remove|drop|destroy|kill|purge|reset|force)\b/i, 'execute'],
+  [/\b(create|write|update|set|put|post|insert|modify|edit|patch|rename|move)\b/i, 'write'],
+  [/\b(send|email|notify|publish|push|deploy|upload)\b/i, 'send'],
+  [/\b(read|get|list|search|find|query|fetch|show|describe|view|inspect|check|status|count|head|tail|cat|ls)\b/i, 'read'],
+]
+
+/** Normalize tool name to lowercase key for classification lookup. */
+export function normalizeToolKey(toolName: string): string {
+  return toolName.toLowerCase().replace(/_/g, '')
+}
+
+/**
+ * Lookup key for a classification override. Harnesses spell MCP server names
+ * differently in tool names (`mcp__My_Server__x`, `mcp__my-server__x`), so
+ * case and separators are folded.
+ */
+export function classificationKey(toolName: string): string {
+  return toolName.toLowerCase().replace(/[^a-z0-9_]/g, '_')
+}
+
+/** Full tool name a harness uses for an MCP server's tool. */
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${server}__${tool}`
+}
+
+/** Classification from the static map and name heuristics alone. */
+function defaultClassification(toolName: string): ToolClassification {
+  const key = normalizeToolKey(toolName)
+  let actionClass = TOOL_ACTION_MAP[key]
+
+  // If not in the static map, try heuristic classification based on tool name
+  if (!actionClass) {
+    for (const [pattern, cls] of HEURISTIC_PATTERNS) {
+      if (pattern.test(toolName)) {
+        actionClass = cls
+        break
+      }
+    }
+  }
+
+  // Final fallback: unknown tools default to 'execute' (conservative)
+  if (!actionClass) actionClass = 'execute'
+
+  const risk = ACTION_RISK_MAP[actionClass]
+  return { actionClass, risk }
+}
+
+/** Classify a tool call; a user override for the tool wins. */
+export function classifyTool(toolName: string, overrides?: ToolClassificationMap): ToolClassification {
+  const override = overrides?.[classificationKey(toolName)]
+  if (override) return { actionClass: override.actionClass, risk: override.risk }
+  return defaultClassification(toolName)
+}
+
+/** Collect the classification overrides set on MCP server records. */
+export function classificationOverrides(servers: Pick<McpServerRecord, 'name' | 'toolClassifications'>[]): ToolClassificationMap {
+  const map: ToolClassificationMap = {}
+  for (const server of servers) {
+    for (const [tool, classification] of Object.entries(server.toolClassifications ?? {})) {
+      map[classificationKey(mcpToolName(server.name, tool))] = classification
+    }
+  }
+  return map
+}
+
+/** Re-classify recorded events whose tools have an override (e.g. for Radar baselines). */
+export function applyToolClassifications(events: ActivityEvent[], overrides: ToolClassificationMap): ActivityEvent[] {
+  if (!Object.keys(overrides).length) return events
+  return events.map((e) => {
+    const override = overrides[classificationKey(e.toolName)]
+    return override ? { ...e, actionClass: override.actionClass, risk: override.risk } : e
+  })
+}
+
+// ─── Suggestions from descriptions ───────────────────────────────────────────
+
+/** The description says outright that the tool changes nothing. */
+const READ_ONLY_PHRASES = /\b(read[- ]only|does not (modify|change|write)|doesn't (modify|change|write)|without (modifying|changing)|no side[- ]effects?)\b/i
+
+/** Verbs that describe what a tool does, strictest class first; first match wins. */
+const DESCRIPTION_VERBS: [RegExp, ActionClass, RiskLevel][] = [
+  [/\b(delete|deletes|remove|removes|drop|drops|destroy|destroys|purge|purges|wipe|wipes|truncate|truncates|terminate|terminates|kill|kills|permanently|irreversibl[ey])\b/i, 'execute', 'high'],
+  [/\b(execute|executes|run|runs|eval|evaluate|evaluates|invoke|invokes)\b/i, 'execute', 'high'],
+  [/\b(send|sends|email|emails|message|messages|publish|publishes|notify|notifies|deploy|deploys|upload|uploads|push|pushes|post|posts)\b/i, 'send', 'medium'],
+  [/\b(create|creates|update|updates|modify|modifies|write|writes|edit|edits|insert|inserts|set|sets|rename|renames|move|moves|add|adds|merge|merges|close|closes|assign|assigns)\b/i, 'write', 'medium'],
+  [/\b(get|gets|read|reads|list|lists|search|searches|find|finds|fetch|fetches|retrieve|retrieves|query|queries|show|shows|describe|describes|view|views|inspect|inspects|check|checks|count|counts|lookup|download|downloads)\b/i, 'read', 'low'],
+]
+
+function firstSentence(text: string): string {
+  const match = text.trim().match(/^.*?[.!?](\s|$)/s)
+  return (match ? match[0] : text).trim()
+}
+
+function matchVerbs(text: string): { classification: ToolClassification; word: string } | null {
+  for (const [pattern, actionClass, risk] of DESCRIPTION_VERBS) {
+    const m = text.match(pattern)
+    if (m) return { classification: { actionClass, risk }, word: m[0].toLowerCase() }
+  }
+  return null
+}
+
+/**
+ * Suggest a classification for an MCP tool from its description, falling back
+ * to the words in its name (`get_issue`, `createPullRequest`). Only the first
+ * sentence of the description is read for verbs — later sentences tend to
+ * describe arguments and return values. Null when nothing matches.
+ */
+export function suggestClassification(tool: string, description?: string): ToolClassificationSuggestion | null {
+  const desc = description?.trim() ?? ''
+  if (desc && READ_ONLY_PHRASES.test(desc)) {
+    return { actionClass: 'read', risk: 'low', reason: 'Description says the tool is read-only.' }
+  }
+  const fromDesc = desc ? matchVerbs(firstSentence(desc)) : null
+  if (fromDesc) return { ...fromDesc.classification, reason: `Description says "${fromDesc.word}".` }
+
+  const words = tool.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_\-.]+/g, ' ')
+  const fromName = matchVerbs(words)
+  if (fromName) return { ...fromName.classification, reason: `Tool name contains "${fromName.word}".` }
+  return null
+}
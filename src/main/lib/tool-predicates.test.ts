@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractDomain,
+  getInputField,
+  matchDomain,
+  matchToolInputPredicates,
+  matchValueGlob,
+  toolRuleKey,
+} from './tool-predicates'
+
+describe('getInputField', () => {
+  it('reads nested fields by dot path', () => {
+    expect(getInputField({ options: { repo: 'acme/prod' } }, 'options.repo')).toBe('acme/prod')
+  })
+
+  it('returns undefined for missing paths', () => {
+    expect(getInputField({ options: 'x' }, 'options.repo')).toBeUndefined()
+    expect(getInputField(undefined, 'url')).toBeUndefined()
+  })
+})
+
+describe('extractDomain', () => {
+  it('extracts the hostname from URLs and bare hosts', () => {
+    expect(extractDomain('https://Docs.Python.org/3/')).toBe('docs.python.org')
+    expect(extractDomain('example.com:8443/path')).toBe('example.com')
+  })
+
+  it('returns null for empty input', () => {
+    expect(extractDomain('  ')).toBeNull()
+  })
+})
+
+describe('matchDomain', () => {
+  it('matches exact domains only', () => {
+    expect(matchDomain('docs.python.org', 'docs.python.org')).toBe(true)
+    expect(matchDomain('evil-docs.python.org', 'docs.python.org')).toBe(false)
+  })
+
+  it('matches the apex and subdomains for *. patterns', () => {
+    expect(matchDomain('python.org', '*.python.org')).toBe(true)
+    expect(matchDomain('docs.python.org', '*.python.org')).toBe(true)
+    expect(matchDomain('notpython.org', '*.python.org')).toBe(false)
+  })
+})
+
+describe('matchValueGlob', () => {
+  it('lets * span path separators and spaces', () => {
+    expect(matchValueGlob('git push origin feature/x', 'git push *')).toBe(true)
+    expect(matchValueGlob('/repo/src/deep/file.ts', '/repo/*.ts')).toBe(true)
+  })
+
+  it('anchors the whole value', () => {
+    expect(matchValueGlob('echo git push', 'git push*')).toBe(false)
+  })
+})
+
+describe('matchToolInputPredicates', () => {
+  it('is vacuously true without predicates', () => {
+    expect(matchToolInputPredicates(undefined, {})).toBe(true)
+  })
+
+  it('compares numbers given as strings', () => {
+    expect(matchToolInputPredicates([{ field: 'limit', op: 'lte', value: 100 }], { limit: '50' })).toBe(true)
+    expect(matchToolInputPredicates([{ field: 'limit', op: 'lte', value: 100 }], { limit: 'many' })).toBe(false)
+  })
+
+  it('does not match object-valued fields', () => {
+    expect(matchToolInputPredicates([{ field: 'options', op: 'glob', value: '*' }], { options: { a: 1 } })).toBe(false)
+  })
+})
+
+describe('toolRuleKey', () => {
+  it('distinguishes rules with the same pattern but different predicates', () => {
+    const plain = toolRuleKey({ pattern: 'WebFetch' })
+    const scoped = toolRuleKey({ pattern: 'WebFetch', when: [{ field: 'url', op: 'domain', value: 'a.com' }] })
+    expect(plain).toBe('WebFetch')
+    expect(scoped).not.toBe(plain)
+  })
+})
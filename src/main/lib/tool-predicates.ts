@@ -0,0 +1,130 @@
+/**
+ * @module tool-predicates
+ * @description Argument-aware matching for ToolRule `when` predicates.
+ *
+ * A predicate reads one field out of the tool input (dot path) and tests it
+ * with a glob, regex, URL-domain or numeric comparison. A rule carrying
+ * predicates only matches when the tool name matches AND every predicate
+ * holds; a missing or non-scalar field never satisfies a predicate (so a
+ * negated predicate over a missing field does).
+ */
+
+import os from 'node:os'
+import type { ToolInputPredicate, ToolRule } from '../../types'
+import { canonicalJsonStringify } from './canonical-json'
+import { defaultRegexMatcher } from './safe-regex'
+import type { RegexMatcher } from './safe-regex'
+
+/** Read a dot-separated path (e.g. "options.repo") out of a tool input. */
+export function getInputField(input: Record<string, unknown> | undefined, field: string): unknown {
+  let value: unknown = input
+  for (const part of field.split('.')) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+    value = (value as Record<string, unknown>)[part]
+  }
+  return value
+}
+
+/** Hostname of a URL-ish value ("https://a.b/x", "a.b:443", "a.b"), lower-cased. */
+export function extractDomain(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  try {
+    const host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`).hostname
+    return host ? host.toLowerCase().replace(/\.$/, '') : null
+  } catch {
+    return null
+  }
+}
+
+/** Match a hostname against a domain; "*.example.com" also covers example.com itself. */
+export function matchDomain(host: string, domain: string): boolean {
+  const d = domain.trim().toLowerCase().replace(/\.$/, '')
+  if (d.startsWith('*.')) {
+    const apex = d.slice(2)
+    return host === apex || host.endsWith(`.${apex}`)
+  }
+  return host === d
+}
+
+/** Wildcard match over a whole string: `*` spans any characters (including `/`), `?` one. */
+export function matchValueGlob(value: string, glob: string): boolean {
+  const expanded = glob.replace(/^~(?=\/|$)/, os.homedir())
+  const regex = expanded
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*+/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${regex}$`, 's').test(value)
+}
+
+function testPredicate(pred: ToolInputPredicate, raw: unknown, regex: RegexMatcher): boolean {
+  if (raw === undefined || raw === null || typeof raw === 'object') return false
+  const str = String(raw)
+
+  switch (pred.op) {
+    case 'glob':   return matchValueGlob(str, String(pred.value))
+    case 'regex':  return regex.test(String(pred.value), 'i', str)
+    case 'domain': {
+      const host = extractDomain(str)
+      return host !== null && matchDomain(host, String(pred.value))
+    }
+    case 'eq': {
+      if (typeof pred.value === 'number') return str.trim() !== '' && Number(str) === pred.value
+      return str === pred.value
+    }
+    case 'gt': case 'gte': case 'lt': case 'lte': {
+      const n = typeof raw === 'number' ? raw : Number(str)
+      const target = Number(pred.value)
+      if (str.trim() === '' || !Number.isFinite(n) || !Number.isFinite(target)) return false
+      if (pred.op === 'gt')  return n > target
+      if (pred.op === 'gte') return n >= target
+      if (pred.op === 'lt')  return n < target
+      return n <= target
+    }
+    default:
+      return false
+  }
+}
+
+/** True when every predicate holds for the given tool input (vacuously true for none). */
+export function matchToolInputPredicates(
+  when: ToolInputPredicate[] | undefined,
+  toolInput: Record<string, unknown> | undefined,
+  regex: RegexMatcher = defaultRegexMatcher,
+): boolean {
+  if (!when?.length) return true
+  return when.every((pred) => testPredicate(pred, getInputField(toolInput, pred.field), regex) !== Boolean(pred.negate))
+}
+
+/** One-line description of a predicate, e.g. `url domain docs.python.org`. */
+export function describePredicate(pred: ToolInputPredicate): string {
+  const op = pred.negate ? `not ${pred.op}` : pred.op
+  return `${pred.field} ${op} ${pred.value}`
+}
+
+/** Match a tool name against a pattern (exact, trailing wildcard, case-insensitive fallback). */
+export function matchToolPattern(pattern: string, toolName: string): boolean {
+  if (pattern === toolName) return true
+  if (pattern.endsWith('*')) {
+    const prefix = pattern.slice(0, -1)
+    if (toolName.startsWith(prefix)) return true
+    if (toolName.toLowerCase().startsWith(prefix.toLowerCase())) return true
+  }
+  if (pattern.toLowerCase() === toolName.toLowerCase()) return true
+  return false
+}
+
+/**
+ * Identity of a tool rule for merging and diffing. Rules with the same name
+ * pattern but different predicates are distinct rules.
+ */
+export function toolRuleKey(rule: Pick<ToolRule, 'pattern' | 'when'>): string {
+  if (!rule.when?.length) return rule.pattern
+  return `${rule.pattern} ${canonicalJsonStringify(rule.when)}`
+}
+
+/** Display label for a tool rule, e.g. `WebFetch [url domain docs.python.org]`. */
+export function describeToolRule(rule: Pick<ToolRule, 'pattern' | 'when'>): string {
+  if (!rule.when?.length) return rule.pattern
+  return `${rule.pattern} [${rule.when.map(describePredicate).join(', ')}]`
+}
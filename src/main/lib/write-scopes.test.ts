@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import os from 'node:os'
+import { intersectWriteScopes, isPathInWriteScopes, resolveWriteScopes } from './write-scopes'
+
+describe('resolveWriteScopes', () => {
+  it('resolves relative scopes against the workspace', () => {
+    expect(resolveWriteScopes(['.', 'build/', '/tmp'], '/work/tree')).toEqual(['/work/tree', '/work/tree/build', '/tmp'])
+  })
+
+  it('drops relative scopes without a workspace', () => {
+    expect(resolveWriteScopes(['.', '/tmp'], null)).toEqual(['/tmp'])
+  })
+
+  it('expands the home directory', () => {
+    expect(resolveWriteScopes(['~/.cache'], null)).toEqual([`${os.homedir()}/.cache`])
+  })
+})
+
+describe('isPathInWriteScopes', () => {
+  const roots = ['/work/tree', '/tmp']
+
+  it('matches the root and paths beneath it', () => {
+    expect(isPathInWriteScopes('/work/tree', roots, null)).toBe(true)
+    expect(isPathInWriteScopes('src/a.ts', roots, '/work/tree')).toBe(true)
+  })
+
+  it('normalizes .. and rejects sibling prefixes', () => {
+    expect(isPathInWriteScopes('/work/tree/../x', roots, null)).toBe(false)
+    expect(isPathInWriteScopes('/work/tree-other/a', roots, null)).toBe(false)
+    expect(isPathInWriteScopes('/tmpfile', roots, null)).toBe(false)
+  })
+
+  it('always allows device targets', () => {
+    expect(isPathInWriteScopes('/dev/null', [], null)).toBe(true)
+    expect(isPathInWriteScopes('/dev/fd/3', [], null)).toBe(true)
+  })
+
+  it('returns null for targets it cannot resolve', () => {
+    expect(isPathInWriteScopes('$HOME/x', roots, '/work/tree')).toBeNull()
+    expect(isPathInWriteScopes('out-*.log', roots, '/work/tree')).toBeNull()
+    expect(isPathInWriteScopes('out.log', roots, null)).toBeNull()
+  })
+})
+
+describe('intersectWriteScopes', () => {
+  it('keeps the narrower of two nested scopes', () => {
+    expect(intersectWriteScopes(['.', '/tmp'], ['src', '/tmp/build'])).toEqual(['src', '/tmp/build'])
+  })
+
+  it('drops disjoint and incomparable pairs', () => {
+    expect(intersectWriteScopes(['/tmp'], ['/var'])).toEqual([])
+    expect(intersectWriteScopes(['.'], ['/tmp'])).toEqual([])
+    expect(intersectWriteScopes(['../shared'], ['.'])).toEqual([])
+  })
+})
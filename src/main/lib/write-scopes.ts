@@ -0,0 +1,86 @@
+/**
+ * @module write-scopes
+ * @description Allowlist of directories a session may write to.
+ *
+ * A scope is a directory root: absolute (`/tmp`), home-relative (`~/.cache`)
+ * or relative to the session workspace (`.`, `build`). Relative scopes can
+ * only be resolved once the workspace (worktree or project dir) is known;
+ * without one they are dropped, which narrows the allowlist rather than
+ * widening it. A path is in scope when it is the root or lies beneath it
+ * after `..` segments are normalized away.
+ */
+
+import os from 'node:os'
+import path from 'node:path'
+
+/** Targets that are never files: writing to them is always allowed. */
+const DEVICE_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty'])
+
+function expandHome(p: string): string {
+  return p.replace(/^~(?=\/|$)/, os.homedir())
+}
+
+/** Resolve scopes to absolute, normalized roots. */
+export function resolveWriteScopes(scopes: string[], workspaceRoot: string | null | undefined): string[] {
+  const roots: string[] = []
+  for (const raw of scopes) {
+    const scope = expandHome(raw.trim())
+    if (!scope) continue
+    if (path.isAbsolute(scope)) roots.push(path.resolve(scope))
+    else if (workspaceRoot) roots.push(path.resolve(workspaceRoot, scope))
+  }
+  return [...new Set(roots)]
+}
+
+/** True if `target` (absolute, normalized) is `root` or beneath it. */
+function isWithin(target: string, root: string): boolean {
+  const rel = path.relative(root, target)
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel))
+}
+
+/**
+ * Check a write target against resolved scope roots. Relative targets are
+ * resolved against `cwd`. Returns null when the target can't be determined
+ * statically (shell expansions, relative path without a cwd).
+ */
+export function isPathInWriteScopes(target: string, roots: string[], cwd: string | null | undefined): boolean | null {
+  const expanded = expandHome(target)
+  if (/[$`*?[]/.test(expanded)) return null
+  if (!path.isAbsolute(expanded) && !cwd) return null
+  const abs = path.resolve(cwd ?? '/', expanded)
+  if (DEVICE_TARGETS.has(abs) || abs.startsWith('/dev/fd/')) return true
+  return roots.some((root) => isWithin(abs, root))
+}
+
+/** A relative scope that points above the workspace (`../shared`). */
+function escapesRoot(scope: string): boolean {
+  return path.normalize(scope).startsWith('..')
+}
+
+/**
+ * Intersect two scope lists for strictest-wins merging: a path must be
+ * allowed by both. Where one root contains the other the narrower one is
+ * kept; absolute and workspace-relative scopes can't be compared before
+ * resolution, so such pairs are dropped.
+ */
+export function intersectWriteScopes(a: string[], b: string[]): string[] {
+  const out = new Set<string>()
+  for (const x of a) {
+    for (const y of b) {
+      const nx = expandHome(x.trim())
+      const ny = expandHome(y.trim())
+      if (path.isAbsolute(nx) !== path.isAbsolute(ny)) continue
+      if (!path.isAbsolute(nx) && (escapesRoot(nx) || escapesRoot(ny))) {
+        if (path.normalize(nx) === path.normalize(ny)) out.add(x)
+        continue
+      }
+      // Relative scopes share the (unknown) workspace root, so compare them under `/`.
+      const [rx, ry] = path.isAbsolute(nx)
+        ? [path.resolve(nx), path.resolve(ny)]
+        : [path.join('/', nx), path.join('/', ny)]
+      if (isWithin(rx, ry)) out.add(x)
+      else if (isWithin(ry, rx)) out.add(y)
+    }
+  }
+  return [...out]
+}
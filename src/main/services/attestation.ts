@@ -16,6 +16,8 @@ import type { PolicyDocument, SessionReceipt, DataTier, MerkleProof } from '../.
 export interface ReceiptInput {
   sessionId: string
   policy: PolicyDocument
+  /** PolicyStore revision of `policy`, when known. */
+  policyRevision?: number
   maxDataTier: DataTier
   servicesGranted: string[]
   servicesUsed: string[]
@@ -92,6 +94,7 @@ export class AttestationEngine {
       policy: {
         id: input.policy.id,
         hash: policyHash,
+        ...(input.policyRevision !== undefined ? { revision: input.policyRevision } : {}),
         maxDataTier: input.maxDataTier,
         servicesGranted: input.servicesGranted,
       },
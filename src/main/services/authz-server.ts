@@ -10,72 +10,37 @@
 import crypto from 'node:crypto'
 import http from 'node:http'
 import os from 'node:os'
-import type { PolicyDocument, ActionClass, RiskLevel, AuthzDecision, PendingApproval, ApprovalDecision, ToolRule, McpServerRule, CommandRule, SupervisorAction, HarnessesConfig } from '../../types'
+import type { PolicyDocument, ActionClass, AuthzDecision, AuthzRuleMatch, PendingApproval, ApprovalDecision, ApprovalGrant, ApprovalScope, AuthzMetrics, ToolRule, McpServerRule, CommandRule, SupervisorAction, HarnessesConfig, DecisionTrace, DecisionTraceStep, QuotaStatus, ToolClassification } from '../../types'
 import type { PolicyStore } from '../stores/policy-store'
-import { resolvePolicy, computeStrictestBaseline } from './policy-enforcer'
+import { resolvePolicy, computeStrictestBaseline, splitAuditMode } from './policy-enforcer'
 import type { ActivityStore } from '../stores/activity-store'
 import type { Radar } from './radar'
 import type { FeedStore } from '../stores/feed-store'
 import type { SettingsStore } from '../stores/settings-store'
 import { evaluateWithLlm, shouldEvaluate } from './llm-evaluator'
-import { safeRegexTest } from '../lib/safe-regex'
+import { CompiledRegexSet, defaultRegexMatcher } from '../lib/safe-regex'
+import type { RegexMatcher } from '../lib/safe-regex'
+import { QuotaTracker, describeQuota } from '../lib/quotas'
+import type { QuotaCall } from '../lib/quotas'
+import { RiskHistory, scoreToolCall } from '../lib/risk-scorer'
+import type { RiskAssessment } from '../lib/risk-scorer'
+import { splitShellCommand } from '../lib/shell-parse'
+import type { ShellSegment } from '../lib/shell-parse'
+import { describePredicate, describeToolRule, matchToolInputPredicates, matchToolPattern } from '../lib/tool-predicates'
+import { diffPolicies } from '../lib/policy-diff'
+import { flattenPolicies } from '../lib/policy-inheritance'
+import { isPathInWriteScopes, resolveWriteScopes } from '../lib/write-scopes'
+import { applyGrantRule, buildGrantRule, grantTarget, removeGrantRule } from '../lib/approval-grants'
+import type { ApprovalGrantStore } from '../stores/approval-grant-store'
+import { LatencyWindow } from '../lib/latency-stats'
+import { classifyTool, normalizeToolKey } from '../lib/tool-classification'
+import type { ToolClassificationMap } from '../lib/tool-classification'
 
 const MAX_BODY_BYTES = 64 * 1024 // 64 KB max request body
 const APPROVAL_TIMEOUT_MS = 120_000 // 120 seconds for interactive approval
 const RATE_LIMIT_WINDOW_MS = 10_000 // 10-second sliding window
 const RATE_LIMIT_MAX_REQUESTS = 100 // Max requests per window per session
-const PROMPT_GRANT_TTL_MS = 60_000 // 60-second grant after user approves a "prompt" tool
-
-// ─── Tool classification ─────────────────────────────────────────────────────
-
-// Claude Code uses PascalCase tool names, OpenClaw uses lowercase.
-// We normalize to a canonical key for lookup.
-const TOOL_ACTION_MAP: Record<string, ActionClass> = {
-  // Claude Code — file & search tools
-  bash:      'execute',
-  write:     'write',
-  edit:      'write',
-  read:      'read',
-  glob:      'read',
-  grep:      'read',
-  webfetch:  'send',
-  websearch: 'send',
-  task:      'execute',
-  // Claude Code — planning & navigation (harmless, auto-allow)
-  enterplanmode:    'read',
-  exitplanmode:     'read',
-  todoread:         'read',
-  todowrite:        'read',
-  todolist:         'read',
-  askuserquestion:  'read',
-  notebookedit:     'write',
-  skill:            'read',
-  taskcreate:       'read',
-  taskupdate:       'read',
-  taskget:          'read',
-  tasklist:         'read',
-  taskoutput:       'read',
-  taskstop:         'read',
-  // OpenClaw-specific names (underscores stripped by normalizeToolKey)
-  exec:       'execute',
-  browser:    'send',
-}
-
-const ACTION_RISK_MAP: Record<ActionClass, RiskLevel> = {
-  read:    'low',
-  write:   'medium',
-  execute: 'high',
-  send:    'medium',
-}
-
-// Heuristic patterns for classifying unknown tools (e.g. MCP tools).
-// Checked in order; first match wins.
-const HEURISTIC_PATTERNS: [RegExp, ActionClass][] = [
-  [/\b(delete|remove|drop|destroy|kill|purge|reset|force)\b/i, 'execute'],
-  [/\b(create|write|update|set|put|post|insert|modify|edit|patch|rename|move)\b/i, 'write'],
-  [/\b(send|email|notify|publish|push|deploy|upload)\b/i, 'send'],
-  [/\b(read|get|list|search|find|query|fetch|show|describe|view|inspect|check|status|count|head|tail|cat|ls)\b/i, 'read'],
-]
+const PROMPT_GRANT_TTL_MS = 60_000 // 60-second window for a "once" grant's retry
 
 // ─── Default command rules ────────────────────────────────────────────────────
 // Applied when policy.permissions.commandRules is undefined (opt-out with []).
@@ -92,31 +57,17 @@ export const DEFAULT_COMMAND_RULES: CommandRule[] = [
   { pattern: 'git\\s+reset\\s+--hard', decision: 'prompt', reason: 'Destructive git' },
 ]
 
-/** Normalize tool name to lowercase key for classification lookup. */
-function normalizeToolKey(toolName: string): string {
-  return toolName.toLowerCase().replace(/_/g, '')
-}
+/** Tools (normalized) whose input names a file they write. */
+const WRITE_TOOL_KEYS = new Set(['write', 'edit', 'multiedit', 'notebookedit', 'patch', 'create', 'applypatch', 'writefile', 'replace'])
 
-function classifyTool(toolName: string): { actionClass: ActionClass; risk: RiskLevel } {
-  const key = normalizeToolKey(toolName)
-  let actionClass = TOOL_ACTION_MAP[key]
+/** Write tools (normalized) whose input is patch text naming its targets in headers. */
+const PATCH_TOOL_KEYS = new Set(['patch', 'applypatch'])
 
-  // If not in the static map, try heuristic classification based on tool name
-  if (!actionClass) {
-    for (const [pattern, cls] of HEURISTIC_PATTERNS) {
-      if (pattern.test(toolName)) {
-        actionClass = cls
-        break
-      }
-    }
-  }
+/** Tools (normalized) that run a shell command from `command`. */
+const SHELL_TOOL_KEYS = new Set(['bash', 'exec', 'execute', 'runshellcommand'])
 
-  // Final fallback: unknown tools default to 'execute' (conservative)
-  if (!actionClass) actionClass = 'execute'
-
-  const risk = ACTION_RISK_MAP[actionClass]
-  return { actionClass, risk }
-}
+/** Strictness of command rule decisions when segments disagree: higher wins. */
+const COMMAND_DECISION_RANK: Record<CommandRule['decision'], number> = { allow: 0, prompt: 1, deny: 2 }
 
 // ─── Tool rule helpers ───────────────────────────────────────────────────────
 
@@ -126,32 +77,24 @@ function extractMcpServer(toolName: string): string | null {
   return m ? m[1] : null
 }
 
-/** Match a tool name against a pattern (exact, trailing wildcard, case-insensitive fallback). */
-function matchToolPattern(pattern: string, toolName: string): boolean {
-  if (pattern === toolName) return true
-  if (pattern.endsWith('*')) {
-    const prefix = pattern.slice(0, -1)
-    if (toolName.startsWith(prefix)) return true
-    if (toolName.toLowerCase().startsWith(prefix.toLowerCase())) return true
-  }
-  if (pattern.toLowerCase() === toolName.toLowerCase()) return true
-  return false
-}
-
 /** Resolve per-tool decision from toolRules, mcpServerRules, then legacy arrays.
- *  Returns the decision or undefined if no rule matched.
+ *  Returns the decision and the rule that produced it, or undefined if no rule matched.
+ *  A toolRule with `when` predicates only matches if its predicates hold for the input.
  */
 function resolveToolDecision(
   toolName: string,
+  toolInput: Record<string, unknown>,
   harnessConfig: { toolRules?: ToolRule[]; mcpServerRules?: McpServerRule[]; allowedTools?: string[]; deniedTools?: string[] } | undefined,
-): 'allow' | 'deny' | 'prompt' | undefined {
+  regex: RegexMatcher,
+): { decision: 'allow' | 'deny' | 'prompt'; match: AuthzRuleMatch; conditions?: string } | undefined {
   if (!harnessConfig) return undefined
 
-  // 1. Check toolRules (first matching pattern wins)
+  // 1. Check toolRules (first matching rule wins)
   if (harnessConfig.toolRules?.length) {
     for (const rule of harnessConfig.toolRules) {
-      if (matchToolPattern(rule.pattern, toolName)) {
-        return rule.decision
+      if (matchToolPattern(rule.pattern, toolName) && matchToolInputPredicates(rule.when, toolInput, regex)) {
+        const conditions = rule.when?.length ? rule.when.map(describePredicate).join(', ') : undefined
+        return { decision: rule.decision, match: { kind: 'toolRule', key: describeToolRule(rule) }, ...(conditions ? { conditions } : {}) }
       }
     }
   }
@@ -161,81 +104,218 @@ function resolveToolDecision(
   if (mcpServer && harnessConfig.mcpServerRules?.length) {
     for (const rule of harnessConfig.mcpServerRules) {
       if (rule.server.toLowerCase() === mcpServer.toLowerCase()) {
-        return rule.decision
+        return { decision: rule.decision, match: { kind: 'mcpServerRule', key: rule.server } }
       }
     }
   }
 
   // 3. Fall through to legacy arrays
-  if (harnessConfig.deniedTools?.includes(toolName)) return 'deny'
-  if (harnessConfig.allowedTools && !harnessConfig.allowedTools.includes(toolName)) return 'deny'
+  if (harnessConfig.deniedTools?.includes(toolName)) return { decision: 'deny', match: { kind: 'toolList', key: 'deniedTools' } }
+  if (harnessConfig.allowedTools && !harnessConfig.allowedTools.includes(toolName)) return { decision: 'deny', match: { kind: 'toolList', key: 'allowedTools' } }
 
   return undefined
 }
 
 // ─── Authorization logic ─────────────────────────────────────────────────────
 
+/** Where a session runs — needed to resolve relative write scopes and paths. */
+export interface AuthzContext {
+  /** Session worktree (or project dir); relative write scopes resolve against it. */
+  workspaceRoot?: string | null
+  /** Working directory of the tool call, when the harness reports one. */
+  cwd?: string | null
+  /** User overrides of how MCP tools are classified (see tool-classification). */
+  classifications?: ToolClassificationMap
+}
+
+/** Decide a tool call against an effective policy. `regex` lets the hot path
+ *  supply a session's pre-compiled matchers (see compileSessionPolicy). */
 export function authorizeToolCall(
   toolName: string,
   toolInput: Record<string, unknown>,
   policy: PolicyDocument,
   harnessId: string,
-): { decision: AuthzDecision; reason: string | null; needsPrompt?: boolean } {
-  const { actionClass } = classifyTool(toolName)
+  context?: AuthzContext,
+  regex: RegexMatcher = defaultRegexMatcher,
+): { decision: AuthzDecision; reason: string | null; needsPrompt?: boolean; match?: AuthzRuleMatch } {
+  const { actionClass } = classifyTool(toolName, context?.classifications)
   const p = policy.permissions
 
   // Check permission flags by action class
   if (actionClass === 'execute' && !p.allowBash) {
-    return { decision: 'deny', reason: 'Policy disallows shell execution.' }
+    return { decision: 'deny', reason: 'Policy disallows shell execution.', match: { kind: 'permission', key: 'allowBash' } }
   }
   if (actionClass === 'write' && !p.allowFileWrite) {
-    return { decision: 'deny', reason: 'Policy disallows file writes.' }
+    return { decision: 'deny', reason: 'Policy disallows file writes.', match: { kind: 'permission', key: 'allowFileWrite' } }
   }
   if (actionClass === 'send' && !p.allowNetwork) {
-    return { decision: 'deny', reason: 'Policy disallows network access.' }
+    return { decision: 'deny', reason: 'Policy disallows network access.', match: { kind: 'permission', key: 'allowNetwork' } }
   }
 
   // Check per-tool rules (toolRules → mcpServerRules → legacy arrays)
   const harnessConfig = policy.harnesses?.[harnessId as keyof HarnessesConfig]
-  const toolDecision = resolveToolDecision(toolName, harnessConfig)
-  if (toolDecision === 'deny') {
-    return { decision: 'deny', reason: `Tool "${toolName}" is denied by policy rule.` }
+  const toolDecision = resolveToolDecision(toolName, toolInput, harnessConfig, regex)
+  const conditions = toolDecision?.conditions ? ` (${toolDecision.conditions})` : ''
+  if (toolDecision?.decision === 'deny') {
+    return { decision: 'deny', reason: `Tool "${toolName}" is denied by policy rule${conditions}.`, match: toolDecision.match }
   }
-  if (toolDecision === 'prompt') {
+  if (toolDecision?.decision === 'prompt') {
     // Allow but flag for interactive approval even if confirmDestructive is off
-    return { decision: 'allow', reason: `Tool "${toolName}" requires approval per policy rule.`, needsPrompt: true }
+    return { decision: 'allow', reason: `Tool "${toolName}" requires approval per policy rule${conditions}.`, needsPrompt: true, match: toolDecision.match }
   }
   // toolDecision === 'allow' → skip further tool checks (still check blocked globs)
 
   // Check blocked globs for file-path-aware tools (works with both
-  // Claude Code PascalCase and OpenClaw lowercase names)
+  // Claude Code PascalCase and OpenClaw lowercase names; Droid's Create is a write,
+  // Gemini CLI's file tools are write_file/replace/read_file)
   const normKey = normalizeToolKey(toolName)
-  if (p.blockedGlobs?.length && (normKey === 'write' || normKey === 'edit' || normKey === 'read')) {
-    const filePath = String(toolInput?.file_path ?? toolInput?.path ?? '')
+  if (p.blockedGlobs?.length && (normKey === 'write' || normKey === 'edit' || normKey === 'read' || normKey === 'create'
+    || normKey === 'writefile' || normKey === 'replace' || normKey === 'readfile')) {
+    const filePath = String(toolInput?.file_path ?? toolInput?.path ?? toolInput?.absolute_path ?? '')
     if (filePath) {
       for (const glob of p.blockedGlobs) {
         if (matchGlob(filePath, glob)) {
-          return { decision: 'deny', reason: `Path "${filePath}" is blocked by glob "${glob}".` }
+          return { decision: 'deny', reason: `Path "${filePath}" is blocked by glob "${glob}".`, match: { kind: 'blockedGlob', key: glob } }
         }
       }
     }
   }
 
-  // Check command rules for shell/exec tools
-  if (normKey === 'bash' || normKey === 'exec' || normKey === 'execute') {
+  // Confine file writes to the policy's write scopes. Patch tools name
+  // their targets in the patch text; one with none we can find is prompted.
+  if (p.writeScopes && WRITE_TOOL_KEYS.has(normKey)) {
+    const filePath = String(toolInput?.file_path ?? toolInput?.filePath ?? toolInput?.notebook_path ?? toolInput?.path ?? '')
+    const isPatch = PATCH_TOOL_KEYS.has(normKey)
+    const targets = [...new Set([...(filePath ? [filePath] : []), ...(isPatch ? patchTargets(toolInput) : [])])]
+    if (targets.length) {
+      const verdict = checkWriteScopes(targets, p.writeScopes, context)
+      if (verdict) return verdict
+    } else if (isPatch) {
+      return { decision: 'allow', reason: 'Patch targets can\'t be checked against write scopes.', needsPrompt: true, match: { kind: 'permission', key: 'writeScopes' } }
+    }
+  }
+
+  // Check command rules (and redirections against write scopes) for shell/exec tools
+  if (SHELL_TOOL_KEYS.has(normKey)) {
     const command = String(toolInput?.command ?? '')
+    const segments = splitShellCommand(command)
     // undefined = use defaults, [] = no rules (opt-out)
     const rules = p.commandRules !== undefined ? p.commandRules : DEFAULT_COMMAND_RULES
-    for (const rule of rules) {
-      if (safeRegexTest(rule.pattern, 'i', command)) {
-        if (rule.decision === 'deny') return { decision: 'deny', reason: rule.reason ?? `Command blocked by rule: ${rule.pattern}` }
-        if (rule.decision === 'prompt') return { decision: 'allow', reason: rule.reason ?? `Command requires approval: ${rule.pattern}`, needsPrompt: true }
-        break // 'allow' = skip remaining rules
+    const hit = evaluateCommandRules(segments, rules, regex)
+    // Name the offending part when it isn't the whole command.
+    const where = hit?.segment.source && hit.segment.source !== command.trim() ? ` (in: ${hit.segment.source})` : ''
+    const match: AuthzRuleMatch | undefined = hit ? { kind: 'commandRule', key: hit.rule.pattern } : undefined
+    if (hit?.rule.decision === 'deny') {
+      return { decision: 'deny', reason: (hit.rule.reason ?? `Command blocked by rule: ${hit.rule.pattern}`) + where, match }
+    }
+
+    if (p.writeScopes) {
+      const targets = [...new Set(segments.flatMap((seg) => seg.writes))]
+      // A `cd` earlier in the command moves relative targets somewhere we can't see.
+      const changesDir = segments.some((seg) => /^(cd|pushd)\b/.test(seg.text))
+      const verdict = targets.length ? checkWriteScopes(targets, p.writeScopes, context, !changesDir) : null
+      if (verdict?.decision === 'deny') return verdict
+      if (verdict && hit?.rule.decision !== 'prompt') return verdict
+    }
+
+    if (hit?.rule.decision === 'prompt') {
+      return { decision: 'allow', reason: (hit.rule.reason ?? `Command requires approval: ${hit.rule.pattern}`) + where, needsPrompt: true, match }
+    }
+    if (hit) return { decision: 'allow', reason: null, match }
+  }
+
+  return { decision: 'allow', reason: null, ...(toolDecision ? { match: toolDecision.match } : {}) }
+}
+
+/**
+ * True if a command rule matches a segment. Allow and prompt rules only
+ * match outside quoted literal arguments; deny rules match anywhere, since
+ * quoted text may still run (`su -c "…"`, `ssh host "…"`, `python3 -c "…"`).
+ */
+function commandRuleMatches(rule: CommandRule, segment: ShellSegment, regex: RegexMatcher): boolean {
+  if (rule.decision === 'deny' || !segment.quoted.length) {
+    return regex.test(rule.pattern, 'i', segment.text) || (rule.decision === 'deny' && regex.test(rule.pattern, 'i', segment.source))
+  }
+  return regex.matchRanges(rule.pattern, 'i', segment.text).some(([start, end]) =>
+    !segment.quoted.some(([qs, qe]) => start >= qs && end <= qe),
+  )
+}
+
+/**
+ * Evaluate command rules against each simple command (and pipeline) of a
+ * shell command. Within a segment the first matching rule wins; across
+ * segments the strictest decision wins, so an allow for one part never
+ * exempts another.
+ */
+function evaluateCommandRules(
+  segments: ShellSegment[],
+  rules: CommandRule[],
+  regex: RegexMatcher,
+): { rule: CommandRule; segment: ShellSegment } | undefined {
+  let strictest: { rule: CommandRule; segment: ShellSegment } | undefined
+  for (const segment of segments) {
+    const rule = rules.find((r) => commandRuleMatches(r, segment, regex))
+    if (!rule) continue
+    if (!strictest || COMMAND_DECISION_RANK[rule.decision] > COMMAND_DECISION_RANK[strictest.rule.decision]) {
+      strictest = { rule, segment }
+    }
+    if (rule.decision === 'deny') break
+  }
+  return strictest
+}
+
+/**
+ * Files a patch writes, from its headers in any string of the tool input:
+ * `*** Add/Update/Delete File:` and `*** Move to:` (Codex/Droid patch
+ * format), and `--- a/x` / `+++ b/x` pairs (unified diff).
+ */
+function patchTargets(toolInput: Record<string, unknown>): string[] {
+  const texts: string[] = []
+  const collect = (value: unknown): void => {
+    if (typeof value === 'string') texts.push(value)
+    else if (Array.isArray(value)) value.forEach(collect)
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect)
+  }
+  collect(toolInput)
+
+  const targets: string[] = []
+  for (const text of texts) {
+    for (const m of text.matchAll(/^\*\*\* (?:(?:Add|Update|Delete) File|Move to): (.+?)\s*$/gm)) targets.push(m[1])
+    for (const m of text.matchAll(/^--- (.+?)(?:\t.*)?\r?\n\+\+\+ (.+?)(?:\t.*)?\s*$/gm)) {
+      for (const side of [m[1], m[2]]) {
+        if (side !== '/dev/null') targets.push(side.replace(/^[ab]\//, ''))
       }
     }
   }
+  return targets
+}
 
-  return { decision: 'allow', reason: null }
+/**
+ * Check write targets against the policy's write scopes. Returns a deny for
+ * any target outside every scope, a prompt when a target can't be resolved
+ * statically (e.g. `> "$OUT"`), or null when all targets are in scope.
+ */
+function checkWriteScopes(
+  targets: string[],
+  scopes: string[],
+  context: AuthzContext | undefined,
+  cwdKnown = true,
+): { decision: AuthzDecision; reason: string; needsPrompt?: boolean; match: AuthzRuleMatch } | null {
+  const roots = resolveWriteScopes(scopes, context?.workspaceRoot)
+  const cwd = cwdKnown ? (context?.cwd ?? context?.workspaceRoot) : null
+  const match: AuthzRuleMatch = { kind: 'permission', key: 'writeScopes' }
+  let unresolved: string | null = null
+  for (const target of targets) {
+    const inScope = isPathInWriteScopes(target, roots, cwd)
+    if (inScope === false) {
+      return { decision: 'deny', reason: `Write to "${target}" is outside the allowed write scopes.`, match }
+    }
+    if (inScope === null) unresolved ??= target
+  }
+  if (unresolved !== null) {
+    return { decision: 'allow', reason: `Write target "${unresolved}" can't be checked against write scopes.`, needsPrompt: true, match }
+  }
+  return null
 }
 
 /** Simple glob matching for blocked paths. Supports ** and * wildcards. */
@@ -272,6 +352,179 @@ function toolDetailStr(toolName: string, toolInput: Record<string, unknown>): st
   return ''
 }
 
+/** First trace step: the static rule evaluation done by authorizeToolCall. */
+function rulesStep(result: { decision: AuthzDecision; reason: string | null; needsPrompt?: boolean }): DecisionTraceStep {
+  const outcome = result.decision === 'deny' ? 'deny' : result.needsPrompt ? 'prompt' : 'allow'
+  return { stage: 'rules', outcome, detail: result.reason }
+}
+
+// ─── Effective policy resolution ─────────────────────────────────────────────
+
+/** Used when a session has no policies selected — allow everything. */
+const NO_POLICY: PolicyDocument = {
+  id: '__none__',
+  name: 'No Policy',
+  description: '',
+  permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] },
+  harnesses: {},
+}
+
+/** Used when policies are selected but none exist at all. */
+const EMERGENCY_DENY_ALL: PolicyDocument = {
+  id: '__emergency__',
+  name: 'Emergency Deny-All',
+  description: 'No policies available.',
+  permissions: {
+    allowBash: false, allowNetwork: false, allowFileWrite: false,
+    confirmDestructive: true, blockedGlobs: [],
+  },
+  harnesses: {},
+}
+
+/** The policy-resolution part of a DecisionTrace. */
+export type PolicyResolutionTrace = Pick<DecisionTrace, 'baseline' | 'policies' | 'missingPolicyIds' | 'override'>
+
+/**
+ * Resolve a session's effective policy from its selected policy ids.
+ * Selected policies are merged using strictest-wins semantics:
+ *   - Boolean permissions: AND (false if ANY policy says false)
+ *   - confirmDestructive: OR (true if ANY policy says true)
+ *   - Tool rules: deny > prompt > allow per pattern
+ * Session overrides are then applied on top as ephemeral tweaks.
+ * `allPolicies` is null when the policy store could not be read.
+ */
+export function resolveSessionPolicy(
+  allPolicies: PolicyDocument[] | null,
+  policyIds: string[],
+  harnessId: string,
+  policyOverride: PolicyDocument | null,
+): PolicyDocument {
+  return traceSessionPolicy(allPolicies, policyIds, harnessId, policyOverride).policy
+}
+
+/**
+ * resolveSessionPolicy, also reporting how the policy was assembled: which
+ * policies were merged (and at which revision), which selected ids are gone,
+ * and what the session override changed relative to the merged baseline.
+ * `auditPolicy` is set when policies (or the override) are in audit mode:
+ * calls are then decided by `policy` and only checked against `auditPolicy`.
+ */
+export function traceSessionPolicy(
+  allPolicies: PolicyDocument[] | null,
+  policyIds: string[],
+  harnessId: string,
+  policyOverride: PolicyDocument | null,
+  revisionOf?: (policyId: string) => number | null,
+): { policy: PolicyDocument; trace: PolicyResolutionTrace; auditPolicy: PolicyDocument | null } {
+  let basePolicy: PolicyDocument
+  let baseline: PolicyResolutionTrace['baseline'] = 'merged'
+  let selected: PolicyDocument[] = []
+  let merged: PolicyDocument[] = []
+  if (!policyIds?.length) {
+    basePolicy = NO_POLICY
+    baseline = 'no-policy'
+  } else if (allPolicies?.length) {
+    selected = allPolicies.filter(p => policyIds.includes(p.id))
+    const flattened = flattenPolicies(selected, allPolicies)
+    if (!flattened.ok) {
+      // A broken `extends` chain can't be resolved without loosening the policy.
+      console.warn('[authz] Policy inheritance error:', flattened.error)
+      basePolicy = EMERGENCY_DENY_ALL
+      baseline = 'inheritance-error'
+    } else {
+      basePolicy = selected.length ? computeStrictestBaseline(flattened.policies, harnessId) : NO_POLICY
+      if (selected.length) merged = flattened.policies
+      else baseline = 'no-policy'
+    }
+  } else {
+    basePolicy = EMERGENCY_DENY_ALL
+    baseline = 'emergency-deny-all'
+  }
+  const { enforced: policy, audited: auditPolicy } = splitAuditMode(merged, harnessId, policyOverride, basePolicy)
+
+  // Name/description are relabelled by the override and llmEvaluator is not
+  // carried through resolvePolicy — neither affects the decision.
+  const overrideChanges = policyOverride
+    ? diffPolicies(basePolicy, resolvePolicy(basePolicy, policyOverride)).filter((c) => c.section !== 'metadata' && c.section !== 'llmEvaluator')
+    : []
+
+  return {
+    policy,
+    auditPolicy,
+    trace: {
+      baseline,
+      policies: selected.map((p) => ({
+        id: p.id,
+        name: p.name,
+        revision: revisionOf?.(p.id) ?? null,
+        ...(p.mode === 'audit' ? { mode: 'audit' as const } : {}),
+      })),
+      missingPolicyIds: allPolicies?.length ? policyIds.filter((id) => !selected.some((p) => p.id === id)) : [],
+      override: {
+        applied: Boolean(policyOverride),
+        changes: overrideChanges,
+        ...(policyOverride?.mode === 'audit' ? { audit: true } : {}),
+      },
+    },
+  }
+}
+
+/** A session's effective policy with its regexes compiled, cached by AuthzServer. */
+export interface CompiledSessionPolicy {
+  policy: PolicyDocument
+  trace: PolicyResolutionTrace
+  regex: CompiledRegexSet
+  /** Policy the session is audited against, when anything is in audit mode. */
+  auditPolicy: PolicyDocument | null
+}
+
+/** Compile every regex the effective (and audit) policy can evaluate for this harness. */
+export function compileSessionPolicy(
+  policy: PolicyDocument,
+  trace: PolicyResolutionTrace,
+  harnessId: string,
+  auditPolicy: PolicyDocument | null = null,
+): CompiledSessionPolicy {
+  const regex = new CompiledRegexSet()
+  for (const p of auditPolicy ? [policy, auditPolicy] : [policy]) {
+    const commandRules = p.permissions.commandRules !== undefined ? p.permissions.commandRules : DEFAULT_COMMAND_RULES
+    for (const rule of commandRules) {
+      regex.add(rule.pattern, 'i')
+      regex.add(rule.pattern, 'ig') // quoted segments match by range
+    }
+    const hc = p.harnesses?.[harnessId as keyof HarnessesConfig] as { toolRules?: ToolRule[] } | undefined
+    for (const rule of hc?.toolRules ?? []) {
+      for (const pred of rule.when ?? []) {
+        if (pred.op === 'regex') regex.add(String(pred.value), 'i')
+      }
+    }
+  }
+  for (const quota of policy.permissions.quotas ?? []) {
+    if (quota.command) regex.add(quota.command, 'i')
+  }
+  return { policy, trace, regex, auditPolicy }
+}
+
+/**
+ * Decide a call against the session's audit policy without enforcing it, and
+ * note the would-be decision in the trace. Static rules only: the LLM
+ * evaluator, grants and confirmDestructive prompts are not consulted.
+ */
+function auditToolCall(
+  compiled: CompiledSessionPolicy,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  harnessId: string,
+  context: AuthzContext,
+  trace: DecisionTrace,
+): AuthzDecision | null {
+  if (!compiled.auditPolicy) return null
+  const result = authorizeToolCall(toolName, toolInput, compiled.auditPolicy, harnessId, context, compiled.regex)
+  const decision: AuthzDecision = result.decision === 'deny' ? 'deny' : result.needsPrompt ? 'ask' : 'allow'
+  trace.steps.push({ stage: 'audit', outcome: decision === 'ask' ? 'prompt' : decision, detail: result.reason })
+  return decision
+}
+
 // ─── Session registry ────────────────────────────────────────────────────────
 
 interface RegisteredSession {
@@ -279,6 +532,8 @@ interface RegisteredSession {
   harnessId: string
   policyIds: string[]
   policyOverride: PolicyDocument | null
+  /** Worktree or project dir the session runs in (for write scopes). */
+  workspaceRoot: string | null
 }
 
 // ─── Server ──────────────────────────────────────────────────────────────────
@@ -292,13 +547,29 @@ export class AuthzServer {
     approval: PendingApproval
     res: http.ServerResponse
     timer: ReturnType<typeof setTimeout>
+    /** Trace of the decision that led to the prompt; the user's answer is appended. */
+    trace?: DecisionTrace
+    /** Would-be decision of the session's audit policy, recorded with the answer. */
+    auditDecision?: AuthzDecision | null
   }>()
   private rateLimitBuckets = new Map<string, number[]>()
-  /** Time-limited grants for tools approved via the ApprovalBar.
-   *  Key: `${sessionId}:${normalizedToolName}` → expiry timestamp.
-   *  Set when user clicks Approve; consumed when the LLM retries the tool.
+  /** Per-session counters for policy quotas (permissions.quotas). */
+  private quotas = new QuotaTracker()
+  /** Recent decisions per session, for the history part of risk scores. */
+  private riskHistory = new RiskHistory()
+  /** MCP tool classification overrides, refreshed when MCP servers change. */
+  private toolClassifications: ToolClassificationMap = {}
+  /** Grants given from the ApprovalBar, consulted before prompting again. */
+  private grantStore: ApprovalGrantStore | null = null
+  /** Effective policy per registered session, compiled on first use.
+   *  Dropped when the session re-registers and cleared when any policy changes.
    */
-  private promptGrants = new Map<string, number>()
+  private policyCache = new Map<string, CompiledSessionPolicy>()
+  private policyCacheStats = { hits: 0, misses: 0, invalidations: 0 }
+  /** Handling time of hook requests, per endpoint. */
+  private latency = { authorize: new LatencyWindow(), supervise: new LatencyWindow() }
+  /** Responses held open for user approval — their latency is the user's, not ours. */
+  private heldResponses = new WeakSet<http.ServerResponse>()
   /** Queued supervisor actions per session. The supervisor service consumes
    *  these when it detects a terminal prompt and needs to type yes/no.
    */
@@ -354,6 +625,16 @@ export class AuthzServer {
     this.settingsStore = store
   }
 
+  /** Replace the MCP tool classification overrides applied to incoming calls. */
+  setToolClassifications(overrides: ToolClassificationMap): void {
+    this.toolClassifications = overrides
+  }
+
+  /** Wire up the grant store for scoped approvals. */
+  setGrantStore(store: ApprovalGrantStore): void {
+    this.grantStore = store
+  }
+
   /** Wire up the secret store for /secrets/resolve endpoint. */
   setSecretStore(store: import('../stores/secret-store').SecretStore): void {
     this.secretStore = store
@@ -444,8 +725,17 @@ export class AuthzServer {
   }
 
   /** Register a session for authorization. */
-  registerSession(sessionId: string, harnessId: string, policyIds: string[], policyOverride?: PolicyDocument | null): void {
-    this.sessions.set(sessionId, { sessionId, harnessId, policyIds, policyOverride: policyOverride ?? null })
+  registerSession(
+    sessionId: string,
+    harnessId: string,
+    policyIds: string[],
+    policyOverride?: PolicyDocument | null,
+    workspaceRoot?: string | null,
+  ): void {
+    // Re-registration (e.g. after editing the override) keeps the known workspace.
+    const root = workspaceRoot !== undefined ? workspaceRoot : this.sessions.get(sessionId)?.workspaceRoot ?? null
+    this.sessions.set(sessionId, { sessionId, harnessId, policyIds, policyOverride: policyOverride ?? null, workspaceRoot: root })
+    this.policyCache.delete(sessionId)
   }
 
   /** Unregister a session. Auto-deny all pending approvals for this session. */
@@ -456,11 +746,12 @@ export class AuthzServer {
       }
     }
     this.sessions.delete(sessionId)
+    this.policyCache.delete(sessionId)
     this.rateLimitBuckets.delete(sessionId)
-    // Clean up prompt grants for this session
-    for (const key of this.promptGrants.keys()) {
-      if (key.startsWith(`${sessionId}:`)) this.promptGrants.delete(key)
-    }
+    this.quotas.clear(sessionId)
+    this.riskHistory.clear(sessionId)
+    // Session-bound grants end with the session
+    this.grantStore?.clearSession(sessionId)
     // Clean up queued supervisor actions
     this.supervisorActions.delete(sessionId)
   }
@@ -472,6 +763,44 @@ export class AuthzServer {
     return actionClass === 'execute' || actionClass === 'write'
   }
 
+  /** Resolve a registered session's effective policy, with the trace of how it
+   *  was assembled. Served from the per-session cache; an emergency deny-all
+   *  (store unreadable) is never cached so the session recovers on the next call.
+   */
+  private resolveEffective(registered: RegisteredSession): CompiledSessionPolicy {
+    const cached = this.policyCache.get(registered.sessionId)
+    if (cached) {
+      this.policyCacheStats.hits++
+      return cached
+    }
+    this.policyCacheStats.misses++
+    const allResult = this.policyStore.listPolicies()
+    const { policy, trace, auditPolicy } = traceSessionPolicy(
+      allResult.ok ? allResult.policies : null,
+      registered.policyIds,
+      registered.harnessId,
+      registered.policyOverride,
+      (id) => this.policyStore.getCurrentRevision(id),
+    )
+    const compiled = compileSessionPolicy(policy, trace, registered.harnessId, auditPolicy)
+    if (trace.baseline !== 'emergency-deny-all') this.policyCache.set(registered.sessionId, compiled)
+    return compiled
+  }
+
+  /** Drop every cached effective policy. Call after any policy is saved, deleted or rolled back. */
+  invalidatePolicyCache(): void {
+    this.policyCache.clear()
+    this.policyCacheStats.invalidations++
+  }
+
+  /** Latency of the hook endpoints and policy cache counters. */
+  getMetrics(): AuthzMetrics {
+    return {
+      endpoints: { authorize: this.latency.authorize.summary(), supervise: this.latency.supervise.summary() },
+      policyCache: { sessions: this.policyCache.size, ...this.policyCacheStats },
+    }
+  }
+
   /** Emit a policy-decision feed item so blocks/approvals appear in the feed timeline. */
   private emitPolicyFeed(sessionId: string, harnessId: string, message: string): void {
     if (!this.feedStore) return
@@ -481,9 +810,10 @@ export class AuthzServer {
 
   /** Resolve a pending approval (called from IPC or timeout).
    *  For confirmDestructive approvals: completes the held HTTP response.
-   *  For needsPrompt approvals: sets a time-limited grant (HTTP already responded).
+   *  For needsPrompt approvals: records a grant so the retry passes (HTTP already responded).
+   *  Any scope wider than `once` is recorded as a grant in both cases.
    */
-  resolveApproval(id: string, decision: ApprovalDecision): void {
+  resolveApproval(id: string, decision: ApprovalDecision, scope: ApprovalScope = 'once', author: string | null = null): void {
     const entry = this.pendingApprovals.get(id)
     if (!entry) return
 
@@ -492,7 +822,11 @@ export class AuthzServer {
 
     const { approval, res } = entry
     const authzDecision: AuthzDecision = decision === 'approve' ? 'allow' : 'deny'
-    const reason = decision === 'approve' ? 'User approved.' : 'User denied.'
+    const reason = decision === 'approve' ? (scope === 'once' ? 'User approved.' : `User approved (${scope}).`) : 'User denied.'
+    const trace: DecisionTrace | undefined = entry.trace && {
+      ...entry.trace,
+      steps: [...entry.trace.steps, { stage: 'user-approval', outcome: authzDecision, detail: reason }],
+    }
 
     // Record activity event
     const event = this.activityStore.record({
@@ -503,6 +837,9 @@ export class AuthzServer {
       decision: authzDecision,
       reason,
       harnessId: approval.harnessId,
+      toolInput: approval.toolInput,
+      trace,
+      auditDecision: entry.auditDecision,
     })
     this.sendToRenderer('latch:activity-event', event)
     this.radar?.onEvent()
@@ -512,16 +849,16 @@ export class AuthzServer {
     this.emitPolicyFeed(approval.sessionId, approval.harnessId, `${verb}: ${approval.toolName}${toolDetailStr(approval.toolName, approval.toolInput)}`)
 
     // If this is a "prompt" tool approval (res is null — HTTP already responded
-    // with 403), set a time-limited grant so the LLM's retry succeeds.
+    // with 403), record a grant so the LLM's retry succeeds.
     if (res === null || (res as any)?._headerSent) {
-      if (decision === 'approve') {
-        const grantKey = `${approval.sessionId}:${normalizeToolKey(approval.toolName)}`
-        this.promptGrants.set(grantKey, Date.now() + PROMPT_GRANT_TTL_MS)
-      }
+      if (decision === 'approve') this.grantApproval(approval, scope, author)
       this.sendToRenderer('latch:approval-resolved', { id })
       return
     }
 
+    // The held call goes through below; only wider scopes need a grant.
+    if (decision === 'approve' && scope !== 'once') this.grantApproval(approval, scope, author)
+
     // Complete the held HTTP response (confirmDestructive flow)
     try {
       if (authzDecision === 'allow') {
@@ -543,6 +880,75 @@ export class AuthzServer {
     this.resolveApproval(id, 'deny')
   }
 
+  /** Record a grant for an approved call. Project scope also writes an allow
+   *  rule into the session's first policy (as a new revision); a session with
+   *  no policy gets a session-long exact grant instead.
+   */
+  grantApproval(
+    approval: Pick<PendingApproval, 'sessionId' | 'toolName' | 'toolInput' | 'harnessId'>,
+    scope: ApprovalScope,
+    author: string | null = null,
+  ): ApprovalGrant | null {
+    if (!this.grantStore) return null
+    const { sessionId, toolName, toolInput, harnessId } = approval
+    const target = grantTarget(toolName, toolInput)
+
+    if (scope === 'project') {
+      const policyId = this.sessions.get(sessionId)?.policyIds[0]
+      const current = policyId ? this.policyStore.getPolicy(policyId) : null
+      if (policyId && current?.ok) {
+        const rule = buildGrantRule(toolName, toolInput, harnessId)
+        const saved = this.policyStore.savePolicy(applyGrantRule(current.policy, rule, DEFAULT_COMMAND_RULES), author)
+        if (saved.ok) {
+          this.invalidatePolicyCache()
+          return this.grantStore.create({ sessionId, scope, toolName, target, policyId, rule })
+        }
+      }
+      this.emitPolicyFeed(sessionId, harnessId, `No policy to add a rule to — approved ${toolName} for this session only.`)
+      scope = 'exact'
+    }
+
+    return this.grantStore.create({
+      sessionId,
+      scope,
+      toolName,
+      target: scope === 'session' ? null : target,
+      ttlMs: scope === 'once' ? PROMPT_GRANT_TTL_MS : null,
+    })
+  }
+
+  /** Active grants that apply to a session. */
+  listGrants(sessionId: string): ApprovalGrant[] {
+    if (!this.grantStore) return []
+    const policyIds = this.sessions.get(sessionId)?.policyIds ?? []
+    return this.grantStore.listForSession(sessionId, policyIds)
+  }
+
+  /** Revoke a grant; for project grants, also remove the rule from the policy. */
+  revokeGrant(id: string, author: string | null = null): { ok: boolean; error?: string } {
+    const revoked = this.grantStore?.revoke(id)
+    if (!revoked) return { ok: false, error: 'Grant not found.' }
+    const { grant, rule } = revoked
+    if (grant.policyId && rule) {
+      const current = this.policyStore.getPolicy(grant.policyId)
+      if (current.ok) {
+        const saved = this.policyStore.savePolicy(removeGrantRule(current.policy, rule), author)
+        if (!saved.ok) return { ok: false, error: saved.error }
+        this.invalidatePolicyCache()
+      }
+    }
+    return { ok: true }
+  }
+
+  /** Consume a grant covering this call, noting the outcome in the trace. */
+  private consumeGrant(registered: RegisteredSession, toolName: string, toolInput: Record<string, unknown>, trace: DecisionTrace): ApprovalGrant | null {
+    const grant = this.grantStore?.consume(registered.sessionId, registered.policyIds, toolName, toolInput) ?? null
+    trace.steps.push(grant
+      ? { stage: 'approval-grant', outcome: 'allow', detail: `${grant.scope} grant for ${grant.toolName}${grant.target === null ? '' : ' (exact arguments)'}.` }
+      : { stage: 'approval-grant', outcome: 'skipped', detail: 'No matching grant.' })
+    return grant
+  }
+
   /** Check rate limit for a session. Returns true if request is allowed. */
   private checkRateLimit(sessionId: string): boolean {
     const now = Date.now()
@@ -559,6 +965,44 @@ export class AuthzServer {
     return true
   }
 
+  /** Count a call against the effective policy's quotas. Returns the decision
+   *  of the quota it exceeds, or null when it is within every quota. */
+  private applyQuotas(
+    sessionId: string,
+    compiled: CompiledSessionPolicy,
+    call: QuotaCall,
+    trace: DecisionTrace,
+  ): { decision: 'deny' | 'prompt'; reason: string } | null {
+    const quotas = compiled.policy.permissions.quotas
+    if (!quotas?.length) return null
+    const exceeded = this.quotas.consume(sessionId, quotas, call, compiled.regex)
+    if (!exceeded) {
+      trace.steps.push({ stage: 'quota', outcome: 'allow', detail: 'Within quota.' })
+      return null
+    }
+    const reason = exceeded.reason ?? `Quota exceeded: ${describeQuota(exceeded)}.`
+    trace.steps.push({ stage: 'quota', outcome: exceeded.decision, detail: reason })
+    return { decision: exceeded.decision, reason }
+  }
+
+  /** Score a call from its arguments and the session's recent decisions. */
+  private assessRisk(
+    sessionId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    classification: ToolClassification,
+    workspaceRoot: string | null | undefined,
+  ): RiskAssessment {
+    return scoreToolCall({ toolName, toolInput, classification, workspaceRoot, history: this.riskHistory.get(sessionId) })
+  }
+
+  /** Quota usage for a session under its current effective policy. */
+  getQuotaStatus(sessionId: string): QuotaStatus[] {
+    const registered = this.sessions.get(sessionId)
+    if (!registered) return []
+    return this.quotas.status(sessionId, this.resolveEffective(registered).policy.permissions.quotas)
+  }
+
   /** Handle incoming HTTP requests. */
   private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
     if (req.method !== 'POST') {
@@ -621,6 +1065,15 @@ export class AuthzServer {
       return
     }
 
+    // Time hook round-trips from request to response (held approvals excluded).
+    const hookEndpoint = superviseMatch ? 'supervise' as const : authzMatch ? 'authorize' as const : null
+    if (hookEndpoint) {
+      const started = performance.now()
+      res.once('finish', () => {
+        if (!this.heldResponses.has(res)) this.latency[hookEndpoint].record(performance.now() - started)
+      })
+    }
+
     let body = ''
     let bodyBytes = 0
 
@@ -748,7 +1201,7 @@ export class AuthzServer {
 
     // Auto-register as 'opencode' so feeds show the correct harness badge
     if (!this.sessions.has(sessionId)) {
-      this.sessions.set(sessionId, { sessionId, harnessId: 'opencode', policyIds: [], policyOverride: null })
+      this.sessions.set(sessionId, { sessionId, harnessId: 'opencode', policyIds: [], policyOverride: null, workspaceRoot: null })
     }
 
     let event: Record<string, unknown>
@@ -918,34 +1371,30 @@ export class AuthzServer {
     // Accept Claude Code format (tool_name/tool_input), generic (toolName/args), and plugin (tool/input)
     const toolName  = String(payload.tool_name ?? payload.toolName ?? payload.tool ?? 'unknown')
     const toolInput = (payload.tool_input ?? payload.args ?? payload.input ?? {}) as Record<string, unknown>
-    const { actionClass, risk } = classifyTool(toolName)
+    const classification = classifyTool(toolName, this.toolClassifications)
+    const { actionClass } = classification
 
     // Resolve effective policy — filter to session's selected policies
-    const allResult = this.policyStore.listPolicies()
-    let basePolicy: PolicyDocument
-    if (!registered.policyIds?.length) {
-      // No policy selected — allow everything
-      basePolicy = { id: '__none__', name: 'No Policy', description: '', permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] }, harnesses: {} }
-    } else if (allResult.ok && allResult.policies?.length) {
-      const selected = allResult.policies.filter(p => registered.policyIds.includes(p.id))
-      basePolicy = selected.length
-        ? computeStrictestBaseline(selected, registered.harnessId)
-        : { id: '__none__', name: 'No Policy', description: '', permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] }, harnesses: {} }
-    } else {
-      basePolicy = {
-        id: '__emergency__',
-        name: 'Emergency Deny-All',
-        description: 'No policies available.',
-        permissions: {
-          allowBash: false, allowNetwork: false, allowFileWrite: false,
-          confirmDestructive: true, blockedGlobs: [],
-        },
-        harnesses: {},
-      }
+    const compiled = this.resolveEffective(registered)
+    const { policy: effective, trace: resolution, regex } = compiled
+    const context: AuthzContext = {
+      workspaceRoot: registered.workspaceRoot ?? this.openCodeWorktrees.get(sessionId) ?? null,
+      cwd: typeof payload.cwd === 'string' ? payload.cwd : null,
+      classifications: this.toolClassifications,
+    }
+    const { risk, factors: riskFactors } = this.assessRisk(sessionId, toolName, toolInput, classification, context.workspaceRoot)
+    const result = authorizeToolCall(toolName, toolInput, effective, registered.harnessId, context, regex)
+    let { decision, reason: baseReason, needsPrompt: toolNeedsPrompt } = result
+    const trace: DecisionTrace = { ...resolution, match: result.match ?? null, steps: [rulesStep(result)] }
+    const auditDecision = auditToolCall(compiled, toolName, toolInput, registered.harnessId, context, trace)
+
+    // Quotas: a call over its quota is denied or escalated like a rule match.
+    const quota = decision === 'deny' ? null : this.applyQuotas(sessionId, compiled, { toolName, actionClass, toolInput }, trace)
+    if (quota?.decision === 'deny') decision = 'deny'
+    if (quota) {
+      toolNeedsPrompt = quota.decision === 'prompt'
+      baseReason = quota.reason
     }
-
-    const effective = resolvePolicy(basePolicy, registered.policyOverride)
-    const { decision, reason: baseReason, needsPrompt: toolNeedsPrompt } = authorizeToolCall(toolName, toolInput, effective, registered.harnessId)
 
     // Check confirmDestructive for write/execute tools not already covered by a tool rule.
     // When confirmDestructive is set, escalate to the user instead of auto-approving.
@@ -958,20 +1407,34 @@ export class AuthzServer {
         if (autoAccept !== null && autoAccept !== 'true') {
           needsPrompt = true
           if (!reason) reason = 'Destructive operation — confirm before proceeding.'
+          trace.steps.push({ stage: 'confirm-destructive', outcome: 'prompt', detail: `${actionClass} action — supervisor will ask.` })
+        } else {
+          trace.steps.push({ stage: 'confirm-destructive', outcome: 'skipped', detail: 'Auto-accept is on.' })
         }
       }
     }
 
+    // A grant from an earlier approval answers the prompt without asking again.
+    if (needsPrompt && decision === 'allow' && this.consumeGrant(registered, toolName, toolInput, trace)) {
+      needsPrompt = false
+      reason = 'Approved via Latch policy grant.'
+    }
+
     // Record activity event
     const activityDecision: AuthzDecision = decision === 'deny' ? 'deny' : needsPrompt ? 'ask' : 'allow'
+    this.riskHistory.note(sessionId, { timestamp: Date.now(), decision: activityDecision, risk })
     const event = this.activityStore.record({
       sessionId,
       toolName,
       actionClass,
       risk,
+      riskFactors,
       decision: activityDecision,
       reason,
       harnessId: registered.harnessId,
+      toolInput,
+      trace,
+      auditDecision,
     })
     this.sendToRenderer('latch:activity-event', event)
     this.radar?.onEvent()
@@ -995,6 +1458,7 @@ export class AuthzServer {
       reason,
       actionClass,
       risk,
+      riskFactors,
       timestamp: Date.now(),
     }
 
@@ -1081,41 +1545,32 @@ export class AuthzServer {
     // OpenClaw format (toolName/args)
     const toolName  = String(payload.tool_name ?? payload.toolName ?? 'unknown')
     const toolInput = (payload.tool_input ?? payload.args ?? {}) as Record<string, unknown>
-    const { actionClass, risk } = classifyTool(toolName)
-
-    // Resolve effective policy — filter to session's selected policies.
-    // Selected policies are merged using strictest-wins semantics:
-    //   - Boolean permissions: AND (false if ANY policy says false)
-    //   - confirmDestructive: OR (true if ANY policy says true)
-    //   - Tool rules: deny > prompt > allow per pattern
-    // Session overrides are then applied on top as ephemeral tweaks.
-    const allResult = this.policyStore.listPolicies()
-    let basePolicy: PolicyDocument
-
-    if (!registered.policyIds?.length) {
-      // No policy selected — allow everything
-      basePolicy = { id: '__none__', name: 'No Policy', description: '', permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] }, harnesses: {} }
-    } else if (allResult.ok && allResult.policies?.length) {
-      const selected = allResult.policies.filter(p => registered.policyIds.includes(p.id))
-      basePolicy = selected.length
-        ? computeStrictestBaseline(selected, registered.harnessId)
-        : { id: '__none__', name: 'No Policy', description: '', permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] }, harnesses: {} }
-    } else {
-      // No policies exist at all — use emergency deny-all
-      basePolicy = {
-        id: '__emergency__',
-        name: 'Emergency Deny-All',
-        description: 'No policies available.',
-        permissions: {
-          allowBash: false, allowNetwork: false, allowFileWrite: false,
-          confirmDestructive: true, blockedGlobs: [],
-        },
-        harnesses: {},
-      }
+    const classification = classifyTool(toolName, this.toolClassifications)
+    const { actionClass } = classification
+
+    // Resolve effective policy — filter to session's selected policies and
+    // merge them strictest-wins (see resolveSessionPolicy).
+    const compiled = this.resolveEffective(registered)
+    const { policy: effective, trace: resolution, regex } = compiled
+    const context: AuthzContext = {
+      workspaceRoot: registered.workspaceRoot ?? this.openCodeWorktrees.get(sessionId) ?? null,
+      cwd: typeof payload.cwd === 'string' ? payload.cwd : null,
+      classifications: this.toolClassifications,
+    }
+    const { risk, factors: riskFactors } = this.assessRisk(sessionId, toolName, toolInput, classification, context.workspaceRoot)
+    const result = authorizeToolCall(toolName, toolInput, effective, registered.harnessId, context, regex)
+    let { decision, reason, needsPrompt } = result
+    const trace: DecisionTrace = { ...resolution, match: result.match ?? null, steps: [rulesStep(result)] }
+    const auditDecision = auditToolCall(compiled, toolName, toolInput, registered.harnessId, context, trace)
+
+    // Quotas: a call over its quota is denied or escalated like a rule match
+    // (the reason it sets keeps the LLM evaluator out of it).
+    const quota = decision === 'deny' ? null : this.applyQuotas(sessionId, compiled, { toolName, actionClass, toolInput }, trace)
+    if (quota?.decision === 'deny') decision = 'deny'
+    if (quota) {
+      needsPrompt = quota.decision === 'prompt'
+      reason = quota.reason
     }
-
-    const effective = resolvePolicy(basePolicy, registered.policyOverride)
-    let { decision, reason, needsPrompt } = authorizeToolCall(toolName, toolInput, effective, registered.harnessId)
 
     // LLM evaluator: when no static rule matched (allow with null reason),
     // consult the LLM if the policy has an evaluator configured.
@@ -1126,6 +1581,7 @@ export class AuthzServer {
           const llmResult = await evaluateWithLlm(
             effective.llmEvaluator, toolName, toolInput, actionClass, apiKey,
           )
+          trace.steps.push({ stage: 'llm-evaluator', outcome: llmResult.decision, detail: llmResult.reason })
           if (llmResult.decision === 'deny') {
             decision = 'deny'
             reason = `LLM evaluator: ${llmResult.reason}`
@@ -1135,10 +1591,14 @@ export class AuthzServer {
           } else {
             reason = `LLM evaluator: ${llmResult.reason}`
           }
+        } else {
+          trace.steps.push({ stage: 'llm-evaluator', outcome: 'skipped', detail: 'No API key configured.' })
         }
       }
     }
 
+    this.riskHistory.note(sessionId, { timestamp: Date.now(), decision: decision === 'deny' ? 'deny' : needsPrompt ? 'ask' : 'allow', risk })
+
     // If policy denies outright, record and respond immediately
     if (decision === 'deny') {
       const event = this.activityStore.record({
@@ -1146,9 +1606,13 @@ export class AuthzServer {
         toolName,
         actionClass,
         risk,
+        riskFactors,
         decision,
         reason,
         harnessId: registered.harnessId,
+        toolInput,
+        trace,
+        auditDecision,
       })
       this.sendToRenderer('latch:activity-event', event)
       this.radar?.onEvent()
@@ -1166,19 +1630,20 @@ export class AuthzServer {
     // time-limited grant is recorded.  The LLM sees the denial, tells the
     // user, user says "try again", the retry hits the grant and succeeds.
     if (needsPrompt) {
-      const grantKey = `${sessionId}:${normalizeToolKey(toolName)}`
-      const grantExpiry = this.promptGrants.get(grantKey)
-
       // Check for existing grant (user already approved in ApprovalBar)
-      if (grantExpiry && Date.now() < grantExpiry) {
+      if (this.consumeGrant(registered, toolName, toolInput, trace)) {
         const event = this.activityStore.record({
           sessionId,
           toolName,
           actionClass,
           risk,
+          riskFactors,
           decision: 'allow',
           reason: 'Approved via Latch policy grant.',
           harnessId: registered.harnessId,
+          toolInput,
+          trace,
+          auditDecision,
         })
         this.sendToRenderer('latch:activity-event', event)
         this.radar?.onEvent()
@@ -1196,16 +1661,20 @@ export class AuthzServer {
         toolName,
         actionClass,
         risk,
+        riskFactors,
         decision: 'ask',
         reason: askReason,
         harnessId: registered.harnessId,
+        toolInput,
+        trace,
+        auditDecision,
       })
       this.sendToRenderer('latch:activity-event', event)
       this.radar?.onEvent()
       this.emitPolicyFeed(sessionId, registered.harnessId, `Awaiting approval: ${toolName}${toolDetailStr(toolName, toolInput)}`)
 
       // Send approval request to renderer (ApprovalBar).
-      // When user clicks Approve, resolvePromptApproval sets the grant.
+      // When user clicks Approve, resolveApproval records a grant.
       const approvalId = crypto.randomBytes(8).toString('hex')
       const approval: PendingApproval = {
         id: approvalId,
@@ -1214,6 +1683,7 @@ export class AuthzServer {
         toolInput,
         actionClass,
         risk,
+        riskFactors,
         harnessId: registered.harnessId,
         createdAt: new Date().toISOString(),
         timeoutMs: APPROVAL_TIMEOUT_MS,
@@ -1228,7 +1698,7 @@ export class AuthzServer {
         this.resolvePromptApproval(approvalId)
       }, APPROVAL_TIMEOUT_MS)
 
-      this.pendingApprovals.set(approvalId, { approval, res: null as any, timer })
+      this.pendingApprovals.set(approvalId, { approval, res: null as any, timer, trace, auditDecision })
       this.sendToRenderer('latch:approval-request', approval)
 
       // Deny immediately — the hook exits fast, the LLM sees the reason
@@ -1244,14 +1714,19 @@ export class AuthzServer {
       const autoAccept = this.settingsStore?.get('auto-accept')
       if (autoAccept === null || autoAccept === 'true') {
         // Default is ON (null = never explicitly set = default ON)
+        trace.steps.push({ stage: 'confirm-destructive', outcome: 'allow', detail: 'Auto-accepted.' })
         const event = this.activityStore.record({
           sessionId,
           toolName,
           actionClass,
           risk,
+          riskFactors,
           decision: 'allow',
           reason: 'Auto-accepted.',
           harnessId: registered.harnessId,
+          toolInput,
+          trace,
+          auditDecision,
         })
         this.sendToRenderer('latch:activity-event', event)
         this.radar?.onEvent()
@@ -1261,6 +1736,29 @@ export class AuthzServer {
         return
       }
 
+      if (this.consumeGrant(registered, toolName, toolInput, trace)) {
+        const event = this.activityStore.record({
+          sessionId,
+          toolName,
+          actionClass,
+          risk,
+          riskFactors,
+          decision: 'allow',
+          reason: 'Approved via Latch policy grant.',
+          harnessId: registered.harnessId,
+          toolInput,
+          trace,
+          auditDecision,
+        })
+        this.sendToRenderer('latch:activity-event', event)
+        this.radar?.onEvent()
+
+        res.writeHead(200)
+        res.end(JSON.stringify({ decision: 'allow' }))
+        return
+      }
+
+      trace.steps.push({ stage: 'confirm-destructive', outcome: 'prompt', detail: `${actionClass} action — awaiting user approval.` })
       const approvalId = crypto.randomBytes(8).toString('hex')
       const timeoutDefault: ApprovalDecision = risk === 'high' ? 'deny' : 'approve'
 
@@ -1271,6 +1769,7 @@ export class AuthzServer {
         toolInput,
         actionClass,
         risk,
+        riskFactors,
         harnessId: registered.harnessId,
         createdAt: new Date().toISOString(),
         timeoutMs: APPROVAL_TIMEOUT_MS,
@@ -1281,7 +1780,8 @@ export class AuthzServer {
         this.resolveApproval(approvalId, timeoutDefault)
       }, APPROVAL_TIMEOUT_MS)
 
-      this.pendingApprovals.set(approvalId, { approval, res, timer })
+      this.pendingApprovals.set(approvalId, { approval, res, timer, trace, auditDecision })
+      this.heldResponses.add(res)
 
       // Push to renderer for interactive UI
       this.sendToRenderer('latch:approval-request', approval)
@@ -1294,9 +1794,13 @@ export class AuthzServer {
       toolName,
       actionClass,
       risk,
+      riskFactors,
       decision,
       reason,
       harnessId: registered.harnessId,
+      toolInput,
+      trace,
+      auditDecision,
     })
     this.sendToRenderer('latch:activity-event', event)
     this.radar?.onEvent()
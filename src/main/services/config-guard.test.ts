@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { ConfigGuard } from './config-guard'
+import type { ConfigTamper } from './config-guard'
+import { enforceForClaude } from './policy-enforcer'
+import type { PolicyDocument } from '../../types'
+
+const POLICY: PolicyDocument = {
+  id: 'strict',
+  name: 'Strict',
+  description: '',
+  permissions: { allowBash: false, allowNetwork: false, allowFileWrite: true, confirmDestructive: true, blockedGlobs: [] },
+  harnesses: {},
+}
+
+describe('ConfigGuard', () => {
+  let dir: string
+  let reported: ConfigTamper[]
+  let guard: ConfigGuard
+  let files: string[]
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-config-guard-'))
+    reported = []
+    guard = new ConfigGuard((tamper) => reported.push(tamper))
+    files = enforceForClaude(POLICY, dir, { port: 4000, sessionId: 'session-1', secret: 'secret' }).files
+    guard.protect('session-1', files)
+  })
+
+  afterEach(() => {
+    guard.stop()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('guards every file the enforcer generated', () => {
+    expect(files.map((f) => path.relative(dir, f))).toEqual([
+      path.join('.claude', 'settings.json'),
+      path.join('.claude', 'latch-authz.sh'),
+      path.join('.claude', 'latch-feed.sh'),
+    ])
+    expect(guard.check('session-1')).toEqual([])
+  })
+
+  it('restores an edited file and reports it', () => {
+    const original = fs.readFileSync(files[0], 'utf-8')
+    fs.writeFileSync(files[0], JSON.stringify({ permissions: { allow: ['Bash'] } }))
+
+    expect(guard.check('session-1')).toEqual([{ sessionId: 'session-1', filePath: files[0], change: 'modified', restored: true }])
+    expect(fs.readFileSync(files[0], 'utf-8')).toBe(original)
+    expect(reported).toHaveLength(1)
+    expect(guard.check('session-1')).toEqual([])
+  })
+
+  it('restores deleted files and directories', () => {
+    fs.rmSync(path.join(dir, '.claude'), { recursive: true })
+
+    const tampers = guard.check('session-1')
+    expect(tampers.map((t) => t.change)).toEqual(['deleted', 'deleted', 'deleted'])
+    expect(tampers.every((t) => t.restored)).toBe(true)
+    expect(fs.statSync(files[1]).mode & 0o111).not.toBe(0)
+  })
+
+  it('treats a permission change on a hook script as tampering', () => {
+    fs.chmodSync(files[1], 0o644)
+    expect(guard.check('session-1')).toMatchObject([{ filePath: files[1], change: 'modified' }])
+    expect(fs.statSync(files[1]).mode & 0o777).toBe(0o755)
+  })
+
+  it('stops guarding when released', () => {
+    guard.release('session-1')
+    fs.writeFileSync(files[0], '{}')
+    expect(guard.check('session-1')).toEqual([])
+    expect(fs.readFileSync(files[0], 'utf-8')).toBe('{}')
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * @module config-guard
+ * @description Detects and undoes tampering with the harness config Latch
+ * generates for a session.
+ *
+ * enforcePolicy writes permission config into the worktree — Claude's
+ * settings.json and hook scripts, Codex's config.toml and rules, opencode.json,
+ * the OpenClaw plugin, Droid's .factory and Gemini CLI's .gemini settings and
+ * hooks — where the agent it restricts can edit or delete it to loosen its own
+ * limits. The guard snapshots each generated file, watches the
+ * directories holding them, and when a file changes or disappears writes the
+ * snapshot back and reports the tamper. A slow poll backs up fs.watch, which
+ * can miss events (network filesystems, a watched directory being removed).
+ */
+
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+/** A generated file found changed or missing. */
+export interface ConfigTamper {
+  sessionId: string
+  filePath: string
+  change: 'modified' | 'deleted'
+  /** False when the snapshot could not be written back (see error). */
+  restored: boolean
+  error?: string
+}
+
+interface Snapshot {
+  filePath: string
+  content: Buffer
+  hash: string
+  mode: number
+  /** Fingerprint of a tamper that could not be undone, so it is reported once. */
+  unrestorable: string | null
+}
+
+interface GuardedSession {
+  snapshots: Snapshot[]
+  watchers: fs.FSWatcher[]
+  pending: ReturnType<typeof setTimeout> | null
+}
+
+const POLL_INTERVAL_MS = 5_000
+/** Let a burst of watch events (write, chmod, rename) settle before checking. */
+const SETTLE_MS = 100
+
+function hashOf(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+export class ConfigGuard {
+  private sessions = new Map<string, GuardedSession>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private onTamper: (tamper: ConfigTamper) => void
+
+  constructor(onTamper: (tamper: ConfigTamper) => void) {
+    this.onTamper = onTamper
+  }
+
+  /**
+   * Snapshot a session's generated files as they are now and start watching
+   * them. Replaces an earlier snapshot for the session (re-enforcement).
+   * Files that don't exist are skipped.
+   */
+  protect(sessionId: string, files: string[]): void {
+    this.release(sessionId)
+    const snapshots: Snapshot[] = []
+    for (const filePath of new Set(files.map((f) => path.resolve(f)))) {
+      try {
+        const content = fs.readFileSync(filePath)
+        const mode = fs.statSync(filePath).mode & 0o777
+        snapshots.push({ filePath, content, hash: hashOf(content), mode, unrestorable: null })
+      } catch { /* not written — nothing to guard */ }
+    }
+    if (!snapshots.length) return
+
+    const session: GuardedSession = { snapshots, watchers: [], pending: null }
+    for (const dir of new Set(snapshots.map((s) => path.dirname(s.filePath)))) {
+      try {
+        const watcher = fs.watch(dir, () => this.schedule(sessionId))
+        watcher.on('error', () => { /* directory removed — the poll still covers it */ })
+        session.watchers.push(watcher)
+      } catch { /* watching unsupported here — rely on the poll */ }
+    }
+    this.sessions.set(sessionId, session)
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        for (const id of [...this.sessions.keys()]) this.check(id)
+      }, POLL_INTERVAL_MS)
+      this.timer.unref?.()
+    }
+  }
+
+  /**
+   * Compare a session's files with their snapshots and restore any that
+   * changed. Reports each tamper to the callback and returns them.
+   */
+  check(sessionId: string): ConfigTamper[] {
+    const session = this.sessions.get(sessionId)
+    if (!session) return []
+    const tampers: ConfigTamper[] = []
+
+    for (const snap of session.snapshots) {
+      let current: Buffer | null = null
+      let mode = snap.mode
+      try {
+        current = fs.readFileSync(snap.filePath)
+        mode = fs.statSync(snap.filePath).mode & 0o777
+      } catch { /* deleted (or unreadable, which amounts to the same) */ }
+
+      const fingerprint = current ? `${hashOf(current)}:${mode}` : 'deleted'
+      if (fingerprint === `${snap.hash}:${snap.mode}`) {
+        snap.unrestorable = null
+        continue
+      }
+      if (fingerprint === snap.unrestorable) continue
+
+      const tamper: ConfigTamper = { sessionId, filePath: snap.filePath, change: current ? 'modified' : 'deleted', restored: true }
+      try {
+        fs.mkdirSync(path.dirname(snap.filePath), { recursive: true })
+        fs.writeFileSync(snap.filePath, snap.content)
+        fs.chmodSync(snap.filePath, snap.mode)
+        snap.unrestorable = null
+      } catch (err: unknown) {
+        tamper.restored = false
+        tamper.error = err instanceof Error ? err.message : String(err)
+        snap.unrestorable = fingerprint
+      }
+      tampers.push(tamper)
+    }
+
+    for (const tamper of tampers) {
+      try { this.onTamper(tamper) } catch (err: unknown) { console.warn('[config-guard] Tamper callback error:', err instanceof Error ? err.message : String(err)) }
+    }
+    return tampers
+  }
+
+  /** Stop guarding a session's files (session ended). */
+  release(sessionId: string): void {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+    if (session.pending) clearTimeout(session.pending)
+    for (const watcher of session.watchers) watcher.close()
+    this.sessions.delete(sessionId)
+    if (!this.sessions.size && this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /** Stop guarding every session (app quit). */
+  stop(): void {
+    for (const sessionId of [...this.sessions.keys()]) this.release(sessionId)
+  }
+
+  private schedule(sessionId: string): void {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.pending) return
+    session.pending = setTimeout(() => {
+      session.pending = null
+      this.check(sessionId)
+    }, SETTLE_MS)
+  }
+}
@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import http from 'node:http'
+import type { Duplex } from 'node:stream'
 import { LatchProxy } from './latch-proxy'
+import type { LeakPrompt } from './latch-proxy'
 import { TlsInterceptor } from './proxy/tls-interceptor'
-import type { ServiceDefinition, DataTier, ProxyAuditEvent } from '../../types'
+import { encodeFrame, parseFrame } from './proxy/ws-frame-scanner'
+import type { WsFrame } from './proxy/ws-frame-scanner'
+import type { ServiceDefinition, DataTier, ProxyAuditEvent, ProxyFeedbackMessage } from '../../types'
 
 const MOCK_SERVICE: ServiceDefinition = {
   id: 'httpbin',
@@ -375,18 +379,23 @@ describe('LatchProxy', () => {
   describe('HTTP integration', () => {
     let upstream: http.Server
     let upstreamPort: number
-    let upstreamRequests: { headers: http.IncomingHttpHeaders; url: string; method: string }[]
+    let upstreamRequests: { headers: http.IncomingHttpHeaders; url: string; method: string; body: string }[]
 
     beforeEach(async () => {
       upstreamRequests = []
       upstream = http.createServer((req, res) => {
-        upstreamRequests.push({
-          headers: req.headers,
-          url: req.url ?? '/',
-          method: req.method ?? 'GET',
+        let body = ''
+        req.on('data', (c: Buffer) => { body += c.toString() })
+        req.on('end', () => {
+          upstreamRequests.push({
+            headers: req.headers,
+            url: req.url ?? '/',
+            method: req.method ?? 'GET',
+            body,
+          })
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ message: 'upstream response' }))
         })
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ message: 'upstream response' }))
       })
       await new Promise<void>((resolve) => {
         upstream.listen(0, '127.0.0.1', () => {
@@ -514,6 +523,302 @@ describe('LatchProxy', () => {
       expect(events.some(e => e.decision === 'allow')).toBe(true)
       proxy2.stop()
     })
+
+    it('streams event-stream responses and tokenizes values split across chunks', async () => {
+      const secret = 'ghp_' + 'b'.repeat(36)
+      let release!: () => void
+      const released = new Promise<void>((resolve) => { release = resolve })
+      const sse = http.createServer(async (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+        res.write(`data: first\n\ndata: ${secret.slice(0, 10)}`)
+        await released
+        res.end(`${secret.slice(10)}\n\n`)
+      })
+      const ssePort = await new Promise<number>((resolve) => {
+        sse.listen(0, '127.0.0.1', () => resolve((sse.address() as any).port))
+      })
+
+      const proxy2 = new LatchProxy({
+        sessionId: 'test-int-sse',
+        services: [makeLocalService({
+          dataTier: { defaultTier: 'internal', redaction: { patterns: ['ghp_[a-zA-Z0-9]{36}'], fields: [] } },
+        })],
+        credentials: new Map(),
+        maxDataTier: 'internal' as DataTier,
+      })
+      const proxyPort = await proxy2.start()
+
+      const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        const req = http.get({ host: '127.0.0.1', port: proxyPort, path: `http://127.0.0.1:${ssePort}/events` }, resolve)
+        req.on('error', reject)
+      })
+      let body = ''
+      res.on('data', (c: Buffer) => { body += c.toString() })
+
+      // The first event reaches the client while upstream still holds the response open
+      await vi.waitFor(() => expect(body).toBe('data: first\n\n'))
+      release()
+      await new Promise((resolve) => res.on('end', resolve))
+
+      expect(body).not.toContain(secret)
+      expect(body).toMatch(/^data: first\n\ndata: tok_[a-f0-9]{32}\n\n$/)
+      const scanned = proxy2.getAuditLog().filter((e) => e.contentType === 'text/event-stream')
+      expect(scanned).toHaveLength(1)
+      expect(scanned[0].tokenizationsApplied).toBe(1)
+      proxy2.stop()
+      sse.close()
+    })
+
+    /** Send a request through the proxy and collect the response body. */
+    async function send(proxyPort: number, path: string, body?: string): Promise<{ status: number; body: string }> {
+      const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        const req = http.request({
+          host: '127.0.0.1',
+          port: proxyPort,
+          method: body === undefined ? 'GET' : 'POST',
+          path: `http://127.0.0.1:${upstreamPort}${path}`,
+        }, resolve)
+        req.on('error', reject)
+        req.end(body)
+      })
+      let data = ''
+      res.on('data', (c: Buffer) => { data += c.toString() })
+      await new Promise((resolve) => res.on('end', resolve))
+      return { status: res.statusCode ?? 0, body: data }
+    }
+
+    describe('outbound DLP', () => {
+      const STORED = 'sk-live-4f9a8b7c6d5e'
+
+      it('blocks a request body carrying a stored secret, naming only its key', async () => {
+        const feedback: ProxyFeedbackMessage[] = []
+        const proxy2 = new LatchProxy({
+          sessionId: 'test-dlp-block',
+          services: [makeLocalService()],
+          credentials: new Map(),
+          maxDataTier: 'internal' as DataTier,
+          secrets: { 'stripe-key': STORED },
+          onFeedback: (msg) => feedback.push(msg),
+        })
+        const proxyPort = await proxy2.start()
+
+        const res = await send(proxyPort, '/charges', JSON.stringify({ key: STORED }))
+
+        expect(res.status).toBe(403)
+        expect(res.body).toContain('stripe-key')
+        expect(res.body).not.toContain(STORED)
+        expect(upstreamRequests).toHaveLength(0)
+        expect(feedback).toEqual([expect.objectContaining({ type: 'leak-detected', domain: '127.0.0.1', service: 'local-svc' })])
+        const denied = proxy2.getAuditLog().filter((e) => e.decision === 'deny')
+        expect(denied).toHaveLength(1)
+        expect(denied[0].reason).toBe('Outbound leak (block): Secret stripe-key in request body')
+        proxy2.stop()
+      })
+
+      it('strips detected credentials from the query string when the policy says strip', async () => {
+        const token = 'ghp_' + 'c'.repeat(36)
+        const proxy2 = new LatchProxy({
+          sessionId: 'test-dlp-strip',
+          services: [makeLocalService()],
+          credentials: new Map(),
+          maxDataTier: 'internal' as DataTier,
+          leakAction: 'strip',
+        })
+        const proxyPort = await proxy2.start()
+
+        const res = await send(proxyPort, `/search?q=${token}&tag=a&tag=b&${token}=1`)
+
+        expect(res.status).toBe(200)
+        expect(upstreamRequests).toHaveLength(1)
+        expect(upstreamRequests[0].url).not.toContain(token)
+        expect(new URL(upstreamRequests[0].url, 'http://x').searchParams.get('q')).toBe('[REDACTED]')
+        const forwarded = new URL(upstreamRequests[0].url, 'http://x').searchParams
+        expect(forwarded.getAll('tag')).toEqual(['a', 'b'])
+        expect([...forwarded.keys()]).not.toContain(token)
+        const stripped = proxy2.getAuditLog().filter((e) => e.reason?.startsWith('Outbound leak'))
+        expect(stripped).toHaveLength(2)
+        expect(stripped[0].decision).toBe('allow')
+        expect(stripped[0].path).toBe('/search')
+        proxy2.stop()
+      })
+
+      it('holds a request for approval and lets one retry through once granted', async () => {
+        const prompts: LeakPrompt[] = []
+        const proxy2 = new LatchProxy({
+          sessionId: 'test-dlp-prompt',
+          services: [makeLocalService()],
+          credentials: new Map(),
+          maxDataTier: 'internal' as DataTier,
+          secrets: { 'stripe-key': STORED },
+          leakAction: 'prompt',
+          onLeakPrompt: (p) => prompts.push(p),
+        })
+        const proxyPort = await proxy2.start()
+        const body = `key=${STORED}`
+
+        expect((await send(proxyPort, '/charges', body)).status).toBe(403)
+        expect(prompts).toEqual([{ domain: '127.0.0.1', service: 'local-svc', secrets: ['stripe-key'], location: 'request body' }])
+
+        proxy2.grantLeak('127.0.0.1', ['stripe-key'], true)
+        expect((await send(proxyPort, '/charges', body)).status).toBe(200)
+        expect(upstreamRequests[0].body).toBe(body)
+        expect((await send(proxyPort, '/charges', body)).status).toBe(403)
+        proxy2.stop()
+      })
+    })
+  })
+
+  // -- WebSocket upgrades ──────────────────────────────────────────────────
+
+  describe('WebSocket upgrades', () => {
+    const SECRET = 'ghp_' + 'a'.repeat(36)
+    let upstream: http.Server
+    let upstreamPort: number
+    let upstreamSockets: Duplex[]
+    let upstreamHeaders: http.IncomingHttpHeaders | null
+    let upstreamReceived: string[]
+
+    beforeEach(async () => {
+      upstreamSockets = []
+      upstreamHeaders = null
+      upstreamReceived = []
+      upstream = http.createServer((_req, res) => {
+        res.writeHead(426)
+        res.end()
+      })
+      upstream.on('upgrade', (req, socket: Duplex) => {
+        upstreamSockets.push(socket)
+        upstreamHeaders = req.headers
+        socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n')
+        socket.write(encodeFrame(0x1, Buffer.from(`key=${SECRET}`), false))
+        socket.on('data', (chunk: Buffer) => {
+          const frame = parseFrame(chunk) as WsFrame | null
+          if (frame) upstreamReceived.push(frame.payload.toString())
+        })
+      })
+      await new Promise<void>((resolve) => {
+        upstream.listen(0, '127.0.0.1', () => {
+          upstreamPort = (upstream.address() as any).port
+          resolve()
+        })
+      })
+    })
+
+    afterEach(() => {
+      for (const socket of upstreamSockets) socket.destroy()
+      upstream.close()
+    })
+
+    function makeWsService(): ServiceDefinition {
+      return {
+        ...MOCK_SERVICE,
+        id: 'local-ws',
+        injection: { ...MOCK_SERVICE.injection, proxy: { domains: ['127.0.0.1'], headers: {} } },
+        dataTier: { defaultTier: 'internal', redaction: { patterns: ['ghp_[a-zA-Z0-9]{36}'], fields: [] } },
+      }
+    }
+
+    function upgrade(proxyPort: number, target: string): Promise<{ status: number; socket: Duplex | null; head: Buffer }> {
+      return new Promise((resolve, reject) => {
+        const req = http.request({
+          host: '127.0.0.1',
+          port: proxyPort,
+          path: target,
+          headers: {
+            Connection: 'Upgrade',
+            Upgrade: 'websocket',
+            'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+            'Sec-WebSocket-Version': '13',
+            'Sec-WebSocket-Extensions': 'permessage-deflate',
+          },
+        })
+        req.on('upgrade', (res, socket, head) => resolve({ status: res.statusCode ?? 0, socket, head }))
+        req.on('response', (res) => {
+          res.resume()
+          resolve({ status: res.statusCode ?? 0, socket: null, head: Buffer.alloc(0) })
+        })
+        req.on('error', reject)
+        req.end()
+      })
+    }
+
+    function nextFrame(socket: Duplex, head: Buffer): Promise<WsFrame> {
+      return new Promise((resolve) => {
+        let buf = head
+        const check = () => {
+          const frame = parseFrame(buf) as WsFrame | null
+          if (!frame) return false
+          socket.off('data', onData)
+          resolve(frame)
+          return true
+        }
+        const onData = (chunk: Buffer) => {
+          buf = Buffer.concat([buf, chunk])
+          check()
+        }
+        if (!check()) socket.on('data', onData)
+      })
+    }
+
+    it('tokenizes messages from the service and de-tokenizes them on the way back', async () => {
+      const proxy2 = new LatchProxy({
+        sessionId: 'test-ws-scan',
+        services: [makeWsService()],
+        credentials: new Map(),
+        maxDataTier: 'internal' as DataTier,
+      })
+      const proxyPort = await proxy2.start()
+
+      const { status, socket, head } = await upgrade(proxyPort, `http://127.0.0.1:${upstreamPort}/ws`)
+      expect(status).toBe(101)
+      // Extensions are stripped so frames arrive uncompressed
+      expect(upstreamHeaders?.['sec-websocket-extensions']).toBeUndefined()
+
+      const inbound = (await nextFrame(socket!, head)).payload.toString()
+      expect(inbound).not.toContain(SECRET)
+      expect(inbound.startsWith('key=')).toBe(true)
+
+      socket!.write(encodeFrame(0x1, Buffer.from(inbound), true))
+      await vi.waitFor(() => expect(upstreamReceived).toEqual([`key=${SECRET}`]))
+
+      const events = proxy2.getAuditLog()
+      expect(events.some((e) => e.method === 'UPGRADE' && e.decision === 'allow' && e.contentType === 'websocket')).toBe(true)
+      socket!.destroy()
+      proxy2.stop()
+    })
+
+    it('returns 403 for upgrades to blocked domains', async () => {
+      const proxy2 = new LatchProxy({
+        sessionId: 'test-ws-block',
+        services: [makeWsService()],
+        credentials: new Map(),
+        maxDataTier: 'internal' as DataTier,
+      })
+      const proxyPort = await proxy2.start()
+
+      const { status } = await upgrade(proxyPort, `http://evil.com:${upstreamPort}/ws`)
+      expect(status).toBe(403)
+      expect(upstreamHeaders).toBeNull()
+      proxy2.stop()
+    })
+
+    it('refuses credential injection over plaintext upgrades', async () => {
+      const feedback: any[] = []
+      const proxy2 = new LatchProxy({
+        sessionId: 'test-ws-plaintext',
+        services: [makeWsService()],
+        credentials: new Map([['local-ws', { token: 'test-token-123' }]]),
+        maxDataTier: 'internal' as DataTier,
+        onFeedback: (msg) => feedback.push(msg),
+      })
+      const proxyPort = await proxy2.start()
+
+      const { status } = await upgrade(proxyPort, `http://127.0.0.1:${upstreamPort}/ws`)
+      expect(status).toBe(403)
+      expect(upstreamHeaders).toBeNull()
+      expect(feedback[0]?.detail).toContain('plaintext')
+      proxy2.stop()
+    })
   })
 
   // -- M5: Generic error messages ─────────────────────────────────────────
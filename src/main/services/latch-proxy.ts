@@ -6,6 +6,18 @@
  * Phase 1: Domain-level allow/deny, credential injection, audit logging.
  * Phase 2: TLS MITM via ephemeral CA, content-type-aware ingress scanning,
  *          tokenization, de-tokenization, tlsExceptions fallback.
+ * Streaming: request and response bodies are scanned as they stream rather
+ *          than collected first, so SSE and large bodies pass through with
+ *          bounded memory. Compressed and binary responses are piped
+ *          untouched; binary request bodies are leak-checked byte for byte.
+ * DLP:     every allowed request's body, query string and WebSocket messages
+ *          are checked for SecretStore values and leak-scanner detectors;
+ *          hits are blocked, stripped or held for approval per policy.
+ * Upgrades: HTTP upgrade requests (WebSockets) are gated and get credentials
+ *          like any request; WebSocket text messages are scanned frame by
+ *          frame wherever the proxy sees plaintext (ws://, or wss:// under
+ *          TLS interception). A wss:// tunnel without interception is only
+ *          gated at CONNECT.
  */
 
 import http from 'node:http'
@@ -18,7 +30,11 @@ import { EgressFilter } from './proxy/egress-filter'
 import { TokenMap } from './proxy/token-map'
 import { TlsInterceptor } from './proxy/tls-interceptor'
 import { IngressFilter } from './proxy/ingress-filter'
-import type { ServiceDefinition, DataTier, ProxyAuditEvent, ProxyFeedbackMessage } from '../../types'
+import { WsFrameScanner, encodeCloseFrame } from './proxy/ws-frame-scanner'
+import { StreamScanner } from './proxy/stream-scanner'
+import { TOKEN_PATTERN } from './proxy/token-map'
+import { OutboundDlp } from './proxy/outbound-dlp'
+import type { ServiceDefinition, DataTier, ProxyAuditEvent, ProxyFeedbackMessage, OutboundLeakAction } from '../../types'
 import type { AttestationStore } from '../stores/attestation-store'
 
 /** Maximum number of audit events retained in the in-memory ring buffer. */
@@ -36,6 +52,22 @@ export interface LatchProxyConfig {
   onFeedback?: (message: ProxyFeedbackMessage) => void
   enableTls?: boolean  // default false for backward compat
   attestationStore?: AttestationStore
+  /** SecretStore key → value, matched exactly in outbound traffic. */
+  secrets?: Record<string, string>
+  /** Policy's outboundLeakAction (default block). */
+  leakAction?: OutboundLeakAction
+  /** Called when a request was refused pending approval (leakAction prompt). */
+  onLeakPrompt?: (prompt: LeakPrompt) => void
+}
+
+/** A request held back by outbound DLP until the user approves the names it carried. */
+export interface LeakPrompt {
+  domain: string
+  service: string
+  /** SecretStore keys and detector kinds — never values. */
+  secrets: string[]
+  /** Where they were found: request body, query string or WebSocket message. */
+  location: string
 }
 
 export interface RequestEvaluation {
@@ -53,9 +85,13 @@ export class LatchProxy {
   private tlsInterceptor: TlsInterceptor | null = null
   private ingressFilter: IngressFilter
   private auditLog: ProxyAuditEvent[] = []
+  private dlp: OutboundDlp
+  /** Approved "domain\0name" pairs; once-grants are dropped when used. */
+  private leakGrants = new Map<string, 'once' | 'session'>()
 
   constructor(config: LatchProxyConfig) {
     this.config = config
+    this.dlp = new OutboundDlp(config.secrets ?? {})
     this.egressFilter = new EgressFilter(config.services)
     this.tokenMap = new TokenMap()
     this.ingressFilter = new IngressFilter(this.tokenMap)
@@ -69,6 +105,7 @@ export class LatchProxy {
     return new Promise((resolve, reject) => {
       this.server = http.createServer((req, res) => this._handleRequest(req, res))
       this.server.on('connect', (req, socket, head) => this._handleConnect(req, socket, head))
+      this.server.on('upgrade', (req, socket, head) => this._handleUpgrade(req, socket, head))
       this.server.listen(0, '127.0.0.1', () => {
         const addr = this.server!.address()
         if (addr && typeof addr === 'object') {
@@ -119,6 +156,11 @@ export class LatchProxy {
     return [...this.auditLog]
   }
 
+  /** Let the named secrets go to a domain after the user approved a leak prompt. */
+  grantLeak(domain: string, secrets: string[], once: boolean): void {
+    for (const name of secrets) this.leakGrants.set(`${domain}\0${name}`, once ? 'once' : 'session')
+  }
+
   /** Get the token map (for attestation). */
   getTokenMap(): TokenMap {
     return this.tokenMap
@@ -170,31 +212,26 @@ export class LatchProxy {
   // -- Private ──────────────────────────────────────────────────────────────
 
   /**
-   * H5: Shared helper — inject credentials into headers and de-tokenize body.
-   * Returns the processed body buffer and the de-tokenized string, or null
-   * if the request should be blocked (credential leak detected).
+   * H5: Shared helper — inject credentials into headers and build the body
+   * scanner. Text bodies are de-tokenized; every body is checked for
+   * credential leaks when credentials are injected. Returns null if the
+   * request was refused. A leak found mid-stream answers 403 and emits
+   * `blocked` on the scanner so the caller can abort the upstream request.
    */
   private _injectAndDetokenize(
     req: http.IncomingMessage,
-    rawBody: Buffer,
     service: ServiceDefinition,
     domain: string,
     method: string,
     path: string,
     res: http.ServerResponse,
     isSecure: boolean,
-  ): { body: Buffer; detokenized: string } | null {
+  ): StreamScanner | null {
     const creds = this.config.credentials.get(service.id)
 
     // M2: Refuse credential injection over plaintext HTTP
     if (creds && !isSecure) {
-      this.config.onFeedback?.({
-        type: 'block',
-        domain,
-        service: service.id,
-        detail: 'Credential injection refused over plaintext HTTP',
-      })
-      this._recordAudit(domain, method, path, service.id, 'deny', 'Credential injection refused over plaintext HTTP')
+      this._refusePlaintextCredentials(domain, method, path, service.id)
       res.writeHead(403, { 'Content-Type': 'application/json' })
       res.end(JSON.stringify({ error: 'Credential injection requires HTTPS' }))
       return null
@@ -207,36 +244,141 @@ export class LatchProxy {
       }
     }
 
-    const bodyStr = rawBody.toString('utf-8')
-    const detokenized = this.tokenMap.detokenizeString(bodyStr, service.id)
-    let body = rawBody
-    if (detokenized !== bodyStr) {
-      body = Buffer.from(detokenized, 'utf-8')
+    // Binary and compressed bodies are scanned as latin1 and forwarded byte for byte
+    const contentType = req.headers['content-type'] ?? null
+    const encoding = req.headers['content-encoding']
+    const isText = (!contentType || this.ingressFilter.isScannable(contentType)) && (!encoding || encoding === 'identity')
+    if (isText) {
+      // De-tokenizing changes the body length — the body goes out chunked
+      delete req.headers['content-length']
     }
 
-    // Scan outbound body for credential leaks
-    if (creds) {
-      const leakCheck = this.egressFilter.scanForLeaks(service, detokenized)
-      if (!leakCheck.safe) {
-        this.config.onFeedback?.({
-          type: 'leak-detected',
-          domain,
-          service: service.id,
-          detail: `Credential leak detected in request body: ${leakCheck.leaked.join(', ')}`,
-        })
-        this._recordAudit(domain, method, path, service.id, 'deny', `Credential leak: ${leakCheck.leaked.join(', ')}`)
-        res.writeHead(403, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request blocked: credential leak detected' }))
-        return null
+    const leakPatterns = creds ? service.dataTier.redaction.patterns : []
+    const scanner = new StreamScanner(
+      [...(isText ? [TOKEN_PATTERN] : []), ...leakPatterns, ...this.dlp.holdPatterns()],
+      (text) => {
+        // DLP looks at what the agent wrote: values de-tokenized below came
+        // from this service and are going back to it
+        const checked = this._checkOutbound(text, { domain, method, path, service, location: 'request body', keepLength: !isText })
+        if ('blocked' in checked) return checked
+        const detokenized = isText ? this.tokenMap.detokenizeString(checked.text, service.id) : checked.text
+
+        // Scan outbound body for credential leaks
+        if (creds) {
+          const leakCheck = this.egressFilter.scanForLeaks(service, detokenized)
+          if (!leakCheck.safe) {
+            this.config.onFeedback?.({
+              type: 'leak-detected',
+              domain,
+              service: service.id,
+              detail: `Credential leak detected in request body: ${leakCheck.leaked.join(', ')}`,
+            })
+            this._recordAudit(domain, method, path, service.id, 'deny', `Credential leak: ${leakCheck.leaked.join(', ')}`)
+            return { blocked: 'Request blocked: credential leak detected' }
+          }
+        }
+
+        return { text: detokenized }
+      },
+      isText ? 'utf-8' : 'latin1',
+    )
+
+    scanner.on('blocked', (reason: string) => {
+      if (res.headersSent) {
+        res.destroy()
+        return
       }
+      res.writeHead(403, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: reason }))
+    })
+
+    return scanner
+  }
+
+  /**
+   * Outbound DLP: check text an agent is sending for stored secrets and
+   * detected credentials. Each name found is reported and audited; the
+   * policy's leak action then strips the values or refuses the request.
+   */
+  private _checkOutbound(
+    text: string,
+    ctx: { domain: string; method: string; path: string; service: ServiceDefinition; location: string; keepLength?: boolean },
+  ): { text: string } | { blocked: string } {
+    const hits = this.dlp.scan(text).filter((hit) => !this._leakGranted(ctx.domain, hit.name))
+    if (!hits.length) return { text }
+
+    const action = this.config.leakAction ?? 'block'
+    const names = [...new Set(hits.map((hit) => hit.name))]
+    for (const name of names) {
+      const matching = hits.filter((hit) => hit.name === name)
+      const what = `${matching[0].source === 'secret' ? 'Secret' : 'Credential'} ${name} in ${ctx.location}`
+      this.config.onFeedback?.({
+        type: 'leak-detected',
+        domain: ctx.domain,
+        service: ctx.service.id,
+        detail: action === 'strip' ? `${what} stripped` : `${what} blocked`,
+      })
+      this._recordAudit(
+        ctx.domain, ctx.method, ctx.path, ctx.service.id,
+        action === 'strip' ? 'allow' : 'deny',
+        `Outbound leak (${action}): ${what}`,
+        action === 'strip' ? { redactionsApplied: matching.length } : undefined,
+      )
     }
 
-    return { body, detokenized }
+    if (action === 'strip') return { text: OutboundDlp.strip(text, hits, ctx.keepLength) }
+    if (action === 'prompt') {
+      this.config.onLeakPrompt?.({ domain: ctx.domain, service: ctx.service.id, secrets: names, location: ctx.location })
+      return { blocked: `Request carries ${names.join(', ')}. Approve in Latch Desktop, then retry.` }
+    }
+    return { blocked: `Request blocked: ${names.join(', ')} would have left in the ${ctx.location}` }
   }
 
   /**
-   * H5: Shared helper — scan response, apply tokenization, record audit, and
-   * send the response to the client.
+   * Outbound DLP for a query string: every parameter name and value is
+   * checked. Returns the (possibly stripped) query, or why it is blocked.
+   */
+  private _checkQuery(
+    search: string,
+    ctx: { domain: string; method: string; path: string; service: ServiceDefinition },
+  ): { search: string } | { blocked: string } {
+    if (!search) return { search }
+    const rebuilt = new URLSearchParams()
+    let changed = false
+    for (const entry of new URLSearchParams(search)) {
+      const checked: string[] = []
+      for (const part of entry) {
+        const verdict = this._checkOutbound(part, { ...ctx, location: 'query string' })
+        if ('blocked' in verdict) return verdict
+        if (verdict.text !== part) changed = true
+        checked.push(verdict.text)
+      }
+      rebuilt.append(checked[0], checked[1])
+    }
+    return { search: changed ? `?${rebuilt}` : search }
+  }
+
+  private _leakGranted(domain: string, name: string): boolean {
+    const key = `${domain}\0${name}`
+    const grant = this.leakGrants.get(key)
+    if (grant === 'once') this.leakGrants.delete(key)
+    return grant !== undefined
+  }
+
+  /** M2: Report and audit a credential injection refused over plaintext HTTP. */
+  private _refusePlaintextCredentials(domain: string, method: string, path: string, serviceId: string): void {
+    this.config.onFeedback?.({
+      type: 'block',
+      domain,
+      service: serviceId,
+      detail: 'Credential injection refused over plaintext HTTP',
+    })
+    this._recordAudit(domain, method, path, serviceId, 'deny', 'Credential injection refused over plaintext HTTP')
+  }
+
+  /**
+   * H5: Shared helper — stream the response to the client through the
+   * tokenizing scanner and record the audit event once it completes.
    */
   private _scanAndRecord(
     proxyRes: http.IncomingMessage,
@@ -248,19 +390,7 @@ export class LatchProxy {
     tlsInspected: boolean,
   ): void {
     const contentType = proxyRes.headers['content-type'] ?? null
-
-    if (!this.ingressFilter.isScannable(contentType)) {
-      this._recordAudit(domain, method, path, service.id, 'allow', null, {
-        contentType,
-        tlsInspected,
-      })
-      clientRes.writeHead(proxyRes.statusCode ?? 200, proxyRes.headers)
-      proxyRes.pipe(clientRes)
-      return
-    }
-
-    const resChunks: Buffer[] = []
-    proxyRes.on('data', (chunk: Buffer) => resChunks.push(chunk))
+    const encoding = proxyRes.headers['content-encoding']
 
     // ARCH-2: Handle upstream response stream errors
     proxyRes.on('error', (err) => {
@@ -273,33 +403,52 @@ export class LatchProxy {
       }
     })
 
-    proxyRes.on('end', () => {
-      const resBody = Buffer.concat(resChunks).toString('utf-8')
-      const scanResult = this.ingressFilter.scanResponse(contentType, resBody, service, path)
+    // Binary and compressed bodies can't be scanned as text — pipe them untouched
+    if (!this.ingressFilter.isScannable(contentType) || (encoding && encoding !== 'identity')) {
+      this._recordAudit(domain, method, path, service.id, 'allow', null, {
+        contentType,
+        tlsInspected,
+      })
+      clientRes.writeHead(proxyRes.statusCode ?? 200, proxyRes.headers)
+      proxyRes.pipe(clientRes)
+      return
+    }
+
+    let tokenizationsApplied = 0
+    const scanner = new StreamScanner(service.dataTier.redaction.patterns, (text) => {
+      const scanned = this.ingressFilter.scanText(text, service, path)
+      tokenizationsApplied += scanned.tokenizationsApplied
+      return { text: scanned.text }
+    })
 
-      if (scanResult.tokenizationsApplied > 0) {
+    // Counts are final once the body has streamed (or the client went away)
+    let recorded = false
+    const record = () => {
+      if (recorded) return
+      recorded = true
+      if (tokenizationsApplied > 0) {
         this.config.onFeedback?.({
           type: 'tokenization',
           domain,
           service: service.id,
-          detail: `${scanResult.tokenizationsApplied} value(s) tokenized in response`,
+          detail: `${tokenizationsApplied} value(s) tokenized in response`,
         })
       }
-
       this._recordAudit(domain, method, path, service.id, 'allow', null, {
         contentType,
         tlsInspected,
-        redactionsApplied: scanResult.redactionsApplied,
-        tokenizationsApplied: scanResult.tokenizationsApplied,
+        redactionsApplied: 0, // Ingress scanning only tokenizes
+        tokenizationsApplied,
       })
-
-      const responseBody = scanResult.processedBody ?? resBody
-      const headers = { ...proxyRes.headers }
-      headers['content-length'] = String(Buffer.byteLength(responseBody))
-      delete headers['transfer-encoding']
-      clientRes.writeHead(proxyRes.statusCode ?? 200, headers)
-      clientRes.end(responseBody)
-    })
+    }
+    scanner.on('end', record)
+    clientRes.on('close', record)
+
+    const headers = { ...proxyRes.headers }
+    // Tokens change the body length — the response goes out chunked
+    delete headers['content-length']
+    clientRes.writeHead(proxyRes.statusCode ?? 200, headers)
+    proxyRes.pipe(scanner).pipe(clientRes)
   }
 
   /** Handle regular HTTP requests (non-CONNECT) with response scanning. */
@@ -327,38 +476,40 @@ export class LatchProxy {
       }
     })
 
-    const reqChunks: Buffer[] = []
-    req.on('data', (chunk: Buffer) => reqChunks.push(chunk))
-    req.on('end', () => {
-      const rawBody = Buffer.concat(reqChunks)
-
-      // H5 + M2: Shared credential injection and de-tokenization (isSecure=false for HTTP)
-      const prepared = this._injectAndDetokenize(req, rawBody, service, domain, req.method ?? 'GET', url.pathname, res, false)
-      if (!prepared) return
-
-      const proxyReq = http.request(
-        {
-          hostname: domain,
-          port: url.port || 80,
-          path: url.pathname + url.search,
-          method: req.method,
-          headers: { ...req.headers, 'content-length': String(prepared.body.length) },
-        },
-        (proxyRes) => {
-          // H5: Shared response scanning and recording
-          this._scanAndRecord(proxyRes, res, domain, req.method ?? 'GET', url.pathname, service, false)
-        },
-      )
-      // M5: Generic error message — log details internally
-      proxyReq.on('error', (err) => {
-        console.error(`[LatchProxy] Upstream request error for ${domain}${url.pathname}:`, err)
-        if (!res.headersSent) {
-          res.writeHead(502)
-          res.end('Bad Gateway')
-        }
-      })
-      proxyReq.end(prepared.body)
+    const query = this._checkQuery(url.search, { domain, method: req.method ?? 'GET', path: url.pathname, service })
+    if ('blocked' in query) {
+      res.writeHead(403, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: query.blocked }))
+      return
+    }
+
+    // H5 + M2: Shared credential injection and de-tokenization (isSecure=false for HTTP)
+    const body = this._injectAndDetokenize(req, service, domain, req.method ?? 'GET', url.pathname, res, false)
+    if (!body) return
+
+    const proxyReq = http.request(
+      {
+        hostname: domain,
+        port: url.port || 80,
+        path: url.pathname + query.search,
+        method: req.method,
+        headers: { ...req.headers },
+      },
+      (proxyRes) => {
+        // H5: Shared response scanning and recording
+        this._scanAndRecord(proxyRes, res, domain, req.method ?? 'GET', url.pathname, service, false)
+      },
+    )
+    // M5: Generic error message — log details internally
+    proxyReq.on('error', (err) => {
+      console.error(`[LatchProxy] Upstream request error for ${domain}${url.pathname}:`, err)
+      if (!res.headersSent) {
+        res.writeHead(502)
+        res.end('Bad Gateway')
+      }
     })
+    body.on('blocked', () => proxyReq.destroy())
+    req.pipe(body).pipe(proxyReq)
   }
 
   /** Handle HTTPS CONNECT requests. TLS MITM when enabled, tunnel otherwise. */
@@ -451,6 +602,9 @@ export class LatchProxy {
       this._handleInterceptedRequest(req, res, host, port, service)
     })
 
+    // Upgrades inside the tunnel (wss://) are decrypted like any request
+    mitmServer.on('upgrade', (req, socket, head) => this._handleUpgrade(req, socket, head, { host, port }))
+
     // Emit the TLS socket as a connection on the MITM server
     mitmServer.emit('connection', tlsSocket)
 
@@ -477,7 +631,7 @@ export class LatchProxy {
     port: number,
     service: ServiceDefinition,
   ): void {
-    const path = req.url ?? '/'
+    let path = req.url ?? '/'
     const method = req.method ?? 'GET'
 
     // ARCH-1: Handle client request stream errors (MITM path)
@@ -489,42 +643,260 @@ export class LatchProxy {
       }
     })
 
-    const chunks: Buffer[] = []
-    req.on('data', (chunk: Buffer) => chunks.push(chunk))
-    req.on('end', () => {
-      const rawBody = Buffer.concat(chunks)
-
-      // H5: Shared credential injection and de-tokenization (isSecure=true for MITM/HTTPS)
-      const prepared = this._injectAndDetokenize(req, rawBody, service, host, method, path, res, true)
-      if (!prepared) return
-
-      // Forward to real upstream with TLS
-      const upstreamReq = https.request(
-        {
-          hostname: host,
-          port,
-          path,
-          method,
-          headers: { ...req.headers, host, 'content-length': String(prepared.body.length) },
-          rejectUnauthorized: true,
-        },
-        (upstreamRes) => {
-          // H5: Shared response scanning and recording
-          this._scanAndRecord(upstreamRes, res, host, method, path, service, true)
-        },
-      )
+    const queryStart = path.indexOf('?')
+    if (queryStart >= 0) {
+      const query = this._checkQuery(path.slice(queryStart), { domain: host, method, path: path.slice(0, queryStart), service })
+      if ('blocked' in query) {
+        res.writeHead(403, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: query.blocked }))
+        return
+      }
+      path = path.slice(0, queryStart) + query.search
+    }
 
-      // M5: Generic error message — log details internally
-      upstreamReq.on('error', (err) => {
-        console.error(`[LatchProxy] MITM upstream request error for ${host}${path}:`, err)
-        if (!res.headersSent) {
-          res.writeHead(502)
-          res.end('Bad Gateway')
-        }
+    // H5: Shared credential injection and de-tokenization (isSecure=true for MITM/HTTPS)
+    const body = this._injectAndDetokenize(req, service, host, method, path, res, true)
+    if (!body) return
+
+    // Forward to real upstream with TLS
+    const upstreamReq = https.request(
+      {
+        hostname: host,
+        port,
+        path,
+        method,
+        headers: { ...req.headers, host },
+        rejectUnauthorized: true,
+      },
+      (upstreamRes) => {
+        // H5: Shared response scanning and recording
+        this._scanAndRecord(upstreamRes, res, host, method, path, service, true)
+      },
+    )
+
+    // M5: Generic error message — log details internally
+    upstreamReq.on('error', (err) => {
+      console.error(`[LatchProxy] MITM upstream request error for ${host}${path}:`, err)
+      if (!res.headersSent) {
+        res.writeHead(502)
+        res.end('Bad Gateway')
+      }
+    })
+
+    body.on('blocked', () => upstreamReq.destroy())
+    req.pipe(body).pipe(upstreamReq)
+  }
+
+  /**
+   * Handle an HTTP upgrade request (WebSocket or another protocol). `tunnel`
+   * is set for requests decrypted inside a MITM tunnel; otherwise the request
+   * reached the proxy in the clear.
+   */
+  private _handleUpgrade(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+    tunnel?: { host: string; port: number },
+  ): void {
+    socket.on('error', () => socket.destroy())
+
+    const method = req.method ?? 'GET'
+    const secure = !!tunnel
+    let domain: string
+    let port: number
+    let path: string
+    let requestPath: string
+    if (tunnel) {
+      domain = tunnel.host
+      port = tunnel.port
+      path = requestPath = req.url ?? '/'
+    } else {
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+      domain = url.hostname
+      port = Number(url.port) || 80
+      path = url.pathname
+      requestPath = url.pathname + url.search
+    }
+    const protocol = String(req.headers.upgrade ?? '').toLowerCase()
+
+    const evaluation = this.evaluateRequest(domain, method, path)
+    if (evaluation.decision === 'deny') {
+      this.config.onBlock?.(`Upgrade to ${domain} blocked — ${evaluation.reason}`)
+      this.config.onFeedback?.({ type: 'block', domain, service: null, detail: evaluation.reason ?? '' })
+      this._rejectUpgrade(socket, 403, 'application/json', JSON.stringify({ error: evaluation.reason }))
+      return
+    }
+
+    const service = evaluation.service!
+    const queryStart = requestPath.indexOf('?')
+    if (queryStart >= 0) {
+      const query = this._checkQuery(requestPath.slice(queryStart), { domain, method, path: requestPath.slice(0, queryStart), service })
+      if ('blocked' in query) {
+        this._rejectUpgrade(socket, 403, 'application/json', JSON.stringify({ error: query.blocked }))
+        return
+      }
+      requestPath = requestPath.slice(0, queryStart) + query.search
+    }
+
+    const creds = this.config.credentials.get(service.id)
+    if (creds && !secure) {
+      this._refusePlaintextCredentials(domain, method, path, service.id)
+      this._rejectUpgrade(socket, 403, 'application/json', JSON.stringify({ error: 'Credential injection requires HTTPS' }))
+      return
+    }
+
+    const headers: http.OutgoingHttpHeaders = { ...req.headers }
+    if (creds) {
+      for (const [k, v] of Object.entries(this.egressFilter.injectHeaders(service, creds))) {
+        headers[k.toLowerCase()] = v
+      }
+    }
+    if (secure) headers.host = domain
+    // Compressed frames can't be scanned — have the peers agree on plain ones
+    const scanFrames = protocol === 'websocket'
+    if (scanFrames) delete headers['sec-websocket-extensions']
+
+    const options = { hostname: domain, port, path: requestPath, method, headers }
+    const upstreamReq = secure
+      ? https.request({ ...options, rejectUnauthorized: true })
+      : http.request(options)
+
+    upstreamReq.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead) => {
+      this._recordAudit(domain, 'UPGRADE', path, service.id, 'allow', null, {
+        contentType: protocol || undefined,
+        tlsInspected: secure,
+      })
+      let raw = `HTTP/1.1 ${upstreamRes.statusCode} ${upstreamRes.statusMessage}\r\n`
+      for (let i = 0; i < upstreamRes.rawHeaders.length; i += 2) {
+        raw += `${upstreamRes.rawHeaders[i]}: ${upstreamRes.rawHeaders[i + 1]}\r\n`
+      }
+      socket.write(raw + '\r\n')
+      this._bridgeUpgrade(socket, head, upstreamSocket, upstreamHead, { domain, path, service, secure, scanFrames })
+    })
+
+    // Upstream declined the upgrade — relay its answer and close
+    upstreamReq.on('response', (upstreamRes) => {
+      const chunks: Buffer[] = []
+      upstreamRes.on('data', (chunk: Buffer) => chunks.push(chunk))
+      upstreamRes.on('end', () => {
+        const status = upstreamRes.statusCode ?? 502
+        this._rejectUpgrade(socket, status, upstreamRes.headers['content-type'] ?? 'text/plain', Buffer.concat(chunks).toString('utf-8'))
       })
+    })
 
-      upstreamReq.end(prepared.body)
+    // M5: Generic error message — log details internally
+    upstreamReq.on('error', (err) => {
+      console.error(`[LatchProxy] Upstream upgrade error for ${domain}${path}:`, err)
+      this._rejectUpgrade(socket, 502, 'text/plain', 'Bad Gateway')
     })
+
+    upstreamReq.end()
+  }
+
+  /** Answer an upgrade request with a plain HTTP response and close the socket. */
+  private _rejectUpgrade(socket: Duplex, status: number, contentType: string, body: string): void {
+    if (socket.destroyed) return
+    socket.end(
+      `HTTP/1.1 ${status} ${http.STATUS_CODES[status] ?? ''}\r\n` +
+      `Content-Type: ${contentType}\r\n` +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      body,
+    )
+  }
+
+  /**
+   * Relay an established upgrade between client and upstream. WebSocket
+   * traffic runs through a frame scanner in each direction: messages to the
+   * service are de-tokenized and checked for credential leaks, messages
+   * from it are tokenized like response bodies.
+   */
+  private _bridgeUpgrade(
+    client: Duplex,
+    clientHead: Buffer,
+    upstream: Duplex,
+    upstreamHead: Buffer,
+    ctx: { domain: string; path: string; service: ServiceDefinition; secure: boolean; scanFrames: boolean },
+  ): void {
+    const teardown = () => {
+      client.destroy()
+      upstream.destroy()
+    }
+    client.on('error', teardown)
+    upstream.on('error', teardown)
+    client.on('close', () => upstream.destroy())
+    upstream.on('close', () => client.destroy())
+
+    if (!ctx.scanFrames) {
+      if (upstreamHead.length) client.write(upstreamHead)
+      if (clientHead.length) upstream.write(clientHead)
+      upstream.pipe(client)
+      client.pipe(upstream)
+      return
+    }
+
+    const outbound = new WsFrameScanner((text) => this._scanOutboundMessage(text, ctx))
+    const inbound = new WsFrameScanner((text) => this._scanInboundMessage(text, ctx))
+    const onBlocked = ({ code, reason }: { code: number; reason: string }) => {
+      client.unpipe(outbound)
+      upstream.unpipe(inbound)
+      inbound.unpipe(client)
+      client.end(encodeCloseFrame(code, reason, false))
+      upstream.destroy()
+    }
+    outbound.on('blocked', onBlocked)
+    inbound.on('blocked', onBlocked)
+
+    if (clientHead.length) outbound.write(clientHead)
+    if (upstreamHead.length) inbound.write(upstreamHead)
+    client.pipe(outbound).pipe(upstream)
+    upstream.pipe(inbound).pipe(client)
+  }
+
+  /** De-tokenize a WebSocket message bound for the service and block credential leaks. */
+  private _scanOutboundMessage(
+    text: string,
+    ctx: { domain: string; path: string; service: ServiceDefinition; secure: boolean },
+  ): { text: string } | { blocked: string } {
+    const checked = this._checkOutbound(text, { ...ctx, method: 'UPGRADE', location: 'WebSocket message' })
+    if ('blocked' in checked) return checked
+    const detokenized = this.tokenMap.detokenizeString(checked.text, ctx.service.id)
+
+    if (this.config.credentials.get(ctx.service.id)) {
+      const leakCheck = this.egressFilter.scanForLeaks(ctx.service, detokenized)
+      if (!leakCheck.safe) {
+        this.config.onFeedback?.({
+          type: 'leak-detected',
+          domain: ctx.domain,
+          service: ctx.service.id,
+          detail: `Credential leak detected in WebSocket message: ${leakCheck.leaked.join(', ')}`,
+        })
+        this._recordAudit(ctx.domain, 'UPGRADE', ctx.path, ctx.service.id, 'deny', `Credential leak: ${leakCheck.leaked.join(', ')}`, {
+          contentType: 'websocket',
+          tlsInspected: ctx.secure,
+        })
+        return { blocked: 'Credential leak detected' }
+      }
+    }
+
+    return { text: detokenized }
+  }
+
+  /** Tokenize a WebSocket message from the service with its redaction patterns. */
+  private _scanInboundMessage(
+    text: string,
+    ctx: { domain: string; path: string; service: ServiceDefinition },
+  ): { text: string } {
+    const scanned = this.ingressFilter.scanText(text, ctx.service, ctx.path)
+    if (scanned.tokenizationsApplied > 0) {
+      this.config.onFeedback?.({
+        type: 'tokenization',
+        domain: ctx.domain,
+        service: ctx.service.id,
+        detail: `${scanned.tokenizationsApplied} value(s) tokenized in WebSocket message`,
+      })
+    }
+    return { text: scanned.text }
   }
 
   /** H9: Record audit event with ring buffer cap. */
@@ -10,6 +10,7 @@
  * - Gemini: ~/.gemini/settings.json
  * - Kiro: ~/.kiro/settings/mcp.json
  * - Windsurf: ~/.codeium/windsurf/mcp_config.json
+ * - Droid: <projectDir>/.factory/mcp.json (mcpServers with an explicit type)
  * - OpenClaw: no static MCP config (skip with warning)
  *
  * When a secretContext is provided, servers whose env vars contain ${secret:KEY}
@@ -75,6 +76,8 @@ export async function syncMcpToHarness(
       return syncWindsurf(applicable, secretContext)
     case 'opencode':
       return syncOpenCode(applicable, targetDir, secretContext)
+    case 'droid':
+      return syncDroid(applicable, targetDir, secretContext)
     case 'openclaw':
       return { ok: false, error: 'OpenClaw does not support static MCP config files.' }
     default:
@@ -406,6 +409,23 @@ async function syncWindsurf(servers: McpServerForSync[], secretContext?: SecretC
   return writeJsonConfig(filePath, 'mcpServers', mcpServers)
 }
 
+async function syncDroid(
+  servers: McpServerForSync[],
+  targetDir?: string | null,
+  secretContext?: SecretContext | null
+): Promise<{ ok: boolean; path?: string; error?: string }> {
+  const dir = targetDir || process.cwd()
+  const filePath = path.join(dir, '.factory', 'mcp.json')
+  const mcpServers = secretContext
+    ? buildWrappedMcpServersObject(servers, secretContext)
+    : buildMcpServersObject(servers)
+  // Droid requires the transport on every entry
+  for (const s of servers) {
+    if (mcpServers[s.name]) mcpServers[s.name] = { type: s.transport, ...mcpServers[s.name] }
+  }
+  return writeJsonConfig(filePath, 'mcpServers', mcpServers)
+}
+
 async function syncOpenCode(
   servers: McpServerForSync[],
   targetDir?: string | null,
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import { computeStrictestBaseline, enforceForClaude, enforceForDroid, enforceForGemini, enforcePolicy } from './policy-enforcer'
+import { PolicyStore } from '../stores/policy-store'
+import type { PolicyDocument } from '../../types'
+
+const AUTHZ = { port: 4000, sessionId: 'session-1', secret: 'secret' }
+
+function makePolicy(overrides: Partial<PolicyDocument> = {}): PolicyDocument {
+  return {
+    id: 'strict',
+    name: 'Strict',
+    description: '',
+    permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: true, blockedGlobs: [] },
+    harnesses: {},
+    ...overrides,
+  }
+}
+
+describe('computeStrictestBaseline', () => {
+  it('keeps the strictest outbound leak action, treating unset as block', () => {
+    const perms = (outboundLeakAction?: 'block' | 'strip' | 'prompt') =>
+      makePolicy({ permissions: { ...makePolicy().permissions, outboundLeakAction } })
+
+    expect(computeStrictestBaseline([perms('strip'), perms('prompt')]).permissions.outboundLeakAction).toBe('prompt')
+    expect(computeStrictestBaseline([perms('strip'), perms()]).permissions.outboundLeakAction).toBe('block')
+    expect(computeStrictestBaseline([perms(), perms()]).permissions.outboundLeakAction).toBeUndefined()
+  })
+})
+
+describe('enforceForClaude', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-claude-enforce-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('anchors absolute path rules at the filesystem root', () => {
+    enforceForClaude(makePolicy({
+      harnesses: {
+        claude: {
+          toolRules: [
+            { pattern: 'Edit', decision: 'deny', when: [{ field: 'file_path', op: 'glob', value: '/etc/**' }] },
+            { pattern: 'Read', decision: 'deny', when: [{ field: 'file_path', op: 'glob', value: 'secrets/**' }] },
+          ],
+        },
+      },
+    }), dir)
+
+    const { permissions } = JSON.parse(fs.readFileSync(path.join(dir, '.claude', 'settings.json'), 'utf-8'))
+    expect(permissions.deny).toEqual(expect.arrayContaining(['Edit(//etc/**)', 'Read(secrets/**)']))
+  })
+})
+
+describe('enforceForDroid', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-droid-enforce-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function settings(): { model?: string; commandDenylist: string[]; hooks?: { PreToolUse: unknown[] } } {
+    return JSON.parse(fs.readFileSync(path.join(dir, '.factory', 'settings.json'), 'utf-8'))
+  }
+
+  it('denies literal commands natively and keeps other settings', () => {
+    fs.mkdirSync(path.join(dir, '.factory'))
+    fs.writeFileSync(path.join(dir, '.factory', 'settings.json'), JSON.stringify({ model: 'sonnet', commandDenylist: ['old'] }))
+
+    enforceForDroid(makePolicy({
+      permissions: {
+        ...makePolicy().permissions,
+        allowNetwork: false,
+        commandRules: [
+          { pattern: 'terraform destroy', decision: 'deny' },
+          { pattern: '^rm\\s+-rf', decision: 'deny' },
+          { pattern: 'git push', decision: 'prompt' },
+        ],
+      },
+      harnesses: { droid: { deniedCommands: ['npm publish'] } },
+    }), dir)
+
+    const written = settings()
+    expect(written.model).toBe('sonnet')
+    expect(written.commandDenylist.slice(0, 4)).toEqual(['npm publish', 'terraform destroy', 'curl', 'wget'])
+    expect(written.commandDenylist).not.toContain('old')
+    expect(written.hooks).toBeUndefined()
+  })
+
+  it('routes every tool call through the blocking authorize endpoint', () => {
+    const { configPath, files } = enforceForDroid(makePolicy(), dir, AUTHZ)
+    expect(files.map((f) => path.relative(dir, f))).toEqual([
+      path.join('.factory', 'settings.json'),
+      path.join('.factory', 'latch-authz.sh'),
+      path.join('.factory', 'latch-feed.sh'),
+    ])
+    expect(configPath).toBe(files[0])
+    expect(settings().hooks?.PreToolUse).toEqual([
+      { matcher: '', hooks: [{ type: 'command', command: `bash '${files[1]}'`, timeout: 130 }] },
+    ])
+
+    const script = fs.readFileSync(files[1], 'utf-8')
+    expect(script).toContain("'http://127.0.0.1:4000/authorize/session-1'")
+    // Unreachable server blocks the call rather than letting it through
+    expect(script).toMatch(/\|\| \{\n.*failing closed.*\n {2}exit 2\n\}/)
+    expect(fs.readFileSync(files[2], 'utf-8')).toContain('  Execute)')
+  })
+})
+
+describe('enforcePolicy (droid)', () => {
+  let dir: string
+  let store: PolicyStore
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-droid-enforce-'))
+    store = PolicyStore.open(new Database(':memory:'))
+    store.savePolicy(makePolicy())
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('turns off Droid prompts only when the authz hook is installed', async () => {
+    const base = { policyIds: ['strict'], harnessId: 'droid', harnessCommand: 'droid', worktreePath: dir }
+
+    const hooked = await enforcePolicy(store, { ...base, authzPort: AUTHZ.port, authzSecret: AUTHZ.secret, sessionId: AUTHZ.sessionId })
+    expect(hooked).toMatchObject({ ok: true, harnessCommand: 'droid --auto high --skip-permissions-unsafe' })
+    expect(hooked.generatedFiles).toHaveLength(3)
+
+    const unhooked = await enforcePolicy(store, base)
+    expect(unhooked).toMatchObject({ ok: true, harnessCommand: 'droid' })
+  })
+
+  it('keeps Droid rules when merging the selected policies', async () => {
+    store.savePolicy(makePolicy({
+      id: 'droid-rules',
+      name: 'Droid rules',
+      harnesses: { droid: { deniedCommands: ['npm publish'], toolRules: [{ pattern: 'FetchUrl', decision: 'deny' }] } },
+    }))
+
+    const result = await enforcePolicy(store, { policyIds: ['strict', 'droid-rules'], harnessId: 'droid', harnessCommand: 'droid', worktreePath: dir })
+    expect(result.ok).toBe(true)
+    const written = JSON.parse(fs.readFileSync(path.join(dir, '.factory', 'settings.json'), 'utf-8'))
+    expect(written.commandDenylist).toContain('npm publish')
+  })
+})
+
+describe('enforceForGemini', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-gemini-enforce-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function settings(): {
+    theme?: string
+    tools?: { exclude?: string[]; sandbox?: boolean; enableHooks?: boolean }
+    mcp?: { excluded?: string[] }
+    hooks?: { BeforeTool?: unknown[] }
+  } {
+    return JSON.parse(fs.readFileSync(path.join(dir, '.gemini', 'settings.json'), 'utf-8'))
+  }
+
+  it('excludes disallowed tools and denied commands and keeps other settings', () => {
+    fs.mkdirSync(path.join(dir, '.gemini'))
+    fs.writeFileSync(path.join(dir, '.gemini', 'settings.json'), JSON.stringify({ theme: 'Dracula', tools: { sandbox: true, exclude: ['old'] } }))
+
+    enforceForGemini(makePolicy({
+      permissions: {
+        ...makePolicy().permissions,
+        allowFileWrite: false,
+        commandRules: [
+          { pattern: 'terraform destroy', decision: 'deny' },
+          { pattern: '^rm\\s+-rf', decision: 'deny' },
+        ],
+      },
+      harnesses: {
+        gemini: {
+          deniedCommands: ['npm publish'],
+          toolRules: [
+            { pattern: 'web_fetch', decision: 'deny' },
+            { pattern: 'read_file', decision: 'deny', when: [{ field: 'file_path', op: 'glob', value: '**/.env' }] },
+          ],
+          mcpServerRules: [{ server: 'github', decision: 'deny' }, { server: 'docs', decision: 'allow' }],
+        },
+      },
+    }), dir)
+
+    const written = settings()
+    expect(written.theme).toBe('Dracula')
+    expect(written.tools).toEqual({
+      sandbox: true,
+      exclude: ['write_file', 'replace', 'run_shell_command(npm publish)', 'run_shell_command(terraform destroy)', 'web_fetch'],
+    })
+    expect(written.mcp).toEqual({ excluded: ['github'] })
+    expect(written.hooks).toBeUndefined()
+  })
+
+  it('routes every tool call through the blocking authorize endpoint', () => {
+    const { configPath, files } = enforceForGemini(makePolicy(), dir, AUTHZ)
+    expect(files.map((f) => path.relative(dir, f))).toEqual([
+      path.join('.gemini', 'settings.json'),
+      path.join('.gemini', 'latch-authz.sh'),
+      path.join('.gemini', 'latch-feed.sh'),
+    ])
+    expect(configPath).toBe(files[0])
+    const written = settings()
+    expect(written.tools).toEqual({ enableHooks: true })
+    expect(written.hooks?.BeforeTool).toEqual([
+      { matcher: '.*', hooks: [{ name: 'latch-authz', type: 'command', command: `bash '${files[1]}'`, timeout: 130000 }] },
+    ])
+
+    const script = fs.readFileSync(files[1], 'utf-8')
+    expect(script).toContain("'http://127.0.0.1:4000/authorize/session-1'")
+    expect(script).toMatch(/\|\| \{\n.*failing closed.*\n {2}exit 2\n\}/)
+    expect(fs.readFileSync(files[2], 'utf-8')).toContain('  run_shell_command)')
+  })
+
+  it('turns off Gemini CLI prompts only when the authz hook is installed', async () => {
+    const store = PolicyStore.open(new Database(':memory:'))
+    store.savePolicy(makePolicy())
+    const base = { policyIds: ['strict'], harnessId: 'gemini', harnessCommand: 'gemini', worktreePath: dir }
+
+    const hooked = await enforcePolicy(store, { ...base, authzPort: AUTHZ.port, authzSecret: AUTHZ.secret, sessionId: AUTHZ.sessionId })
+    expect(hooked).toMatchObject({ ok: true, harnessCommand: 'gemini --approval-mode yolo' })
+    expect(hooked.generatedFiles).toHaveLength(3)
+
+    const unhooked = await enforcePolicy(store, base)
+    expect(unhooked).toMatchObject({ ok: true, harnessCommand: 'gemini' })
+  })
+
+  it('keeps Gemini rules when merging the selected policies', async () => {
+    const store = PolicyStore.open(new Database(':memory:'))
+    store.savePolicy(makePolicy())
+    store.savePolicy(makePolicy({
+      id: 'gemini-rules',
+      name: 'Gemini rules',
+      harnesses: { gemini: { deniedCommands: ['npm publish'], toolRules: [{ pattern: 'web_fetch', decision: 'deny' }] } },
+    }))
+
+    const result = await enforcePolicy(store, {
+      policyIds: ['strict', 'gemini-rules'], harnessId: 'gemini', harnessCommand: 'gemini', worktreePath: dir,
+      authzPort: AUTHZ.port, authzSecret: AUTHZ.secret, sessionId: AUTHZ.sessionId,
+    })
+    expect(result).toMatchObject({ ok: true, harnessCommand: 'gemini --approval-mode yolo' })
+    expect(settings().tools?.exclude).toEqual(['run_shell_command(npm publish)', 'web_fetch'])
+  })
+})
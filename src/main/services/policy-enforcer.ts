@@ -7,13 +7,27 @@
 import fs from 'node:fs'
 import path from 'node:path'
 import os from 'node:os'
-import type { PolicyDocument, PolicyPermissions, CodexPolicyConfig, OpenCodePolicyConfig, HarnessesConfig, ToolRule, McpServerRule, CommandRule } from '../../types'
+import type { PolicyDocument, PolicyPermissions, OutboundLeakAction, CodexPolicyConfig, OpenCodePolicyConfig, HarnessesConfig, ToolRule, McpServerRule, CommandRule, QuotaRule } from '../../types'
 import type { PolicyStore } from '../stores/policy-store'
+import { toolRuleKey } from '../lib/tool-predicates'
+import { quotaKey } from '../lib/quotas'
+import { intersectWriteScopes, resolveWriteScopes } from '../lib/write-scopes'
+import { flattenPolicies } from '../lib/policy-inheritance'
 
 // ─── Strictest-baseline computation ──────────────────────────────────────────
 
 /** Priority map for merging tool/MCP/command rule decisions: higher = stricter. */
 const DECISION_PRIORITY: Record<string, number> = { allow: 1, prompt: 2, deny: 3 }
+const LEAK_ACTION_PRIORITY: Record<OutboundLeakAction, number> = { strip: 1, prompt: 2, block: 3 }
+/** Harnesses whose config carries a native `deniedCommands` list. */
+const DENIED_COMMAND_HARNESSES = new Set(['codex', 'droid', 'gemini'])
+
+/** Harness config fields the strictest baseline merges across policies. */
+interface MergedHarnessConfig {
+  toolRules?: ToolRule[]
+  mcpServerRules?: McpServerRule[]
+  deniedCommands?: string[]
+}
 
 /** Compute the most restrictive policy from a set of policies.
  *  Used as a fallback when a session's assigned policyId is missing.
@@ -22,9 +36,16 @@ const DECISION_PRIORITY: Record<string, number> = { allow: 1, prompt: 2, deny: 3
  *  - Boolean permissions: AND (false if ANY policy says false)
  *  - confirmDestructive: OR (true if ANY policy says true)
  *  - blockedGlobs: union of all policies
+ *  - writeScopes: intersection — a write must be allowed by every policy that sets them
  *  - commandRules: collect all rules from all policies
- *  - toolRules: merge by pattern — deny > prompt > allow wins
+ *  - quotas: merge by what they count and their window — lower max wins, deny over prompt on a tie
+ *  - outboundLeakAction: block > prompt > strip wins (unset counts as block)
+ *  - toolRules: merge by pattern + `when` predicates — deny > prompt > allow wins
  *  - mcpServerRules: merge by server — deny > prompt > allow wins
+ *  - deniedCommands: union
+ *
+ * Harness-level rules are written back under `harnessId`, or under every
+ * harness when none is given.
  */
 export function computeStrictestBaseline(policies: PolicyDocument[], harnessId?: string): PolicyDocument {
   const permissions: PolicyPermissions = {
@@ -38,6 +59,9 @@ export function computeStrictestBaseline(policies: PolicyDocument[], harnessId?:
   const allCommandRules: CommandRule[] = []
   const toolRuleMap = new Map<string, ToolRule>()
   const mcpRuleMap = new Map<string, McpServerRule>()
+  const quotaMap = new Map<string, QuotaRule>()
+  const deniedCommands = new Set<string>()
+  const harnessKeys = harnessId ? [harnessId] : ['claude', 'codex', 'openclaw', 'opencode', 'droid', 'gemini']
 
   for (const p of policies) {
     // AND for allow flags (false if ANY policy says false)
@@ -52,20 +76,37 @@ export function computeStrictestBaseline(policies: PolicyDocument[], harnessId?:
       if (!permissions.blockedGlobs.includes(g)) permissions.blockedGlobs.push(g)
     }
 
+    // Intersect writeScopes (unset = unrestricted)
+    if (p.permissions.writeScopes) {
+      permissions.writeScopes = permissions.writeScopes
+        ? intersectWriteScopes(permissions.writeScopes, p.permissions.writeScopes)
+        : [...p.permissions.writeScopes]
+    }
+
     // Collect all command rules
     if (p.permissions.commandRules?.length) {
       allCommandRules.push(...p.permissions.commandRules)
     }
 
+    // Merge quotas (tighter limit wins)
+    for (const quota of p.permissions.quotas ?? []) {
+      const key = quotaKey(quota)
+      const existing = quotaMap.get(key)
+      if (!existing || quota.max < existing.max || (quota.max === existing.max && quota.decision === 'deny')) {
+        quotaMap.set(key, quota)
+      }
+    }
+
     // Merge tool rules per harness (stricter decision wins)
-    const harnessKeys = harnessId ? [harnessId] : ['claude', 'codex', 'openclaw', 'opencode']
     for (const hk of harnessKeys) {
-      const hc = p.harnesses?.[hk as keyof HarnessesConfig] as { toolRules?: ToolRule[]; mcpServerRules?: McpServerRule[] } | undefined
+      const hc = p.harnesses?.[hk as keyof HarnessesConfig] as MergedHarnessConfig | undefined
+      for (const cmd of hc?.deniedCommands ?? []) deniedCommands.add(cmd)
       if (hc?.toolRules) {
         for (const rule of hc.toolRules) {
-          const existing = toolRuleMap.get(rule.pattern)
+          const key = toolRuleKey(rule)
+          const existing = toolRuleMap.get(key)
           if (!existing || (DECISION_PRIORITY[rule.decision] ?? 0) > (DECISION_PRIORITY[existing.decision] ?? 0)) {
-            toolRuleMap.set(rule.pattern, rule)
+            toolRuleMap.set(key, rule)
           }
         }
       }
@@ -81,17 +122,25 @@ export function computeStrictestBaseline(policies: PolicyDocument[], harnessId?:
   }
 
   if (allCommandRules.length) permissions.commandRules = allCommandRules
+  if (quotaMap.size) permissions.quotas = Array.from(quotaMap.values())
+  if (policies.some((p) => p.permissions.outboundLeakAction)) {
+    permissions.outboundLeakAction = policies
+      .map((p) => p.permissions.outboundLeakAction ?? 'block')
+      .reduce((a, b) => (LEAK_ACTION_PRIORITY[b] > LEAK_ACTION_PRIORITY[a] ? b : a))
+  }
 
   const harnesses: HarnessesConfig = {}
   const toolRules = Array.from(toolRuleMap.values())
   const mcpServerRules = Array.from(mcpRuleMap.values())
 
-  if (toolRules.length || mcpServerRules.length) {
-    const hc: { toolRules?: ToolRule[]; mcpServerRules?: McpServerRule[] } = {}
-    if (toolRules.length) hc.toolRules = toolRules
-    if (mcpServerRules.length) hc.mcpServerRules = mcpServerRules
-    harnesses.claude = hc
-    harnesses.openclaw = hc
+  if (toolRules.length || mcpServerRules.length || deniedCommands.size) {
+    for (const hk of harnessKeys) {
+      const hc: MergedHarnessConfig = {}
+      if (toolRules.length) hc.toolRules = toolRules
+      if (mcpServerRules.length) hc.mcpServerRules = mcpServerRules
+      if (deniedCommands.size && DENIED_COMMAND_HARNESSES.has(hk)) hc.deniedCommands = Array.from(deniedCommands)
+      if (Object.keys(hc).length) (harnesses as Record<string, MergedHarnessConfig>)[hk] = hc
+    }
   }
 
   return {
@@ -114,14 +163,14 @@ function validateSessionId(sessionId: string): void {
 
 // ─── Policy resolution ──────────────────────────────────────────────────────
 
-/** Merge toolRules: override rules for the same pattern replace base rules. */
+/** Merge toolRules: override rules for the same pattern and predicates replace base rules. */
 function mergeToolRules(base?: ToolRule[], override?: ToolRule[]): ToolRule[] | undefined {
   if (!base?.length && !override?.length) return undefined
   if (!override?.length) return base
   if (!base?.length) return override
   const merged = [...base]
   for (const ov of override) {
-    const idx = merged.findIndex(r => r.pattern === ov.pattern)
+    const idx = merged.findIndex(r => toolRuleKey(r) === toolRuleKey(ov))
     if (idx >= 0) merged[idx] = ov
     else merged.push(ov)
   }
@@ -154,6 +203,42 @@ function mergeHarnessConfig<T extends { toolRules?: ToolRule[]; mcpServerRules?:
   return merged
 }
 
+// ─── Audit mode ──────────────────────────────────────────────────────────────
+
+/** What a session enforces when every policy it runs under is in audit mode. */
+export const OBSERVE_ONLY_POLICY: PolicyDocument = {
+  id: '__observe__',
+  name: 'Observe Only',
+  description: 'Audit mode — calls are evaluated and recorded, never blocked.',
+  permissions: {
+    allowBash: true, allowNetwork: true, allowFileWrite: true,
+    confirmDestructive: false, blockedGlobs: [], commandRules: [],
+  },
+  harnesses: {},
+}
+
+/**
+ * Split a session's (flattened) policies into the policy it enforces and the
+ * policy it is audited against. Policies with `mode: 'audit'` are left out of
+ * the enforced one; an override with `mode: 'audit'` enforces nothing at all.
+ * `audited` is what the session would enforce with every policy switched to
+ * enforce, or null when nothing is in audit mode. `base` is that merged
+ * baseline before the override (the policies' strictest merge by default).
+ */
+export function splitAuditMode(
+  policies: PolicyDocument[],
+  harnessId: string,
+  override: PolicyDocument | null | undefined,
+  base: PolicyDocument = computeStrictestBaseline(policies, harnessId),
+): { enforced: PolicyDocument; audited: PolicyDocument | null } {
+  const full = resolvePolicy(base, override)
+  if (override?.mode === 'audit') return { enforced: OBSERVE_ONLY_POLICY, audited: full }
+  const enforcing = policies.filter((p) => p.mode !== 'audit')
+  if (enforcing.length === policies.length) return { enforced: full, audited: null }
+  const enforcedBase = enforcing.length ? computeStrictestBaseline(enforcing, harnessId) : OBSERVE_ONLY_POLICY
+  return { enforced: resolvePolicy(enforcedBase, override), audited: full }
+}
+
 /** Merge base policy with a session override. Override wins per-key. */
 export function resolvePolicy(base: PolicyDocument, override: PolicyDocument | null | undefined): PolicyDocument {
   if (!override) return base
@@ -169,6 +254,9 @@ export function resolvePolicy(base: PolicyDocument, override: PolicyDocument | n
     ])],
     // Command rules: override replaces base entirely (ordering matters)
     commandRules: override.permissions.commandRules ?? base.permissions.commandRules,
+    writeScopes: override.permissions.writeScopes ?? base.permissions.writeScopes,
+    quotas: override.permissions.quotas ?? base.permissions.quotas,
+    outboundLeakAction: override.permissions.outboundLeakAction ?? base.permissions.outboundLeakAction,
   }
 
   const harnesses: HarnessesConfig = {
@@ -176,6 +264,8 @@ export function resolvePolicy(base: PolicyDocument, override: PolicyDocument | n
     codex:    mergeHarnessConfig(base.harnesses?.codex,    override.harnesses?.codex),
     openclaw: mergeHarnessConfig(base.harnesses?.openclaw, override.harnesses?.openclaw),
     opencode: mergeHarnessConfig(base.harnesses?.opencode, override.harnesses?.opencode),
+    droid:    mergeHarnessConfig(base.harnesses?.droid,    override.harnesses?.droid),
+    gemini:   mergeHarnessConfig(base.harnesses?.gemini,   override.harnesses?.gemini),
   }
 
   return {
@@ -204,11 +294,87 @@ const CLAUDE_HARMLESS_TOOLS = [
   'TaskCreate', 'TaskUpdate', 'TaskGet', 'TaskList', 'TaskOutput', 'TaskStop',
 ]
 
+/** Claude tools whose permission rules take a path specifier, keyed to the input field holding the path. */
+const CLAUDE_PATH_TOOLS: Record<string, string> = { Read: 'file_path', Write: 'file_path', Edit: 'file_path' }
+
+/** Claude reads `/path` relative to the settings file; an absolute path needs `//path`. */
+function claudePathGlob(glob: string): string {
+  return glob.startsWith('/') && !glob.startsWith('//') ? `/${glob}` : glob
+}
+
+/** Translate an argument-aware tool rule into a Claude permission rule
+ *  (`WebFetch(domain:x)`, `Bash(prefix:*)`, `Edit(glob)`), or null when its
+ *  predicates have no exact native equivalent.
+ */
+function claudeRuleSpecifier(rule: ToolRule): string | null {
+  if (rule.when?.length !== 1) return null
+  const [pred] = rule.when
+  if (pred.negate || typeof pred.value !== 'string' || /[()]/.test(pred.value)) return null
+
+  if (rule.pattern === 'WebFetch' && pred.field === 'url' && pred.op === 'domain' && !pred.value.includes('*')) {
+    return `WebFetch(domain:${pred.value})`
+  }
+  if (rule.pattern === 'Bash' && pred.field === 'command' && pred.op === 'glob') {
+    if (!/[*?]/.test(pred.value)) return `Bash(${pred.value})`
+    const prefix = pred.value.match(/^([^*?]+?)\s*\*$/)
+    if (prefix) return `Bash(${prefix[1]}:*)`
+    return null
+  }
+  if (CLAUDE_PATH_TOOLS[rule.pattern] === pred.field && pred.op === 'glob') {
+    return `${rule.pattern}(${claudePathGlob(pred.value)})`
+  }
+  return null
+}
+
+/** PostToolUse hook script reporting tool activity to the Latch feed. Reads
+ *  tool_name + tool_input from stdin, extracts a brief label, and POSTs it to
+ *  $LATCH_FEED_URL (env var set on PTY creation). `shellTools` and `fileTools`
+ *  are `case` alternatives (`A|B`) naming the harness's shell and file tools.
+ */
+function feedHookScript(shellTools: string, fileTools: string): string {
+  return [
+    '#!/bin/bash',
+    '# Generated by Latch Desktop — do not edit manually.',
+    '# PostToolUse hook: reports tool activity to the Latch feed.',
+    '[ -z "$LATCH_FEED_URL" ] && exit 0',
+    '',
+    '# Read tool info from stdin',
+    'INPUT=$(cat)',
+    'TOOL=$(printf \'%s\' "$INPUT" | grep -o \'"tool_name":"[^"]*"\' | head -1 | sed \'s/"tool_name":"//;s/"$//\')',
+    '[ -z "$TOOL" ] && exit 0',
+    '',
+    '# Extract a brief context hint from tool_input',
+    'case "$TOOL" in',
+    `  ${shellTools})`,
+    '    HINT=$(printf \'%s\' "$INPUT" | grep -o \'"command":"[^"]*"\' | head -1 | sed \'s/"command":"//;s/"$//\' | cut -c1-60) ;;',
+    `  ${fileTools})`,
+    '    HINT=$(printf \'%s\' "$INPUT" | grep -o \'"file_path":"[^"]*"\' | head -1 | sed \'s/"file_path":"//;s/"$//\' | xargs basename 2>/dev/null) ;;',
+    '  *)',
+    '    HINT="" ;;',
+    'esac',
+    '',
+    '# Build status message',
+    'if [ -n "$HINT" ]; then',
+    '  MSG="${TOOL}: ${HINT}"',
+    'else',
+    '  MSG="${TOOL}"',
+    'fi',
+    '',
+    '# POST to feed (fire-and-forget, fail silently)',
+    'curl -sf "$LATCH_FEED_URL" \\',
+    '  -H "Content-Type: application/json" \\',
+    '  --connect-timeout 2 --max-time 3 \\',
+    '  -d "{\\"status\\":\\"$MSG\\"}" > /dev/null 2>&1 &',
+    'exit 0',
+    '',
+  ].join('\n')
+}
+
 export function enforceForClaude(
   policy: PolicyDocument,
   targetDir: string,
   authzOptions?: { port: number; sessionId: string; secret: string },
-): { configPath: string } {
+): { configPath: string; files: string[] } {
   const deny: string[] = []
   const allow: string[] = []
   const p = policy.permissions
@@ -224,13 +390,28 @@ export function enforceForClaude(
     deny.push(`Write(${glob})`, `Edit(${glob})`, `Read(${glob})`)
   }
 
+  // Write scopes: Claude rules can't express "deny outside these roots", so
+  // the hook enforces them. Natively, an empty scope list denies edits, and
+  // roots outside the workspace are registered as additional directories.
+  let additionalDirectories: string[] = []
+  if (p.writeScopes && p.allowFileWrite) {
+    if (!p.writeScopes.length) deny.push('Write', 'Edit', 'NotebookEdit')
+    const workspace = path.resolve(targetDir)
+    additionalDirectories = resolveWriteScopes(p.writeScopes, targetDir)
+      .filter((root) => root !== workspace && !root.startsWith(workspace + path.sep))
+  }
+
   // Per-harness toolRules — only add DENY rules to Claude's native deny list.
   // Allow and prompt rules are handled by the supervisor agent at runtime.
   // This is defense-in-depth: denied tools are blocked by BOTH the hook AND
-  // Claude's native permission system.
+  // Claude's native permission system. Argument-aware rules are translated to
+  // Claude's `Tool(specifier)` syntax when there is an exact equivalent and
+  // otherwise left to the hook — never widened to a blanket tool deny.
   if (hc?.toolRules) {
     for (const rule of hc.toolRules) {
-      if (rule.decision === 'deny' && !deny.includes(rule.pattern)) deny.push(rule.pattern)
+      if (rule.decision !== 'deny') continue
+      const entry = rule.when?.length ? claudeRuleSpecifier(rule) : rule.pattern
+      if (entry && !deny.includes(entry)) deny.push(entry)
     }
   }
 
@@ -256,6 +437,7 @@ export function enforceForClaude(
   // Read existing settings to preserve non-permission keys
   const claudeDir  = path.join(targetDir, '.claude')
   const configPath = path.join(claudeDir, 'settings.json')
+  const files = [configPath]
   let existing: Record<string, unknown> = {}
 
   try {
@@ -269,7 +451,9 @@ export function enforceForClaude(
   existing.permissions = {
     ...(allow.length ? { allow } : {}),
     ...(deny.length  ? { deny }  : {}),
+    ...(additionalDirectories.length ? { additionalDirectories } : {}),
   }
+  fs.mkdirSync(claudeDir, { recursive: true })
 
   // Inject PreToolUse hook for supervisor notification.
   // Claude Code hook format uses 3-level nesting: event → [{ matcher, hooks: [...] }]
@@ -324,49 +508,13 @@ export function enforceForClaude(
     try { fs.chmodSync(scriptPath, 0o755) } catch { /* Windows — non-fatal */ }
 
     // PostToolUse hook: reports agent activity to the Latch feed.
-    // Reads tool_name + tool_input from stdin, extracts a brief label,
-    // and POSTs it to $LATCH_FEED_URL (env var set on PTY creation).
     // Fails silently — feed reporting should never block the agent.
     const feedScriptPath = path.join(claudeDir, 'latch-feed.sh')
-    const feedScriptContent = [
-      '#!/bin/bash',
-      '# Generated by Latch Desktop — do not edit manually.',
-      '# PostToolUse hook: reports tool activity to the Latch feed.',
-      '[ -z "$LATCH_FEED_URL" ] && exit 0',
-      '',
-      '# Read tool info from stdin',
-      'INPUT=$(cat)',
-      'TOOL=$(printf \'%s\' "$INPUT" | grep -o \'"tool_name":"[^"]*"\' | head -1 | sed \'s/"tool_name":"//;s/"$//\')',
-      '[ -z "$TOOL" ] && exit 0',
-      '',
-      '# Extract a brief context hint from tool_input',
-      'case "$TOOL" in',
-      '  Bash)',
-      '    HINT=$(printf \'%s\' "$INPUT" | grep -o \'"command":"[^"]*"\' | head -1 | sed \'s/"command":"//;s/"$//\' | cut -c1-60) ;;',
-      '  Write|Edit|Read)',
-      '    HINT=$(printf \'%s\' "$INPUT" | grep -o \'"file_path":"[^"]*"\' | head -1 | sed \'s/"file_path":"//;s/"$//\' | xargs basename 2>/dev/null) ;;',
-      '  *)',
-      '    HINT="" ;;',
-      'esac',
-      '',
-      '# Build status message',
-      'if [ -n "$HINT" ]; then',
-      '  MSG="${TOOL}: ${HINT}"',
-      'else',
-      '  MSG="${TOOL}"',
-      'fi',
-      '',
-      '# POST to feed (fire-and-forget, fail silently)',
-      'curl -sf "$LATCH_FEED_URL" \\',
-      '  -H "Content-Type: application/json" \\',
-      '  --connect-timeout 2 --max-time 3 \\',
-      '  -d "{\\"status\\":\\"$MSG\\"}" > /dev/null 2>&1 &',
-      'exit 0',
-      '',
-    ].join('\n')
+    const feedScriptContent = feedHookScript('Bash', 'Write|Edit|Read')
 
     fs.writeFileSync(feedScriptPath, feedScriptContent, 'utf-8')
     try { fs.chmodSync(feedScriptPath, 0o755) } catch { /* Windows — non-fatal */ }
+    files.push(scriptPath, feedScriptPath)
 
     existing.hooks = {
       ...((existing.hooks as Record<string, unknown>) ?? {}),
@@ -385,14 +533,23 @@ export function enforceForClaude(
     }
   }
 
-  fs.mkdirSync(claudeDir, { recursive: true })
   fs.writeFileSync(configPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
 
-  return { configPath }
+  return { configPath, files }
 }
 
 // ─── Codex enforcement ──────────────────────────────────────────────────────
 
+/** Command prefixes that reach the network — clients, package managers and
+ *  git remote ops. Harnesses that deny by prefix (Codex rules, Droid's
+ *  commandDenylist, Gemini CLI's tools.exclude) block these when the policy
+ *  disallows network access.
+ */
+const NETWORK_COMMAND_PREFIXES = [
+  'curl', 'wget', 'ssh', 'scp', 'nc', 'ncat', 'telnet', 'ftp', 'sftp', 'rsync',
+  'npm publish', 'npm install', 'pip install', 'git push', 'git fetch', 'git pull', 'git clone',
+]
+
 /** Escape a string for use inside a TOML double-quoted value. */
 function escapeToml(s: string): string {
   return s
@@ -421,14 +578,15 @@ function mapCodexSandboxMode(p: PolicyPermissions, hx?: CodexPolicyConfig): stri
     return map[hx.sandbox] ?? 'workspace-write'
   }
   if (!p.allowBash || !p.allowFileWrite) return 'read-only'
-  if (p.confirmDestructive) return 'workspace-write'
+  // Full access ignores writable_roots, so write scopes need the sandbox on.
+  if (p.confirmDestructive || p.writeScopes) return 'workspace-write'
   return 'danger-full-access'
 }
 
 /** Generate `.codex/config.toml` with policy-derived Codex settings.
  *
- *  Covers: approval_policy, sandbox_mode, [shell_environment_policy],
- *  [features], notify hook, and MCP disabled_tools.
+ *  Covers: approval_policy, sandbox_mode, [sandbox_workspace_write],
+ *  [shell_environment_policy], [features], notify hook, and MCP disabled_tools.
  */
 function generateCodexConfig(
   policy: PolicyDocument,
@@ -445,9 +603,25 @@ function generateCodexConfig(
 
   // ── Core settings ─────────────────────────────────────────────────────────
   lines.push(`approval_policy = "${mapCodexApprovalPolicy(p, hx)}"`)
-  lines.push(`sandbox_mode = "${mapCodexSandboxMode(p, hx)}"`)
+  const sandboxMode = mapCodexSandboxMode(p, hx)
+  lines.push(`sandbox_mode = "${sandboxMode}"`)
   lines.push('')
 
+  // ── Write scopes ──────────────────────────────────────────────────────────
+  // workspace-write always allows the workspace itself; extra roots become
+  // writable_roots, and /tmp / $TMPDIR are excluded unless a scope covers them.
+  if (p.writeScopes && sandboxMode === 'workspace-write') {
+    const workspace = path.resolve(path.dirname(codexDir))
+    const roots = resolveWriteScopes(p.writeScopes, workspace)
+    const extra = roots.filter((root) => root !== workspace && !root.startsWith(workspace + path.sep))
+    const allowsTmp = roots.some((root) => root === '/tmp' || root === '/')
+    lines.push('[sandbox_workspace_write]')
+    lines.push(`writable_roots = [${extra.map(r => `"${escapeToml(r)}"`).join(', ')}]`)
+    lines.push(`exclude_slash_tmp = ${!allowsTmp}`)
+    lines.push(`exclude_tmpdir_env_var = ${!allowsTmp}`)
+    lines.push('')
+  }
+
   // ── Shell environment policy ──────────────────────────────────────────────
   // Controls what env vars the Codex shell inherits.  "core" strips most vars
   // but keeps PATH, HOME, USER, SHELL.  Codex auto-strips vars matching
@@ -488,6 +662,8 @@ function generateCodexConfig(
   const disabledTools = [...(hx?.disabledMcpTools ?? [])]
   if (hx?.toolRules) {
     for (const rule of hx.toolRules) {
+      // Argument-aware rules have no disabled_tools equivalent — authz enforces them.
+      if (rule.when?.length) continue
       if (rule.decision === 'deny' && !disabledTools.includes(rule.pattern)) disabledTools.push(rule.pattern)
     }
   }
@@ -553,12 +729,9 @@ function generateCodexRules(policy: PolicyDocument, rulesDir: string): void {
   // ── Network-access rules ────────────────────────────────────────────────
   if (!p.allowNetwork) {
     lines.push('# ── Network access denied by policy ──')
-    for (const cmd of ['curl', 'wget', 'ssh', 'scp', 'nc', 'ncat', 'telnet', 'ftp', 'sftp', 'rsync']) {
-      lines.push(`prefix_rule(pattern = ["${cmd}"], decision = "forbidden", justification = "Network access blocked by Latch policy")`)
-    }
-    // Package managers & git network ops
-    for (const [a, b] of [['npm','publish'], ['npm','install'], ['pip','install'], ['git','push'], ['git','fetch'], ['git','pull'], ['git','clone']]) {
-      lines.push(`prefix_rule(pattern = ["${a}", "${b}"], decision = "forbidden", justification = "Network access blocked by Latch policy")`)
+    for (const cmd of NETWORK_COMMAND_PREFIXES) {
+      const tokens = cmd.split(' ').map(t => `"${t}"`).join(', ')
+      lines.push(`prefix_rule(pattern = [${tokens}], decision = "forbidden", justification = "Network access blocked by Latch policy")`)
     }
     lines.push('')
   }
@@ -602,8 +775,8 @@ function generateCodexRules(policy: PolicyDocument, rulesDir: string): void {
     const shellPrompts: string[] = []
     const shellDenies: string[] = []
     for (const rule of hx.toolRules) {
-      // Skip wildcard patterns and MCP-namespaced tools
-      if (rule.pattern.includes('*') || rule.pattern.includes('__')) continue
+      // Skip wildcard patterns, MCP-namespaced tools and argument-aware rules
+      if (rule.pattern.includes('*') || rule.pattern.includes('__') || rule.when?.length) continue
       // Only lower-case single-word patterns that look like shell commands
       if (!/^[a-z][a-z0-9_-]*$/.test(rule.pattern)) continue
       if (rule.decision === 'prompt') shellPrompts.push(rule.pattern)
@@ -667,7 +840,7 @@ export function enforceForCodex(
   baseCommand: string,
   targetDir: string,
   authzOptions?: { port: number; sessionId: string; secret: string },
-): { harnessCommand: string; configPath: string } {
+): { harnessCommand: string; configPath: string; files: string[] } {
   const p  = policy.permissions
   const hx = policy.harnesses?.codex
   const flags: string[] = []
@@ -693,12 +866,14 @@ export function enforceForCodex(
 
   const configPath = generateCodexConfig(policy, codexDir, authzOptions)
   generateCodexRules(policy, rulesDir)
+  const files = [configPath, path.join(rulesDir, 'latch-policy.rules')]
+  if (authzOptions) files.push(path.join(codexDir, 'latch-notify.sh'))
 
   const harnessCommand = flags.length
     ? `${baseCommand} ${flags.join(' ')}`
     : baseCommand
 
-  return { harnessCommand, configPath }
+  return { harnessCommand, configPath, files }
 }
 
 // ─── OpenClaw enforcement ───────────────────────────────────────────────────
@@ -710,7 +885,7 @@ export function enforceForOpenClaw(
   policy: PolicyDocument,
   targetDir: string,
   authzOptions?: { port: number; sessionId: string; secret: string },
-): { configPath: string } {
+): { configPath: string; files: string[] } {
   const deny: string[]  = []
   const allow: string[] = []
   const p  = policy.permissions
@@ -723,6 +898,8 @@ export function enforceForOpenClaw(
   // Per-harness toolRules (new system — defense-in-depth)
   if (ho?.toolRules) {
     for (const rule of ho.toolRules) {
+      // Argument-aware rules can't be expressed in tools.allow/deny — the plugin enforces them
+      if (rule.when?.length) continue
       if (rule.decision === 'deny' && !deny.includes(rule.pattern)) deny.push(rule.pattern)
       if (rule.decision === 'allow' && !allow.includes(rule.pattern)) allow.push(rule.pattern)
       // 'prompt' rules are NOT added to deny — runtime plugin handles them
@@ -741,6 +918,7 @@ export function enforceForOpenClaw(
   }
 
   const configPath = path.join(targetDir, 'openclaw.json')
+  const files = [configPath]
   let existing: Record<string, unknown> = {}
 
   try {
@@ -819,6 +997,7 @@ module.exports = function latchAuthzPlugin(api) {
 `
 
     fs.writeFileSync(path.join(pluginDir, 'index.js'), pluginSrc, 'utf-8')
+    files.push(path.join(pluginDir, 'index.js'))
 
     // Enable the plugin in the config
     const plugins = (existing.plugins as Record<string, unknown>) ?? {}
@@ -829,14 +1008,14 @@ module.exports = function latchAuthzPlugin(api) {
   }
 
   fs.writeFileSync(configPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
-  return { configPath }
+  return { configPath, files }
 }
 
 /** Generate `.openclaw/exec-approvals.json` to skip interactive prompts.
  *  Sets `security: full` + `ask: off` so OpenClaw doesn't double-prompt —
  *  the latch-authz plugin handles gating via `before_tool_call`.
  */
-function generateOpenClawApprovals(targetDir: string): void {
+function generateOpenClawApprovals(targetDir: string): string {
   const approvals = {
     tools: {
       exec: { security: 'full', ask: 'off' },
@@ -845,12 +1024,10 @@ function generateOpenClawApprovals(targetDir: string): void {
     },
   }
   const approvalsDir = path.join(targetDir, '.openclaw')
+  const approvalsPath = path.join(approvalsDir, 'exec-approvals.json')
   fs.mkdirSync(approvalsDir, { recursive: true })
-  fs.writeFileSync(
-    path.join(approvalsDir, 'exec-approvals.json'),
-    JSON.stringify(approvals, null, 2) + '\n',
-    'utf-8',
-  )
+  fs.writeFileSync(approvalsPath, JSON.stringify(approvals, null, 2) + '\n', 'utf-8')
+  return approvalsPath
 }
 
 // ─── OpenCode enforcement ────────────────────────────────────────────────────
@@ -860,7 +1037,7 @@ function generateOpenClawApprovals(targetDir: string): void {
  *  OpenCode permissions use allow/ask/deny per-tool with optional glob patterns:
  *    { "bash": { "*": "ask", "rm *": "deny" }, "edit": "allow", ... }
  */
-function buildOpenCodePermissions(p: PolicyPermissions): Record<string, unknown> {
+function buildOpenCodePermissions(p: PolicyPermissions, ho?: OpenCodePolicyConfig, workspaceRoot?: string): Record<string, unknown> {
   const perms: Record<string, unknown> = {}
 
   // Bash / shell
@@ -880,6 +1057,12 @@ function buildOpenCodePermissions(p: PolicyPermissions): Record<string, unknown>
   // File editing
   if (!p.allowFileWrite) {
     perms.edit = 'deny'
+  } else if (p.writeScopes) {
+    // Deny by default, allow under each write scope, then re-deny blocked globs.
+    const editRules: Record<string, string> = { '*': 'deny' }
+    for (const root of resolveWriteScopes(p.writeScopes, workspaceRoot)) editRules[`${root}/**`] = 'allow'
+    for (const glob of p.blockedGlobs ?? []) editRules[glob] = 'deny'
+    perms.edit = editRules
   } else if (p.blockedGlobs?.length) {
     const editRules: Record<string, string> = { '*': 'allow' }
     for (const glob of p.blockedGlobs) editRules[glob] = 'deny'
@@ -903,9 +1086,36 @@ function buildOpenCodePermissions(p: PolicyPermissions): Record<string, unknown>
     perms.websearch = 'deny'
   }
 
+  applyOpenCodeToolRules(perms, ho?.toolRules)
+
   return perms
 }
 
+/** OpenCode permission keys that take per-argument patterns, keyed to the input field they match. */
+const OPENCODE_PATTERN_TOOLS: Record<string, string> = { bash: 'command', edit: 'filePath', read: 'filePath' }
+
+/** Add argument-aware deny/prompt toolRules (a single glob predicate on the
+ *  command or file path) as OpenCode pattern entries. Other rules are left to
+ *  the runtime plugin.
+ */
+function applyOpenCodeToolRules(perms: Record<string, unknown>, rules: ToolRule[] | undefined): void {
+  for (const rule of rules ?? []) {
+    if (rule.decision === 'allow' || rule.when?.length !== 1) continue
+    const [pred] = rule.when
+    const key = rule.pattern.toLowerCase()
+    if (OPENCODE_PATTERN_TOOLS[key] !== pred.field || pred.op !== 'glob' || pred.negate) continue
+
+    const current = perms[key]
+    if (current === 'deny') continue // already blocked outright
+    const table = current && typeof current === 'object'
+      ? current as Record<string, string>
+      : { '*': typeof current === 'string' ? current : 'allow' }
+    const glob = String(pred.value)
+    if (table[glob] !== 'deny') table[glob] = rule.decision === 'deny' ? 'deny' : 'ask'
+    perms[key] = table
+  }
+}
+
 /** Generate `opencode.json` with Latch permission config, preserving existing user settings. */
 function generateOpenCodeConfig(
   policy: PolicyDocument,
@@ -923,7 +1133,7 @@ function generateOpenCodeConfig(
     // File doesn't exist or is invalid — start fresh
   }
 
-  existing.permission = buildOpenCodePermissions(policy.permissions)
+  existing.permission = buildOpenCodePermissions(policy.permissions, policy.harnesses?.opencode, targetDir)
 
   fs.writeFileSync(configPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
   return configPath
@@ -1411,7 +1621,7 @@ export function enforceForOpenCode(
   baseCommand: string,
   targetDir: string,
   authzOptions?: { port: number; sessionId: string; secret: string },
-): { harnessCommand: string; configPath: string } {
+): { harnessCommand: string; configPath: string; files: string[] } {
   // Layer 1: Generate opencode.json with permission config
   const configPath = generateOpenCodeConfig(policy, targetDir)
 
@@ -1421,7 +1631,250 @@ export function enforceForOpenCode(
   // details from latch-connection.json and uses OpenCode's session IDs.
 
   // Layer 3: No extra CLI flags needed for opencode by default
-  return { harnessCommand: baseCommand, configPath }
+  return { harnessCommand: baseCommand, configPath, files: [configPath] }
+}
+
+// ─── Droid enforcement ──────────────────────────────────────────────────────
+
+/** Commands from a policy that a harness can refuse natively by prefix: the
+ *  harness's deniedCommands, literal deny command rules, and network
+ *  commands when network access is off.
+ */
+function prefixCommandDenylist(policy: PolicyDocument, deniedCommands: string[] = []): string[] {
+  const p = policy.permissions
+  const denylist: string[] = [...deniedCommands]
+  for (const rule of p.commandRules ?? []) {
+    // Regex patterns have no prefix equivalent — the authz hook enforces them
+    if (rule.decision === 'deny' && !/[\\^$*+?.()|[\]{}]/.test(rule.pattern)) denylist.push(rule.pattern.trim())
+  }
+  if (!p.allowNetwork) denylist.push(...NETWORK_COMMAND_PREFIXES)
+  return [...new Set(denylist)]
+}
+
+/** Pre-tool hook script for harnesses that run with their own prompts off:
+ *  POSTs the hook's stdin to the blocking /authorize endpoint and exits 2
+ *  (blocked, reason on stderr) unless the call is allowed. An unreachable
+ *  server also exits 2 — nothing else gates the call.
+ */
+function blockingAuthzHookScript(event: string, harness: string, url: string, secret: string): string {
+  return [
+    '#!/bin/bash',
+    '# Generated by Latch Desktop — do not edit manually.',
+    `# ${event} hook: asks the Latch authz server whether a tool call may run.`,
+    `# ${harness} runs without its own prompts, so anything but a 200 blocks the call.`,
+    `RESP=$(curl -s -w '\\n%{http_code}' \\`,
+    `  -H 'Content-Type: application/json' \\`,
+    `  -H 'Authorization: Bearer ${secret}' \\`,
+    `  --connect-timeout 3 --max-time 125 \\`,
+    `  -d @- '${url}' 2>/dev/null) || {`,
+    "  printf '%s\\n' 'Latch authz server unreachable — failing closed.' >&2",
+    '  exit 2',
+    '}',
+    '',
+    "HTTP_CODE=$(printf '%s\\n' \"$RESP\" | tail -n1)",
+    "BODY=$(printf '%s\\n' \"$RESP\" | sed '$d')",
+    '',
+    '[ "$HTTP_CODE" = "200" ] && exit 0',
+    '',
+    'REASON=$(printf \'%s\' "$BODY" | grep -o \'"reason":"[^"]*"\' | head -1 \\',
+    '  | sed \'s/"reason":"//;s/"$//\')',
+    'printf \'%s\\n\' "${REASON:-Denied by Latch policy}" >&2',
+    'exit 2',
+    '',
+  ].join('\n')
+}
+
+/** Write `.factory/settings.json` with a command denylist derived from policy.
+ *  When authzOptions is provided, injects a PreToolUse hook that sends every
+ *  tool call to the authz server and blocks the call unless it is allowed.
+ */
+export function enforceForDroid(
+  policy: PolicyDocument,
+  targetDir: string,
+  authzOptions?: { port: number; sessionId: string; secret: string },
+): { configPath: string; files: string[] } {
+  const factoryDir = path.join(targetDir, '.factory')
+  const configPath = path.join(factoryDir, 'settings.json')
+  const files = [configPath]
+  let existing: Record<string, unknown> = {}
+
+  try {
+    const raw = fs.readFileSync(configPath, 'utf-8')
+    existing = JSON.parse(raw)
+  } catch {
+    // File doesn't exist or is invalid — start fresh
+  }
+
+  // Defense-in-depth: Droid refuses these itself even if the hook is bypassed.
+  // Tool-level rules have no native equivalent — the hook enforces them.
+  const denylist = prefixCommandDenylist(policy, policy.harnesses?.droid?.deniedCommands)
+  if (denylist.length) existing.commandDenylist = denylist
+  else delete existing.commandDenylist
+  fs.mkdirSync(factoryDir, { recursive: true })
+
+  // Droid uses Claude's hook format (event → [{ matcher, hooks: [...] }]) and
+  // feeds the hook tool_name/tool_input/cwd on stdin. Unlike Claude, Droid's
+  // prompts can't be driven by the supervisor, so the session runs with them
+  // off and this hook makes the decision: it calls the blocking /authorize
+  // endpoint, which holds the request while an approval is pending.
+  //
+  //   200 → exit 0 (tool runs)
+  //   403 → extract reason, write to stderr, exit 2 (blocked; Droid sees the reason)
+  //   curl failure → exit 2 (fail closed — nothing else gates the call)
+  //
+  // --max-time 125 / timeout 130: outlast the server's 120s approval window.
+  if (authzOptions) {
+    validateSessionId(authzOptions.sessionId)
+    const url = `http://127.0.0.1:${authzOptions.port}/authorize/${authzOptions.sessionId}`
+
+    const scriptPath = path.join(factoryDir, 'latch-authz.sh')
+    fs.writeFileSync(scriptPath, blockingAuthzHookScript('PreToolUse', 'Droid', url, authzOptions.secret), 'utf-8')
+    try { fs.chmodSync(scriptPath, 0o755) } catch { /* Windows — non-fatal */ }
+
+    const feedScriptPath = path.join(factoryDir, 'latch-feed.sh')
+    fs.writeFileSync(feedScriptPath, feedHookScript('Execute', 'Create|Edit|MultiEdit|Read'), 'utf-8')
+    try { fs.chmodSync(feedScriptPath, 0o755) } catch { /* Windows — non-fatal */ }
+    files.push(scriptPath, feedScriptPath)
+
+    existing.hooks = {
+      ...((existing.hooks as Record<string, unknown>) ?? {}),
+      PreToolUse: [
+        {
+          matcher: '',
+          hooks: [{ type: 'command', command: `bash '${scriptPath}'`, timeout: 130 }],
+        },
+      ],
+      PostToolUse: [
+        {
+          matcher: '',
+          hooks: [{ type: 'command', command: `bash '${feedScriptPath}'` }],
+        },
+      ],
+    }
+  }
+
+  fs.writeFileSync(configPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
+
+  return { configPath, files }
+}
+
+// ─── Gemini CLI enforcement ─────────────────────────────────────────────────
+
+/** Gemini CLI tools that write files. */
+const GEMINI_WRITE_TOOLS = ['write_file', 'replace']
+
+/** Gemini CLI tools that reach the network. */
+const GEMINI_NETWORK_TOOLS = ['web_fetch', 'google_web_search']
+
+/** Tools Gemini CLI should drop from its registry (settings.json `tools.exclude`):
+ *  whole tools for disabled permissions and deny rules, and
+ *  `run_shell_command(<prefix>)` entries for commands it can refuse by prefix.
+ */
+function geminiExcludedTools(policy: PolicyDocument): string[] {
+  const p = policy.permissions
+  const hg = policy.harnesses?.gemini
+  const exclude: string[] = []
+
+  if (!p.allowBash) exclude.push('run_shell_command')
+  if (!p.allowFileWrite || p.writeScopes?.length === 0) exclude.push(...GEMINI_WRITE_TOOLS)
+  if (!p.allowNetwork) exclude.push(...GEMINI_NETWORK_TOOLS)
+
+  if (p.allowBash) {
+    for (const cmd of prefixCommandDenylist(policy, hg?.deniedCommands)) exclude.push(`run_shell_command(${cmd})`)
+  }
+
+  // Argument-aware rules have no exclude equivalent — the hook enforces them.
+  for (const rule of hg?.toolRules ?? []) {
+    if (rule.decision === 'deny' && !rule.when?.length) exclude.push(rule.pattern)
+  }
+  return [...new Set(exclude)]
+}
+
+/** Write `.gemini/settings.json` with tool exclusions derived from policy.
+ *  When authzOptions is provided, injects a BeforeTool hook that sends every
+ *  tool call to the authz server and blocks the call unless it is allowed.
+ */
+export function enforceForGemini(
+  policy: PolicyDocument,
+  targetDir: string,
+  authzOptions?: { port: number; sessionId: string; secret: string },
+): { configPath: string; files: string[] } {
+  const geminiDir = path.join(targetDir, '.gemini')
+  const configPath = path.join(geminiDir, 'settings.json')
+  const files = [configPath]
+  let existing: Record<string, unknown> = {}
+
+  try {
+    const raw = fs.readFileSync(configPath, 'utf-8')
+    existing = JSON.parse(raw)
+  } catch {
+    // File doesn't exist or is invalid — start fresh
+  }
+
+  // Defense-in-depth: excluded tools never reach the model, even if the hook
+  // is bypassed. Blocked globs and write scopes have no native equivalent.
+  const tools: Record<string, unknown> = { ...((existing.tools as Record<string, unknown>) ?? {}) }
+  const exclude = geminiExcludedTools(policy)
+  if (exclude.length) tools.exclude = exclude
+  else delete tools.exclude
+
+  // Denied MCP servers are dropped by name (settings.json `mcp.excluded`).
+  const mcp: Record<string, unknown> = { ...((existing.mcp as Record<string, unknown>) ?? {}) }
+  const excludedServers = (policy.harnesses?.gemini?.mcpServerRules ?? [])
+    .filter((rule) => rule.decision === 'deny')
+    .map((rule) => rule.server)
+  if (excludedServers.length) mcp.excluded = [...new Set(excludedServers)]
+  else delete mcp.excluded
+
+  fs.mkdirSync(geminiDir, { recursive: true })
+
+  // Gemini CLI hooks feed the script tool_name/tool_input/cwd on stdin and
+  // treat exit 2 as a block, showing stderr to the model. As with Droid, the
+  // session runs with prompts off (--approval-mode yolo) and this hook makes
+  // the decision through the blocking /authorize endpoint.
+  //
+  // Gemini hook timeouts are in milliseconds: 130s outlasts the server's
+  // 120s approval window (curl --max-time 125).
+  if (authzOptions) {
+    validateSessionId(authzOptions.sessionId)
+    const url = `http://127.0.0.1:${authzOptions.port}/authorize/${authzOptions.sessionId}`
+
+    const scriptPath = path.join(geminiDir, 'latch-authz.sh')
+    fs.writeFileSync(scriptPath, blockingAuthzHookScript('BeforeTool', 'Gemini CLI', url, authzOptions.secret), 'utf-8')
+    try { fs.chmodSync(scriptPath, 0o755) } catch { /* Windows — non-fatal */ }
+
+    const feedScriptPath = path.join(geminiDir, 'latch-feed.sh')
+    fs.writeFileSync(feedScriptPath, feedHookScript('run_shell_command', 'write_file|replace|read_file'), 'utf-8')
+    try { fs.chmodSync(feedScriptPath, 0o755) } catch { /* Windows — non-fatal */ }
+    files.push(scriptPath, feedScriptPath)
+
+    // Hooks are opt-in in Gemini CLI settings.
+    tools.enableHooks = true
+    existing.hooks = {
+      ...((existing.hooks as Record<string, unknown>) ?? {}),
+      BeforeTool: [
+        {
+          matcher: '.*',
+          hooks: [{ name: 'latch-authz', type: 'command', command: `bash '${scriptPath}'`, timeout: 130000 }],
+        },
+      ],
+      AfterTool: [
+        {
+          matcher: '.*',
+          hooks: [{ name: 'latch-feed', type: 'command', command: `bash '${feedScriptPath}'` }],
+        },
+      ],
+    }
+  }
+
+  if (Object.keys(tools).length) existing.tools = tools
+  else delete existing.tools
+  if (Object.keys(mcp).length) existing.mcp = mcp
+  else delete existing.mcp
+
+  fs.writeFileSync(configPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8')
+
+  return { configPath, files }
 }
 
 // ─── Entry point ────────────────────────────────────────────────────────────
@@ -1440,7 +1893,7 @@ export async function enforcePolicy(
     authzSecret?: string
     sessionId?: string
   }
-): Promise<{ ok: boolean; harnessCommand?: string; configPath?: string; error?: string }> {
+): Promise<{ ok: boolean; harnessCommand?: string; configPath?: string; generatedFiles?: string[]; error?: string }> {
   const { policyOverride, harnessId, harnessCommand, worktreePath, projectDir, authzPort, authzSecret, sessionId } = payload
   const policyIds = payload.policyIds ?? (payload.policyId ? [payload.policyId] : [])
 
@@ -1459,8 +1912,11 @@ export async function enforcePolicy(
     return { ok: true, harnessCommand }
   }
 
-  const basePolicy = computeStrictestBaseline(selected, harnessId)
-  const effective = resolvePolicy(basePolicy, policyOverride)
+  const flattened = flattenPolicies(selected, allResult.policies)
+  if (!flattened.ok) return { ok: false, error: flattened.error }
+
+  // Audit-mode policies only feed the authz server's would-be decisions.
+  const effective = splitAuditMode(flattened.policies, harnessId, policyOverride).enforced
 
   const targetDir = worktreePath ?? projectDir
 
@@ -1469,23 +1925,23 @@ export async function enforcePolicy(
       case 'claude': {
         if (!targetDir) return { ok: false, error: 'No project directory or worktree available for policy enforcement.' }
         const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
-        const { configPath } = enforceForClaude(effective, targetDir, authzOpts)
+        const { configPath, files } = enforceForClaude(effective, targetDir, authzOpts)
         // Supervisor model: minimal allow list (harmless tools only), deny list from
         // policy, everything else prompts natively. The PreToolUse hook notifies the
         // supervisor, which types yes/no into the terminal based on policy evaluation.
-        return { ok: true, harnessCommand, configPath }
+        return { ok: true, harnessCommand, configPath, generatedFiles: files }
       }
       case 'codex': {
         if (!targetDir) return { ok: false, error: 'No project directory or worktree available for policy enforcement.' }
         const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
-        const { harnessCommand: enforced, configPath } = enforceForCodex(effective, harnessCommand, targetDir, authzOpts)
+        const { harnessCommand: enforced, configPath, files } = enforceForCodex(effective, harnessCommand, targetDir, authzOpts)
         // --full-auto skips interactive approval prompts. Config files (.codex/config.toml,
         // .rules) are still loaded and respected.  This prevents double-prompting since
         // Latch controls enforcement via config files + rules.
         const codexCmd = enforced
           ? `${enforced} --full-auto`
           : enforced
-        return { ok: true, harnessCommand: codexCmd, configPath }
+        return { ok: true, harnessCommand: codexCmd, configPath, generatedFiles: files }
       }
       case 'openclaw': {
         if (!targetDir) {
@@ -1493,27 +1949,42 @@ export async function enforcePolicy(
           return { ok: true, harnessCommand }
         }
         const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
-        const { configPath } = enforceForOpenClaw(effective, targetDir, authzOpts)
+        const { configPath, files } = enforceForOpenClaw(effective, targetDir, authzOpts)
         // Generate exec-approvals config to skip interactive prompts. The before_tool_call
         // plugin (latch-authz) still fires independently of exec approvals.
-        generateOpenClawApprovals(targetDir)
-        return { ok: true, harnessCommand, configPath }
+        files.push(generateOpenClawApprovals(targetDir))
+        return { ok: true, harnessCommand, configPath, generatedFiles: files }
       }
       case 'opencode': {
         if (!targetDir) return { ok: false, error: 'No project directory or worktree available for policy enforcement.' }
         const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
-        const { harnessCommand: enforced, configPath } = enforceForOpenCode(effective, harnessCommand, targetDir, authzOpts)
-        return { ok: true, harnessCommand: enforced, configPath }
+        const { harnessCommand: enforced, configPath, files } = enforceForOpenCode(effective, harnessCommand, targetDir, authzOpts)
+        return { ok: true, harnessCommand: enforced, configPath, generatedFiles: files }
       }
       case 'droid': {
-        // Droid (Factory.ai) — launch with --auto high --skip-permissions-unsafe.
-        // --auto high sets the permission scope (what ops are allowed).
-        // --skip-permissions-unsafe disables interactive approval prompts so
-        // Latch's authz server handles policy enforcement without double-prompting.
-        const droidCmd = harnessCommand
+        if (!targetDir) return { ok: false, error: 'No project directory or worktree available for policy enforcement.' }
+        const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
+        const { configPath, files } = enforceForDroid(effective, targetDir, authzOpts)
+        // Droid (Factory.ai) — with the authz hook installed, launch with
+        // --auto high --skip-permissions-unsafe so Droid doesn't prompt on top
+        // of the hook, which already decides (and holds for approval) every
+        // call. Without the hook, Droid keeps its own prompts.
+        const droidCmd = authzOpts && harnessCommand
           ? `${harnessCommand} --auto high --skip-permissions-unsafe`
           : harnessCommand
-        return { ok: true, harnessCommand: droidCmd }
+        return { ok: true, harnessCommand: droidCmd, configPath, generatedFiles: files }
+      }
+      case 'gemini': {
+        if (!targetDir) return { ok: false, error: 'No project directory or worktree available for policy enforcement.' }
+        const authzOpts = (authzPort && sessionId && authzSecret) ? { port: authzPort, sessionId, secret: authzSecret } : undefined
+        const { configPath, files } = enforceForGemini(effective, targetDir, authzOpts)
+        // Gemini CLI — same model as Droid: with the BeforeTool hook installed,
+        // --approval-mode yolo turns off Gemini's own confirmations so only the
+        // hook decides. Without the hook, Gemini keeps its prompts.
+        const geminiCmd = authzOpts && harnessCommand
+          ? `${harnessCommand} --approval-mode yolo`
+          : harnessCommand
+        return { ok: true, harnessCommand: geminiCmd, configPath, generatedFiles: files }
       }
       default:
         // Unknown harness — no enforcement, pass through
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { importNativeConfigs, importNativePolicy, importedPolicyId } from './policy-importer'
+import type { NativeConfigFile } from './policy-importer'
+import { DEFAULT_COMMAND_RULES, authorizeToolCall } from './authz-server'
+import { enforceForClaude } from './policy-enforcer'
+import type { PolicyDocument } from '../../types'
+
+const META = { id: 'imported', name: 'Imported' }
+
+function importFiles(...files: NativeConfigFile[]) {
+  return importNativeConfigs(files, META)
+}
+
+function claude(permissions: Record<string, unknown>): NativeConfigFile {
+  return { kind: 'claude', filePath: '/repo/.claude/settings.json', text: JSON.stringify({ permissions }) }
+}
+
+describe('importNativeConfigs', () => {
+  it('maps Claude permission lists to command and tool rules', () => {
+    const { policy, unmapped } = importFiles(claude({
+      allow: ['Bash(npm run test:*)', 'Read', 'WebFetch(domain:docs.python.org)', 'mcp__github'],
+      ask: ['Bash(git push:*)'],
+      deny: ['Bash(curl *)', 'Read(./.env)', 'mcp__db__drop_table'],
+    }))
+
+    expect(unmapped).toEqual([])
+    expect(policy.permissions.commandRules).toEqual([
+      { pattern: '^curl\\s+.*$', decision: 'deny', reason: 'Imported from Claude: Bash(curl *)' },
+      ...DEFAULT_COMMAND_RULES,
+      { pattern: '^git\\s+push(\\s|$)', decision: 'prompt', reason: 'Imported from Claude: Bash(git push:*)' },
+      { pattern: '^npm\\s+run\\s+test(\\s|$)', decision: 'allow', reason: 'Imported from Claude: Bash(npm run test:*)' },
+    ])
+    expect(policy.harnesses.claude).toEqual({
+      toolRules: [
+        { pattern: 'Read', decision: 'deny', when: [{ field: 'file_path', op: 'glob', value: '*/.env' }] },
+        { pattern: 'mcp__db__drop_table', decision: 'deny' },
+        { pattern: 'Read', decision: 'allow' },
+        { pattern: 'WebFetch', decision: 'allow', when: [{ field: 'url', op: 'domain', value: 'docs.python.org' }] },
+      ],
+      mcpServerRules: [{ server: 'github', decision: 'allow' }],
+    })
+  })
+
+  it('enforces the imported rules with Claude precedence', () => {
+    const { policy } = importFiles(claude({ allow: ['Read'], deny: ['Read(./.env)'] }))
+    expect(authorizeToolCall('Read', { file_path: '/work/repo/.env' }, policy, 'claude').decision).toBe('deny')
+    expect(authorizeToolCall('Read', { file_path: '/work/repo/README.md' }, policy, 'claude').decision).toBe('allow')
+  })
+
+  it('reports entries it cannot map instead of dropping them', () => {
+    const { policy, unmapped } = importFiles(claude({
+      allow: ['Glob(src/**)'],
+      defaultMode: 'acceptEdits',
+    }))
+    expect(unmapped.map((u) => [u.entry, u.reason])).toEqual([
+      ['Glob(src/**)', 'No Latch equivalent for Glob(…) specifiers'],
+      ['defaultMode: "acceptEdits"', 'Claude-only setting'],
+    ])
+    expect(policy.description).toContain('2 entries could not be mapped')
+  })
+
+  it('turns blanket denies back into permission switches', () => {
+    const { policy } = importFiles(claude({ deny: ['Bash', 'Write', 'Edit', 'WebFetch'] }))
+    expect(policy.permissions).toMatchObject({ allowBash: false, allowFileWrite: false, allowNetwork: true })
+    expect(policy.harnesses.claude?.toolRules).toEqual([{ pattern: 'WebFetch', decision: 'deny' }])
+  })
+
+  it('keeps a one-harness deny per harness when another harness allows the tool', () => {
+    const { policy } = importFiles(
+      claude({ deny: ['Bash'] }),
+      { kind: 'opencode', filePath: '/repo/opencode.json', text: JSON.stringify({ permission: { bash: 'allow' } }) },
+    )
+    expect(policy.permissions.allowBash).toBe(true)
+    expect(policy.harnesses.claude?.toolRules).toEqual([{ pattern: 'Bash', decision: 'deny' }])
+  })
+
+  it('maps Codex prefix rules and modes', () => {
+    const { policy, unmapped } = importFiles(
+      {
+        kind: 'codex-rules',
+        filePath: '/repo/.codex/rules/default.rules',
+        text: [
+          '# Team rules',
+          'prefix_rule(',
+          '    pattern = ["git", ["push", "fetch"]],',
+          '    decision = "prompt",',
+          '    justification = "Talks to the remote",',
+          '    match = ["git push origin main"],',
+          ')',
+          "prefix_rule(pattern = ['rm', '-rf'], decision = 'forbidden')",
+          'prefix_rule(pattern = ["ls"])',
+          'host_executable(name = "git")',
+        ].join('\n'),
+      },
+      { kind: 'codex-config', filePath: '/repo/.codex/config.toml', text: 'approval_policy = "untrusted"\nsandbox_mode = "workspace-write"\n\n[features]\nsandbox_mode = "ignored"\n' },
+    )
+
+    const rules = policy.permissions.commandRules!
+    expect(rules[0]).toEqual({ pattern: '^rm\\s+-rf(\\s|$)', decision: 'deny', reason: 'Imported from Codex: prefix_rule(pattern = [\'rm\', \'-rf\'], decision = \'forbidden\')' })
+    expect(rules.slice(-2)).toEqual([
+      { pattern: '^git\\s+(push|fetch)(\\s|$)', decision: 'prompt', reason: 'Talks to the remote' },
+      expect.objectContaining({ pattern: '^ls(\\s|$)', decision: 'allow' }),
+    ])
+    expect(policy.harnesses.codex).toEqual({ approvalMode: 'full', sandbox: 'moderate' })
+    expect(unmapped).toMatchObject([{ entry: 'host_executable(name = "git")', reason: 'Unsupported rule type host_executable()' }])
+  })
+
+  it('reports a rules file it cannot parse', () => {
+    const { unmapped } = importFiles({ kind: 'codex-rules', filePath: '/repo/.codex/rules/x.rules', text: 'prefix_rule(pattern = ["ls"' })
+    expect(unmapped).toMatchObject([{ entry: '(file)', reason: expect.stringContaining('Could not parse') }])
+  })
+
+  it('maps OpenCode permission blocks with patterns ahead of wildcards', () => {
+    const { policy, unmapped } = importFiles({
+      kind: 'opencode',
+      filePath: '/repo/opencode.json',
+      text: JSON.stringify({
+        permission: { bash: { '*': 'ask', 'git status': 'allow', 'rm *': 'deny' }, edit: 'allow', webfetch: { '*.example.com': 'deny' } },
+        tools: { write: false },
+      }),
+    })
+    expect(policy.harnesses.opencode?.toolRules).toEqual([
+      { pattern: 'bash', decision: 'deny', when: [{ field: 'command', op: 'glob', value: 'rm *' }] },
+      { pattern: 'bash', decision: 'allow', when: [{ field: 'command', op: 'glob', value: 'git status' }] },
+      { pattern: 'write', decision: 'deny' },
+      { pattern: 'bash', decision: 'prompt' },
+      { pattern: 'edit', decision: 'allow' },
+    ])
+    expect(unmapped).toMatchObject([{ entry: 'permission.webfetch["*.example.com"]' }])
+  })
+})
+
+describe('importNativePolicy', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-policy-import-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads every config in the directory', () => {
+    fs.mkdirSync(path.join(dir, '.codex', 'rules'), { recursive: true })
+    fs.writeFileSync(path.join(dir, '.codex', 'rules', 'team.rules'), 'prefix_rule(pattern = ["npm", "publish"], decision = "forbidden")\n')
+    fs.writeFileSync(path.join(dir, 'opencode.json'), JSON.stringify({ permission: { edit: 'ask' } }))
+
+    const result = importNativePolicy(dir)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.sources.map((f) => path.relative(dir, f))).toEqual([path.join('.codex', 'rules', 'team.rules'), 'opencode.json'])
+    expect(result.policy.id).toBe(importedPolicyId(dir))
+    expect(result.policy.permissions.commandRules?.[0]).toMatchObject({ pattern: '^npm\\s+publish(\\s|$)', decision: 'deny' })
+    expect(result.policy.harnesses.opencode?.toolRules).toEqual([{ pattern: 'edit', decision: 'prompt' }])
+  })
+
+  it('round-trips the deny rules policy-enforcer writes for Claude', () => {
+    const source: PolicyDocument = {
+      id: 'src',
+      name: 'Source',
+      description: '',
+      permissions: { allowBash: false, allowNetwork: false, allowFileWrite: true, confirmDestructive: true, blockedGlobs: ['*/secrets/*'] },
+      harnesses: {},
+    }
+    enforceForClaude(source, dir)
+
+    const result = importNativePolicy(dir)
+    expect(result.ok && result.policy.permissions).toMatchObject({ allowBash: false, allowNetwork: false, allowFileWrite: true })
+  })
+
+  it('skips config Latch generated for a session', () => {
+    fs.mkdirSync(path.join(dir, '.codex', 'rules'), { recursive: true })
+    fs.writeFileSync(path.join(dir, '.codex', 'rules', 'latch-policy.rules'), '# Generated by Latch Desktop — do not edit manually.\n')
+    const result = importNativePolicy(dir)
+    expect(result.ok && result.unmapped).toMatchObject([{ entry: '(file)', reason: 'Written by Latch for a session — skipped' }])
+  })
+
+  it('fails when there is nothing to import', () => {
+    expect(importNativePolicy(dir)).toMatchObject({ ok: false })
+  })
+})
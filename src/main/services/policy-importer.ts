@@ -0,0 +1,506 @@
+/**
+ * @module policy-importer
+ * @description Builds a Latch policy from the permission config a repo
+ * already has for its harnesses — the reverse of policy-enforcer.
+ *
+ * Sources, relative to the directory being imported:
+ *  - `.claude/settings.json` and `.claude/settings.local.json` permission
+ *    lists (`allow` / `ask` / `deny`)
+ *  - `.codex/rules/*.rules` Starlark `prefix_rule()` calls, plus the
+ *    approval and sandbox modes from `.codex/config.toml`
+ *  - the `permission` and `tools` blocks of `opencode.json`
+ *
+ * Shell rules from Claude and Codex become command rules, which every
+ * harness shares; everything else becomes per-harness tool rules. Rules are
+ * ordered so the first match reproduces the native precedence (Claude and
+ * Codex: strictest wins; OpenCode: a specific pattern beats its wildcard).
+ * Entries with no Latch equivalent are returned as `unmapped` rather than
+ * dropped, and files Latch generated itself are skipped.
+ */
+
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type {
+  CodexPolicyConfig,
+  CommandRule,
+  McpServerRule,
+  NativeImportIssue,
+  PolicyDocument,
+  PolicyPermissions,
+  ToolRule,
+  ToolRuleDecision,
+} from '../../types'
+import { DEFAULT_COMMAND_RULES } from './authz-server'
+
+export type NativeConfigKind = 'claude' | 'codex-rules' | 'codex-config' | 'opencode'
+
+export interface NativeConfigFile {
+  kind: NativeConfigKind
+  filePath: string
+  text: string
+}
+
+/** Rules collected from native config files, before they become a policy. */
+interface ImportDraft {
+  permissions: Pick<PolicyPermissions, 'allowBash' | 'allowNetwork' | 'allowFileWrite'>
+  commandRules: CommandRule[]
+  claude: { toolRules: ToolRule[]; mcpServerRules: McpServerRule[] }
+  opencode: { toolRules: ToolRule[] }
+  codex: CodexPolicyConfig
+  unmapped: NativeImportIssue[]
+}
+
+const GENERATED_MARKER = 'Generated by Latch Desktop'
+
+const DECISION_RANK: Record<ToolRuleDecision, number> = { deny: 0, prompt: 1, allow: 2 }
+
+/** Claude permission list → Latch decision. */
+const CLAUDE_DECISIONS: Record<string, ToolRuleDecision> = { deny: 'deny', ask: 'prompt', allow: 'allow' }
+
+/** Claude tools whose rules take a path specifier, keyed to the input field holding the path. */
+const CLAUDE_PATH_TOOLS: Record<string, string> = { Read: 'file_path', Write: 'file_path', Edit: 'file_path' }
+
+const CODEX_DECISIONS: Record<string, ToolRuleDecision> = { forbidden: 'deny', prompt: 'prompt', allow: 'allow' }
+const CODEX_APPROVAL_MODES: Record<string, CodexPolicyConfig['approvalMode']> = { 'never': 'auto', 'on-request': 'read-only', 'untrusted': 'full' }
+const CODEX_SANDBOX_MODES: Record<string, CodexPolicyConfig['sandbox']> = { 'read-only': 'strict', 'workspace-write': 'moderate', 'danger-full-access': 'permissive' }
+
+const OPENCODE_DECISIONS: Record<string, ToolRuleDecision> = { deny: 'deny', ask: 'prompt', allow: 'allow' }
+
+/** OpenCode permission keys that take per-argument patterns, keyed to the input field they match. */
+const OPENCODE_PATTERN_TOOLS: Record<string, string> = { bash: 'command', edit: 'filePath', read: 'filePath' }
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function emptyDraft(): ImportDraft {
+  return {
+    permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true },
+    commandRules: [],
+    claude: { toolRules: [], mcpServerRules: [] },
+    opencode: { toolRules: [] },
+    codex: {},
+    unmapped: [],
+  }
+}
+
+function pushUnique<T>(list: T[], item: T): void {
+  const key = JSON.stringify(item)
+  if (!list.some((existing) => JSON.stringify(existing) === key)) list.push(item)
+}
+
+/** Command rule for a command prefix: the words in order, then the end or more arguments. */
+function prefixPattern(words: string[]): string {
+  return `^${words.join('\\s+')}(\\s|$)`
+}
+
+/** Anchored command regex for a shell glob (`*` spans anything). */
+function commandGlobPattern(glob: string): string {
+  const words = glob.trim().split(/\s+/)
+  return `^${words.map((w) => w.split('*').map(escapeRegex).join('.*')).join('\\s+')}$`
+}
+
+// ─── Claude ──────────────────────────────────────────────────────────────────
+
+/** Command rule pattern for a `Bash(...)` specifier (`npm test`, `npm run:*`, `git * main`). */
+function claudeBashPattern(spec: string): string {
+  const prefix = spec.match(/^(.+?):\*$/)
+  if (prefix) return prefixPattern(prefix[1].trim().split(/\s+/).map(escapeRegex))
+  return commandGlobPattern(spec)
+}
+
+/**
+ * Claude path specifiers are gitignore-style: `//abs` is absolute, `~/` is
+ * home, and anything else is relative to the project. Latch globs match the
+ * absolute path a tool receives, so relative specifiers match under any root.
+ */
+function claudePathGlob(spec: string): string {
+  if (spec.startsWith('//')) return spec.slice(1)
+  if (spec.startsWith('~/')) return spec
+  return `*/${spec.replace(/^\.?\//, '')}`
+}
+
+function importClaudeEntry(draft: ImportDraft, filePath: string, entry: string, decision: ToolRuleDecision): void {
+  const parsed = entry.trim().match(/^([^()]+?)(?:\((.*)\))?$/s)
+  if (!parsed) {
+    draft.unmapped.push({ filePath, entry, reason: 'Not a Claude permission rule' })
+    return
+  }
+  const [, tool, rawSpec] = parsed
+  const spec = rawSpec?.trim() || undefined
+
+  if (tool === 'Bash' && spec && spec !== '*') {
+    pushUnique(draft.commandRules, { pattern: claudeBashPattern(spec), decision, reason: `Imported from Claude: ${entry}` })
+    return
+  }
+  if (tool.startsWith('mcp__')) {
+    const [, server, name] = tool.split('__')
+    if (spec || !server) {
+      draft.unmapped.push({ filePath, entry, reason: 'MCP rules take no specifier' })
+    } else if (!name || name === '*') {
+      pushUnique(draft.claude.mcpServerRules, { server, decision })
+    } else {
+      pushUnique(draft.claude.toolRules, { pattern: tool, decision })
+    }
+    return
+  }
+  if (!spec || spec === '*') {
+    pushUnique(draft.claude.toolRules, { pattern: tool, decision })
+    return
+  }
+  if (tool === 'WebFetch' && spec.startsWith('domain:')) {
+    pushUnique(draft.claude.toolRules, { pattern: tool, decision, when: [{ field: 'url', op: 'domain', value: spec.slice('domain:'.length) }] })
+    return
+  }
+  if (CLAUDE_PATH_TOOLS[tool]) {
+    pushUnique(draft.claude.toolRules, { pattern: tool, decision, when: [{ field: CLAUDE_PATH_TOOLS[tool], op: 'glob', value: claudePathGlob(spec) }] })
+    return
+  }
+  draft.unmapped.push({ filePath, entry, reason: `No Latch equivalent for ${tool}(…) specifiers` })
+}
+
+/** Read the permission lists of a Claude settings file. */
+function importClaudeSettings(draft: ImportDraft, filePath: string, text: string): void {
+  let settings: { permissions?: unknown; hooks?: unknown }
+  try {
+    settings = JSON.parse(text)
+  } catch (err: unknown) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` })
+    return
+  }
+  const hooks = JSON.stringify(settings?.hooks ?? {})
+  if (hooks.includes('latch-authz.sh')) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: 'Written by Latch for a session — skipped' })
+    return
+  }
+  const permissions = settings?.permissions
+  if (!permissions || typeof permissions !== 'object') return
+
+  for (const [key, value] of Object.entries(permissions as Record<string, unknown>)) {
+    const decision = CLAUDE_DECISIONS[key]
+    if (!decision) {
+      draft.unmapped.push({ filePath, entry: `${key}: ${JSON.stringify(value)}`, reason: 'Claude-only setting' })
+      continue
+    }
+    for (const entry of Array.isArray(value) ? value : []) {
+      if (typeof entry === 'string') importClaudeEntry(draft, filePath, entry, decision)
+    }
+  }
+}
+
+// ─── Codex ───────────────────────────────────────────────────────────────────
+
+type StarValue = string | boolean | null | StarValue[]
+
+interface StarCall {
+  name: string
+  args: Record<string, StarValue>
+  source: string
+}
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' }
+
+/** Value of a quoted Starlark string literal. */
+function unquote(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, (_m, c: string) => STRING_ESCAPES[c] ?? c)
+}
+
+/**
+ * Parse a Starlark rules file as a list of calls with keyword arguments —
+ * the subset Codex rules use. Throws on anything else.
+ */
+function parseStarlarkCalls(text: string): StarCall[] {
+  const tokens: { type: 'str' | 'name' | 'punct'; value: string; start: number; end: number }[] = []
+  const re = /\s+|#[^\n]*|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|([A-Za-z_][A-Za-z0-9_]*)|([()[\],=])/y
+  while (re.lastIndex < text.length) {
+    const start = re.lastIndex
+    const m = re.exec(text)
+    if (!m) throw new Error(`Unexpected character at offset ${start}: ${text.slice(start, start + 20)}`)
+    if (m[1]) tokens.push({ type: 'str', value: unquote(m[1]), start, end: re.lastIndex })
+    else if (m[2]) tokens.push({ type: 'name', value: m[2], start, end: re.lastIndex })
+    else if (m[3]) tokens.push({ type: 'punct', value: m[3], start, end: re.lastIndex })
+  }
+
+  let i = 0
+  const expect = (value: string) => {
+    if (tokens[i]?.value !== value || tokens[i].type === 'str') throw new Error(`Expected "${value}" at offset ${tokens[i]?.start ?? text.length}`)
+    i++
+  }
+  const parseValue = (): StarValue => {
+    const tok = tokens[i++]
+    if (!tok) throw new Error('Unexpected end of file')
+    if (tok.type === 'str') return tok.value
+    if (tok.type === 'name' && (tok.value === 'True' || tok.value === 'False')) return tok.value === 'True'
+    if (tok.type === 'name' && tok.value === 'None') return null
+    if (tok.value !== '[') throw new Error(`Unexpected "${tok.value}" at offset ${tok.start}`)
+    const items: StarValue[] = []
+    while (tokens[i]?.value !== ']') {
+      items.push(parseValue())
+      if (tokens[i]?.value === ',') i++
+      else if (tokens[i]?.value !== ']') throw new Error(`Expected "," or "]" at offset ${tokens[i]?.start ?? text.length}`)
+    }
+    i++
+    return items
+  }
+
+  const calls: StarCall[] = []
+  while (i < tokens.length) {
+    const head = tokens[i++]
+    if (head.type !== 'name') throw new Error(`Expected a call at offset ${head.start}`)
+    expect('(')
+    const args: Record<string, StarValue> = {}
+    while (tokens[i]?.value !== ')') {
+      const key = tokens[i++]
+      if (key?.type !== 'name') throw new Error(`Expected a keyword argument at offset ${key?.start ?? text.length}`)
+      expect('=')
+      args[key.value] = parseValue()
+      if (tokens[i]?.value === ',') i++
+      else if (tokens[i]?.value !== ')') throw new Error(`Expected "," or ")" at offset ${tokens[i]?.start ?? text.length}`)
+    }
+    const end = tokens[i++].end
+    calls.push({ name: head.value, args, source: text.slice(head.start, end).replace(/\s+/g, ' ') })
+  }
+  return calls
+}
+
+/** Regex for one `prefix_rule` pattern element: a word or a list of alternatives. */
+function codexPatternWord(element: StarValue): string | null {
+  if (typeof element === 'string' && element) return escapeRegex(element)
+  if (Array.isArray(element) && element.length && element.every((e) => typeof e === 'string' && e)) {
+    return `(${(element as string[]).map(escapeRegex).join('|')})`
+  }
+  return null
+}
+
+/** Read the `prefix_rule()` calls of a Codex rules file. */
+function importCodexRules(draft: ImportDraft, filePath: string, text: string): void {
+  if (text.includes(GENERATED_MARKER)) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: 'Written by Latch for a session — skipped' })
+    return
+  }
+  let calls: StarCall[]
+  try {
+    calls = parseStarlarkCalls(text)
+  } catch (err: unknown) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: `Could not parse: ${err instanceof Error ? err.message : String(err)}` })
+    return
+  }
+
+  for (const call of calls) {
+    if (call.name !== 'prefix_rule') {
+      draft.unmapped.push({ filePath, entry: call.source, reason: `Unsupported rule type ${call.name}()` })
+      continue
+    }
+    const { pattern, decision = 'allow', justification } = call.args
+    const words = Array.isArray(pattern) ? pattern.map(codexPatternWord) : []
+    const mapped = typeof decision === 'string' ? CODEX_DECISIONS[decision] : undefined
+    if (!words.length || words.includes(null) || !mapped) {
+      draft.unmapped.push({ filePath, entry: call.source, reason: mapped ? 'Unsupported pattern' : `Unknown decision ${JSON.stringify(decision)}` })
+      continue
+    }
+    // `match` / `not_match` are inline examples Codex checks the rule against, not rules.
+    pushUnique(draft.commandRules, {
+      pattern: prefixPattern(words as string[]),
+      decision: mapped,
+      reason: typeof justification === 'string' && justification ? justification : `Imported from Codex: ${call.source}`,
+    })
+  }
+}
+
+/** Read the approval and sandbox modes from a Codex config.toml. */
+function importCodexConfig(draft: ImportDraft, filePath: string, text: string): void {
+  if (text.includes(GENERATED_MARKER)) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: 'Written by Latch for a session — skipped' })
+    return
+  }
+  // Only top-level keys matter here, so stop at the first table header.
+  const topLevel = text.split(/^\s*\[/m)[0]
+  for (const [, key, value] of topLevel.matchAll(/^\s*(approval_policy|sandbox_mode)\s*=\s*["']([^"']*)["']/gm)) {
+    if (key === 'approval_policy' && CODEX_APPROVAL_MODES[value]) draft.codex.approvalMode = CODEX_APPROVAL_MODES[value]
+    else if (key === 'sandbox_mode' && CODEX_SANDBOX_MODES[value]) draft.codex.sandbox = CODEX_SANDBOX_MODES[value]
+    else draft.unmapped.push({ filePath, entry: `${key} = "${value}"`, reason: 'No matching Latch Codex mode' })
+  }
+}
+
+// ─── OpenCode ────────────────────────────────────────────────────────────────
+
+/** Read the `permission` and `tools` blocks of an opencode.json. */
+function importOpenCodeConfig(draft: ImportDraft, filePath: string, text: string): void {
+  let config: { permission?: unknown; tools?: unknown }
+  try {
+    config = JSON.parse(text)
+  } catch (err: unknown) {
+    draft.unmapped.push({ filePath, entry: '(file)', reason: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` })
+    return
+  }
+  const rules: ToolRule[] = []
+  const decisionOf = (entry: string, value: unknown): ToolRuleDecision | null => {
+    const decision = typeof value === 'string' ? OPENCODE_DECISIONS[value] : undefined
+    if (!decision) draft.unmapped.push({ filePath, entry: `${entry}: ${JSON.stringify(value)}`, reason: 'Unknown permission value' })
+    return decision ?? null
+  }
+
+  const permission = config?.permission
+  if (typeof permission === 'string') {
+    const decision = decisionOf('permission', permission)
+    if (decision) rules.push({ pattern: '*', decision })
+  } else if (permission && typeof permission === 'object') {
+    for (const [key, value] of Object.entries(permission as Record<string, unknown>)) {
+      if (value && typeof value === 'object') {
+        const field = OPENCODE_PATTERN_TOOLS[key]
+        for (const [glob, action] of Object.entries(value as Record<string, unknown>)) {
+          if (!field && glob !== '*') {
+            draft.unmapped.push({ filePath, entry: `permission.${key}["${glob}"]`, reason: `OpenCode "${key}" takes no patterns in Latch` })
+            continue
+          }
+          const decision = decisionOf(`permission.${key}["${glob}"]`, action)
+          if (!decision) continue
+          rules.push(glob === '*'
+            ? { pattern: key, decision }
+            : { pattern: key, decision, when: [{ field, op: 'glob', value: glob }] })
+        }
+        continue
+      }
+      const decision = decisionOf(`permission.${key}`, value)
+      if (decision) rules.push({ pattern: key, decision })
+    }
+  }
+
+  // `tools: { write: false }` switches a tool off entirely.
+  for (const [tool, enabled] of Object.entries((config?.tools ?? {}) as Record<string, unknown>)) {
+    if (enabled === false) rules.push({ pattern: tool, decision: 'deny' })
+  }
+
+  // A specific pattern beats the tool's wildcard, so rules with predicates go first.
+  rules.sort((a, b) => Number(!a.when) - Number(!b.when) || DECISION_RANK[a.decision] - DECISION_RANK[b.decision])
+  for (const rule of rules) pushUnique(draft.opencode.toolRules, rule)
+}
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+
+/** Latch permission switches and the tools each harness denies outright when it is off. */
+const PERMISSION_SWITCHES: { key: 'allowBash' | 'allowFileWrite' | 'allowNetwork'; claude: string[]; opencode: string[] }[] = [
+  { key: 'allowBash',      claude: ['Bash'],                 opencode: ['bash'] },
+  { key: 'allowFileWrite', claude: ['Write', 'Edit'],        opencode: ['edit'] },
+  { key: 'allowNetwork',   claude: ['WebFetch', 'WebSearch'], opencode: ['webfetch', 'websearch'] },
+]
+
+/**
+ * Turn blanket tool denies back into the permission switch the enforcer
+ * derives them from — but only when every harness that has rules agrees, so
+ * a Claude-only deny doesn't switch the tool off for OpenCode too.
+ */
+function foldPermissionSwitches(draft: ImportDraft): void {
+  const isBlanketDeny = (rule: ToolRule, tool: string) => rule.decision === 'deny' && !rule.when && rule.pattern === tool
+  const denies = (rules: ToolRule[], tools: string[]) => tools.every((tool) => rules.some((r) => isBlanketDeny(r, tool)))
+  const { claude, opencode } = draft
+
+  for (const sw of PERMISSION_SWITCHES) {
+    const claudeOff = denies(claude.toolRules, sw.claude)
+    const opencodeOff = denies(opencode.toolRules, sw.opencode)
+    if (!claudeOff && !opencodeOff) continue
+    if ((!claudeOff && claude.toolRules.length) || (!opencodeOff && opencode.toolRules.length)) continue
+
+    draft.permissions[sw.key] = false
+    claude.toolRules = claude.toolRules.filter((r) => !sw.claude.some((tool) => isBlanketDeny(r, tool)))
+    opencode.toolRules = opencode.toolRules.filter((r) => !sw.opencode.some((tool) => isBlanketDeny(r, tool)))
+  }
+}
+
+/** Build a policy from already-read native config files. */
+export function importNativeConfigs(
+  files: NativeConfigFile[],
+  meta: { id: string; name: string },
+): { policy: PolicyDocument; unmapped: NativeImportIssue[] } {
+  const draft = emptyDraft()
+  for (const file of files) {
+    if (file.kind === 'claude') importClaudeSettings(draft, file.filePath, file.text)
+    else if (file.kind === 'codex-rules') importCodexRules(draft, file.filePath, file.text)
+    else if (file.kind === 'codex-config') importCodexConfig(draft, file.filePath, file.text)
+    else importOpenCodeConfig(draft, file.filePath, file.text)
+  }
+  foldPermissionSwitches(draft)
+
+  // Claude resolves deny before ask before allow regardless of order; first-match needs the same order.
+  const byDecision = <T extends { decision: ToolRuleDecision }>(rules: T[]) =>
+    [...rules].sort((a, b) => DECISION_RANK[a.decision] - DECISION_RANK[b.decision])
+  const commandRules = byDecision(draft.commandRules)
+  const claudeRules = byDecision(draft.claude.toolRules)
+  const mcpServerRules = byDecision(draft.claude.mcpServerRules)
+
+  const harnesses: PolicyDocument['harnesses'] = {}
+  if (claudeRules.length || mcpServerRules.length) {
+    harnesses.claude = {
+      ...(claudeRules.length ? { toolRules: claudeRules } : {}),
+      ...(mcpServerRules.length ? { mcpServerRules } : {}),
+    }
+  }
+  if (Object.keys(draft.codex).length) harnesses.codex = draft.codex
+  if (draft.opencode.toolRules.length) harnesses.opencode = { toolRules: draft.opencode.toolRules }
+
+  const sources = [...new Set(files.map((f) => path.basename(f.filePath)))].join(', ')
+  const unmapped = draft.unmapped.length ? ` ${draft.unmapped.length} entr${draft.unmapped.length === 1 ? 'y' : 'ies'} could not be mapped.` : ''
+  const policy: PolicyDocument = {
+    id: meta.id,
+    name: meta.name,
+    description: `Imported from ${sources || 'no harness config'}.${unmapped}`,
+    permissions: {
+      ...draft.permissions,
+      confirmDestructive: true,
+      blockedGlobs: [],
+      // Imported denies go ahead of the defaults; imported allows can't bypass them.
+      ...(commandRules.length ? {
+        commandRules: [
+          ...commandRules.filter((r) => r.decision === 'deny'),
+          ...DEFAULT_COMMAND_RULES,
+          ...commandRules.filter((r) => r.decision !== 'deny'),
+        ],
+      } : {}),
+    },
+    harnesses,
+  }
+  return { policy, unmapped: draft.unmapped }
+}
+
+/** Native config files present in a directory, in import order. */
+export function findNativeConfigs(dir: string): NativeConfigFile[] {
+  const candidates: { kind: NativeConfigKind; filePath: string }[] = [
+    { kind: 'claude', filePath: path.join(dir, '.claude', 'settings.json') },
+    { kind: 'claude', filePath: path.join(dir, '.claude', 'settings.local.json') },
+    { kind: 'codex-config', filePath: path.join(dir, '.codex', 'config.toml') },
+  ]
+  try {
+    const rulesDir = path.join(dir, '.codex', 'rules')
+    for (const name of fs.readdirSync(rulesDir).filter((n) => n.endsWith('.rules')).sort()) {
+      candidates.push({ kind: 'codex-rules', filePath: path.join(rulesDir, name) })
+    }
+  } catch { /* no rules directory */ }
+  candidates.push({ kind: 'opencode', filePath: path.join(dir, 'opencode.json') })
+
+  const files: NativeConfigFile[] = []
+  for (const candidate of candidates) {
+    try {
+      files.push({ ...candidate, text: fs.readFileSync(candidate.filePath, 'utf-8') })
+    } catch { /* not present */ }
+  }
+  return files
+}
+
+/** Stable policy id for the config imported from a directory. */
+export function importedPolicyId(dir: string): string {
+  return `imported-${createHash('sha256').update(path.resolve(dir)).digest('hex').slice(0, 12)}`
+}
+
+/** Import every native harness config found in a directory. */
+export function importNativePolicy(
+  dir: string,
+): { ok: true; policy: PolicyDocument; sources: string[]; unmapped: NativeImportIssue[] } | { ok: false; error: string } {
+  const root = path.resolve(dir)
+  const files = findNativeConfigs(root)
+  if (!files.length) {
+    return { ok: false, error: `No Claude, Codex or OpenCode permission config found in ${root}.` }
+  }
+  const { policy, unmapped } = importNativeConfigs(files, { id: importedPolicyId(root), name: `${path.basename(root)} (imported)` })
+  return { ok: true, policy, sources: files.map((f) => f.filePath), unmapped }
+}
@@ -0,0 +1,256 @@
+/**
+ * @module policy-learner
+ * @description Derives a least-privilege policy from what sessions actually did.
+ *
+ * Learn mode runs offline over recorded history: the tool calls a session was
+ * allowed to make (ActivityStore) and the domains its traffic reached (proxy
+ * audit log). The learned policy allows exactly that shape of work and turns
+ * everything else into a prompt rather than a deny, so the first run under it
+ * surfaces deviations instead of breaking the session:
+ *  - tools that were used are allowed, per harness
+ *  - file writes are allowed under the directories that were written, as
+ *    globs relative to the workspace so the policy carries over to other
+ *    worktrees of the same repo
+ *  - fetch-style tools are allowed for the domains that were contacted
+ *  - shell commands are allowed by prefix (`npm test`, `git status`), after
+ *    the default command rules so destructive variants still prompt or deny
+ *  - a trailing `*` rule and a catch-all command rule prompt for the rest
+ *
+ * Denied calls are never learned. The output depends only on the inputs —
+ * no model, no network — so learning twice from the same sessions yields
+ * the same policy.
+ */
+
+import { createHash } from 'node:crypto'
+import path from 'node:path'
+import type {
+  ActivityEvent,
+  CommandRule,
+  HarnessesConfig,
+  PolicyDocument,
+  PolicyLearnSummary,
+  ProxyAuditEvent,
+  ToolRule,
+} from '../../types'
+import { DEFAULT_COMMAND_RULES } from './authz-server'
+import { splitShellCommand } from '../lib/shell-parse'
+import { extractDomain } from '../lib/tool-predicates'
+
+export interface LearnInput {
+  sessionIds: string[]
+  /** Recorded tool calls, with their inputs (ActivityStore.listForReplay). */
+  events: ActivityEvent[]
+  /** Proxy audit events for the same sessions. */
+  audit: ProxyAuditEvent[]
+  /** Workspace root per session id, used to make written paths relative. */
+  workspaceRoots?: Record<string, string | null>
+  name?: string
+}
+
+const HARNESS_KEYS: (keyof HarnessesConfig)[] = ['claude', 'codex', 'openclaw', 'opencode', 'droid', 'gemini']
+
+/** Tools (normalized) whose `command` input is evaluated against command rules. */
+const SHELL_TOOL_KEYS = new Set(['bash', 'exec', 'execute', 'runshellcommand'])
+
+/** Input fields naming the file a write tool changes, in lookup order. */
+const WRITE_PATH_FIELDS = ['file_path', 'filePath', 'notebook_path', 'path']
+
+/** Commands whose first argument is a subcommand worth keeping in the prefix. */
+const SUBCOMMAND_TOOLS = new Set([
+  'apt', 'apt-get', 'aws', 'brew', 'bun', 'cargo', 'docker', 'dotnet', 'gcloud', 'gh', 'git',
+  'go', 'helm', 'kubectl', 'make', 'npm', 'npx', 'pip', 'pip3', 'pnpm', 'poetry', 'terraform', 'uv', 'yarn',
+])
+
+const SUBCOMMAND = /^[a-z][a-z0-9:_-]*$/i
+
+const NOT_OBSERVED = 'Not observed while learning'
+
+function toolKey(toolName: string): string {
+  return toolName.toLowerCase().replace(/_/g, '')
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** The command prefix a shell segment is learned as: the program, plus its subcommand for tools like git. */
+export function commandPrefix(segmentText: string): string | null {
+  const words = segmentText.split(' ').filter(Boolean)
+  if (!words.length) return null
+  const [program, sub] = words
+  return SUBCOMMAND_TOOLS.has(path.basename(program)) && sub && SUBCOMMAND.test(sub) ? `${program} ${sub}` : program
+}
+
+function prefixRule(prefix: string): CommandRule {
+  const pattern = `^${prefix.split(' ').map(escapeRegex).join('\\s+')}(\\s|$)`
+  return { pattern, decision: 'allow', reason: 'Observed while learning' }
+}
+
+/**
+ * Glob covering a written file's directory (and everything below it). Inside
+ * the workspace it is anchored on the relative directory only; files at the
+ * workspace root are allowed by name.
+ */
+function writeGlob(filePath: string, workspaceRoot: string | null | undefined): string {
+  if (workspaceRoot && path.isAbsolute(filePath)) {
+    const rel = path.relative(workspaceRoot, filePath)
+    if (rel && !rel.startsWith('..') && !path.isAbsolute(rel)) {
+      const dir = path.dirname(rel)
+      return dir === '.' ? `*/${rel}` : `*/${dir}/*`
+    }
+  }
+  return `${path.dirname(filePath)}/*`
+}
+
+/** Drop globs already covered by a broader directory glob in the set. */
+function collapseGlobs(globs: Set<string>): string[] {
+  const dirs = [...globs].filter((g) => g.endsWith('/*')).map((g) => g.slice(0, -1))
+  return [...globs]
+    .filter((g) => !dirs.some((dir) => g !== `${dir}*` && g.startsWith(dir)))
+    .sort()
+}
+
+interface HarnessObservations {
+  /** Tools allowed outright. */
+  tools: Set<string>
+  /** Write tool → path field → globs. */
+  writes: Map<string, Map<string, Set<string>>>
+  /** Fetch-style tools (a `url` input) → domains. */
+  fetches: Map<string, Set<string>>
+}
+
+function observations(): HarnessObservations {
+  return { tools: new Set(), writes: new Map(), fetches: new Map() }
+}
+
+function addTo<K, V>(map: Map<K, Set<V>>, key: K, value: V): void {
+  const set = map.get(key) ?? new Set<V>()
+  set.add(value)
+  map.set(key, set)
+}
+
+/** Stable id for a policy learned from a set of sessions. */
+export function learnedPolicyId(sessionIds: string[]): string {
+  return `learned-${createHash('sha256').update([...sessionIds].sort().join('\n')).digest('hex').slice(0, 12)}`
+}
+
+/** Learn a policy from recorded tool calls and proxy traffic. */
+export function learnPolicy(input: LearnInput): { policy: PolicyDocument; summary: PolicyLearnSummary } {
+  const byHarness = new Map<keyof HarnessesConfig, HarnessObservations>()
+  const prefixes = new Set<string>()
+  const writePaths = new Set<string>()
+  const domains = new Set<string>()
+  let learned = 0
+  let skipped = 0
+
+  for (const event of input.events) {
+    if (event.toolName.startsWith('_')) continue
+    const harness = event.harnessId as keyof HarnessesConfig
+    if (event.decision !== 'allow' || !event.toolInput || !HARNESS_KEYS.includes(harness)) {
+      skipped++
+      continue
+    }
+    learned++
+    const obs = byHarness.get(harness) ?? observations()
+    byHarness.set(harness, obs)
+    const toolInput = event.toolInput
+    const key = toolKey(event.toolName)
+
+    if (SHELL_TOOL_KEYS.has(key) && typeof toolInput.command === 'string') {
+      obs.tools.add(event.toolName)
+      for (const segment of splitShellCommand(toolInput.command)) {
+        const prefix = commandPrefix(segment.text)
+        if (prefix) prefixes.add(prefix)
+      }
+      continue
+    }
+
+    const pathField = event.actionClass === 'write'
+      ? WRITE_PATH_FIELDS.find((f) => typeof toolInput[f] === 'string' && toolInput[f] !== '')
+      : undefined
+    if (pathField) {
+      const glob = writeGlob(String(toolInput[pathField]), input.workspaceRoots?.[event.sessionId])
+      writePaths.add(glob)
+      const fields = obs.writes.get(event.toolName) ?? new Map<string, Set<string>>()
+      addTo(fields, pathField, glob)
+      obs.writes.set(event.toolName, fields)
+      continue
+    }
+
+    const domain = typeof toolInput.url === 'string' ? extractDomain(toolInput.url) : null
+    if (domain) {
+      domains.add(domain)
+      addTo(obs.fetches, event.toolName, domain)
+      continue
+    }
+
+    obs.tools.add(event.toolName)
+  }
+
+  // Traffic that went through the proxy counts as contacted for every fetch tool.
+  for (const entry of input.audit) {
+    if (entry.decision === 'allow' && entry.domain) domains.add(entry.domain.toLowerCase())
+  }
+
+  const harnesses: HarnessesConfig = {}
+  for (const key of HARNESS_KEYS) {
+    const obs = byHarness.get(key) ?? observations()
+    const toolRules: ToolRule[] = []
+    for (const [toolName, fields] of [...obs.writes].sort(([a], [b]) => a.localeCompare(b))) {
+      if (obs.tools.has(toolName)) continue
+      for (const [field, globs] of [...fields].sort(([a], [b]) => a.localeCompare(b))) {
+        for (const glob of collapseGlobs(globs)) {
+          toolRules.push({ pattern: toolName, decision: 'allow', when: [{ field, op: 'glob', value: glob }] })
+        }
+      }
+    }
+    for (const toolName of [...obs.fetches.keys()].sort()) {
+      if (obs.tools.has(toolName)) continue
+      for (const domain of [...domains].sort()) {
+        toolRules.push({ pattern: toolName, decision: 'allow', when: [{ field: 'url', op: 'domain', value: domain }] })
+      }
+    }
+    for (const toolName of [...obs.tools].sort()) {
+      toolRules.push({ pattern: toolName, decision: 'allow' })
+    }
+    toolRules.push({ pattern: '*', decision: 'prompt', reason: NOT_OBSERVED })
+    ;(harnesses as Record<string, unknown>)[key] = { toolRules }
+  }
+
+  const commandRules: CommandRule[] = [
+    ...DEFAULT_COMMAND_RULES,
+    ...[...prefixes].sort().map(prefixRule),
+    { pattern: '.*', decision: 'prompt', reason: NOT_OBSERVED },
+  ]
+
+  const tools = [...new Set([...byHarness.values()].flatMap((o) => [...o.tools, ...o.writes.keys(), ...o.fetches.keys()]))].sort()
+  const mcpServers = [...new Set(tools.filter((t) => t.startsWith('mcp__')).map((t) => t.split('__')[1]).filter(Boolean))].sort()
+  const summary: PolicyLearnSummary = {
+    sessionIds: [...input.sessionIds],
+    events: learned,
+    skipped,
+    tools,
+    mcpServers,
+    commandPrefixes: [...prefixes].sort(),
+    writePaths: collapseGlobs(writePaths),
+    domains: [...domains].sort(),
+  }
+
+  const sessions = input.sessionIds.length === 1 ? '1 session' : `${input.sessionIds.length} sessions`
+  const policy: PolicyDocument = {
+    id: learnedPolicyId(input.sessionIds),
+    name: input.name ?? `Learned from ${sessions}`,
+    description: `Learned from ${sessions} (${learned} tool calls). Anything not observed prompts for approval.`,
+    permissions: {
+      allowBash: true,
+      allowNetwork: true,
+      allowFileWrite: true,
+      // The learned allow rules are the approval; unobserved calls prompt via the catch-alls.
+      confirmDestructive: false,
+      blockedGlobs: [],
+      commandRules,
+    },
+    harnesses,
+  }
+  return { policy, summary }
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+import { simulatePolicy, parseSessionPolicies, type SimulationSession } from './policy-simulator'
+import type { ActivityEvent, PolicyDocument } from '../../types'
+
+function makePolicy(overrides: Partial<PolicyDocument> = {}, perms: Partial<PolicyDocument['permissions']> = {}): PolicyDocument {
+  return {
+    id: 'strict',
+    name: 'Strict',
+    description: '',
+    permissions: {
+      allowBash: true,
+      allowNetwork: true,
+      allowFileWrite: true,
+      confirmDestructive: false,
+      blockedGlobs: [],
+      commandRules: [],
+      ...perms,
+    },
+    harnesses: {},
+    ...overrides,
+  }
+}
+
+let seq = 0
+function makeEvent(overrides: Partial<ActivityEvent> = {}): ActivityEvent {
+  return {
+    id: `evt-${++seq}`,
+    sessionId: 'session-1',
+    timestamp: new Date().toISOString(),
+    toolName: 'Bash',
+    actionClass: 'execute',
+    risk: 'high',
+    decision: 'allow',
+    reason: null,
+    harnessId: 'claude',
+    toolInput: { command: 'ls' },
+    ...overrides,
+  }
+}
+
+function run(draft: PolicyDocument, events: ActivityEvent[], opts: {
+  baseline?: PolicyDocument | null
+  sessions?: Record<string, SimulationSession>
+} = {}) {
+  const baseline = opts.baseline === undefined ? makePolicy() : opts.baseline
+  return simulatePolicy({
+    draft,
+    baseline,
+    policies: baseline ? [baseline] : [],
+    sessions: new Map(Object.entries(opts.sessions ?? { 'session-1': { policyIds: ['strict'], policyOverride: null } })),
+    events,
+    confirmDestructivePrompts: false,
+  })
+}
+
+describe('simulatePolicy', () => {
+  it('reports no changes when the draft matches the baseline', () => {
+    const result = run(makePolicy(), [makeEvent()])
+    expect(result.evaluated).toBe(1)
+    expect(result.changed).toBe(0)
+    expect(result.groups).toEqual([])
+  })
+
+  it('groups changed decisions by the rule responsible', () => {
+    const draft = makePolicy({}, {
+      commandRules: [{ pattern: '^rm\\b', decision: 'deny' }, { pattern: '^curl', decision: 'prompt' }],
+    })
+    const result = run(draft, [
+      makeEvent({ toolInput: { command: 'rm -rf build' } }),
+      makeEvent({ toolInput: { command: 'rm foo' } }),
+      makeEvent({ toolInput: { command: 'curl example.com' } }),
+      makeEvent({ toolInput: { command: 'ls' } }),
+    ])
+
+    expect(result.changed).toBe(3)
+    expect(result.transitions).toEqual({ 'allow→deny': 2, 'allow→prompt': 1 })
+    expect(result.groups.map((g) => [g.rule, g.changes.length])).toEqual([
+      ['Command rule: ^rm\\b', 2],
+      ['Command rule: ^curl', 1],
+    ])
+    expect(result.groups[0].changes[0].detail).toBe('rm -rf build')
+  })
+
+  it('attributes loosened decisions to the removed rule', () => {
+    const baseline = makePolicy({}, { allowFileWrite: false })
+    const result = run(makePolicy(), [
+      makeEvent({ toolName: 'Write', actionClass: 'write', toolInput: { file_path: '/tmp/a' } }),
+    ], { baseline })
+    expect(result.transitions).toEqual({ 'deny→allow': 1 })
+    expect(result.groups[0].rule).toBe('Permission: allowFileWrite')
+  })
+
+  it('only replays sessions that use the policy', () => {
+    const draft = makePolicy({}, { allowBash: false })
+    const result = run(draft, [
+      makeEvent({ sessionId: 'session-1' }),
+      makeEvent({ sessionId: 'session-2' }),
+    ], {
+      sessions: {
+        'session-1': { policyIds: ['strict'], policyOverride: null },
+        'session-2': { policyIds: ['other'], policyOverride: null },
+      },
+    })
+    expect(result.scope).toBe('sessions-using-policy')
+    expect(result.evaluated).toBe(1)
+    expect(result.changed).toBe(1)
+  })
+
+  it('replays all activity for a policy no session has used', () => {
+    const draft = makePolicy({ id: 'new-policy' }, { allowBash: false })
+    const result = run(draft, [makeEvent({ sessionId: 'session-1' }), makeEvent({ sessionId: 'gone' })], {
+      baseline: null,
+      sessions: { 'session-1': { policyIds: [], policyOverride: null } },
+    })
+    expect(result.scope).toBe('all-activity')
+    expect(result.changed).toBe(2)
+  })
+
+  it('skips events without recorded input and synthetic events', () => {
+    const result = run(makePolicy(), [
+      makeEvent({ toolInput: null }),
+      makeEvent({ toolName: '_codex:agent-turn-complete' }),
+    ])
+    expect(result.skipped).toBe(1)
+    expect(result.evaluated).toBe(0)
+  })
+
+  it('applies confirmDestructive prompts only when requested', () => {
+    const draft = makePolicy({}, { confirmDestructive: true })
+    const events = [makeEvent()]
+    expect(run(draft, events).changed).toBe(0)
+
+    const result = simulatePolicy({
+      draft,
+      baseline: makePolicy(),
+      policies: [makePolicy()],
+      sessions: new Map([['session-1', { policyIds: ['strict'], policyOverride: null }]]),
+      events,
+      confirmDestructivePrompts: true,
+    })
+    expect(result.transitions).toEqual({ 'allow→prompt': 1 })
+    expect(result.groups[0].rule).toBe('Permission: confirmDestructive')
+  })
+
+  it('classifies MCP tools with the current overrides', () => {
+    const draft = makePolicy({}, { allowNetwork: false })
+    const events = [makeEvent({ toolName: 'mcp__docs__lookup', actionClass: 'read', toolInput: { query: 'x' } })]
+    expect(run(draft, events).changed).toBe(0)
+
+    const result = simulatePolicy({
+      draft,
+      baseline: makePolicy(),
+      policies: [makePolicy()],
+      sessions: new Map([['session-1', { policyIds: ['strict'], policyOverride: null }]]),
+      events,
+      confirmDestructivePrompts: false,
+      classifications: { mcp__docs__lookup: { actionClass: 'send', risk: 'medium' } },
+    })
+    expect(result.transitions).toEqual({ 'allow→deny': 1 })
+    expect(result.groups[0].rule).toBe('Permission: allowNetwork')
+  })
+})
+
+describe('parseSessionPolicies', () => {
+  it('parses JSON arrays, bare ids and overrides', () => {
+    expect(parseSessionPolicies({ policy_set: '["a","b"]' }).policyIds).toEqual(['a', 'b'])
+    expect(parseSessionPolicies({ policy_set: 'a' }).policyIds).toEqual(['a'])
+    expect(parseSessionPolicies({ policy_set: null }).policyIds).toEqual([])
+    expect(parseSessionPolicies({ policy_override: '{"id":"o"}' }).policyOverride).toEqual({ id: 'o' })
+    expect(parseSessionPolicies({ policy_override: '{bad' }).policyOverride).toBeNull()
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * @module policy-simulator
+ * @description Dry-run a draft policy against recorded tool calls.
+ *
+ * Each replayable ActivityStore event is evaluated twice through the same
+ * resolution path the authz server uses (resolveSessionPolicy →
+ * authorizeToolCall): once with the baseline version of the policy in the
+ * session's policy stack, once with the draft in its place. Calls whose
+ * decision differs are reported, grouped by the rule responsible.
+ *
+ * The LLM evaluator and approval grants are not consulted, so a simulation
+ * is deterministic and never touches the network.
+ */
+
+import type {
+  ActivityEvent,
+  AuthzRuleMatch,
+  PolicyDocument,
+  PolicySimulationChange,
+  PolicySimulationGroup,
+  PolicySimulationResult,
+  SimulatedDecision,
+} from '../../types'
+import { authorizeToolCall, resolveSessionPolicy } from './authz-server'
+import { CompiledRegexSet } from '../lib/safe-regex'
+import { classifyTool, type ToolClassificationMap } from '../lib/tool-classification'
+
+export interface SimulationSession {
+  policyIds: string[]
+  policyOverride: PolicyDocument | null
+  /** Worktree or project dir, for resolving relative write scopes. */
+  workspaceRoot?: string | null
+}
+
+export interface SimulationInput {
+  draft: PolicyDocument
+  /** Version of the policy to compare against; null when the policy is new. */
+  baseline: PolicyDocument | null
+  /** All stored policies. Entries with the draft's id are replaced. */
+  policies: PolicyDocument[]
+  /** Policy stack per session id, as recorded in SessionStore. */
+  sessions: Map<string, SimulationSession>
+  /** Recorded events, including tool inputs (ActivityStore.listForReplay). */
+  events: ActivityEvent[]
+  /** True when confirmDestructive escalates execute/write calls (auto-accept off). */
+  confirmDestructivePrompts: boolean
+  /** MCP tool classification overrides the authz server currently applies. */
+  classifications?: ToolClassificationMap
+}
+
+const DECISION_RANK: Record<SimulatedDecision, number> = { allow: 0, prompt: 1, deny: 2 }
+
+/** Parse a SessionStore row's policy columns into a simulation stack. */
+export function parseSessionPolicies(row: Record<string, any>): SimulationSession {
+  let policyIds: string[] = []
+  try {
+    const v = row.policy_set
+    if (v) policyIds = String(v).startsWith('[') ? JSON.parse(v) : [v]
+  } catch { /* corrupt — treat as no policies */ }
+
+  let policyOverride: PolicyDocument | null = null
+  try {
+    if (row.policy_override) policyOverride = JSON.parse(row.policy_override)
+  } catch { /* corrupt — ignore override */ }
+
+  return { policyIds, policyOverride, workspaceRoot: row.worktree_path || row.project_dir || null }
+}
+
+/** Human-readable label for the rule that produced a decision. */
+export function describeRuleMatch(match: AuthzRuleMatch | null): string {
+  if (!match) return 'Default (no rule matched)'
+  switch (match.kind) {
+    case 'permission':    return `Permission: ${match.key}`
+    case 'toolRule':      return `Tool rule: ${match.key}`
+    case 'mcpServerRule': return `MCP server rule: ${match.key}`
+    case 'toolList':      return `Legacy tool list: ${match.key}`
+    case 'blockedGlob':   return `Blocked path: ${match.key}`
+    case 'commandRule':   return `Command rule: ${match.key}`
+  }
+}
+
+/** Short summary of a tool input for display. */
+function inputDetail(toolInput: Record<string, unknown>): string {
+  const value = toolInput.command ?? toolInput.file_path ?? toolInput.path ?? toolInput.url ?? ''
+  const str = typeof value === 'string' ? value : ''
+  return str.length > 80 ? str.slice(0, 77) + '...' : str
+}
+
+/** Evaluate one recorded call against an effective policy, mirroring the authz server. */
+function decide(
+  event: ActivityEvent,
+  effective: PolicyDocument,
+  confirmDestructivePrompts: boolean,
+  workspaceRoot: string | null | undefined,
+  classifications: ToolClassificationMap | undefined,
+  regex: CompiledRegexSet,
+): { decision: SimulatedDecision; reason: string | null; match: AuthzRuleMatch | null } {
+  const result = authorizeToolCall(event.toolName, event.toolInput ?? {}, effective, event.harnessId, { workspaceRoot, classifications }, regex)
+  const match = result.match ?? null
+  if (result.decision === 'deny') return { decision: 'deny', reason: result.reason, match }
+  if (result.needsPrompt) return { decision: 'prompt', reason: result.reason, match }
+  const { actionClass } = classifyTool(event.toolName, classifications)
+  if (confirmDestructivePrompts && effective.permissions.confirmDestructive
+    && (actionClass === 'execute' || actionClass === 'write')) {
+    return {
+      decision: 'prompt',
+      reason: 'Destructive operation — confirm before proceeding.',
+      match: { kind: 'permission', key: 'confirmDestructive' },
+    }
+  }
+  return { decision: 'allow', reason: result.reason, match }
+}
+
+/** Replay recorded activity against a draft policy and report changed decisions. */
+export function simulatePolicy(input: SimulationInput): PolicySimulationResult {
+  const { draft, baseline, sessions, events, confirmDestructivePrompts, classifications } = input
+  const others = input.policies.filter((p) => p.id !== draft.id)
+  const noSession: SimulationSession = { policyIds: [], policyOverride: null }
+
+  // Only sessions that used this policy are affected by editing it. A new or
+  // unused policy is instead replayed as if it had been added to every session.
+  const sessionOf = (e: ActivityEvent) => sessions.get(e.sessionId) ?? noSession
+  const scope = events.some((e) => sessionOf(e).policyIds.includes(draft.id))
+    ? 'sessions-using-policy' as const
+    : 'all-activity' as const
+
+  let evaluated = 0
+  let skipped = 0
+  const transitions: Record<string, number> = {}
+  const groups = new Map<string, PolicySimulationGroup>()
+  // The same rules are tested against every event — compile each pattern once.
+  const regex = new CompiledRegexSet()
+
+  for (const event of events) {
+    // Synthetic events (e.g. `_codex:agent-turn-complete`) are not tool calls.
+    if (event.toolName.startsWith('_')) continue
+
+    const session = sessionOf(event)
+    const usesPolicy = session.policyIds.includes(draft.id)
+    if (scope === 'sessions-using-policy' && !usesPolicy) continue
+    if (!event.toolInput) { skipped++; continue }
+    evaluated++
+
+    const withPolicy = usesPolicy ? session.policyIds : [...session.policyIds, draft.id]
+    const before = baseline
+      ? resolveSessionPolicy([...others, baseline], withPolicy, event.harnessId, session.policyOverride)
+      : resolveSessionPolicy(others, session.policyIds, event.harnessId, session.policyOverride)
+    const after = resolveSessionPolicy([...others, draft], withPolicy, event.harnessId, session.policyOverride)
+
+    const prev = decide(event, before, confirmDestructivePrompts, session.workspaceRoot, classifications, regex)
+    const next = decide(event, after, confirmDestructivePrompts, session.workspaceRoot, classifications, regex)
+    if (prev.decision === next.decision) continue
+
+    const transition = `${prev.decision}→${next.decision}`
+    transitions[transition] = (transitions[transition] ?? 0) + 1
+
+    // Attribute the change to the rule on the stricter side — the rule that
+    // now blocks the call, or the rule whose removal unblocked it.
+    const tighter = DECISION_RANK[next.decision] > DECISION_RANK[prev.decision]
+    const match = tighter ? next.match : prev.match
+    const key = match ? `${match.kind}:${match.key}` : 'default'
+
+    let group = groups.get(key)
+    if (!group) {
+      group = { rule: describeRuleMatch(match), match, changes: [] }
+      groups.set(key, group)
+    }
+    const change: PolicySimulationChange = {
+      eventId: event.id,
+      sessionId: event.sessionId,
+      timestamp: event.timestamp,
+      toolName: event.toolName,
+      harnessId: event.harnessId,
+      detail: inputDetail(event.toolInput),
+      before: prev.decision,
+      after: next.decision,
+      reason: tighter ? next.reason : prev.reason,
+    }
+    group.changes.push(change)
+  }
+
+  const sorted = [...groups.values()].sort((a, b) => b.changes.length - a.changes.length)
+  return {
+    policyId: draft.id,
+    scope,
+    evaluated,
+    skipped,
+    changed: sorted.reduce((n, g) => n + g.changes.length, 0),
+    transitions,
+    groups: sorted,
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { runPolicyTests } from './policy-tests'
+import type { PolicyDocument } from '../../types'
+
+function makePolicy(overrides: Partial<PolicyDocument> = {}): PolicyDocument {
+  return {
+    id: 'strict',
+    name: 'Strict',
+    description: '',
+    permissions: {
+      allowBash: true,
+      allowNetwork: true,
+      allowFileWrite: true,
+      confirmDestructive: true,
+      blockedGlobs: ['**/.env'],
+      commandRules: [{ pattern: 'git\\s+push\\s+.*--force', decision: 'prompt' }],
+    },
+    harnesses: { claude: { toolRules: [{ pattern: 'WebSearch', decision: 'deny' }] } },
+    ...overrides,
+  }
+}
+
+describe('runPolicyTests', () => {
+  it('passes cases whose decision matches', () => {
+    const policy = makePolicy({
+      tests: [
+        { name: 'force push prompts', harness: 'claude', toolName: 'Bash', toolInput: { command: 'git push origin main --force' }, expect: 'prompt' },
+        { harness: 'claude', toolName: 'WebSearch', toolInput: { query: 'x' }, expect: 'deny' },
+        { harness: 'claude', toolName: 'Read', toolInput: { file_path: '/repo/README.md' }, expect: 'allow' },
+      ],
+    })
+    const result = runPolicyTests(policy, [])
+    expect(result.ok && result.run).toMatchObject({ policyId: 'strict', passed: 3, failed: 0 })
+  })
+
+  it('reports the rule behind a failing case', () => {
+    const policy = makePolicy({
+      tests: [{ harness: 'claude', toolName: 'Read', toolInput: { file_path: '/repo/.env' }, expect: 'allow' }],
+    })
+    const result = runPolicyTests(policy, [])
+    expect(result.ok && result.run.failed).toBe(1)
+    expect(result.ok && result.run.results[0]).toMatchObject({
+      index: 0,
+      expected: 'allow',
+      actual: 'deny',
+      rule: 'Blocked path: **/.env',
+      passed: false,
+    })
+  })
+
+  it('evaluates the policy with its bases flattened in', () => {
+    const base = makePolicy({ id: 'base', name: 'Base' })
+    const child = makePolicy({
+      id: 'child',
+      extends: ['base'],
+      permissions: { allowBash: true, allowNetwork: true, allowFileWrite: true, confirmDestructive: false, blockedGlobs: [] },
+      harnesses: {},
+      tests: [{ harness: 'claude', toolName: 'WebSearch', toolInput: {}, expect: 'deny' }],
+    })
+    expect(runPolicyTests(child, [base])).toMatchObject({ ok: true, run: { passed: 1 } })
+    expect(runPolicyTests(child, []).ok).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * @module policy-tests
+ * @description Runs the test cases embedded in a policy (`tests`).
+ *
+ * Each case is a tool call with the decision the policy must reach for it.
+ * Cases are decided by authorizeToolCall against the policy on its own —
+ * flattened, but not stacked with other policies or a session override —
+ * so they pin down what the policy's rules do. Like the simulator, the LLM
+ * evaluator, approval grants and confirmDestructive are not consulted.
+ */
+
+import type { PolicyDocument, PolicyTestResult, PolicyTestRun, SimulatedDecision } from '../../types'
+import { authorizeToolCall } from './authz-server'
+import { describeRuleMatch } from './policy-simulator'
+import { flattenPolicyIn } from '../lib/policy-inheritance'
+import { CompiledRegexSet } from '../lib/safe-regex'
+
+/** Run a policy's test cases. `policies` supplies the bases it extends. */
+export function runPolicyTests(
+  policy: PolicyDocument,
+  policies: PolicyDocument[],
+): { ok: true; run: PolicyTestRun } | { ok: false; error: string } {
+  const flattened = flattenPolicyIn(policy, policies)
+  if (!flattened.ok) return flattened
+
+  const regex = new CompiledRegexSet()
+  const results: PolicyTestResult[] = (policy.tests ?? []).map((test, index) => {
+    const result = authorizeToolCall(
+      test.toolName,
+      test.toolInput ?? {},
+      flattened.policy,
+      test.harness,
+      { workspaceRoot: test.workspaceRoot },
+      regex,
+    )
+    const actual: SimulatedDecision = result.decision === 'deny' ? 'deny' : result.needsPrompt ? 'prompt' : 'allow'
+    return {
+      index,
+      name: test.name,
+      harness: test.harness,
+      toolName: test.toolName,
+      expected: test.expect,
+      actual,
+      rule: describeRuleMatch(result.match ?? null),
+      reason: result.reason,
+      passed: actual === test.expect,
+    }
+  })
+
+  const passed = results.filter((r) => r.passed).length
+  return { ok: true, run: { policyId: policy.id, passed, failed: results.length - passed, results } }
+}
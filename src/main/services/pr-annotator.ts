@@ -38,7 +38,7 @@ export function formatReceiptComment(receipt: SessionReceipt): string {
 
   return `## Latch Attestation
 
-This PR was created under Latch policy **\`${receipt.policy.id}\`**, tier **\`${receipt.policy.maxDataTier}\`**.
+This PR was created under Latch policy **\`${receipt.policy.id}\`**${receipt.policy.revision !== undefined ? ` (revision ${receipt.policy.revision})` : ''}, tier **\`${receipt.policy.maxDataTier}\`**.
 
 | Metric | Value |
 |--------|-------|
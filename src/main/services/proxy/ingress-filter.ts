@@ -3,8 +3,9 @@
  * @description Content-type-aware response body scanning and tokenization.
  *
  * Scans HTTP response bodies for sensitive patterns defined by the originating
- * service. Text and JSON responses are scanned; binary content (images,
- * archives, git packfiles) is passed through without body inspection.
+ * service. Text and JSON responses (and WebSocket text messages) are scanned;
+ * binary content (images, archives, git packfiles) is passed through without
+ * body inspection.
  *
  * Matched values are tokenized via the session's TokenMap with same-origin
  * metadata so they can only be de-tokenized when sent back to the
@@ -60,16 +61,36 @@ export class IngressFilter {
       }
     }
 
-    let processedBody = body
+    const { text, tokenizationsApplied } = this.scanText(body, service, endpoint)
+
+    return {
+      scanned: true,
+      contentType,
+      redactionsApplied: 0, // This filter only tokenizes, not redacts
+      tokenizationsApplied,
+      processedBody: text,
+    }
+  }
+
+  /**
+   * Tokenize matches of the service's redaction patterns in a piece of text
+   * (a response body, or a WebSocket text message).
+   */
+  scanText(
+    text: string,
+    service: ServiceDefinition,
+    endpoint: string,
+  ): { text: string; tokenizationsApplied: number } {
+    let processed = text
     let tokenizationsApplied = 0
 
     // Apply each redaction pattern from the service definition
     for (const pattern of service.dataTier.redaction.patterns) {
-      const matches = safeRegexMatch(pattern, 'g', processedBody)
+      const matches = safeRegexMatch(pattern, 'g', processed)
       if (matches) {
         for (const match of matches) {
-          processedBody = this.tokenMap.tokenizeInString(
-            processedBody,
+          processed = this.tokenMap.tokenizeInString(
+            processed,
             match,
             {
               service: service.id,
@@ -82,12 +103,6 @@ export class IngressFilter {
       }
     }
 
-    return {
-      scanned: true,
-      contentType,
-      redactionsApplied: 0, // This filter only tokenizes, not redacts
-      tokenizationsApplied,
-      processedBody,
-    }
+    return { text: processed, tokenizationsApplied }
   }
 }
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { OutboundDlp } from './outbound-dlp'
+
+const AWS_KEY = 'AKIA' + 'ABCDEFGHIJKLMNOP'
+
+describe('OutboundDlp', () => {
+  it('finds stored secret values by key', () => {
+    const dlp = new OutboundDlp({ 'db-password': 'hunter2hunter2' })
+    const hits = dlp.scan('{"password":"hunter2hunter2"}')
+    expect(hits).toEqual([{ name: 'db-password', source: 'secret', start: 13, end: 27 }])
+  })
+
+  it('matches JSON credential fields individually and skips short values', () => {
+    const dlp = new OutboundDlp({
+      'service:github': JSON.stringify({ token: 'gh-field-value-123', user: 'me' }),
+      pin: '1234',
+    })
+    expect(dlp.scan('token=gh-field-value-123 user=me pin=1234').map((h) => h.name)).toEqual(['service:github.token'])
+  })
+
+  it('reports detector hits by kind', () => {
+    const hits = new OutboundDlp({}).scan(`aws_access_key_id=${AWS_KEY}`)
+    expect(hits).toHaveLength(1)
+    expect(hits[0].source).toBe('detector')
+    expect(hits[0].name).not.toContain(AWS_KEY)
+  })
+
+  it('reports a stored secret once, by key, when a detector also matches it', () => {
+    const hits = new OutboundDlp({ 'aws-key': AWS_KEY }).scan(AWS_KEY)
+    expect(hits.map((h) => h.name)).toEqual(['aws-key'])
+  })
+
+  it('strips hits, masking byte for byte when the length must be kept', () => {
+    const dlp = new OutboundDlp({ secret: 'abcdefghij' })
+    const text = 'x=abcdefghij;'
+    const hits = dlp.scan(text)
+    expect(OutboundDlp.strip(text, hits)).toBe('x=[REDACTED];')
+    expect(OutboundDlp.strip(text, hits, true)).toBe('x=**********;')
+  })
+})
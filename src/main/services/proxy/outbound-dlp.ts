@@ -0,0 +1,112 @@
+/**
+ * @module outbound-dlp
+ * @description Data loss prevention for what an agent sends out through the
+ * proxy: request bodies, query strings and WebSocket messages, on every
+ * allowed request whatever the service.
+ *
+ * Two kinds of hit:
+ * - a value held in the SecretStore, matched exactly and named by its key
+ *   (JSON credentials are matched field by field, as `key.field`);
+ * - a named leak-scanner detector (AWS keys, GitHub tokens, private keys…),
+ *   named by its kind.
+ *
+ * Hits carry names and offsets, never the matched value, so they are safe
+ * to audit and show.
+ */
+
+import { locateLeaks, leakPatternSources } from '../../lib/leak-scanner'
+import type { HoldPattern } from './stream-scanner'
+
+/** SecretStore values shorter than this are skipped — they match ordinary text. */
+const MIN_SECRET_LENGTH = 8
+
+/** Replacement for a stripped value in text bodies. */
+const STRIPPED = '[REDACTED]'
+
+export interface DlpHit {
+  /** SecretStore key, or leak-scanner detector kind. */
+  name: string
+  source: 'secret' | 'detector'
+  start: number
+  end: number
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export class OutboundDlp {
+  /** Secret value → key. */
+  private keysByValue = new Map<string, string>()
+  private secretSource: string | null = null
+  private secretPattern: RegExp | null = null
+
+  constructor(secrets: Record<string, string>) {
+    for (const [key, value] of Object.entries(secrets)) {
+      this._addValue(key, value)
+      // Service credentials are stored as JSON objects of fields
+      try {
+        const parsed: unknown = JSON.parse(value)
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          for (const [field, fieldValue] of Object.entries(parsed)) {
+            if (typeof fieldValue === 'string') this._addValue(`${key}.${field}`, fieldValue)
+          }
+        }
+      } catch { /* plain value */ }
+    }
+
+    const escaped = [...this.keysByValue.keys()].sort((a, b) => b.length - a.length).map(escapeRegex)
+    if (escaped.length) {
+      this.secretSource = escaped.join('|')
+      this.secretPattern = new RegExp(this.secretSource, 'g')
+    }
+  }
+
+  private _addValue(key: string, value: string): void {
+    if (value.length >= MIN_SECRET_LENGTH && !this.keysByValue.has(value)) this.keysByValue.set(value, key)
+  }
+
+  /** Patterns a streaming scanner must keep whole across chunks. */
+  holdPatterns(): HoldPattern[] {
+    const patterns: HoldPattern[] = leakPatternSources()
+    if (this.secretSource) patterns.push({ pattern: this.secretSource, flags: 'g' })
+    return patterns
+  }
+
+  /** Find stored secrets and detected credentials in outbound text. */
+  scan(text: string): DlpHit[] {
+    const hits: DlpHit[] = []
+
+    if (this.secretPattern) {
+      this.secretPattern.lastIndex = 0
+      let m: RegExpExecArray | null
+      while ((m = this.secretPattern.exec(text)) !== null) {
+        hits.push({ name: this.keysByValue.get(m[0])!, source: 'secret', start: m.index, end: m.index + m[0].length })
+      }
+    }
+
+    for (const leak of locateLeaks(text)) {
+      // A stored secret is reported by its key, not again by its shape
+      if (hits.some((h) => h.source === 'secret' && h.start < leak.end && leak.start < h.end)) continue
+      hits.push({ name: leak.kind, source: 'detector', start: leak.start, end: leak.end })
+    }
+    return hits
+  }
+
+  /**
+   * Remove hits from text. `keepLength` masks each byte instead, for bodies
+   * forwarded with their original Content-Length.
+   */
+  static strip(text: string, hits: DlpHit[], keepLength = false): string {
+    const ranges = hits.map((h) => [h.start, h.end]).sort((a, b) => a[0] - b[0])
+    let out = ''
+    let pos = 0
+    for (const [start, end] of ranges) {
+      if (end <= pos) continue
+      const from = Math.max(start, pos)
+      out += text.slice(pos, from) + (keepLength ? '*'.repeat(end - from) : from === start ? STRIPPED : '')
+      pos = end
+    }
+    return out + text.slice(pos)
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { StreamScanner, HOLDBACK_CHARS } from './stream-scanner'
+import type { TextScan } from './stream-scanner'
+
+const SECRET = 'ghp_' + 'a'.repeat(36)
+const PATTERN = 'ghp_[a-zA-Z0-9]{36}'
+
+/** Scan that masks the pattern and records every segment it is handed. */
+function masking(segments: string[]): TextScan {
+  return (text) => {
+    segments.push(text)
+    return { text: text.replace(new RegExp(PATTERN, 'g'), '[token]') }
+  }
+}
+
+async function run(scanner: StreamScanner, chunks: Buffer[]): Promise<Buffer> {
+  const out: Buffer[] = []
+  scanner.on('data', (chunk: Buffer) => out.push(chunk))
+  const ended = new Promise((resolve) => scanner.on('end', resolve))
+  for (const chunk of chunks) scanner.write(chunk)
+  scanner.end()
+  await ended
+  return Buffer.concat(out)
+}
+
+describe('StreamScanner', () => {
+  it('scans a value split across chunks as a whole', async () => {
+    const segments: string[] = []
+    const body = `{"token":"${SECRET}"}`
+    const out = await run(new StreamScanner([PATTERN], masking(segments)), [
+      Buffer.from(body.slice(0, 15)),
+      Buffer.from(body.slice(15)),
+    ])
+
+    expect(out.toString()).toBe('{"token":"[token]"}')
+    expect(segments.some((s) => s.includes(SECRET))).toBe(true)
+  })
+
+  it('releases complete lines before the body ends', async () => {
+    const scanner = new StreamScanner([PATTERN], masking([]))
+    const first = new Promise<string>((resolve) => scanner.once('data', (chunk: Buffer) => resolve(chunk.toString())))
+    scanner.write(Buffer.from(`data: ${SECRET}\n\ndata: partial`))
+
+    expect(await first).toBe('data: [token]\n\n')
+    scanner.end()
+  })
+
+  it('holds back the lookahead within a long line', async () => {
+    const segments: string[] = []
+    const scanner = new StreamScanner([PATTERN], masking(segments))
+    scanner.write(Buffer.from('x'.repeat(HOLDBACK_CHARS + 10)))
+    expect(segments).toEqual(['x'.repeat(10)])
+    await run(scanner, [])
+    expect(segments.join('')).toBe('x'.repeat(HOLDBACK_CHARS + 10))
+  })
+
+  it('keeps multi-byte characters intact across chunk boundaries', async () => {
+    const bytes = Buffer.from('héllo\nwörld\n')
+    const out = await run(new StreamScanner([], (text) => ({ text })), [bytes.subarray(0, 2), bytes.subarray(2, 9), bytes.subarray(9)])
+    expect(out.toString()).toBe('héllo\nwörld\n')
+  })
+
+  it('forwards binary bodies byte for byte in latin1 mode', async () => {
+    const bytes = Buffer.from([0x00, 0xff, 0x0a, 0xc3, 0x28, 0x80, 0x0a, 0x7f])
+    const out = await run(new StreamScanner([], (text) => ({ text }), 'latin1'), [bytes.subarray(0, 4), bytes.subarray(4)])
+    expect(out.equals(bytes)).toBe(true)
+  })
+
+  it('stops forwarding when the scan blocks a segment', async () => {
+    const scanner = new StreamScanner([PATTERN], (text) => (text.includes(SECRET) ? { blocked: 'leak' } : { text }))
+    let blocked: string | null = null
+    scanner.on('blocked', (reason: string) => { blocked = reason })
+
+    const out = await run(scanner, [Buffer.from('safe line\n'), Buffer.from(`key=${SECRET}\n`), Buffer.from('after\n')])
+    expect(out.toString()).toBe('safe line\n')
+    expect(blocked).toBe('leak')
+  })
+})
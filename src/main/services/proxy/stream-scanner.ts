@@ -0,0 +1,119 @@
+/**
+ * @module stream-scanner
+ * @description Streaming text scan for proxied HTTP bodies.
+ *
+ * Bodies flow through chunk by chunk instead of being collected first, so
+ * SSE and other streamed responses reach the client as they arrive and
+ * large bodies never sit in memory whole. Text is held back until no
+ * pattern match can still be growing, so a value split across chunks is
+ * still scanned whole:
+ * - complete lines are released as soon as they arrive (SSE events, NDJSON);
+ * - within a long line, the last HOLDBACK_CHARS stay behind as lookahead;
+ * - a match running across the release point holds back from its start.
+ *
+ * The held text is capped at MAX_HELD_CHARS; past that it is released even
+ * if a match is still open. Patterns that can span a line break are only
+ * guaranteed whole within the lookahead window.
+ */
+
+import { Transform } from 'node:stream'
+import type { TransformCallback } from 'node:stream'
+import { StringDecoder } from 'node:string_decoder'
+import { CompiledRegexSet } from '../../lib/safe-regex'
+
+/** Lookahead kept behind the release point within a line. */
+export const HOLDBACK_CHARS = 4096
+
+/** Most text held back waiting for a match to complete. */
+export const MAX_HELD_CHARS = 1024 * 1024
+
+/** A pattern to keep whole across chunks: a sandboxed user pattern, or a built-in one with its flags. */
+export type HoldPattern = string | { pattern: string; flags: string }
+
+/** Verdict of a segment scan: the text to forward, or why the stream is blocked. */
+export type TextScan = (text: string) => { text: string } | { blocked: string }
+
+/**
+ * Transform that runs a text scan over a body as it streams. Emits
+ * `blocked` with the reason and stops forwarding when the scan refuses a
+ * segment; the caller ends the exchange.
+ *
+ * `latin1` decodes bytes one to one, for scanning binary bodies: a scan
+ * that returns its input unchanged forwards the exact bytes received.
+ */
+export class StreamScanner extends Transform {
+  private patterns: HoldPattern[]
+  private scan: TextScan
+  private encoding: 'utf-8' | 'latin1'
+  private decoder: StringDecoder
+  private regexes = new CompiledRegexSet()
+  private held = ''
+  private stopped = false
+
+  constructor(patterns: HoldPattern[], scan: TextScan, encoding: 'utf-8' | 'latin1' = 'utf-8') {
+    super()
+    this.patterns = patterns
+    this.scan = scan
+    this.encoding = encoding
+    this.decoder = new StringDecoder(encoding)
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.stopped) return callback()
+    this.held += this.decoder.write(chunk)
+    this._release(this._releasePoint())
+    callback()
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (!this.stopped) {
+      this.held += this.decoder.end()
+      this._release(this.held.length)
+    }
+    callback()
+  }
+
+  /** How much of the held text can be released without splitting a match. */
+  private _releasePoint(): number {
+    const held = this.held
+    let cut = Math.max(held.lastIndexOf('\n') + 1, held.length - HOLDBACK_CHARS)
+    if (cut <= 0) return 0
+
+    const ranges = this.patterns.flatMap((p) => typeof p === 'string'
+      ? this.regexes.matchRanges(p, 'g', held)
+      : this.regexes.matchRanges(p.pattern, p.flags, held))
+    let moved = true
+    while (moved) {
+      moved = false
+      for (const [start, end] of ranges) {
+        if (start < cut && end > cut) {
+          cut = start
+          moved = true
+        }
+      }
+    }
+
+    // Cap: release regardless, keeping only the lookahead
+    if (held.length - cut > MAX_HELD_CHARS) cut = held.length - HOLDBACK_CHARS
+
+    // Never split a surrogate pair
+    const code = held.charCodeAt(cut - 1)
+    if (cut > 0 && code >= 0xd800 && code <= 0xdbff) cut--
+    return cut
+  }
+
+  private _release(cut: number): void {
+    if (cut <= 0) return
+    const segment = this.held.slice(0, cut)
+    this.held = this.held.slice(cut)
+
+    const verdict = this.scan(segment)
+    if ('blocked' in verdict) {
+      this.stopped = true
+      this.held = ''
+      this.emit('blocked', verdict.blocked)
+      return
+    }
+    if (verdict.text) this.push(Buffer.from(verdict.text, this.encoding))
+  }
+}
@@ -10,7 +10,9 @@
 import { randomBytes } from 'node:crypto'
 import type { TokenEntry, DataTier } from '../../../types'
 
-const TOKEN_RE = /tok_[a-f0-9]{32}/g
+/** Token id pattern, for scanners that must not split a token across chunks. */
+export const TOKEN_PATTERN = 'tok_[a-f0-9]{32}'
+const TOKEN_RE = new RegExp(TOKEN_PATTERN, 'g')
 
 export class TokenMap {
   private tokens = new Map<string, TokenEntry>()
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  WsFrameScanner,
+  parseFrame,
+  encodeFrame,
+  encodeCloseFrame,
+  WS_CLOSE_POLICY_VIOLATION,
+  WS_CLOSE_MESSAGE_TOO_BIG,
+} from './ws-frame-scanner'
+import type { WsFrame, WsTextScan } from './ws-frame-scanner'
+
+/** Frame with an explicit FIN bit, for building fragmented messages. */
+function fragment(opcode: number, text: string, fin: boolean): Buffer {
+  const frame = encodeFrame(opcode, Buffer.from(text), false)
+  if (!fin) frame[0] &= 0x7f
+  return frame
+}
+
+/** Feed chunks through a scanner and collect what it forwards. */
+async function run(scan: WsTextScan, chunks: Buffer[]): Promise<{ frames: WsFrame[]; blocked: { code: number; reason: string } | null }> {
+  const scanner = new WsFrameScanner(scan)
+  const out: Buffer[] = []
+  let blocked: { code: number; reason: string } | null = null
+  scanner.on('data', (chunk: Buffer) => out.push(chunk))
+  scanner.on('blocked', (info) => { blocked = info })
+  const ended = new Promise((resolve) => scanner.on('end', resolve))
+  for (const chunk of chunks) scanner.write(chunk)
+  scanner.end()
+  await ended
+
+  const frames: WsFrame[] = []
+  let rest = Buffer.concat(out)
+  while (rest.length) {
+    const frame = parseFrame(rest) as WsFrame
+    frames.push(frame)
+    rest = rest.subarray(frame.raw.length)
+  }
+  return { frames, blocked }
+}
+
+const upper: WsTextScan = (text) => ({ text: text.toUpperCase() })
+
+describe('WsFrameScanner', () => {
+  it('rewrites text messages and passes binary frames through untouched', async () => {
+    const binary = encodeFrame(0x2, Buffer.from('raw bytes'), false)
+    const { frames } = await run(upper, [encodeFrame(0x1, Buffer.from('hello'), false), binary])
+
+    expect(frames[0].payload.toString()).toBe('HELLO')
+    expect(frames[1].raw.equals(binary)).toBe(true)
+  })
+
+  it('re-masks client frames with the rewritten payload', async () => {
+    const { frames } = await run(upper, [encodeFrame(0x1, Buffer.from('secret'), true)])
+    expect(frames[0].masked).toBe(true)
+    expect(frames[0].payload.toString()).toBe('SECRET')
+  })
+
+  it('scans a fragmented message as a whole, even when frames split across chunks', async () => {
+    const seen: string[] = []
+    const wire = Buffer.concat([
+      fragment(0x1, 'ghp_abc', false),
+      encodeFrame(0x9, Buffer.from('ping'), false),
+      fragment(0x0, 'def', true),
+    ])
+    const { frames } = await run((text) => { seen.push(text); return { text } }, [wire.subarray(0, 5), wire.subarray(5)])
+
+    expect(seen).toEqual(['ghp_abcdef'])
+    // The interleaved ping is forwarded as soon as it arrives
+    expect(frames.map((f) => f.opcode)).toEqual([0x9, 0x1])
+    expect(frames[1].fin).toBe(true)
+    expect(frames[1].payload.toString()).toBe('ghp_abcdef')
+  })
+
+  it('stops forwarding when the scan blocks a message', async () => {
+    const { frames, blocked } = await run(
+      (text) => (text.includes('token') ? { blocked: 'Credential leak detected' } : { text }),
+      [encodeFrame(0x1, Buffer.from('ok'), false), encodeFrame(0x1, Buffer.from('token'), false), encodeFrame(0x1, Buffer.from('after'), false)],
+    )
+
+    expect(frames.map((f) => f.payload.toString())).toEqual(['ok'])
+    expect(blocked).toEqual({ code: WS_CLOSE_POLICY_VIOLATION, reason: 'Credential leak detected' })
+  })
+
+  it('blocks frames too large to inspect', async () => {
+    const header = Buffer.alloc(10)
+    header[0] = 0x81
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(64 * 1024 * 1024), 2)
+    const { blocked } = await run(upper, [header])
+    expect(blocked?.code).toBe(WS_CLOSE_MESSAGE_TOO_BIG)
+  })
+})
+
+describe('encodeCloseFrame', () => {
+  it('caps the reason to fit a control frame', () => {
+    const frame = parseFrame(encodeCloseFrame(WS_CLOSE_POLICY_VIOLATION, 'x'.repeat(300), false)) as WsFrame
+    expect(frame.opcode).toBe(0x8)
+    expect(frame.payload.length).toBe(125)
+    expect(frame.payload.readUInt16BE(0)).toBe(WS_CLOSE_POLICY_VIOLATION)
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * @module ws-frame-scanner
+ * @description WebSocket (RFC 6455) frame parsing for one direction of a
+ * proxied upgrade.
+ *
+ * Complete text messages are handed to a scan callback, which returns the
+ * (possibly tokenized or de-tokenized) text to forward or blocks the
+ * connection. A fragmented text message is buffered until its final frame
+ * and forwarded as a single frame, so patterns split across fragments are
+ * still caught. Binary messages, control frames, and frames using an
+ * extension (RSV bits set) pass through unchanged — the proxy strips
+ * `Sec-WebSocket-Extensions` from the handshake so text frames arrive
+ * uncompressed.
+ */
+
+import { Transform } from 'node:stream'
+import type { TransformCallback } from 'node:stream'
+import { randomBytes } from 'node:crypto'
+
+const OP_CONTINUATION = 0x0
+const OP_TEXT = 0x1
+const OP_CLOSE = 0x8
+
+/** Close codes sent when the proxy ends a connection. */
+export const WS_CLOSE_POLICY_VIOLATION = 1008
+export const WS_CLOSE_MESSAGE_TOO_BIG = 1009
+
+/** Largest frame or text message buffered for scanning. */
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024
+
+/** Verdict of a text scan: the text to forward, or why the connection is blocked. */
+export type WsTextScan = (text: string) => { text: string } | { blocked: string }
+
+/** A parsed frame. `raw` is the frame exactly as received. */
+export interface WsFrame {
+  fin: boolean
+  rsv: number
+  opcode: number
+  masked: boolean
+  /** Unmasked payload. */
+  payload: Buffer
+  raw: Buffer
+}
+
+/**
+ * Parse the first frame in `buf`. Returns null while the frame is incomplete,
+ * or `{ tooBig: true }` when its declared length exceeds the scan limit.
+ */
+export function parseFrame(buf: Buffer): WsFrame | { tooBig: true } | null {
+  if (buf.length < 2) return null
+  const fin = (buf[0] & 0x80) !== 0
+  const rsv = (buf[0] & 0x70) >> 4
+  const opcode = buf[0] & 0x0f
+  const masked = (buf[1] & 0x80) !== 0
+  let length = buf[1] & 0x7f
+  let offset = 2
+
+  if (length === 126) {
+    if (buf.length < 4) return null
+    length = buf.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buf.length < 10) return null
+    const big = buf.readBigUInt64BE(2)
+    if (big > BigInt(MAX_MESSAGE_BYTES)) return { tooBig: true }
+    length = Number(big)
+    offset = 10
+  }
+  if (length > MAX_MESSAGE_BYTES) return { tooBig: true }
+
+  const maskKey = masked ? offset : -1
+  if (masked) offset += 4
+  if (buf.length < offset + length) return null
+
+  const payload = Buffer.from(buf.subarray(offset, offset + length))
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buf[maskKey + (i % 4)]
+  }
+  return { fin, rsv, opcode, masked, payload, raw: buf.subarray(0, offset + length) }
+}
+
+/** Encode a final (FIN) frame. Masked frames get a fresh random key, as clients must send. */
+export function encodeFrame(opcode: number, payload: Buffer, masked: boolean): Buffer {
+  const lengthBytes = payload.length < 126 ? 0 : payload.length <= 0xffff ? 2 : 8
+  const header = Buffer.alloc(2 + lengthBytes + (masked ? 4 : 0))
+  header[0] = 0x80 | opcode
+  if (lengthBytes === 0) header[1] = payload.length
+  else if (lengthBytes === 2) { header[1] = 126; header.writeUInt16BE(payload.length, 2) }
+  else { header[1] = 127; header.writeBigUInt64BE(BigInt(payload.length), 2) }
+  if (!masked) return Buffer.concat([header, payload])
+
+  header[1] |= 0x80
+  const key = randomBytes(4)
+  key.copy(header, 2 + lengthBytes)
+  const body = Buffer.from(payload)
+  for (let i = 0; i < body.length; i++) body[i] ^= key[i % 4]
+  return Buffer.concat([header, body])
+}
+
+/** Encode a close frame with a status code and reason. */
+export function encodeCloseFrame(code: number, reason: string, masked: boolean): Buffer {
+  // Control frame payloads are capped at 125 bytes: 2 for the code, 123 for the reason
+  const text = Buffer.from(reason, 'utf-8').subarray(0, 123)
+  const payload = Buffer.alloc(2 + text.length)
+  payload.writeUInt16BE(code, 0)
+  text.copy(payload, 2)
+  return encodeFrame(OP_CLOSE, payload, masked)
+}
+
+/**
+ * Transform for one direction of a WebSocket connection. Emits `blocked`
+ * with `{ code, reason }` and stops forwarding when a message is refused
+ * by the scan or too large to scan; the caller closes the connection.
+ */
+export class WsFrameScanner extends Transform {
+  private scan: WsTextScan
+  private pending: Buffer = Buffer.alloc(0)
+  /** The fragmented message in progress: text being buffered, or any other message passing through. */
+  private message: { text: boolean; parts: Buffer[]; size: number; masked: boolean } | null = null
+  private stopped = false
+
+  constructor(scan: WsTextScan) {
+    super()
+    this.scan = scan
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.stopped) return callback()
+    this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk
+
+    while (!this.stopped) {
+      const frame = parseFrame(this.pending)
+      if (!frame) break
+      if ('tooBig' in frame) {
+        this._stop(WS_CLOSE_MESSAGE_TOO_BIG, 'Message too big to inspect')
+        break
+      }
+      this.pending = this.pending.subarray(frame.raw.length)
+      this._onFrame(frame)
+    }
+    callback()
+  }
+
+  private _onFrame(frame: WsFrame): void {
+    // Control frames may arrive between fragments — forward them right away
+    if (frame.opcode >= 0x8) {
+      this.push(frame.raw)
+      return
+    }
+
+    if (frame.opcode !== OP_CONTINUATION) {
+      this.message = { text: frame.opcode === OP_TEXT && frame.rsv === 0, parts: [], size: 0, masked: frame.masked }
+    }
+    const message = this.message
+    if (!message?.text) {
+      this.push(frame.raw)
+      if (frame.fin) this.message = null
+      return
+    }
+
+    message.parts.push(frame.payload)
+    message.size += frame.payload.length
+    if (message.size > MAX_MESSAGE_BYTES) {
+      this._stop(WS_CLOSE_MESSAGE_TOO_BIG, 'Message too big to inspect')
+      return
+    }
+    if (!frame.fin) return
+
+    this.message = null
+    const verdict = this.scan(Buffer.concat(message.parts).toString('utf-8'))
+    if ('blocked' in verdict) {
+      this._stop(WS_CLOSE_POLICY_VIOLATION, verdict.blocked)
+      return
+    }
+    this.push(encodeFrame(OP_TEXT, Buffer.from(verdict.text, 'utf-8'), message.masked))
+  }
+
+  private _stop(code: number, reason: string): void {
+    this.stopped = true
+    this.pending = Buffer.alloc(0)
+    this.message = null
+    this.emit('blocked', { code, reason })
+  }
+}
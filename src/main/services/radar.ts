@@ -6,6 +6,8 @@
 
 import type { ActivityEvent, RadarSignal, RadarConfig } from '../../types'
 import type { ActivityStore } from '../stores/activity-store'
+import { applyToolClassifications } from '../lib/tool-classification'
+import type { ToolClassificationMap } from '../lib/tool-classification'
 
 // ─── Detection (ported from cloud) ──────────────────────────────────────────
 
@@ -39,6 +41,17 @@ function formatList(items: string[], max = 3): string {
   return `${items.slice(0, max).join(', ')}...`
 }
 
+/** The risk factors most common among events, without the per-target detail. */
+function topRiskFactors(events: ActivityEvent[]): string[] {
+  const counts = new Map<string, number>()
+  for (const e of events) {
+    for (const factor of new Set((e.riskFactors ?? []).map((f) => f.replace(/ \(.*\)$/, '')))) {
+      counts.set(factor, (counts.get(factor) ?? 0) + 1)
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([factor]) => factor)
+}
+
 /** Run z-score anomaly detection over activity events. */
 export function detectAnomalies(activity: ActivityEvent[], config?: Partial<RadarConfig>): RadarSignal[] {
   const cfg = { ...DEFAULT_CONFIG, ...(config ?? {}) }
@@ -140,10 +153,12 @@ export function detectAnomalies(activity: ActivityEvent[], config?: Partial<Rada
   const hDelta = (rHighRate - hMean) * 100
   const hZ = zScore(rHighRate, hMean, hStd)
   if (recent.length >= 5 && hStd > 0 && hDelta >= Math.max(5, cfg.errorRateThresholdPct / 2) && hZ >= zT) {
+    const drivers = topRiskFactors(recent.filter((e) => e.risk === 'high'))
     signals.push({
       id: 'high-risk-surge',
       level: 'high',
-      message: `High-risk activity surged to ${(rHighRate * 100).toFixed(1)}% of requests (baseline ${(hMean * 100).toFixed(1)}%).`,
+      message: `High-risk activity surged to ${(rHighRate * 100).toFixed(1)}% of requests (baseline ${(hMean * 100).toFixed(1)}%)`
+        + (drivers.length ? `. Top factors: ${drivers.slice(0, 2).join(', ')}.` : '.'),
       observedAt: new Date().toISOString(),
     })
   }
@@ -160,6 +175,7 @@ export class Radar {
   private eventsSinceCheck = 0
   private lastSignals: RadarSignal[] = []
   private config: RadarConfig
+  private toolClassifications: ToolClassificationMap = {}
 
   constructor(
     activityStore: ActivityStore,
@@ -192,6 +208,11 @@ export class Radar {
     }
   }
 
+  /** Replace the MCP tool classification overrides applied to recorded events. */
+  setToolClassifications(overrides: ToolClassificationMap): void {
+    this.toolClassifications = overrides
+  }
+
   /** Get the latest signals (cached). */
   getSignals(): RadarSignal[] {
     return this.lastSignals
@@ -204,7 +225,8 @@ export class Radar {
       const baselineHours = this.config.sensitivity === 'low' ? 72 : this.config.sensitivity === 'high' ? 6 : 24
       const sinceMs = (baselineHours + 1) * 3_600_000
       const activity = this.activityStore.getRecent(sinceMs)
-      const signals = detectAnomalies(activity, this.config)
+      // Baselines use today's classification overrides, not the ones in force when events were recorded.
+      const signals = detectAnomalies(applyToolClassifications(activity, this.toolClassifications), this.config)
 
       this.lastSignals = signals
       if (signals.length > 0) {
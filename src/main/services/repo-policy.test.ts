@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import { PolicyStore } from '../stores/policy-store'
+import { approveRepoPolicy, discoverRepoPolicy, repoPolicyId } from './repo-policy'
+
+const POLICY_YAML = `name: Acme repo
+permissions:
+  allowNetwork: false
+  blockedGlobs: ['**/.env']
+`
+
+describe('repo-policy', () => {
+  let repoRoot: string
+  let store: PolicyStore
+
+  function writePolicy(text: string) {
+    fs.mkdirSync(path.join(repoRoot, '.latch'), { recursive: true })
+    fs.writeFileSync(path.join(repoRoot, '.latch', 'policy.yaml'), text)
+  }
+
+  beforeEach(() => {
+    repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'latch-repo-policy-'))
+    store = PolicyStore.open(new Database(':memory:'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true })
+  })
+
+  it('finds nothing in a repo without a policy file', () => {
+    expect(discoverRepoPolicy(repoRoot, store)).toEqual({ ok: true, discovery: null })
+  })
+
+  it('tracks a policy from new through approved to changed', () => {
+    writePolicy(POLICY_YAML)
+    const first = discoverRepoPolicy(repoRoot, store)
+    expect(first.ok && first.discovery).toMatchObject({ status: 'new', policyId: repoPolicyId(repoRoot) })
+    expect(first.ok && first.discovery?.policy.permissions).toMatchObject({ allowBash: true, allowNetwork: false })
+
+    expect(approveRepoPolicy(repoRoot, store, 'alice')).toMatchObject({ ok: true, revision: 1 })
+    const approved = discoverRepoPolicy(repoRoot, store)
+    expect(approved.ok && approved.discovery?.status).toBe('approved')
+
+    writePolicy(POLICY_YAML.replace('allowNetwork: false', 'allowNetwork: true'))
+    const changed = discoverRepoPolicy(repoRoot, store)
+    expect(changed.ok && changed.discovery?.status).toBe('changed')
+    expect(changed.ok && changed.discovery?.changes.map((c) => c.key)).toEqual(['allowNetwork'])
+    // The approved copy stays in effect until re-approved.
+    expect(store.getPolicy(repoPolicyId(repoRoot)).policy.permissions.allowNetwork).toBe(false)
+  })
+
+  it('ignores an id in the file', () => {
+    writePolicy(`id: someone-elses-policy\n${POLICY_YAML}`)
+    const result = approveRepoPolicy(repoRoot, store, null)
+    expect(result).toMatchObject({ ok: true, policyId: repoPolicyId(repoRoot) })
+    expect(store.getPolicy('someone-elses-policy').ok).toBe(false)
+  })
+
+  it('reports invalid policy files', () => {
+    writePolicy('permissions:\n  allowBash: sometimes\n')
+    const result = discoverRepoPolicy(repoRoot, store)
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.error).toContain('permissions.allowBash')
+  })
+})
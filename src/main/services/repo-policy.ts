@@ -0,0 +1,78 @@
+/**
+ * @module repo-policy
+ * @description Discovery and approval of repo-local policies.
+ *
+ * A repo can ship `.latch/policy.yaml`. Nothing in it takes effect until the
+ * user approves it: approval imports the file into the PolicyStore under an
+ * id derived from the repo root, and sessions in that repo then stack it
+ * with their selected policies (strictest wins, see computeStrictestBaseline).
+ * The stored copy is the last approved one — when the file no longer matches
+ * it, discovery reports `changed` with the differences so the user can
+ * re-approve or keep the old copy.
+ */
+
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type { PolicyDocument, RepoPolicyDiscovery } from '../../types'
+import { parsePolicyFile } from '../lib/policy-io'
+import { diffPolicies } from '../lib/policy-diff'
+import { PolicyStore } from '../stores/policy-store'
+
+export const REPO_POLICY_FILE = path.join('.latch', 'policy.yaml')
+
+/** Stable policy id for a repo's policy. */
+export function repoPolicyId(repoRoot: string): string {
+  return `repo-${createHash('sha256').update(path.resolve(repoRoot)).digest('hex').slice(0, 12)}`
+}
+
+/** Read and validate a repo's policy file. Returns null when the repo has none. */
+function readRepoPolicy(repoRoot: string): { ok: true; filePath: string; policy: PolicyDocument } | { ok: false; error: string } | null {
+  const filePath = path.join(path.resolve(repoRoot), REPO_POLICY_FILE)
+  let text: string
+  try {
+    text = fs.readFileSync(filePath, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    return { ok: false, error: `Could not read ${filePath}: ${err instanceof Error ? err.message : String(err)}` }
+  }
+
+  const id = repoPolicyId(repoRoot)
+  const parsed = parsePolicyFile(text, { id, name: `${path.basename(path.resolve(repoRoot))} (repo)` })
+  if (!parsed.ok) return { ok: false, error: `${filePath}: ${parsed.error}` }
+  // The id is always derived from the repo, so a file can't overwrite another policy.
+  return { ok: true, filePath, policy: PolicyStore.normalizePolicy({ ...parsed.policy, id }) }
+}
+
+/** Look for a repo policy and compare it with the last approved copy. */
+export function discoverRepoPolicy(
+  repoRoot: string,
+  policyStore: PolicyStore,
+): { ok: true; discovery: RepoPolicyDiscovery | null } | { ok: false; error: string } {
+  const read = readRepoPolicy(repoRoot)
+  if (!read) return { ok: true, discovery: null }
+  if (!read.ok) return read
+
+  const { filePath, policy } = read
+  const stored = policyStore.getPolicy(policy.id)
+  if (!stored.ok) return { ok: true, discovery: { policyId: policy.id, filePath, status: 'new', policy, changes: [] } }
+
+  if (PolicyStore.hashPolicy(stored.policy) === PolicyStore.hashPolicy(policy)) {
+    return { ok: true, discovery: { policyId: policy.id, filePath, status: 'approved', policy, changes: [] } }
+  }
+  return { ok: true, discovery: { policyId: policy.id, filePath, status: 'changed', policy, changes: diffPolicies(stored.policy, policy) } }
+}
+
+/** Approve the repo's current policy file by importing it into the store. */
+export function approveRepoPolicy(
+  repoRoot: string,
+  policyStore: PolicyStore,
+  author: string | null,
+): { ok: true; policyId: string; revision: number } | { ok: false; error: string } {
+  const read = readRepoPolicy(repoRoot)
+  if (!read) return { ok: false, error: `No ${REPO_POLICY_FILE} in ${repoRoot}.` }
+  if (!read.ok) return read
+  const saved = policyStore.savePolicy(read.policy, author)
+  if (!saved.ok) return { ok: false, error: saved.error ?? 'Failed to save repo policy' }
+  return { ok: true, policyId: read.policy.id, revision: saved.revision! }
+}
@@ -146,6 +146,7 @@ interface EscalatedDecision {
   sessionId: string
   action: SupervisorAction
   format: PromptFormat
+  approval: PendingApproval
 }
 
 const OUTPUT_BUFFER_MAX = 4000 // Max chars to keep per tab
@@ -174,11 +175,6 @@ export class Supervisor {
   // Escalated decisions waiting for user input in the Latch UI
   private escalatedDecisions = new Map<string, EscalatedDecision>() // approvalId → decision
 
-  // Short-lived approval grants — when user approves a tool, subsequent calls
-  // for the same tool+session auto-approve for GRANT_TTL_MS.
-  // Key: `${sessionId}:${toolName}` → expiry timestamp
-  private approvalGrants = new Map<string, number>()
-
   // Track which tabs have logged their first data (one-time diagnostic)
   private firstDataLogged = new Set<string>()
 
@@ -234,16 +230,17 @@ export class Supervisor {
           this.sessionToTabs.delete(sessionId)
           this.sessionHarness.delete(sessionId)
           this.pendingPrompts.delete(sessionId)
-          // Clean up grants for this session
-          for (const key of this.approvalGrants.keys()) {
-            if (key.startsWith(`${sessionId}:`)) this.approvalGrants.delete(key)
-          }
         }
       }
       console.warn(`[supervisor] Unregistered tab ${tabId} (session: ${sessionId})`)
     }
   }
 
+  /** PTY tabs registered for a session. */
+  getTabs(sessionId: string): string[] {
+    return [...(this.sessionToTabs.get(sessionId) ?? [])]
+  }
+
   // ─── PTY data handling ───────────────────────────────────────────────────
 
   /** Process incoming PTY data. Buffers output and checks for permission prompts. */
@@ -277,7 +274,10 @@ export class Supervisor {
 
     let format: PromptFormat | null = null
 
-    if (harnessId === 'codex') {
+    if (harnessId === 'droid' || harnessId === 'gemini') {
+      // Droid and Gemini CLI run with their prompts off; their blocking authz hooks decide instead.
+      return
+    } else if (harnessId === 'codex') {
       format = detectCodexPrompt(cleanOutput)
     } else {
       // Default to Claude detection (covers claude + unknown harnesses)
@@ -383,29 +383,12 @@ export class Supervisor {
       })
 
     } else if (action.decision === 'prompt') {
-      // Check for a recent approval grant (user already approved this tool recently)
-      const grantKey = `${sessionId}:${action.toolName}`
-      const grantExpiry = this.approvalGrants.get(grantKey)
-      if (grantExpiry && Date.now() < grantExpiry) {
-        const keys = KEY_SEQUENCES[format]
-        console.warn(`[supervisor] Grant active for ${action.toolName} — auto-approving`)
-        this.ptyManager.write(tabId, keys.allow)
-        this.clearBuffer(tabId)
-        this.emitFeed(sessionId, `Auto-approved: ${action.toolName}${toolDetail(action)} (recent grant)`)
-        return
-      }
+      // Calls covered by an approval grant arrive as 'allow' — the authz
+      // server consults grants before queueing the action.
 
       // Escalate to user — show inline approval in Latch UI
       const approvalId = crypto.randomBytes(8).toString('hex')
 
-      this.escalatedDecisions.set(approvalId, {
-        id: approvalId,
-        tabId,
-        sessionId,
-        action,
-        format,
-      })
-
       // Send approval request to renderer
       const approval: PendingApproval = {
         id: approvalId,
@@ -414,6 +397,7 @@ export class Supervisor {
         toolInput: action.toolInput,
         actionClass: action.actionClass,
         risk: action.risk,
+        riskFactors: action.riskFactors,
         harnessId: this.sessionHarness.get(sessionId) ?? 'unknown',
         createdAt: new Date().toISOString(),
         timeoutMs: 120_000,
@@ -422,6 +406,15 @@ export class Supervisor {
         promptTool: true,
       }
 
+      this.escalatedDecisions.set(approvalId, {
+        id: approvalId,
+        tabId,
+        sessionId,
+        action,
+        format,
+        approval,
+      })
+
       this.sendToRenderer('latch:approval-request', approval)
       this.emitFeed(sessionId, `Needs your approval: ${action.toolName}${toolDetail(action)}`)
       console.warn(`[supervisor] Escalating to user: ${action.toolName} for session ${sessionId}`)
@@ -435,20 +428,21 @@ export class Supervisor {
     }
   }
 
-  /** Resolve an escalated user decision. Called from IPC when user clicks Y/N. */
-  resolveDecision(approvalId: string, decision: ApprovalDecision): void {
+  /** Resolve an escalated user decision. Called from IPC when user clicks Y/N.
+   *  Returns the approval that was resolved (null if the id isn't ours), so the
+   *  caller can record a grant for a wider approval scope.
+   */
+  resolveDecision(approvalId: string, decision: ApprovalDecision): PendingApproval | null {
     const escalated = this.escalatedDecisions.get(approvalId)
-    if (!escalated) return
+    if (!escalated) return null
 
     this.escalatedDecisions.delete(approvalId)
 
     const keys = KEY_SEQUENCES[escalated.format]
 
     if (decision === 'approve') {
-      // User approved — type "yes" and set a 60s grant for this tool
-      const grantKey = `${escalated.sessionId}:${escalated.action.toolName}`
-      this.approvalGrants.set(grantKey, Date.now() + 60_000)
-      console.warn(`[supervisor] User approved: ${escalated.action.toolName} — typing yes to tab ${escalated.tabId} (grant set for 60s)`)
+      // User approved — type "yes"
+      console.warn(`[supervisor] User approved: ${escalated.action.toolName} — typing yes to tab ${escalated.tabId}`)
       this.ptyManager.write(escalated.tabId, keys.allow)
       this.emitFeed(escalated.sessionId, `You approved: ${escalated.action.toolName}${toolDetail(escalated.action)}`)
     } else {
@@ -460,6 +454,7 @@ export class Supervisor {
 
     this.clearBuffer(escalated.tabId)
     this.sendToRenderer('latch:approval-resolved', { id: approvalId })
+    return escalated.approval
   }
 
   // ─── Helpers ─────────────────────────────────────────────────────────────
@@ -3,6 +3,10 @@
  * @description Watches Claude Code and Codex JSONL log directories for new
  * assistant messages. Extracts token usage, calculates costs via the pricing
  * engine, persists to UsageStore, and pushes real-time events to the renderer.
+ * Droid logs a running total per session instead, so each change to its
+ * settings file is recorded as the difference from what was stored before.
+ * Gemini CLI rewrites one JSON file per chat, so its messages are re-read on
+ * every change and recorded once each, keyed by message ID.
  */
 
 import fs from 'node:fs'
@@ -10,6 +14,8 @@ import path from 'node:path'
 import os from 'node:os'
 import { UsageStore } from '../stores/usage-store'
 import { calculateCost, normalizeModelId } from '../lib/pricing'
+import { droidSessionFiles, droidSessionsDir, droidSettingsPath, readDroidSessionStart, readDroidTokenUsage } from '../lib/droid-sessions'
+import { geminiMessageUsage, geminiProjectHash, geminiProjectSlug, geminiSessionFiles, geminiTmpDir, readGeminiSession } from '../lib/gemini-sessions'
 
 interface WatcherOptions {
   /** Map of Latch session IDs to their repo_root paths */
@@ -216,6 +222,107 @@ function processNewLines(
   }
 }
 
+/**
+ * Latch session a Droid session belongs to, matched by the working directory
+ * in its session_start line. Falls back to a per-project ID like Claude's.
+ */
+function droidSessionId(sessionFile: string, getSessionMap: () => Map<string, string>): string | null {
+  const cwd = readDroidSessionStart(sessionFile)?.cwd
+  if (cwd) {
+    for (const [sessionId, root] of getSessionMap()) {
+      if (cwd === root || cwd.startsWith(root + path.sep)) return sessionId
+    }
+  }
+  const dirName = path.dirname(sessionFile)
+  return dirName === droidSessionsDir() ? null : `project:${path.basename(dirName)}`
+}
+
+/**
+ * Record the growth in a Droid session's cumulative token usage since the
+ * last read as one usage event.
+ */
+function processDroidUsage(
+  sessionFile: string,
+  store: UsageStore,
+  getSessionMap: () => Map<string, string>,
+  sendToRenderer: (channel: string, payload: unknown) => void,
+): void {
+  const usage = readDroidTokenUsage(droidSettingsPath(sessionFile))
+  if (!usage) return
+
+  // The running total identifies the reading, so a re-read stores nothing.
+  const requestId = `total:${usage.inputTokens}:${usage.outputTokens}:${usage.cacheWriteTokens}:${usage.cacheReadTokens}`
+  if (store.isDuplicate(sessionFile, requestId)) return
+
+  const seen = store.sourceTotals(sessionFile)
+  const delta = {
+    inputTokens: Math.max(usage.inputTokens - seen.inputTokens, 0),
+    outputTokens: Math.max(usage.outputTokens - seen.outputTokens, 0),
+    cacheWriteTokens: Math.max(usage.cacheWriteTokens - seen.cacheWriteTokens, 0),
+    cacheReadTokens: Math.max(usage.cacheReadTokens - seen.cacheReadTokens, 0),
+  }
+  if (!delta.inputTokens && !delta.outputTokens && !delta.cacheWriteTokens && !delta.cacheReadTokens) return
+
+  const event = store.record({
+    sessionId: droidSessionId(sessionFile, getSessionMap),
+    harnessId: 'droid',
+    model: normalizeModelId(usage.model),
+    timestamp: new Date().toISOString(),
+    ...delta,
+    costUsd: calculateCost(delta, usage.model),
+    toolName: null,
+    sourceFile: sessionFile,
+    requestId,
+  })
+  sendToRenderer('latch:usage-event', event)
+}
+
+/**
+ * Latch session a Gemini CLI chat belongs to, matched by the project hash it
+ * is filed under. Falls back to a per-project ID like Claude's.
+ */
+function geminiSessionId(slug: string, getSessionMap: () => Map<string, string>): string {
+  for (const [sessionId, root] of getSessionMap()) {
+    if (geminiProjectHash(root) === slug) return sessionId
+  }
+  return `project:${slug}`
+}
+
+/**
+ * Record each `gemini` message of a chat recording not yet stored, keyed by
+ * message ID so re-reads of the rewritten file store nothing twice.
+ */
+function processGeminiSession(
+  filePath: string,
+  store: UsageStore,
+  getSessionMap: () => Map<string, string>,
+  sendToRenderer: (channel: string, payload: unknown) => void,
+): void {
+  const session = readGeminiSession(filePath)
+  if (!session?.messages?.length) return
+
+  let sessionId: string | null = null
+  for (const msg of session.messages) {
+    const usage = geminiMessageUsage(msg)
+    if (!usage || !msg.id || store.isDuplicate(filePath, msg.id)) continue
+    sessionId ??= geminiSessionId(geminiProjectSlug(filePath), getSessionMap)
+
+    const model = msg.model || 'unknown'
+    const event = store.record({
+      sessionId,
+      harnessId: 'gemini',
+      model: normalizeModelId(model),
+      timestamp: msg.timestamp ?? new Date().toISOString(),
+      ...usage,
+      costUsd: calculateCost(usage, model),
+      toolName: msg.toolCalls?.[0]?.name ?? null,
+      sourceFile: filePath,
+      requestId: msg.id,
+    })
+    sendToRenderer('latch:usage-event', event)
+  }
+}
+
 /**
  * Scan a directory for .jsonl files and process them.
  */
@@ -270,10 +377,12 @@ export function startUsageWatcher(store: UsageStore, opts: WatcherOptions): void
 function _startUsageWatcher(store: UsageStore, opts: WatcherOptions): void {
   const claudeBase = path.join(os.homedir(), '.claude', 'projects')
   const codexBase = path.join(os.homedir(), '.codex', 'sessions')
+  const droidBase = droidSessionsDir()
+  const geminiBase = geminiTmpDir()
   console.log(`[usage-watcher] Starting — claudeBase=${claudeBase}, exists=${fs.existsSync(claudeBase)}`)
 
   // Initial backfill — scan all existing JSONL files
-  backfill(store, opts, claudeBase, codexBase)
+  backfill(store, opts, claudeBase, codexBase, droidBase, geminiBase)
 
   // Watch Claude projects directory
   if (fs.existsSync(claudeBase)) {
@@ -316,12 +425,56 @@ function _startUsageWatcher(store: UsageStore, opts: WatcherOptions): void {
       console.warn('[usage-watcher] Failed to watch Codex sessions:', err)
     }
   }
+
+  // Watch Droid sessions directory — usage lands in <id>.settings.json
+  if (fs.existsSync(droidBase)) {
+    try {
+      const watcher = fs.watch(droidBase, { recursive: true }, (_eventType, filename) => {
+        if (!filename || !filename.endsWith('.settings.json')) return
+        const key = `droid:${filename}`
+        if (debounceTimers.has(key)) clearTimeout(debounceTimers.get(key)!)
+        debounceTimers.set(key, setTimeout(() => {
+          debounceTimers.delete(key)
+          const sessionFile = path.join(droidBase, filename.replace(/\.settings\.json$/, '.jsonl'))
+          processDroidUsage(sessionFile, store, opts.getSessionMap, opts.sendToRenderer)
+        }, 100))
+      })
+      watchers.push(watcher)
+    } catch (err) {
+      console.warn('[usage-watcher] Failed to watch Droid sessions:', err)
+    }
+  }
+
+  // Watch Gemini CLI tmp directory — chats land in <project>/chats/session-*.json
+  if (fs.existsSync(geminiBase)) {
+    try {
+      const watcher = fs.watch(geminiBase, { recursive: true }, (_eventType, filename) => {
+        if (!filename || !/(^|[/\\])chats[/\\]session-[^/\\]*\.json$/.test(filename)) return
+        const key = `gemini:${filename}`
+        if (debounceTimers.has(key)) clearTimeout(debounceTimers.get(key)!)
+        debounceTimers.set(key, setTimeout(() => {
+          debounceTimers.delete(key)
+          processGeminiSession(path.join(geminiBase, filename), store, opts.getSessionMap, opts.sendToRenderer)
+        }, 100))
+      })
+      watchers.push(watcher)
+    } catch (err) {
+      console.warn('[usage-watcher] Failed to watch Gemini CLI chats:', err)
+    }
+  }
 }
 
 /**
  * Backfill existing JSONL files on first launch.
  */
-function backfill(store: UsageStore, opts: WatcherOptions, claudeBase: string, codexBase: string): void {
+function backfill(
+  store: UsageStore,
+  opts: WatcherOptions,
+  claudeBase: string,
+  codexBase: string,
+  droidBase: string,
+  geminiBase: string,
+): void {
   let projectToSession: Map<string, string>
   try {
     projectToSession = buildProjectToSessionMap(opts.getSessionMap)
@@ -361,6 +514,16 @@ function backfill(store: UsageStore, opts: WatcherOptions, claudeBase: string, c
   if (fs.existsSync(codexBase)) {
     scanDirectory(codexBase, parseCodexLine, store, null, 'codex', opts.sendToRenderer)
   }
+
+  // Droid sessions
+  for (const { filePath } of droidSessionFiles(droidBase)) {
+    processDroidUsage(filePath, store, opts.getSessionMap, opts.sendToRenderer)
+  }
+
+  // Gemini CLI chats
+  for (const { filePath } of geminiSessionFiles(geminiBase)) {
+    processGeminiSession(filePath, store, opts.getSessionMap, opts.sendToRenderer)
+  }
 }
 
 /**
@@ -2,19 +2,113 @@
  * @module activity-store
  * @description SQLite-backed persistence for tool-call activity events.
  * Follows the same pattern as PolicyStore / SkillsStore.
+ *
+ * Tool inputs, reasons and decision-trace details are stored redacted:
+ * values from the SecretStore and known credential patterns (leak-scanner)
+ * are masked before anything is written.
+ * An FTS5 index over tool name, redacted input and reason backs text search.
  */
 
 import type Database from 'better-sqlite3'
-import type { ActivityEvent, ActionClass, RiskLevel, AuthzDecision } from '../../types'
+import type { ActivityEvent, ActivityFilter, ActionClass, RiskLevel, AuthzDecision, DecisionTrace, PolicyAuditStats } from '../../types'
+import { redactLeaks } from '../lib/leak-scanner'
 
 let idCounter = 0
 
 /** Maximum rows to retain. Pruning runs after every insert. */
 const MAX_ROWS = 10_000
 
+/** String fields in recorded tool inputs are truncated to this many characters. */
+const MAX_INPUT_FIELD_CHARS = 4_096
+
+/** Rows re-masked per transaction when stored events are scrubbed. */
+const SCRUB_BATCH_SIZE = 500
+
+/** Input fields holding the file path a tool operates on. */
+const PATH_FIELDS = ['file_path', 'filePath', 'path', 'notebook_path']
+
+/** Apply `fn` to every string in a JSON-like value. */
+function mapStrings(value: unknown, fn: (s: string) => string): unknown {
+  if (typeof value === 'string') return fn(value)
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn))
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [key, v] of Object.entries(value)) out[key] = mapStrings(v, fn)
+    return out
+  }
+  return value
+}
+
+/** Every string in a JSON-like value, for the full-text index. */
+function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') out.push(value)
+  else if (Array.isArray(value)) value.forEach((v) => collectStrings(v, out))
+  else if (value && typeof value === 'object') Object.values(value).forEach((v) => collectStrings(v, out))
+  return out
+}
+
+/** One-line summary of a tool input: the command, file path or URL. */
+function summarizeInput(input: Record<string, unknown> | null): string | null {
+  if (!input) return null
+  const value = input.command ?? input.cmd ?? PATH_FIELDS.map((f) => input[f]).find((v) => v !== undefined) ?? input.url ?? input.pattern
+  if (typeof value !== 'string' || !value) return null
+  const line = value.replace(/\s+/g, ' ').trim()
+  return line.length > 120 ? line.slice(0, 117) + '...' : line
+}
+
+function parseToolInput(raw: string | null): Record<string, unknown> | null {
+  if (!raw) return null
+  try { return JSON.parse(raw) } catch { return null /* corrupt — treat as missing */ }
+}
+
+/** Risk factors stored with an event, as a spreadable fragment. */
+function riskFactorsOf(raw: string | null): { riskFactors?: string[] } {
+  if (!raw) return {}
+  try { return { riskFactors: JSON.parse(raw) } } catch { return {} /* corrupt — treat as missing */ }
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must appear (as a prefix),
+ * so operators and quotes typed by the user can't produce a syntax error.
+ */
+function toFtsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+  if (!words?.length) return null
+  return words.map((w) => `"${w}"*`).join(' ')
+}
+
+/** Text indexed for an event: tool name, every string in the input, and the reason. */
+function searchBody(toolName: string, input: Record<string, unknown> | null, reason: string | null): string {
+  return [toolName, ...collectStrings(input), reason ?? ''].join('\n')
+}
+
+/** A row of the activity table. */
+interface ActivityRow {
+  id: string
+  session_id: string
+  timestamp: string
+  tool_name: string
+  action_class: string
+  risk: string
+  decision: string
+  reason: string | null
+  harness_id: string
+  tool_input: string | null
+  decision_trace: string | null
+  audit_decision: string | null
+  risk_factors: string | null
+}
+
+/** An activity row as read when re-masking stored events. */
+type ScrubRow = Pick<ActivityRow, 'id' | 'tool_name' | 'reason' | 'tool_input' | 'decision_trace'> & { rowid: number }
+
 export class ActivityStore {
   db: Database.Database
   private insertsSincePrune = 0
+  /** Secret values to mask in recorded tool inputs (longest first). */
+  private redactionPattern: RegExp | null = null
+  /** The values behind redactionPattern, to tell which ones are new. */
+  private redactionValues = new Set<string>()
 
   constructor(db: Database.Database) {
     this.db = db
@@ -42,6 +136,12 @@ export class ActivityStore {
       );
     `)
 
+    // Migrations
+    try { this.db.exec('ALTER TABLE activity ADD COLUMN tool_input TEXT') } catch { /* already exists */ }
+    try { this.db.exec('ALTER TABLE activity ADD COLUMN decision_trace TEXT') } catch { /* already exists */ }
+    try { this.db.exec('ALTER TABLE activity ADD COLUMN audit_decision TEXT') } catch { /* already exists */ }
+    try { this.db.exec('ALTER TABLE activity ADD COLUMN risk_factors TEXT') } catch { /* already exists */ }
+
     // Index for efficient session-scoped queries
     try {
       this.db.exec(`
@@ -51,6 +151,101 @@ export class ActivityStore {
     } catch {
       // Index already exists
     }
+
+    // Full-text index. On first creation, backfill it from existing rows and
+    // mask credential patterns in rows recorded before redaction existed.
+    const hasFts = this.db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'activity_fts'",
+    ).get()
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS activity_fts USING fts5(
+        event_id UNINDEXED,
+        body
+      );
+    `)
+    if (!hasFts) this._scrubStored(null)
+  }
+
+  /**
+   * Set the secret values masked in recorded tool inputs. Mirrors
+   * PtyManager.setRedactionValues; values shorter than 4 chars are ignored.
+   * Stored rows containing a value that wasn't set before are re-masked, so a
+   * secret added after an event was recorded doesn't stay in the database or
+   * the index.
+   */
+  setRedactionValues(values: string[]): void {
+    const kept = [...new Set(values.filter(v => v.length >= 4))].sort((a, b) => b.length - a.length)
+    const added = kept.filter(v => !this.redactionValues.has(v))
+    this.redactionValues = new Set(kept)
+    const escaped = kept.map(v => v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    this.redactionPattern = escaped.length ? new RegExp(escaped.join('|'), 'g') : null
+    if (added.length) this._scrubStored(added)
+  }
+
+  /** Mask SecretStore values and credential patterns in one string. */
+  private _mask(value: string): string {
+    const pattern = this.redactionPattern
+    return redactLeaks(pattern ? value.replace(pattern, '[REDACTED]') : value)
+  }
+
+  /** Mask secrets in a tool input and truncate oversized string fields. */
+  private _redactInput(input: Record<string, unknown> | undefined): Record<string, unknown> | null {
+    if (!input || typeof input !== 'object') return null
+    return mapStrings(input, (value) => {
+      const out = this._mask(value)
+      return out.length > MAX_INPUT_FIELD_CHARS ? out.slice(0, MAX_INPUT_FIELD_CHARS) : out
+    }) as Record<string, unknown>
+  }
+
+  /** Mask secrets in the free-text detail of each decision-trace step. */
+  private _redactTrace(trace: DecisionTrace): DecisionTrace {
+    return { ...trace, steps: trace.steps.map((step) => (step.detail ? { ...step, detail: this._mask(step.detail) } : step)) }
+  }
+
+  /**
+   * Re-mask stored inputs, reasons and trace details with the current secret
+   * values, one batch of rows per transaction. With `values`, only rows
+   * containing one of them are visited and those that change are re-indexed;
+   * with null every row is visited and indexed (for the initial backfill).
+   */
+  private _scrubStored(values: string[] | null): void {
+    // Inputs and traces are stored as JSON, where a value may appear escaped.
+    const needles = values ? [...new Set(values.flatMap((v) => [v, JSON.stringify(v).slice(1, -1)]))] : []
+    const contains = needles.map(() =>
+      '(instr(tool_input, ?) > 0 OR instr(reason, ?) > 0 OR instr(decision_trace, ?) > 0)').join(' OR ')
+    const select = this.db.prepare(
+      `SELECT rowid, id, tool_name, reason, tool_input, decision_trace FROM activity
+       WHERE rowid > ?${values ? ` AND (${contains})` : ''} ORDER BY rowid LIMIT ?`,
+    )
+    const args = needles.flatMap((n) => [n, n, n])
+    const update = this.db.prepare('UPDATE activity SET tool_input = ?, reason = ?, decision_trace = ? WHERE id = ?')
+    const unindex = this.db.prepare('DELETE FROM activity_fts WHERE event_id = ?')
+    const index = this.db.prepare('INSERT INTO activity_fts (event_id, body) VALUES (?, ?)')
+    const reindexAll = values === null
+    const scrubBatch = this.db.transaction((rows: ScrubRow[]) => {
+      for (const row of rows) {
+        const parsedInput = parseToolInput(row.tool_input)
+        const input = parsedInput ? mapStrings(parsedInput, (value) => this._mask(value)) as Record<string, unknown> : null
+        const toolInput = input ? JSON.stringify(input) : row.tool_input
+        const reason = row.reason === null ? null : this._mask(row.reason)
+        let trace = row.decision_trace
+        try { if (trace) trace = JSON.stringify(this._redactTrace(JSON.parse(trace))) } catch { /* corrupt — leave as is */ }
+
+        const changed = toolInput !== row.tool_input || reason !== row.reason || trace !== row.decision_trace
+        if (changed) update.run(toolInput, reason, trace, row.id)
+        if (!changed && !reindexAll) continue
+        if (!reindexAll) unindex.run(row.id)
+        index.run(row.id, searchBody(row.tool_name, input, reason))
+      }
+    })
+
+    let after = 0
+    for (;;) {
+      const rows = select.all(after, ...args, SCRUB_BATCH_SIZE) as ScrubRow[]
+      if (!rows.length) break
+      scrubBatch(rows)
+      after = rows[rows.length - 1].rowid
+    }
   }
 
   /** Record a new activity event and return the hydrated record. */
@@ -59,16 +254,28 @@ export class ActivityStore {
     toolName: string
     actionClass: ActionClass
     risk: RiskLevel
+    /** Why the call got its risk — see scoreToolCall. */
+    riskFactors?: string[]
     decision: AuthzDecision
     reason: string | null
     harnessId: string
+    /** Tool input — persisted (redacted) for search and replay against draft policies. */
+    toolInput?: Record<string, unknown>
+    /** How the decision was reached — returned by getTrace. */
+    trace?: DecisionTrace
+    /** What the session's audit-mode policies would have decided. */
+    auditDecision?: AuthzDecision | null
   }): ActivityEvent {
     const id = `evt-${Date.now()}-${++idCounter}`
     const timestamp = new Date().toISOString()
+    const toolInput = this._redactInput(params.toolInput)
+    const reason = typeof params.reason === 'string' ? this._mask(params.reason) : null
+    let serialized: string | null = null
+    try { serialized = toolInput ? JSON.stringify(toolInput) : null } catch { /* unserializable — drop */ }
 
     this.db.prepare(`
-      INSERT INTO activity (id, session_id, timestamp, tool_name, action_class, risk, decision, reason, harness_id)
-      VALUES (@id, @session_id, @timestamp, @tool_name, @action_class, @risk, @decision, @reason, @harness_id)
+      INSERT INTO activity (id, session_id, timestamp, tool_name, action_class, risk, decision, reason, harness_id, tool_input, decision_trace, audit_decision, risk_factors)
+      VALUES (@id, @session_id, @timestamp, @tool_name, @action_class, @risk, @decision, @reason, @harness_id, @tool_input, @decision_trace, @audit_decision, @risk_factors)
     `).run({
       id,
       session_id: params.sessionId,
@@ -77,9 +284,15 @@ export class ActivityStore {
       action_class: params.actionClass,
       risk: params.risk,
       decision: params.decision,
-      reason: params.reason ?? null,
+      reason,
       harness_id: params.harnessId,
+      tool_input: serialized,
+      decision_trace: params.trace ? JSON.stringify(this._redactTrace(params.trace)) : null,
+      audit_decision: params.auditDecision ?? null,
+      risk_factors: params.riskFactors?.length ? JSON.stringify(params.riskFactors) : null,
     })
+    this.db.prepare('INSERT INTO activity_fts (event_id, body) VALUES (?, ?)')
+      .run(id, searchBody(params.toolName, serialized ? toolInput : null, reason))
 
     // Prune old rows every 100 inserts to bound table growth
     this.insertsSincePrune++
@@ -96,8 +309,12 @@ export class ActivityStore {
       actionClass: params.actionClass,
       risk: params.risk,
       decision: params.decision,
-      reason: params.reason,
+      reason,
       harnessId: params.harnessId,
+      detail: summarizeInput(serialized ? toolInput : null),
+      ...(params.trace ? { hasTrace: true } : {}),
+      ...(params.auditDecision ? { auditDecision: params.auditDecision } : {}),
+      ...(params.riskFactors?.length ? { riskFactors: params.riskFactors } : {}),
     }
   }
 
@@ -109,26 +326,45 @@ export class ActivityStore {
           SELECT rowid FROM activity ORDER BY timestamp DESC LIMIT ?
         )
       `).run(MAX_ROWS)
+      this.db.exec('DELETE FROM activity_fts WHERE event_id NOT IN (SELECT id FROM activity)')
     } catch {
       // Non-fatal — pruning is best-effort
     }
   }
 
-  /** List events, newest first. Optionally scoped to a session. */
-  list(opts?: { sessionId?: string; limit?: number; offset?: number }): { events: ActivityEvent[]; total: number } {
-    const sessionId = opts?.sessionId
+  /** List events matching the filters, newest first. */
+  list(opts?: ActivityFilter & { limit?: number; offset?: number }): { events: ActivityEvent[]; total: number } {
     const limit  = opts?.limit  ?? 200
     const offset = opts?.offset ?? 0
 
-    const whereClause = sessionId ? 'WHERE session_id = ?' : ''
-    const params: any[] = sessionId ? [sessionId] : []
+    const conditions: string[] = []
+    const params: unknown[] = []
+    if (opts?.sessionId) { conditions.push('session_id = ?'); params.push(opts.sessionId) }
+    if (opts?.toolName)  { conditions.push('tool_name = ?'); params.push(opts.toolName) }
+    if (opts?.decision)  { conditions.push('decision = ?'); params.push(opts.decision) }
+    if (opts?.since)     { conditions.push('timestamp >= ?'); params.push(opts.since) }
+    if (opts?.until)     { conditions.push('timestamp <= ?'); params.push(opts.until) }
+    if (opts?.path) {
+      const glob = /[*?[]/.test(opts.path) ? opts.path : `*${opts.path}*`
+      conditions.push(`(${PATH_FIELDS.map((f) => `json_extract(tool_input, '$.${f}') GLOB ?`).join(' OR ')})`)
+      params.push(...PATH_FIELDS.map(() => glob))
+    }
+    if (opts?.text) {
+      const query = toFtsQuery(opts.text)
+      if (query) {
+        conditions.push('id IN (SELECT event_id FROM activity_fts WHERE activity_fts MATCH ?)')
+        params.push(query)
+      }
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
 
-    const countRow = this.db.prepare(`SELECT COUNT(*) as cnt FROM activity ${whereClause}`).get(...params) as any
+    const countRow = this.db.prepare(`SELECT COUNT(*) as cnt FROM activity ${whereClause}`).get(...params) as { cnt: number } | undefined
     const total = countRow?.cnt ?? 0
 
     const rows = this.db.prepare(
       `SELECT * FROM activity ${whereClause} ORDER BY timestamp DESC LIMIT ? OFFSET ?`
-    ).all(...params, limit, offset) as any[]
+    ).all(...params, limit, offset) as ActivityRow[]
 
     return {
       total,
@@ -142,16 +378,51 @@ export class ActivityStore {
         decision: row.decision as AuthzDecision,
         reason: row.reason ?? null,
         harnessId: row.harness_id,
+        detail: summarizeInput(parseToolInput(row.tool_input)),
+        ...(row.decision_trace ? { hasTrace: true } : {}),
+        ...(row.audit_decision ? { auditDecision: row.audit_decision as AuthzDecision } : {}),
+        ...riskFactorsOf(row.risk_factors),
       })),
     }
   }
 
+  /** Fetch one event with its recorded tool input and decision trace. */
+  getTrace(id: string): { event: ActivityEvent; trace: DecisionTrace | null } | null {
+    const row = this.db.prepare('SELECT * FROM activity WHERE id = ?').get(id) as ActivityRow | undefined
+    if (!row) return null
+
+    let toolInput: Record<string, unknown> | null = null
+    let trace: DecisionTrace | null = null
+    try { if (row.tool_input) toolInput = JSON.parse(row.tool_input) } catch { /* corrupt — treat as missing */ }
+    try { if (row.decision_trace) trace = JSON.parse(row.decision_trace) } catch { /* corrupt — treat as missing */ }
+
+    return {
+      event: {
+        id: row.id,
+        sessionId: row.session_id,
+        timestamp: row.timestamp,
+        toolName: row.tool_name,
+        actionClass: row.action_class as ActionClass,
+        risk: row.risk as RiskLevel,
+        decision: row.decision as AuthzDecision,
+        reason: row.reason ?? null,
+        harnessId: row.harness_id,
+        toolInput,
+        detail: summarizeInput(toolInput),
+        hasTrace: trace !== null,
+        ...(row.audit_decision ? { auditDecision: row.audit_decision as AuthzDecision } : {}),
+        ...riskFactorsOf(row.risk_factors),
+      },
+      trace,
+    }
+  }
+
   /** Get events within a recent time range (for radar baseline). */
   getRecent(sinceMs: number): ActivityEvent[] {
     const since = new Date(Date.now() - sinceMs).toISOString()
     const rows = this.db.prepare(
       `SELECT * FROM activity WHERE timestamp >= ? ORDER BY timestamp ASC`
-    ).all(since) as any[]
+    ).all(since) as ActivityRow[]
 
     return rows.map((row) => ({
       id: row.id,
@@ -163,9 +434,61 @@ export class ActivityStore {
       decision: row.decision as AuthzDecision,
       reason: row.reason ?? null,
       harnessId: row.harness_id,
+      ...riskFactorsOf(row.risk_factors),
     }))
   }
 
+  /** List events with their recorded tool inputs, newest first (for policy simulation). */
+  listForReplay(opts?: { sessionId?: string; limit?: number }): ActivityEvent[] {
+    const sessionId = opts?.sessionId
+    const limit = opts?.limit ?? 2_000
+
+    const whereClause = sessionId ? 'WHERE session_id = ?' : ''
+    const params: unknown[] = sessionId ? [sessionId] : []
+
+    const rows = this.db.prepare(
+      `SELECT * FROM activity ${whereClause} ORDER BY timestamp DESC LIMIT ?`
+    ).all(...params, limit) as ActivityRow[]
+
+    return rows.map((row) => {
+      let toolInput: Record<string, unknown> | null = null
+      if (row.tool_input) {
+        try { toolInput = JSON.parse(row.tool_input) } catch { /* corrupt — treat as missing */ }
+      }
+      return {
+        id: row.id,
+        sessionId: row.session_id,
+        timestamp: row.timestamp,
+        toolName: row.tool_name,
+        actionClass: row.action_class as ActionClass,
+        risk: row.risk as RiskLevel,
+        decision: row.decision as AuthzDecision,
+        reason: row.reason ?? null,
+        harnessId: row.harness_id,
+        toolInput,
+        ...(row.audit_decision ? { auditDecision: row.audit_decision as AuthzDecision } : {}),
+      }
+    })
+  }
+
+  /**
+   * Would-be denials and prompts per audit-mode policy: calls its session's
+   * audit policy would have stopped while the policy was in audit mode.
+   */
+  auditStats(): PolicyAuditStats[] {
+    const rows = this.db.prepare(`
+      SELECT json_extract(p.value, '$.id') AS policy_id,
+             SUM(a.audit_decision = 'deny') AS would_deny,
+             SUM(a.audit_decision = 'ask')  AS would_prompt
+        FROM activity a, json_each(a.decision_trace, '$.policies') p
+       WHERE a.audit_decision IN ('deny', 'ask')
+         AND json_extract(p.value, '$.mode') = 'audit'
+       GROUP BY policy_id
+       ORDER BY policy_id
+    `).all() as { policy_id: string; would_deny: number; would_prompt: number }[]
+    return rows.map((row) => ({ policyId: row.policy_id, wouldDeny: row.would_deny, wouldPrompt: row.would_prompt }))
+  }
+
   /** Export all events as an array (for CSV/JSON export). */
   exportAll(sessionId?: string): ActivityEvent[] {
     const whereClause = sessionId ? 'WHERE session_id = ?' : ''
@@ -173,9 +496,9 @@ export class ActivityStore {
 
     const rows = this.db.prepare(
       `SELECT * FROM activity ${whereClause} ORDER BY timestamp ASC`
-    ).all(...params) as any[]
+    ).all(...params) as ActivityRow[]
 
-    return rows.map((row: any) => ({
+    return rows.map((row) => ({
       id: row.id,
       sessionId: row.session_id,
       timestamp: row.timestamp,
@@ -191,8 +514,10 @@ export class ActivityStore {
   /** Delete events. If sessionId is provided, deletes only that session's events. */
   clear(sessionId?: string): void {
     if (sessionId) {
+      this.db.prepare('DELETE FROM activity_fts WHERE event_id IN (SELECT id FROM activity WHERE session_id = ?)').run(sessionId)
       this.db.prepare('DELETE FROM activity WHERE session_id = ?').run(sessionId)
     } else {
+      this.db.exec('DELETE FROM activity_fts')
       this.db.exec('DELETE FROM activity')
     }
   }
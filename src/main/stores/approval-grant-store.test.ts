@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { ApprovalGrantStore } from './approval-grant-store'
+
+describe('ApprovalGrantStore', () => {
+  let store: ApprovalGrantStore
+
+  beforeEach(() => {
+    store = ApprovalGrantStore.open(new Database(':memory:'))
+  })
+
+  it('consumes once grants on first use', () => {
+    store.create({ sessionId: 's1', scope: 'once', toolName: 'Bash', target: 'npm test', ttlMs: 60_000 })
+    expect(store.consume('s1', [], 'Bash', { command: 'npm test' })?.scope).toBe('once')
+    expect(store.consume('s1', [], 'Bash', { command: 'npm test' })).toBeNull()
+  })
+
+  it('ignores expired grants', () => {
+    store.create({ sessionId: 's1', scope: 'once', toolName: 'Bash', target: 'npm test', ttlMs: -1 })
+    expect(store.consume('s1', [], 'Bash', { command: 'npm test' })).toBeNull()
+  })
+
+  it('counts uses of session grants and scopes them to their session', () => {
+    store.create({ sessionId: 's1', scope: 'session', toolName: 'Bash', target: null })
+    store.consume('s1', [], 'Bash', { command: 'ls' })
+    expect(store.consume('s1', [], 'Bash', { command: 'pwd' })?.useCount).toBe(2)
+    expect(store.consume('s2', [], 'Bash', { command: 'ls' })).toBeNull()
+  })
+
+  it('applies project grants to every session on the policy', () => {
+    store.create({ sessionId: 's1', scope: 'project', toolName: 'Bash', target: 'make', policyId: 'p1' })
+    expect(store.consume('s2', ['p1'], 'Bash', { command: 'make' })?.scope).toBe('project')
+    expect(store.consume('s2', ['p2'], 'Bash', { command: 'make' })).toBeNull()
+  })
+
+  it('clears session grants but keeps project grants', () => {
+    store.create({ sessionId: 's1', scope: 'exact', toolName: 'Bash', target: 'make' })
+    store.create({ sessionId: 's1', scope: 'project', toolName: 'Bash', target: 'make', policyId: 'p1' })
+    store.clearSession('s1')
+    expect(store.listForSession('s1', ['p1']).map((g) => g.scope)).toEqual(['project'])
+  })
+
+  it('returns the policy rule when revoking', () => {
+    const rule = { harnessId: 'claude', commandRules: [{ pattern: '^make$', decision: 'allow' as const }] }
+    const grant = store.create({ sessionId: 's1', scope: 'project', toolName: 'Bash', target: 'make', policyId: 'p1', rule })
+    expect(store.revoke(grant.id)?.rule).toEqual(rule)
+    expect(store.revoke(grant.id)).toBeNull()
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * @module approval-grant-store
+ * @description SQLite-backed persistence for approval grants given from the
+ * ApprovalBar. Follows the same pattern as feed-store.ts.
+ *
+ * Session-bound grants (once/exact/session) apply only in the session they
+ * were given in and are cleared when it ends; project grants apply to every
+ * session running the policy their rule was written into.
+ */
+
+import crypto from 'node:crypto'
+import type Database from 'better-sqlite3'
+import type { ApprovalGrant, ApprovalScope } from '../../types'
+import { grantMatches } from '../lib/approval-grants'
+import type { GrantRule } from '../lib/approval-grants'
+
+/** A row of the approval_grants table. */
+interface ApprovalGrantRow {
+  id: string
+  session_id: string
+  scope: ApprovalScope
+  tool_name: string
+  target: string | null
+  policy_id: string | null
+  rule: string | null
+  created_at: string
+  expires_at: string | null
+  use_count: number
+  last_used_at: string | null
+}
+
+export class ApprovalGrantStore {
+  db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  /** Open the grant store on an existing database handle. */
+  static open(db: Database.Database): ApprovalGrantStore {
+    const store = new ApprovalGrantStore(db)
+    store._init()
+    return store
+  }
+
+  _init(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS approval_grants (
+        id            TEXT PRIMARY KEY,
+        session_id    TEXT NOT NULL,
+        scope         TEXT NOT NULL,
+        tool_name     TEXT NOT NULL,
+        target        TEXT,
+        policy_id     TEXT,
+        rule          TEXT,
+        created_at    TEXT NOT NULL,
+        expires_at    TEXT,
+        use_count     INTEGER NOT NULL DEFAULT 0,
+        last_used_at  TEXT
+      );
+    `)
+
+    try {
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_approval_grants_session
+          ON approval_grants (session_id);
+      `)
+    } catch {
+      // Index already exists
+    }
+  }
+
+  _fromRow(row: ApprovalGrantRow): ApprovalGrant {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      scope: row.scope,
+      toolName: row.tool_name,
+      target: row.target ?? null,
+      policyId: row.policy_id ?? null,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? null,
+      useCount: row.use_count ?? 0,
+      lastUsedAt: row.last_used_at ?? null,
+    }
+  }
+
+  /** Drop grants whose window has passed. */
+  _pruneExpired(): void {
+    this.db.prepare('DELETE FROM approval_grants WHERE expires_at IS NOT NULL AND expires_at <= ?').run(new Date().toISOString())
+  }
+
+  /** Record a new grant and return it. */
+  create(params: {
+    sessionId: string
+    scope: ApprovalScope
+    toolName: string
+    target: string | null
+    policyId?: string | null
+    rule?: GrantRule | null
+    ttlMs?: number | null
+  }): ApprovalGrant {
+    const id = `grant-${crypto.randomBytes(6).toString('hex')}`
+    const createdAt = new Date().toISOString()
+    const expiresAt = params.ttlMs ? new Date(Date.now() + params.ttlMs).toISOString() : null
+
+    this.db.prepare(`
+      INSERT INTO approval_grants (id, session_id, scope, tool_name, target, policy_id, rule, created_at, expires_at)
+      VALUES (@id, @session_id, @scope, @tool_name, @target, @policy_id, @rule, @created_at, @expires_at)
+    `).run({
+      id,
+      session_id: params.sessionId,
+      scope: params.scope,
+      tool_name: params.toolName,
+      target: params.target,
+      policy_id: params.policyId ?? null,
+      rule: params.rule ? JSON.stringify(params.rule) : null,
+      created_at: createdAt,
+      expires_at: expiresAt,
+    })
+
+    return this._fromRow(this.db.prepare('SELECT * FROM approval_grants WHERE id = ?').get(id) as ApprovalGrantRow)
+  }
+
+  /** Active grants that apply to a session: its own, plus project grants on its policies. */
+  listForSession(sessionId: string, policyIds: string[]): ApprovalGrant[] {
+    this._pruneExpired()
+    const placeholders = policyIds.map(() => '?').join(', ')
+    const projectClause = policyIds.length ? ` OR (scope = 'project' AND policy_id IN (${placeholders}))` : ''
+    const rows = this.db.prepare(`
+      SELECT * FROM approval_grants
+      WHERE (session_id = ? AND scope != 'project')${projectClause}
+      ORDER BY created_at DESC
+    `).all(sessionId, ...policyIds) as ApprovalGrantRow[]
+    return rows.map((row) => this._fromRow(row))
+  }
+
+  /**
+   * Find the grant covering a call and record its use. Narrower grants are
+   * preferred; a `once` grant is consumed by the match.
+   */
+  consume(sessionId: string, policyIds: string[], toolName: string, toolInput: Record<string, unknown>): ApprovalGrant | null {
+    const order: ApprovalScope[] = ['once', 'exact', 'project', 'session']
+    const grant = this.listForSession(sessionId, policyIds)
+      .filter((g) => grantMatches(g, toolName, toolInput))
+      .sort((a, b) => order.indexOf(a.scope) - order.indexOf(b.scope))[0]
+    if (!grant) return null
+
+    const usedAt = new Date().toISOString()
+    if (grant.scope === 'once') {
+      this.db.prepare('DELETE FROM approval_grants WHERE id = ?').run(grant.id)
+    } else {
+      this.db.prepare('UPDATE approval_grants SET use_count = use_count + 1, last_used_at = ? WHERE id = ?').run(usedAt, grant.id)
+    }
+    return { ...grant, useCount: grant.useCount + 1, lastUsedAt: usedAt }
+  }
+
+  /** Delete a grant. Returns it (with the policy rule it added, if any) or null if unknown. */
+  revoke(id: string): { grant: ApprovalGrant; rule: GrantRule | null } | null {
+    const row = this.db.prepare('SELECT * FROM approval_grants WHERE id = ?').get(id) as ApprovalGrantRow | undefined
+    if (!row) return null
+    this.db.prepare('DELETE FROM approval_grants WHERE id = ?').run(id)
+    let rule: GrantRule | null = null
+    try {
+      if (row.rule) rule = JSON.parse(row.rule)
+    } catch { /* corrupt — nothing to undo */ }
+    return { grant: this._fromRow(row), rule }
+  }
+
+  /** Delete a session's own grants. Project grants outlive the session. */
+  clearSession(sessionId: string): void {
+    this.db.prepare(`DELETE FROM approval_grants WHERE session_id = ? AND scope != 'project'`).run(sessionId)
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import type Database from 'better-sqlite3'
+import type { ToolClassification } from '../../types'
 
 export class McpStore {
   db: Database.Database
@@ -45,6 +46,9 @@ export class McpStore {
 
     // Idempotent migration: add tool_descriptions column
     try { this.db.exec('ALTER TABLE mcp_servers ADD COLUMN tool_descriptions TEXT') } catch { /* already exists */ }
+
+    // Idempotent migration: add tool_classifications column
+    try { this.db.exec('ALTER TABLE mcp_servers ADD COLUMN tool_classifications TEXT') } catch { /* already exists */ }
   }
 
   listServers() {
@@ -65,11 +69,12 @@ export class McpStore {
 
     const now = new Date().toISOString()
     this.db.prepare(`
-      INSERT INTO mcp_servers (id, name, description, transport, command, args, tools, tool_descriptions, env, url, headers, harnesses, enabled, tags, catalog_id, created_at, updated_at)
-      VALUES (@id, @name, @description, @transport, @command, @args, @tools, @tool_descriptions, @env, @url, @headers, @harnesses, @enabled, @tags, @catalog_id, @now, @now)
+      INSERT INTO mcp_servers (id, name, description, transport, command, args, tools, tool_descriptions, tool_classifications, env, url, headers, harnesses, enabled, tags, catalog_id, created_at, updated_at)
+      VALUES (@id, @name, @description, @transport, @command, @args, @tools, @tool_descriptions, @tool_classifications, @env, @url, @headers, @harnesses, @enabled, @tags, @catalog_id, @now, @now)
       ON CONFLICT(id) DO UPDATE SET
         name = @name, description = @description, transport = @transport,
-        command = @command, args = @args, tools = @tools, tool_descriptions = @tool_descriptions, env = @env,
+        command = @command, args = @args, tools = @tools, tool_descriptions = @tool_descriptions,
+        tool_classifications = @tool_classifications, env = @env,
         url = @url, headers = @headers, harnesses = @harnesses,
         enabled = @enabled, tags = @tags, catalog_id = @catalog_id,
         updated_at = @now
@@ -82,6 +87,7 @@ export class McpStore {
       args: server.args ? JSON.stringify(server.args) : null,
       tools: Array.isArray(server.tools) && server.tools.length ? JSON.stringify(server.tools) : null,
       tool_descriptions: server.toolDescriptions && Object.keys(server.toolDescriptions).length ? JSON.stringify(server.toolDescriptions) : null,
+      tool_classifications: server.toolClassifications && Object.keys(server.toolClassifications).length ? JSON.stringify(server.toolClassifications) : null,
       env: server.env ? JSON.stringify(server.env) : null,
       url: server.url ?? null,
       headers: server.headers ? JSON.stringify(server.headers) : null,
@@ -116,6 +122,11 @@ export class McpStore {
       try { toolDescriptions = JSON.parse(row.tool_descriptions) } catch { /* fallback */ }
     }
 
+    let toolClassifications: Record<string, ToolClassification> = {}
+    if (row.tool_classifications) {
+      try { toolClassifications = JSON.parse(row.tool_classifications) } catch { /* fallback */ }
+    }
+
     let env: Record<string, string> | undefined
     if (row.env) {
       try { env = JSON.parse(row.env) } catch { /* fallback */ }
@@ -140,6 +151,7 @@ export class McpStore {
       args,
       tools,
       toolDescriptions,
+      toolClassifications,
       env,
       url: row.url ?? undefined,
       headers,
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { PolicyStore } from './policy-store'
+
+function makePolicy(overrides: Record<string, any> = {}) {
+  return {
+    id: 'strict',
+    name: 'Strict',
+    description: '',
+    permissions: {
+      allowBash: true,
+      allowNetwork: true,
+      allowFileWrite: true,
+      confirmDestructive: true,
+      blockedGlobs: [],
+    },
+    harnesses: {},
+    ...overrides,
+  }
+}
+
+describe('PolicyStore revisions', () => {
+  let store: PolicyStore
+
+  beforeEach(() => {
+    store = PolicyStore.open(new Database(':memory:'))
+  })
+
+  it('records a new revision on every changed save', () => {
+    expect(store.savePolicy(makePolicy(), 'alice').revision).toBe(1)
+    const loosened = makePolicy({ permissions: { ...makePolicy().permissions, allowNetwork: true, confirmDestructive: false } })
+    expect(store.savePolicy(loosened, 'bob').revision).toBe(2)
+
+    const { revisions } = store.listRevisions('strict')
+    expect(revisions.map((r) => r.revision)).toEqual([2, 1])
+    expect(revisions[0].author).toBe('bob')
+    expect(revisions[1].author).toBe('alice')
+    expect(store.getCurrentRevision('strict')).toBe(2)
+  })
+
+  it('does not add a revision when the body is unchanged', () => {
+    store.savePolicy(makePolicy())
+    const reread = store.getPolicy('strict').policy
+    expect(store.savePolicy(reread).revision).toBe(1)
+    expect(store.listRevisions('strict').revisions).toHaveLength(1)
+  })
+
+  it('keeps earlier revisions immutable', () => {
+    store.savePolicy(makePolicy())
+    store.savePolicy(makePolicy({ name: 'Renamed' }))
+    const first = store.getRevision('strict', 1)
+    expect(first.ok).toBe(true)
+    expect(first.revision!.policy.name).toBe('Strict')
+  })
+
+  it('diffs two revisions', () => {
+    store.savePolicy(makePolicy())
+    store.savePolicy(makePolicy({
+      permissions: { ...makePolicy().permissions, blockedGlobs: ['~/.ssh/**'] },
+    }))
+    const result = store.diffRevisions('strict', 1, 2)
+    expect(result.ok).toBe(true)
+    expect(result.diff!.changes).toEqual([
+      { section: 'blockedGlobs', key: '~/.ssh/**', kind: 'added', after: '~/.ssh/**' },
+    ])
+  })
+
+  it('rolls back by appending the old body as a new revision', () => {
+    store.savePolicy(makePolicy())
+    store.savePolicy(makePolicy({ permissions: { ...makePolicy().permissions, allowBash: false } }))
+
+    const result = store.rollbackPolicy('strict', 1, 'carol')
+    expect(result).toEqual({ ok: true, revision: 3 })
+    expect(store.getPolicy('strict').policy.permissions.allowBash).toBe(true)
+
+    const latest = store.listRevisions('strict').revisions[0]
+    expect(latest.rolledBackFrom).toBe(1)
+    expect(latest.author).toBe('carol')
+    expect(latest.hash).toBe(store.listRevisions('strict').revisions[2].hash)
+  })
+
+  it('returns an error for unknown revisions', () => {
+    store.savePolicy(makePolicy())
+    expect(store.rollbackPolicy('strict', 9).ok).toBe(false)
+    expect(store.diffRevisions('strict', 1, 9).ok).toBe(false)
+  })
+
+  it('backfills revision 1 for policies saved before history existed', () => {
+    const db = new Database(':memory:')
+    db.exec(`CREATE TABLE policies (id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT,
+      body TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)`)
+    db.prepare('INSERT INTO policies VALUES (?, ?, ?, ?, ?, ?)')
+      .run('legacy', 'Legacy', null, JSON.stringify(makePolicy({ id: 'legacy', name: 'Legacy' })), 't', 't')
+    const legacy = PolicyStore.open(db)
+    expect(legacy.getCurrentRevision('legacy')).toBe(1)
+  })
+})
+
+describe('PolicyStore inheritance', () => {
+  let store: PolicyStore
+
+  beforeEach(() => {
+    store = PolicyStore.open(new Database(':memory:'))
+    store.savePolicy(makePolicy({ id: 'base', name: 'Base' }))
+  })
+
+  it('rejects saving a policy with a missing base or unknown fragment', () => {
+    expect(store.savePolicy(makePolicy({ extends: ['gone'] }))).toMatchObject({ ok: false, error: expect.stringContaining('"gone"') })
+    expect(store.savePolicy(makePolicy({ fragments: ['nope'] }))).toMatchObject({ ok: false, error: expect.stringContaining('"nope"') })
+    expect(store.getPolicy('strict').ok).toBe(false)
+  })
+
+  it('rejects a save that would close a cycle', () => {
+    expect(store.savePolicy(makePolicy({ extends: ['base'] })).ok).toBe(true)
+    const result = store.savePolicy(makePolicy({ id: 'base', name: 'Base', extends: ['strict'] }))
+    expect(result).toEqual({ ok: false, error: 'Policy inheritance cycle: base → strict → base' })
+  })
+
+  it('refuses to delete a policy others extend', () => {
+    store.savePolicy(makePolicy({ extends: ['base'] }))
+    expect(store.deletePolicy('base')).toEqual({ ok: false, error: 'Policy is extended by strict.' })
+    expect(store.deletePolicy('strict').ok).toBe(true)
+    expect(store.deletePolicy('base').ok).toBe(true)
+  })
+})
@@ -1,4 +1,39 @@
+import { createHash } from 'node:crypto'
 import type Database from 'better-sqlite3'
+import { canonicalJsonStringify } from '../lib/canonical-json'
+import { diffPolicies } from '../lib/policy-diff'
+import { flattenPolicyIn, policyDependents } from '../lib/policy-inheritance'
+import type { HarnessesConfig, PolicyDocument, PolicyPermissions } from '../../types'
+
+/** A policy as getPolicy returns it, with its read-only last-saved time. */
+type StoredPolicyDocument = PolicyDocument & { updatedAt?: string }
+
+/** A policy as submitted for saving: permission defaults and harnesses may be missing. */
+type PolicyDraft = Omit<StoredPolicyDocument, 'permissions' | 'harnesses'> & {
+  permissions?: Partial<PolicyPermissions>
+  harnesses?: HarnessesConfig
+}
+
+/** A row of the policies table. */
+interface PolicyRow {
+  id: string
+  name: string
+  description: string | null
+  body: string
+  created_at: string
+  updated_at: string
+}
+
+/** A row of the policy_revisions table. */
+interface PolicyRevisionRow {
+  policy_id: string
+  revision: number
+  body: string
+  hash: string
+  author: string | null
+  rolled_back_from: number | null
+  created_at: string
+}
 
 export class PolicyStore {
   db: Database.Database
@@ -23,8 +58,31 @@ export class PolicyStore {
         created_at  TEXT NOT NULL,
         updated_at  TEXT NOT NULL
       );
+      CREATE TABLE IF NOT EXISTS policy_revisions (
+        policy_id          TEXT NOT NULL,
+        revision           INTEGER NOT NULL,
+        body               TEXT NOT NULL,
+        hash               TEXT NOT NULL,
+        author             TEXT,
+        rolled_back_from   INTEGER,
+        created_at         TEXT NOT NULL,
+        PRIMARY KEY (policy_id, revision)
+      );
     `)
 
+    // Backfill revision 1 for policies saved before revisions existed.
+    const unversioned = this.db.prepare(`
+      SELECT * FROM policies p
+      WHERE NOT EXISTS (SELECT 1 FROM policy_revisions r WHERE r.policy_id = p.id)
+    `).all() as PolicyRow[]
+    for (const row of unversioned) {
+      try {
+        this._appendRevision(JSON.parse(row.body), null, null, row.updated_at)
+      } catch (err: unknown) {
+        console.warn('[PolicyStore] Skipping revision backfill for corrupt row:', row.id, err instanceof Error ? err.message : String(err))
+      }
+    }
+
     // (No default policy seeded — users create policies explicitly.)
   }
 
@@ -41,8 +99,34 @@ export class PolicyStore {
     })
   }
 
+  /** Hash of the canonical policy body, ignoring read-only fields added by getPolicy. */
+  static hashPolicy(policy: StoredPolicyDocument): string {
+    const { updatedAt: _updatedAt, ...body } = policy ?? {}
+    return createHash('sha256').update(canonicalJsonStringify(body)).digest('hex')
+  }
+
+  /**
+   * Append an immutable revision for the given body. Returns the revision
+   * number — an unchanged body reuses the latest revision instead of adding one.
+   */
+  _appendRevision(policy: StoredPolicyDocument, author: string | null, rolledBackFrom: number | null, createdAt?: string): number {
+    const { updatedAt: _updatedAt, ...body } = policy
+    const hash = PolicyStore.hashPolicy(body)
+    const latest = this.db.prepare(
+      'SELECT revision, hash FROM policy_revisions WHERE policy_id = ? ORDER BY revision DESC LIMIT 1'
+    ).get(body.id) as { revision: number; hash: string } | undefined
+    if (latest && latest.hash === hash && rolledBackFrom === null) return latest.revision
+
+    const revision = (latest?.revision ?? 0) + 1
+    this.db.prepare(`
+      INSERT INTO policy_revisions (policy_id, revision, body, hash, author, rolled_back_from, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(body.id, revision, JSON.stringify(body), hash, author, rolledBackFrom, createdAt ?? new Date().toISOString())
+    return revision
+  }
+
   listPolicies() {
-    const rows = this.db.prepare('SELECT * FROM policies ORDER BY name ASC').all() as any[]
+    const rows = this.db.prepare('SELECT * FROM policies ORDER BY name ASC').all() as PolicyRow[]
     const policies: any[] = []
     for (const row of rows) {
       try {
@@ -55,7 +139,7 @@ export class PolicyStore {
   }
 
   getPolicy(id: string) {
-    const row = this.db.prepare('SELECT * FROM policies WHERE id = ?').get(id) as any
+    const row = this.db.prepare('SELECT * FROM policies WHERE id = ?').get(id) as PolicyRow | undefined
     if (!row) return { ok: false, error: `Policy '${id}' not found.` }
     try {
       return {
@@ -68,12 +152,11 @@ export class PolicyStore {
     }
   }
 
-  savePolicy(policy: any) {
-    if (!policy?.id) return { ok: false, error: 'Policy must have an id.' }
-    if (!policy?.name) return { ok: false, error: 'Policy must have a name.' }
-
-    const merged = {
-      ...policy,
+  /** The document as savePolicy stores it: permission defaults filled in, read-only fields dropped. */
+  static normalizePolicy(policy: PolicyDraft): PolicyDocument {
+    const { updatedAt: _updatedAt, ...rest } = policy
+    return {
+      ...rest,
       permissions: {
         allowBash: true, allowNetwork: true, allowFileWrite: true,
         confirmDestructive: true, blockedGlobs: [],
@@ -81,14 +164,113 @@ export class PolicyStore {
       },
       harnesses: policy.harnesses ?? {}
     }
+  }
 
-    this._upsert(merged)
-    return { ok: true }
+  savePolicy(policy: any, author: string | null = null) {
+    if (!policy?.id) return { ok: false, error: 'Policy must have an id.' }
+    if (!policy?.name) return { ok: false, error: 'Policy must have a name.' }
+
+    const merged = PolicyStore.normalizePolicy(policy)
+    const inheritance = this._checkInheritance(merged)
+    if (!inheritance.ok) return inheritance
+
+    const revision = this.db.transaction(() => {
+      this._upsert(merged)
+      return this._appendRevision(merged, author, null)
+    })()
+    return { ok: true, revision }
+  }
+
+  /** Reject a body whose `extends` or `fragments` can't be resolved against the other stored policies. */
+  _checkInheritance(policy: PolicyDocument): { ok: true } | { ok: false; error: string } {
+    if (!policy.extends?.length && !policy.fragments?.length) return { ok: true }
+    const flattened = flattenPolicyIn(policy, this.listPolicies().policies)
+    return flattened.ok ? { ok: true } : { ok: false, error: flattened.error }
   }
 
   deletePolicy(id: string) {
+    const dependents = policyDependents(id, this.listPolicies().policies)
+    if (dependents.length) return { ok: false, error: `Policy is extended by ${dependents.join(', ')}.` }
+    // Revisions are kept so past session receipts stay resolvable.
     this.db.prepare('DELETE FROM policies WHERE id = ?').run(id)
     return { ok: true }
   }
-}
 
+  // ── Revisions ─────────────────────────────────────────────────────────────
+
+  _revisionFromRow(row: PolicyRevisionRow, includeBody: boolean) {
+    return {
+      policyId: row.policy_id,
+      revision: row.revision,
+      hash: row.hash,
+      author: row.author ?? null,
+      rolledBackFrom: row.rolled_back_from ?? null,
+      createdAt: row.created_at,
+      ...(includeBody ? { policy: JSON.parse(row.body) } : {}),
+    }
+  }
+
+  /** List revision metadata for a policy, newest first. */
+  listRevisions(policyId: string) {
+    const rows = this.db.prepare(
+      'SELECT * FROM policy_revisions WHERE policy_id = ? ORDER BY revision DESC'
+    ).all(policyId) as PolicyRevisionRow[]
+    return { ok: true, revisions: rows.map((row) => this._revisionFromRow(row, false)) }
+  }
+
+  /** Fetch a single revision including its full policy snapshot. */
+  getRevision(policyId: string, revision: number) {
+    const row = this.db.prepare(
+      'SELECT * FROM policy_revisions WHERE policy_id = ? AND revision = ?'
+    ).get(policyId, revision) as PolicyRevisionRow | undefined
+    if (!row) return { ok: false, error: `Revision ${revision} of policy '${policyId}' not found.` }
+    try {
+      return { ok: true, revision: this._revisionFromRow(row, true) }
+    } catch (err: unknown) {
+      console.warn('[PolicyStore] Corrupt revision data:', policyId, revision, err instanceof Error ? err.message : String(err))
+      return { ok: false, error: 'Corrupt revision data' }
+    }
+  }
+
+  /** Latest revision number for a policy, or null if it has never been saved. */
+  getCurrentRevision(policyId: string): number | null {
+    const row = this.db.prepare(
+      'SELECT MAX(revision) AS revision FROM policy_revisions WHERE policy_id = ?'
+    ).get(policyId) as { revision: number | null } | undefined
+    return row?.revision ?? null
+  }
+
+  /** Structured diff between two revisions of the same policy. */
+  diffRevisions(policyId: string, from: number, to: number) {
+    const a = this.getRevision(policyId, from)
+    if (!a.ok) return { ok: false, error: a.error }
+    const b = this.getRevision(policyId, to)
+    if (!b.ok) return { ok: false, error: b.error }
+    return {
+      ok: true,
+      diff: {
+        policyId,
+        fromRevision: from,
+        toRevision: to,
+        changes: diffPolicies(a.revision!.policy, b.revision!.policy),
+      },
+    }
+  }
+
+  /**
+   * Restore an earlier revision. History is never rewritten — the old body is
+   * saved again as a new revision that records where it came from.
+   */
+  rollbackPolicy(policyId: string, revision: number, author: string | null = null) {
+    const target = this.getRevision(policyId, revision)
+    if (!target.ok) return { ok: false, error: target.error }
+    const body = target.revision!.policy
+    const inheritance = this._checkInheritance(body)
+    if (!inheritance.ok) return inheritance
+    const newRevision = this.db.transaction(() => {
+      this._upsert(body)
+      return this._appendRevision(body, author, revision)
+    })()
+    return { ok: true, revision: newRevision }
+  }
+}
@@ -5,7 +5,8 @@ import type Database from 'better-sqlite3'
 
 /** Harnesses that use markdown injection into a single agent file */
 const HARNESS_AGENT_FILES: Record<string, string> = {
-  codex: path.join(os.homedir(), '.codex', 'AGENTS.md'),
+  codex:  path.join(os.homedir(), '.codex', 'AGENTS.md'),
+  gemini: path.join(os.homedir(), '.gemini', 'GEMINI.md'),
 }
 
 /** Harnesses that use ~/.X/skills/<skill-id>/SKILL.md (one file per skill) */
@@ -104,7 +105,7 @@ export class SkillsStore {
       return this._syncToSkillsDir(skillsDir, applicable)
     }
 
-    // Harnesses using markdown injection into a single agent file (Codex)
+    // Harnesses using markdown injection into a single agent file (Codex, Gemini CLI)
     const targetPath = HARNESS_AGENT_FILES[harnessId]
     if (!targetPath) return { ok: false, error: `Unknown harness '${harnessId}'.` }
 
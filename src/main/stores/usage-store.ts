@@ -83,6 +83,19 @@ export class UsageStore {
     return !!row
   }
 
+  /**
+   * Token counts already recorded from a source file. Harnesses that log a
+   * running total (Droid) record the difference from this.
+   */
+  sourceTotals(sourceFile: string): { inputTokens: number; outputTokens: number; cacheWriteTokens: number; cacheReadTokens: number } {
+    const row = this.db.prepare(`
+      SELECT COALESCE(SUM(input_tokens), 0) as input, COALESCE(SUM(output_tokens), 0) as output,
+             COALESCE(SUM(cache_write_tokens), 0) as cache_write, COALESCE(SUM(cache_read_tokens), 0) as cache_read
+      FROM usage_events WHERE source_file = ?
+    `).get(sourceFile) as { input: number; output: number; cache_write: number; cache_read: number }
+    return { inputTokens: row.input, outputTokens: row.output, cacheWriteTokens: row.cache_write, cacheReadTokens: row.cache_read }
+  }
+
   /**
    * Record a single usage event. Returns the hydrated UsageEvent.
    */
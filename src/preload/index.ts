@@ -10,7 +10,8 @@
 
 'use strict';
 
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
+import type { ConfigTamperAlert } from '../types';
 
 contextBridge.exposeInMainWorld('latch', {
 
@@ -112,6 +113,51 @@ contextBridge.exposeInMainWorld('latch', {
   deletePolicy: (payload: { id: string }) =>
     ipcRenderer.invoke('latch:policy-delete', payload),
 
+  listPolicyRevisions: (payload: { id: string }) =>
+    ipcRenderer.invoke('latch:policy-revisions', payload),
+
+  getPolicyRevision: (payload: { id: string; revision: number }) =>
+    ipcRenderer.invoke('latch:policy-revision-get', payload),
+
+  diffPolicyRevisions: (payload: { id: string; from: number; to: number }) =>
+    ipcRenderer.invoke('latch:policy-diff', payload),
+
+  rollbackPolicy: (payload: { id: string; revision: number }) =>
+    ipcRenderer.invoke('latch:policy-rollback', payload),
+
+  simulatePolicy: (payload: { policy: Record<string, unknown>; baselineRevision?: number | null; sessionId?: string; limit?: number }) =>
+    ipcRenderer.invoke('latch:policy-simulate', payload),
+
+  lintPolicy: (payload: { policy: Record<string, unknown> }) =>
+    ipcRenderer.invoke('latch:policy-lint', payload),
+
+  resolvePolicy: (payload: { policy: Record<string, unknown> }) =>
+    ipcRenderer.invoke('latch:policy-resolve', payload),
+
+  listPolicyFragments: () => ipcRenderer.invoke('latch:policy-fragments'),
+
+  testPolicy: (payload: { policy: Record<string, unknown> }) =>
+    ipcRenderer.invoke('latch:policy-test', payload),
+
+  learnPolicy: (payload: { sessionIds: string[] }) =>
+    ipcRenderer.invoke('latch:policy-learn', payload),
+
+  importNativePolicy: (payload: { dir?: string }) =>
+    ipcRenderer.invoke('latch:policy-import-native', payload),
+
+  getPolicyAuditStats: () => ipcRenderer.invoke('latch:policy-audit-stats'),
+
+  exportPolicy: (payload: { id: string }) =>
+    ipcRenderer.invoke('latch:policy-export', payload),
+
+  importPolicy: () => ipcRenderer.invoke('latch:policy-import'),
+
+  discoverRepoPolicy: (payload: { repoRoot: string }) =>
+    ipcRenderer.invoke('latch:repo-policy-discover', payload),
+
+  approveRepoPolicy: (payload: { repoRoot: string }) =>
+    ipcRenderer.invoke('latch:repo-policy-approve', payload),
+
   enforcePolicy: (payload: { policyId: string; policyOverride?: Record<string, unknown> | null; harnessId: string; harnessCommand: string; worktreePath: string | null; projectDir?: string | null; sessionId?: string; authzPort?: number }) =>
     ipcRenderer.invoke('latch:policy-enforce', payload),
 
@@ -150,6 +196,9 @@ contextBridge.exposeInMainWorld('latch', {
   introspectMcpServer: (payload: { id: string }) =>
     ipcRenderer.invoke('latch:mcp-introspect', payload),
 
+  classifyMcpTools: (payload: { server: string; tools: string[]; toolDescriptions?: Record<string, string> }) =>
+    ipcRenderer.invoke('latch:mcp-classify-tools', payload),
+
   // ── Docker sandbox ────────────────────────────────────────────────────────
 
   dockerDetect: () => ipcRenderer.invoke('latch:docker-detect'),
@@ -181,7 +230,7 @@ contextBridge.exposeInMainWorld('latch', {
 
   // ── Gateway orchestration ──────────────────────────────────────────────
 
-  startGateway: (payload: { sessionId: string; serviceIds: string[]; maxDataTier: string; policyId: string; policyOverride?: Record<string, unknown> | null; workspacePath: string | null; enableTls?: boolean }) =>
+  startGateway: (payload: { sessionId: string; serviceIds: string[]; maxDataTier: string; policyId: string; policyIds?: string[]; policyOverride?: Record<string, unknown> | null; workspacePath: string | null; enableTls?: boolean }) =>
     ipcRenderer.invoke('latch:gateway-start', payload),
 
   stopGateway: (payload: { sessionId: string; exitReason?: string }) =>
@@ -192,9 +241,15 @@ contextBridge.exposeInMainWorld('latch', {
 
   // ── Activity / Authz ──────────────────────────────────────────────────────
 
-  listActivity: (payload?: { sessionId?: string; limit?: number; offset?: number }) =>
+  listActivity: (payload?: {
+    sessionId?: string; toolName?: string; decision?: 'allow' | 'deny' | 'ask'; path?: string; text?: string;
+    since?: string; until?: string; limit?: number; offset?: number
+  }) =>
     ipcRenderer.invoke('latch:activity-list', payload),
 
+  getActivityTrace: (payload: { id: string }) =>
+    ipcRenderer.invoke('latch:activity-trace', payload),
+
   clearActivity: (payload?: { sessionId?: string }) =>
     ipcRenderer.invoke('latch:activity-clear', payload),
 
@@ -204,13 +259,17 @@ contextBridge.exposeInMainWorld('latch', {
   getRadarSignals: () => ipcRenderer.invoke('latch:radar-signals'),
 
   getAuthzPort: () => ipcRenderer.invoke('latch:authz-port'),
+  getAuthzMetrics: () => ipcRenderer.invoke('latch:authz-metrics'),
 
-  authzRegister: (payload: { sessionId: string; harnessId: string; policyIds: string[]; policyOverride?: Record<string, unknown> | null }) =>
+  authzRegister: (payload: { sessionId: string; harnessId: string; policyIds: string[]; policyOverride?: Record<string, unknown> | null; workspaceRoot?: string | null }) =>
     ipcRenderer.invoke('latch:authz-register', payload),
 
   authzUnregister: (payload: { sessionId: string }) =>
     ipcRenderer.invoke('latch:authz-unregister', payload),
 
+  getQuotaStatus: (payload: { sessionId: string }) =>
+    ipcRenderer.invoke('latch:authz-quotas', payload),
+
   onActivityEvent: (callback: (event: any) => void) => {
     const handler = (_event: any, payload: any) => callback(payload)
     ipcRenderer.on('latch:activity-event', handler)
@@ -225,9 +284,15 @@ contextBridge.exposeInMainWorld('latch', {
 
   // ── Approval flow ──────────────────────────────────────────────────────────
 
-  resolveApproval: (payload: { id: string; decision: string }) =>
+  resolveApproval: (payload: { id: string; decision: string; scope?: string }) =>
     ipcRenderer.invoke('latch:approval-resolve', payload),
 
+  listGrants: (payload: { sessionId: string }) =>
+    ipcRenderer.invoke('latch:grant-list', payload),
+
+  revokeGrant: (payload: { id: string }) =>
+    ipcRenderer.invoke('latch:grant-revoke', payload),
+
   onApprovalRequest: (callback: (approval: any) => void) => {
     const handler = (_event: any, payload: any) => callback(payload)
     ipcRenderer.on('latch:approval-request', handler)
@@ -438,6 +503,15 @@ contextBridge.exposeInMainWorld('latch', {
   respondBudgetAlert: (payload: { alertId: string; action: string }) =>
     ipcRenderer.invoke('latch:budget-respond', payload),
 
+  onConfigTamperAlert: (callback: (alert: ConfigTamperAlert) => void) => {
+    const handler = (_event: IpcRendererEvent, payload: ConfigTamperAlert) => callback(payload)
+    ipcRenderer.on('latch:config-tamper-alert', handler)
+    return () => { ipcRenderer.removeListener('latch:config-tamper-alert', handler) }
+  },
+
+  respondConfigTamper: (payload: { sessionId: string; action: string }) =>
+    ipcRenderer.invoke('latch:config-tamper-respond', payload),
+
   // ── Rewind / Checkpoints ─────────────────────────────────────────────
 
   listCheckpoints: (payload: { sessionId: string }) =>
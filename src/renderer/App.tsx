@@ -40,6 +40,7 @@ import PolicyEditor    from './components/modals/PolicyEditor'
 import McpEditor       from './components/modals/McpEditor'
 import McpDetail       from './components/modals/McpDetail'
 import BudgetAlertDialog from './components/modals/BudgetAlertDialog'
+import ConfigTamperDialog from './components/modals/ConfigTamperDialog'
 import EndSessionDialog from './components/modals/EndSessionDialog'
 import UpdateBanner    from './components/UpdateBanner'
 
@@ -80,6 +81,8 @@ export default function App() {
     handleLiveEvent,
     handleBudgetAlert,
     activeBudgetAlert,
+    handleConfigTamperAlert,
+    activeTamperAlert,
     loadHarnesses,
     loadSessions,
     loadSoundSetting,
@@ -137,6 +140,12 @@ export default function App() {
       if (useAppStore.getState().soundNotifications) playNotificationSound()
     })
 
+    // Register config tamper listener (session paused after its policy config changed)
+    const disposeConfigTamper = window.latch?.onConfigTamperAlert?.((alert) => {
+      handleConfigTamperAlert(alert)
+      if (useAppStore.getState().soundNotifications) playNotificationSound()
+    })
+
     // Register resume-id listener (captures Claude Code resume ID from PTY output)
     const disposeResumeId = window.latch?.onResumeIdDetected?.(({ sessionId: tabId, resumeId }) => {
       // tabId is the PTY key — find the parent session
@@ -178,6 +187,7 @@ export default function App() {
       disposeUsageEvent?.()
       disposeLiveEvent?.()
       disposeBudgetAlert?.()
+      disposeConfigTamper?.()
       disposeResumeId?.()
       disposeApprovalRequest?.()
       disposeApprovalResolved?.()
@@ -312,6 +322,7 @@ export default function App() {
       {mcpEditorOpen    && <McpEditor />}
       {mcpDetailOpen    && <McpDetail />}
       {activeBudgetAlert && <BudgetAlertDialog />}
+      {activeTamperAlert && <ConfigTamperDialog />}
       {endDialogSessionId && <EndSessionDialog />}
       {/* ── Update banner ────────────────────────────────────────────────── */}
       <UpdateBanner />
@@ -3,13 +3,22 @@
  * @description Fixed notification bar for interactive tool-call approvals.
  *
  * Rendered inside TerminalArea, above the terminal host. Shows the top
- * pending approval with Approve (Y) / Deny (N) buttons and a countdown.
- * Keyboard shortcuts: Y to approve, N to deny.
+ * pending approval with Deny and scoped Approve buttons and a countdown.
+ * Keyboard shortcuts: Y approve once, E this exact call for the session,
+ * S the tool for the session, A always (adds a policy rule), N deny.
  */
 
 import React, { useEffect, useState, useCallback } from 'react'
 import { useAppStore } from '../store/useAppStore'
-import type { PendingApproval } from '../../types'
+import type { ApprovalScope, PendingApproval } from '../../types'
+
+/** Approval choices, narrowest first. */
+const SCOPE_BUTTONS: { scope: ApprovalScope; key: string; label: string; title: string }[] = [
+  { scope: 'once',    key: 'y', label: 'Once (Y)',    title: 'Approve this call only' },
+  { scope: 'exact',   key: 'e', label: 'Exact (E)',   title: 'Approve this exact command/path for the rest of the session' },
+  { scope: 'session', key: 's', label: 'Session (S)', title: 'Approve this tool for the rest of the session' },
+  { scope: 'project', key: 'a', label: 'Always (A)',  title: 'Approve this exact call from now on — adds an allow rule to the session policy' },
+]
 
 /** Summarise tool input for display (e.g. command for Bash, path for Write). */
 function summariseInput(toolName: string, toolInput: Record<string, unknown>): string {
@@ -70,24 +79,26 @@ export default function ApprovalBar() {
   const sessionApprovals = pendingApprovals.filter((a) => a.sessionId === activeSessionId)
   const current = sessionApprovals[0]
 
-  const handleApprove = useCallback(() => {
-    if (current) resolveApproval(current.id, 'approve')
+  const handleApprove = useCallback((scope: ApprovalScope) => {
+    if (current) resolveApproval(current.id, 'approve', scope)
   }, [current, resolveApproval])
 
   const handleDeny = useCallback(() => {
     if (current) resolveApproval(current.id, 'deny')
   }, [current, resolveApproval])
 
-  // Keyboard shortcuts: Y to approve, N to deny
+  // Keyboard shortcuts: one key per approval scope, N to deny
   useEffect(() => {
     if (!current) return
     const handler = (e: KeyboardEvent) => {
       // Don't capture if user is typing in an input/textarea
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
-      if (e.key === 'y' || e.key === 'Y') {
+      const key = e.key.toLowerCase()
+      const choice = SCOPE_BUTTONS.find((b) => b.key === key)
+      if (choice) {
         e.preventDefault()
-        handleApprove()
-      } else if (e.key === 'n' || e.key === 'N') {
+        handleApprove(choice.scope)
+      } else if (key === 'n') {
         e.preventDefault()
         handleDeny()
       }
@@ -104,7 +115,7 @@ export default function ApprovalBar() {
   return (
     <div className={`approval-bar${isHigh ? ' is-high-risk' : ''}`}>
       <div className="approval-info">
-        <span className={`approval-risk-badge is-${current.risk}`}>{current.risk}</span>
+        <span className={`approval-risk-badge is-${current.risk}`} title={current.riskFactors?.join('\n')}>{current.risk}</span>
         <span className="approval-tool">{current.toolName}</span>
         {current.reason && <span className="approval-reason">{current.reason}</span>}
         {summary && <span className="approval-summary">{summary}</span>}
@@ -118,9 +129,16 @@ export default function ApprovalBar() {
         <button className="approval-btn is-deny" onClick={handleDeny} title="Deny (N)">
           Deny (N)
         </button>
-        <button className="approval-btn is-approve" onClick={handleApprove} title="Approve (Y)">
-          Approve (Y)
-        </button>
+        {SCOPE_BUTTONS.map((b) => (
+          <button
+            key={b.scope}
+            className={`approval-btn is-approve${b.scope === 'once' ? '' : ' is-scoped'}`}
+            onClick={() => handleApprove(b.scope)}
+            title={b.title}
+          >
+            {b.label}
+          </button>
+        ))}
       </div>
     </div>
   )
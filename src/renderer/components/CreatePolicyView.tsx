@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { useAppStore } from '../store/useAppStore'
-import type { PolicyDocument, PolicyPermissions } from '../../types'
+import type { PolicyDocument, PolicyPermissions, PolicyPermissionFlag } from '../../types'
 import { POLICY_PRESETS } from '../data/policy-presets'
 import type { PolicyPreset } from '../data/policy-presets'
 
@@ -78,7 +78,7 @@ export default function CreatePolicyView() {
     }
   }
 
-  const updatePerm = (key: keyof Omit<PolicyPermissions, 'blockedGlobs' | 'commandRules'>, val: boolean) => {
+  const updatePerm = (key: PolicyPermissionFlag, val: boolean) => {
     setPerms((p) => ({ ...p, [key]: val }))
   }
 
@@ -187,7 +187,7 @@ export default function CreatePolicyView() {
                     ['Allow network access',        'allowNetwork'],
                     ['Allow file writes',           'allowFileWrite'],
                     ['Confirm destructive ops',     'confirmDestructive'],
-                  ] as [string, keyof Omit<PolicyPermissions, 'blockedGlobs' | 'commandRules'>][]
+                  ] as [string, PolicyPermissionFlag][]
                 ).map(([label, key]) => (
                   <label key={key} className="cp-toggle">
                     <div className={`cp-switch ${perms[key] ? 'is-on' : ''}`}>
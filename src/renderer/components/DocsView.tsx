@@ -431,6 +431,9 @@ export default function DocsView() {
               A single <code>PolicyDocument</code> contains a <code>permissions</code> block (universal flags
               like <code>allowBash</code>, <code>blockedGlobs</code>) and a <code>harnesses</code> block with
               per-harness overrides (<code>claude.toolRules</code>, <code>codex.approvalMode</code>).
+              A tool rule can carry <code>when</code> predicates over <code>tool_input</code> fields — glob,
+              regex, URL domain or numeric comparisons — so it only applies to matching arguments
+              (e.g. allow <code>WebFetch</code> only when <code>url</code> is on <code>docs.python.org</code>).
             </p>
             <p>
               The <code>PolicyEnforcer</code> service compiles these to native formats: Claude Code
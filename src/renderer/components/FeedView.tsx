@@ -9,6 +9,7 @@ function harnessLabel(harnessId: string): string {
     codex: 'Codex',
     openclaw: 'OpenClaw',
     droid: 'Droid',
+    gemini: 'Gemini',
     opencode: 'OpenCode',
   }
   return map[harnessId] ?? harnessId
@@ -44,7 +45,7 @@ function SessionApprovalButtons({ sessionId }: { sessionId: string }) {
         return (
         <div key={approval.id} className="feed-approval-card">
           <div className="feed-approval-info">
-            <span className={`approval-risk-badge is-${approval.risk}`}>{approval.risk}</span>
+            <span className={`approval-risk-badge is-${approval.risk}`} title={approval.riskFactors?.join('\n')}>{approval.risk}</span>
             <span className="feed-approval-tool">{approval.toolName}</span>
             {(detail || fileDetail) && (
               <code className="feed-approval-detail">{detail || fileDetail}</code>
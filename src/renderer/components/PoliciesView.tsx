@@ -1,7 +1,19 @@
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
 import { ShieldCheck } from '@phosphor-icons/react'
 import { useAppStore } from '../store/useAppStore'
-import type { PolicyDocument } from '../../types'
+import type { PolicyAuditStats, PolicyDocument } from '../../types'
+
+/** Would-be outcomes of a policy in audit mode. */
+function AuditSummary({ stats }: { stats: PolicyAuditStats | undefined }) {
+  const denied = stats?.wouldDeny ?? 0
+  const prompted = stats?.wouldPrompt ?? 0
+  return (
+    <div className="policy-audit-summary">
+      Would have denied {denied} call{denied !== 1 ? 's' : ''}
+      {prompted > 0 && ` and asked about ${prompted}`}
+    </div>
+  )
+}
 
 export default function PoliciesView() {
   const {
@@ -15,9 +27,13 @@ export default function PoliciesView() {
     setActiveView,
   } = useAppStore()
 
+  const [listError, setListError] = useState<string | null>(null)
+  const [auditStats, setAuditStats] = useState<PolicyAuditStats[]>([])
+
   useEffect(() => {
     if (!policiesLoaded) loadPolicies()
     loadPolicyPanel()
+    window.latch?.getPolicyAuditStats?.().then((res) => setAuditStats(res?.stats ?? []))
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   const session = activeSessionId ? sessions.get(activeSessionId) : undefined
@@ -26,11 +42,24 @@ export default function PoliciesView() {
 
   const handleEditPolicy = (policy: PolicyDocument) => openPolicyEditor(policy, false)
 
+  const handleImportPolicy = async () => {
+    setListError(null)
+    const res = await window.latch?.importPolicy?.()
+    if (res?.ok) {
+      await loadPolicies()
+      await loadPolicyPanel()
+    } else if (res?.error && res.error !== 'Cancelled') {
+      setListError(res.error)
+    }
+  }
+
   const handleDeletePolicy = async (id: string) => {
     const policy = policies.find((p) => p.id === id)
     const name = policy?.name ?? id
     if (!window.confirm(`Delete policy "${name}"? This cannot be undone.`)) return
-    await window.latch?.deletePolicy?.({ id })
+    setListError(null)
+    const res = await window.latch?.deletePolicy?.({ id })
+    if (res && !res.ok) setListError(res.error ?? 'Failed to delete policy')
     await loadPolicies()
     await loadPolicyPanel()
   }
@@ -42,10 +71,16 @@ export default function PoliciesView() {
           <h2 className="view-title">Policies</h2>
           <p className="view-subtitle">Configure permissions and guardrails for your AI agents.</p>
         </div>
-        <button className="view-action-btn" onClick={handleNewPolicy}>
-          + New Policy
-        </button>
+        <div className="view-header-actions">
+          <button className="view-action-btn" onClick={handleImportPolicy}>
+            Import
+          </button>
+          <button className="view-action-btn" onClick={handleNewPolicy}>
+            + New Policy
+          </button>
+        </div>
       </div>
+      {listError && <div className="cp-error">{listError}</div>}
 
       {/* ── Policy list ──────────────────────────────────────────── */}
       {policies.length === 0 ? (
@@ -74,14 +109,21 @@ export default function PoliciesView() {
                   {session?.policyIds?.includes(policy.id) && (
                     <span className="policy-active-badge">Active</span>
                   )}
+                  {policy.mode === 'audit' && (
+                    <span className="policy-audit-badge">Audit</span>
+                  )}
                 </div>
                 <div className="policy-list-desc">{policy.description}</div>
+                {policy.mode === 'audit' && <AuditSummary stats={auditStats.find((s) => s.policyId === policy.id)} />}
               </div>
               <div className="policy-list-right">
                 <div className="policy-list-actions">
                   <button className="panel-action" onClick={() => handleEditPolicy(policy)}>
                     Edit
                   </button>
+                  <button className="panel-action" onClick={() => window.latch?.exportPolicy?.({ id: policy.id })}>
+                    Export
+                  </button>
                   <button className="panel-action is-danger" onClick={() => handleDeletePolicy(policy.id)}>
                     Delete
                   </button>
@@ -44,7 +44,7 @@ function DeniedEventRow({ event }: { event: ActivityEvent }) {
       <span className={`radar-event-badge radar-badge-${event.decision}`}>
         {event.decision.toUpperCase()}
       </span>
-      <span className="radar-event-risk">{event.risk.toUpperCase()}</span>
+      <span className="radar-event-risk" title={event.riskFactors?.join('\n')}>{event.risk.toUpperCase()}</span>
       <span className="radar-event-time">{formatTime(event.timestamp)}</span>
       {event.reason && <span className="radar-event-reason">{event.reason}</span>}
     </div>
@@ -75,6 +75,11 @@ export default function RadarView() {
     () => activityEvents.filter((e) => e.decision === 'allow').length,
     [activityEvents],
   )
+  // Calls that went through only because audit-mode policies don't enforce.
+  const wouldDenyCount = useMemo(
+    () => activityEvents.filter((e) => e.auditDecision === 'deny' && e.decision !== 'deny').length,
+    [activityEvents],
+  )
 
   // Tool frequency for the breakdown
   const toolBreakdown = useMemo(() => {
@@ -145,6 +150,12 @@ export default function RadarView() {
           <div className="radar-stat-value">{highRiskEvents.length}</div>
           <div className="radar-stat-label">High Risk</div>
         </div>
+        {wouldDenyCount > 0 && (
+          <div className="radar-stat-card radar-stat-audit" title="Allowed, but audit-mode policies would have denied them">
+            <div className="radar-stat-value">{wouldDenyCount}</div>
+            <div className="radar-stat-label">Would Have Denied</div>
+          </div>
+        )}
       </div>
 
       {/* ── Active signals ─────────────────────────────────────────────── */}
@@ -0,0 +1,50 @@
+// src/renderer/components/modals/ConfigTamperDialog.tsx
+
+import React from 'react'
+import { ShieldWarning } from '@phosphor-icons/react'
+import { useAppStore } from '../../store/useAppStore'
+
+export default function ConfigTamperDialog() {
+  const alert = useAppStore((s) => s.activeTamperAlert)
+  const respondConfigTamper = useAppStore((s) => s.respondConfigTamper)
+  const sessions = useAppStore((s) => s.sessions)
+
+  if (!alert) return null
+
+  const session = sessions.get(alert.sessionId)
+  const sessionName = session?.name ?? alert.sessionId
+
+  return (
+    <div className="modal-backdrop">
+      <div className="budget-alert-dialog">
+        <div className="budget-alert-icon">
+          <ShieldWarning size={32} weight="fill" />
+        </div>
+        <h2 className="budget-alert-title">Policy Config Tampered</h2>
+        <p className="budget-alert-desc">
+          Session <strong>{sessionName}</strong> was paused: a policy file Latch generated for it
+          was {alert.change} mid-session.
+        </p>
+        <p className="budget-alert-desc">
+          <code>{alert.filePath}</code>
+          <br />
+          {alert.restored ? 'Latch has restored its copy.' : 'Latch could not restore its copy — check the file before resuming.'}
+        </p>
+        <div className="budget-alert-actions">
+          <button
+            className="budget-alert-btn is-danger"
+            onClick={() => respondConfigTamper(alert.sessionId, 'kill')}
+          >
+            Kill Session
+          </button>
+          <button
+            className="budget-alert-btn is-extend"
+            onClick={() => respondConfigTamper(alert.sessionId, 'resume')}
+          >
+            Resume
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,10 +5,90 @@
 
 import React, { useEffect, useState, KeyboardEvent } from 'react'
 import { useAppStore } from '../../store/useAppStore'
-import type { McpServerRecord, McpTransport } from '../../../types'
+import type { ActionClass, McpServerRecord, McpToolClassificationInfo, McpTransport, RiskLevel, ToolClassification } from '../../../types'
 
 const SECRET_REF_RE = /^\$\{secret:[^}]+\}$/
 
+const ACTION_CLASSES: ActionClass[] = ['read', 'write', 'execute', 'send']
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high']
+const DEFAULT_RISK: Record<ActionClass, RiskLevel> = { read: 'low', write: 'medium', execute: 'high', send: 'medium' }
+
+function sameClassification(a: ToolClassification, b: ToolClassification): boolean {
+  return a.actionClass === b.actionClass && a.risk === b.risk
+}
+
+// ─── Tool classification ─────────────────────────────────────────────────────
+
+function ToolClassifications({ info, overrides, onChange }: {
+  info: McpToolClassificationInfo[]
+  overrides: Record<string, ToolClassification>
+  onChange: (next: Record<string, ToolClassification>) => void
+}) {
+  const setOverride = (tool: string, next: ToolClassification | null) => {
+    const { [tool]: _previous, ...rest } = overrides
+    onChange(next ? { ...rest, [tool]: next } : rest)
+  }
+
+  const setClass = (row: McpToolClassificationInfo, value: string) => {
+    if (!value) return setOverride(row.tool, null)
+    const actionClass = value as ActionClass
+    setOverride(row.tool, { actionClass, risk: overrides[row.tool]?.risk ?? DEFAULT_RISK[actionClass] })
+  }
+
+  const setRisk = (row: McpToolClassificationInfo, value: string) => {
+    const actionClass = overrides[row.tool]?.actionClass ?? row.heuristic.actionClass
+    if (!value) return setOverride(row.tool, overrides[row.tool] ? { actionClass, risk: DEFAULT_RISK[actionClass] } : null)
+    setOverride(row.tool, { actionClass, risk: value as RiskLevel })
+  }
+
+  const pending = info.filter((row) => row.suggestion && !sameClassification(row.suggestion, overrides[row.tool] ?? row.heuristic))
+
+  const applyAll = () => {
+    const next = { ...overrides }
+    for (const row of pending) next[row.tool] = { actionClass: row.suggestion!.actionClass, risk: row.suggestion!.risk }
+    onChange(next)
+  }
+
+  return (
+    <>
+      {info.map((row) => {
+        const override = overrides[row.tool]
+        const suggestion = row.suggestion && !sameClassification(row.suggestion, override ?? row.heuristic) ? row.suggestion : null
+        return (
+          <div key={row.tool} className="mcp-class-row">
+            <span className="custom-tool-rule-name" title={row.tool}>{row.tool}</span>
+            {suggestion && (
+              <button
+                type="button"
+                className="mcp-class-suggestion"
+                title={suggestion.reason}
+                onClick={() => setOverride(row.tool, { actionClass: suggestion.actionClass, risk: suggestion.risk })}
+              >
+                Suggested: {suggestion.actionClass} · {suggestion.risk}
+              </button>
+            )}
+            <select className="custom-tool-rule-select" value={override?.actionClass ?? ''} onChange={(e) => setClass(row, e.target.value)}>
+              <option value="">Default ({row.heuristic.actionClass})</option>
+              {ACTION_CLASSES.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select className="custom-tool-rule-select" value={override?.risk ?? ''} onChange={(e) => setRisk(row, e.target.value)}>
+              <option value="">Default ({override ? DEFAULT_RISK[override.actionClass] : row.heuristic.risk})</option>
+              {RISK_LEVELS.map((r) => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+        )
+      })}
+      {pending.length > 0 && (
+        <button type="button" className="mcp-discover-btn mcp-class-apply" onClick={applyAll}>
+          Apply {pending.length} suggestion{pending.length === 1 ? '' : 's'}
+        </button>
+      )}
+    </>
+  )
+}
+
+// ─── McpEditor ───────────────────────────────────────────────────────────────
+
 export default function McpEditor() {
   const { mcpEditorServer, closeMcpEditor, saveMcpServer, introspectMcpServer } = useAppStore()
 
@@ -24,6 +104,8 @@ export default function McpEditor() {
   const [harnesses, setHarnesses] = useState(base?.harnesses?.join(', ') ?? '')
   const [enabled,   setEnabled]   = useState(base?.enabled !== false)
   const [toolDescs, setToolDescs] = useState<Record<string, string>>(base?.toolDescriptions ?? {})
+  const [toolClasses, setToolClasses] = useState<Record<string, ToolClassification>>(base?.toolClassifications ?? {})
+  const [classInfo, setClassInfo] = useState<McpToolClassificationInfo[]>([])
   const [discovering, setDiscovering] = useState(false)
   const [discoverError, setDiscoverError] = useState<string | null>(null)
   const [discoverCount, setDiscoverCount] = useState<number | null>(null)
@@ -56,6 +138,7 @@ export default function McpEditor() {
     setHarnesses(base?.harnesses?.join(', ') ?? '')
     setEnabled(base?.enabled !== false)
     setToolDescs(base?.toolDescriptions ?? {})
+    setToolClasses(base?.toolClassifications ?? {})
     setDiscovering(false)
     setDiscoverError(null)
     setDiscoverCount(null)
@@ -63,6 +146,18 @@ export default function McpEditor() {
     setHeaderRows(base?.headers && Object.keys(base.headers).length ? Object.entries(base.headers) : [])
   }, [mcpEditorServer]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Default classifications and description-based suggestions for the listed tools.
+  useEffect(() => {
+    const toolList = tools.split(',').map((t) => t.trim()).filter(Boolean)
+    if (!name.trim() || !toolList.length) { setClassInfo([]); return }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const result = await window.latch?.classifyMcpTools?.({ server: name.trim(), tools: toolList, toolDescriptions: toolDescs })
+      if (!cancelled) setClassInfo(result?.ok ? result.tools : [])
+    }, 300)
+    return () => { cancelled = true; clearTimeout(timer) }
+  }, [name, tools, toolDescs])
+
   const handleSave = async () => {
     if (!name.trim()) return
 
@@ -72,6 +167,9 @@ export default function McpEditor() {
     const headers: Record<string, string> = {}
     headerRows.forEach(([k, v]) => { if (k.trim()) headers[k.trim()] = v })
 
+    const toolList = tools.split(',').map((t) => t.trim()).filter(Boolean)
+    const toolClassifications = Object.fromEntries(Object.entries(toolClasses).filter(([tool]) => toolList.includes(tool)))
+
     const server: McpServerRecord = {
       id:          base?.id ?? `mcp-${Date.now()}`,
       name:        name.trim(),
@@ -79,8 +177,9 @@ export default function McpEditor() {
       transport,
       command:     transport === 'stdio' ? command.trim() || undefined : undefined,
       args:        transport === 'stdio' ? args.split(',').map((a) => a.trim()).filter(Boolean) : undefined,
-      tools:       tools.split(',').map((t) => t.trim()).filter(Boolean),
+      tools:       toolList,
       toolDescriptions: toolDescs,
+      toolClassifications,
       env:         Object.keys(env).length ? env : undefined,
       url:         transport === 'http' ? url.trim() || undefined : undefined,
       headers:     transport === 'http' && Object.keys(headers).length ? headers : undefined,
@@ -311,6 +410,15 @@ export default function McpEditor() {
               onChange={(e) => setTools(e.target.value)}
             />
           </div>
+          {classInfo.length > 0 && (
+            <div className="modal-field">
+              <label className="modal-label">Tool classification</label>
+              <div className="mcp-class-hint">
+                How Latch classifies each tool for permission checks and Radar. Suggestions come from the tool descriptions.
+              </div>
+              <ToolClassifications info={classInfo} overrides={toolClasses} onChange={setToolClasses} />
+            </div>
+          )}
           <div className="modal-field">
             <label className="modal-label" htmlFor="mcp-tags">Tags (comma-separated)</label>
             <input
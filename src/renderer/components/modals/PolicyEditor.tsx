@@ -2,8 +2,14 @@
  * @module PolicyEditor
  * @description Full-page view for creating / editing a PolicyDocument.
  * Used for both global policy edits and ephemeral session override creation.
- * Includes per-harness config sections for Claude Code, Codex, and OpenClaw,
- * split into tabs for easier navigation.
+ * Includes per-harness config sections for Claude Code, Codex, OpenClaw and Droid,
+ * split into tabs for easier navigation, plus a Simulate tab that replays
+ * recorded activity against the draft and a History tab for saved policies
+ * that diffs revisions and rolls back to an earlier one. Lint diagnostics for
+ * the draft are shown next to the sections they concern, with counts on the
+ * tabs. The Inheritance tab picks base policies and rule fragments and shows
+ * the flattened effective policy next to the authored one. Test cases on the
+ * Tests tab run on save, and a policy whose tests fail is not saved.
  */
 
 import React, { useEffect, useState, KeyboardEvent } from 'react'
@@ -12,15 +18,30 @@ import { useAppStore } from '../../store/useAppStore'
 import type {
   PolicyDocument,
   PolicyPermissions,
+  PolicyPermissionFlag,
+  OutboundLeakAction,
   HarnessesConfig,
   ClaudePolicyConfig,
   CodexPolicyConfig,
   OpenClawPolicyConfig,
+  DroidPolicyConfig,
+  GeminiPolicyConfig,
   ToolRule,
+  ToolInputPredicate,
+  ToolInputPredicateOp,
   McpServerRule,
   McpServerRecord,
   ToolRuleDecision,
   CommandRule,
+  QuotaRule,
+  PolicyRevision,
+  PolicyDiffChange,
+  PolicyLintDiagnostic,
+  PolicyFragment,
+  PolicyTestCase,
+  PolicyTestRun,
+  PolicySimulationResult,
+  SimulatedDecision,
 } from '../../../types'
 
 const DEFAULT_PERMS: PolicyPermissions = {
@@ -35,13 +56,18 @@ const DEFAULT_PERMS: PolicyPermissions = {
 
 const DECISION_CYCLE: (ToolRuleDecision | 'unset')[] = ['unset', 'allow', 'prompt', 'deny']
 
+/** True for a rule on `pattern` without argument predicates (the chip/list editors only manage these). */
+function isPlainRule(rule: ToolRule, pattern: string): boolean {
+  return rule.pattern === pattern && !rule.when?.length
+}
+
 function ToolRulesEditor({ tools, rules, onChange }: {
   tools: string[]
   rules: ToolRule[]
   onChange: (next: ToolRule[]) => void
 }) {
   const getDecision = (tool: string): ToolRuleDecision | 'unset' => {
-    const rule = rules.find(r => r.pattern === tool)
+    const rule = rules.find(r => isPlainRule(r, tool))
     return rule ? rule.decision : 'unset'
   }
 
@@ -50,11 +76,11 @@ function ToolRulesEditor({ tools, rules, onChange }: {
     const idx = DECISION_CYCLE.indexOf(current)
     const next = DECISION_CYCLE[(idx + 1) % DECISION_CYCLE.length]
     if (next === 'unset') {
-      onChange(rules.filter(r => r.pattern !== tool))
+      onChange(rules.filter(r => !isPlainRule(r, tool)))
     } else {
-      const existing = rules.find(r => r.pattern === tool)
+      const existing = rules.find(r => isPlainRule(r, tool))
       if (existing) {
-        onChange(rules.map(r => r.pattern === tool ? { ...r, decision: next } : r))
+        onChange(rules.map(r => isPlainRule(r, tool) ? { ...r, decision: next } : r))
       } else {
         onChange([...rules, { pattern: tool, decision: next }])
       }
@@ -104,22 +130,22 @@ function CustomToolRules({ rules, builtinTools, onChange }: {
   onChange: (next: ToolRule[]) => void
 }) {
   const [input, setInput] = useState('')
-  const customRules = rules.filter(r => !builtinTools.includes(r.pattern) && !r.pattern.startsWith('mcp__'))
+  const customRules = rules.filter(r => !builtinTools.includes(r.pattern) && !r.pattern.startsWith('mcp__') && !r.when?.length)
 
   const addRule = () => {
     const pattern = input.trim()
     if (!pattern) return
-    if (rules.find(r => r.pattern === pattern)) return
+    if (rules.find(r => isPlainRule(r, pattern))) return
     onChange([...rules, { pattern, decision: 'deny' }])
     setInput('')
   }
 
   const removeRule = (pattern: string) => {
-    onChange(rules.filter(r => r.pattern !== pattern))
+    onChange(rules.filter(r => !isPlainRule(r, pattern)))
   }
 
   const updateDecision = (pattern: string, decision: ToolRuleDecision) => {
-    onChange(rules.map(r => r.pattern === pattern ? { ...r, decision } : r))
+    onChange(rules.map(r => isPlainRule(r, pattern) ? { ...r, decision } : r))
   }
 
   return (
@@ -158,6 +184,130 @@ function CustomToolRules({ rules, builtinTools, onChange }: {
   )
 }
 
+// ─── Argument rules (tool rules with tool_input predicates) ───────────────────
+
+const PREDICATE_OPS: { value: ToolInputPredicateOp; label: string }[] = [
+  { value: 'glob',   label: 'matches glob' },
+  { value: 'regex',  label: 'matches regex' },
+  { value: 'domain', label: 'URL domain is' },
+  { value: 'eq',     label: '=' },
+  { value: 'gt',     label: '>' },
+  { value: 'gte',    label: '>=' },
+  { value: 'lt',     label: '<' },
+  { value: 'lte',    label: '<=' },
+]
+
+const NUMERIC_OPS = new Set<ToolInputPredicateOp>(['gt', 'gte', 'lt', 'lte'])
+
+function describeCondition(pred: ToolInputPredicate): string {
+  const op = PREDICATE_OPS.find(o => o.value === pred.op)?.label ?? pred.op
+  return `${pred.field} ${pred.negate ? 'not ' : ''}${op} ${pred.value}`
+}
+
+function ArgumentToolRules({ rules, onChange }: {
+  rules: ToolRule[]
+  onChange: (next: ToolRule[]) => void
+}) {
+  const [pattern, setPattern] = useState('')
+  const [field, setField] = useState('')
+  const [op, setOp] = useState<ToolInputPredicateOp>('glob')
+  const [value, setValue] = useState('')
+  const [negate, setNegate] = useState(false)
+  const [decision, setDecision] = useState<ToolRuleDecision>('deny')
+
+  const argRules = rules.filter(r => r.when?.length)
+
+  const addRule = () => {
+    if (!pattern.trim() || !field.trim() || !value.trim()) return
+    const raw = value.trim()
+    const num = Number(raw)
+    const predValue = NUMERIC_OPS.has(op) || (op === 'eq' && raw !== '' && Number.isFinite(num)) ? num : raw
+    if (NUMERIC_OPS.has(op) && !Number.isFinite(num)) return
+    const rule: ToolRule = {
+      pattern: pattern.trim(),
+      decision,
+      when: [{ field: field.trim(), op, value: predValue, ...(negate ? { negate: true } : {}) }],
+    }
+    // Argument rules go ahead of plain rules so they are not shadowed by a
+    // name-only rule for the same tool (first matching rule wins).
+    const firstPlain = rules.findIndex(r => !r.when?.length)
+    const next = [...rules]
+    next.splice(firstPlain < 0 ? next.length : firstPlain, 0, rule)
+    onChange(next)
+    setValue('')
+  }
+
+  const removeRule = (rule: ToolRule) => onChange(rules.filter(r => r !== rule))
+
+  const updateDecision = (rule: ToolRule, next: ToolRuleDecision) => {
+    onChange(rules.map(r => r === rule ? { ...r, decision: next } : r))
+  }
+
+  return (
+    <>
+      {argRules.map((rule, i) => (
+        <div key={`${rule.pattern}-${i}`} className="custom-tool-rule-row">
+          <span className="custom-tool-rule-name">
+            {rule.pattern}
+            <span className="pe-arg-rule-when"> when {rule.when!.map(describeCondition).join(' and ')}</span>
+          </span>
+          <select
+            className="custom-tool-rule-select"
+            value={rule.decision}
+            onChange={(e) => updateDecision(rule, e.target.value as ToolRuleDecision)}
+          >
+            <option value="allow">Allow</option>
+            <option value="prompt">Prompt</option>
+            <option value="deny">Deny</option>
+          </select>
+          <button
+            type="button"
+            className="custom-tool-rule-remove"
+            onClick={() => removeRule(rule)}
+          >x</button>
+        </div>
+      ))}
+      <div className="add-tool-row pe-arg-rule-form">
+        <input
+          className="add-tool-input"
+          type="text"
+          placeholder="WebFetch"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+        />
+        <input
+          className="add-tool-input"
+          type="text"
+          placeholder="url"
+          value={field}
+          onChange={(e) => setField(e.target.value)}
+        />
+        <label className="pe-arg-rule-negate">
+          <input type="checkbox" checked={negate} onChange={(e) => setNegate(e.target.checked)} />
+          not
+        </label>
+        <select className="custom-tool-rule-select" value={op} onChange={(e) => setOp(e.target.value as ToolInputPredicateOp)}>
+          {PREDICATE_OPS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <input
+          className="add-tool-input"
+          type="text"
+          placeholder="docs.python.org"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addRule() }}
+        />
+        <select className="custom-tool-rule-select" value={decision} onChange={(e) => setDecision(e.target.value as ToolRuleDecision)}>
+          <option value="allow">Allow</option>
+          <option value="prompt">Prompt</option>
+          <option value="deny">Deny</option>
+        </select>
+        <button type="button" className="add-tool-btn" onClick={addRule}>Add</button>
+      </div>
+    </>
+  )
+}
+
 // ─── MCP server rules ────────────────────────────────────────────────────────
 
 function McpServerRulesEditor({ rules, onChange }: {
@@ -312,6 +462,114 @@ function CommandRulesEditor({ rules, onChange }: {
   )
 }
 
+// ─── Quotas editor ───────────────────────────────────────────────────────────
+
+type QuotaSelector = 'actionClass' | 'tool' | 'command'
+
+const QUOTA_WINDOWS: [string, number | undefined][] = [
+  ['per minute', 60],
+  ['per hour', 3600],
+  ['per day', 86_400],
+  ['per session', undefined],
+]
+
+function describeQuotaRule(rule: QuotaRule): string {
+  const what = rule.actionClass ? `${rule.actionClass} calls` : rule.tool ? `${rule.tool} calls` : rule.command ? rule.command : 'all calls'
+  const window = QUOTA_WINDOWS.find(([, seconds]) => seconds === rule.windowSeconds)?.[0] ?? `per ${rule.windowSeconds}s`
+  return `max ${rule.max} ${what} ${window}`
+}
+
+function QuotasEditor({ rules, onChange }: {
+  rules: QuotaRule[]
+  onChange: (next: QuotaRule[]) => void
+}) {
+  const [selector, setSelector] = useState<QuotaSelector>('actionClass')
+  const [value, setValue] = useState('write')
+  const [max, setMax] = useState('20')
+  const [windowIndex, setWindowIndex] = useState(0)
+
+  const addRule = () => {
+    const target = value.trim()
+    const limit = Number(max)
+    if (!target || !Number.isInteger(limit) || limit < 0) return
+    const windowSeconds = QUOTA_WINDOWS[windowIndex][1]
+    const rule: QuotaRule = {
+      [selector]: target,
+      max: limit,
+      ...(windowSeconds ? { windowSeconds } : {}),
+      decision: 'deny',
+    }
+    onChange([...rules, rule])
+  }
+
+  const changeSelector = (next: QuotaSelector) => {
+    setSelector(next)
+    setValue(next === 'actionClass' ? 'write' : '')
+  }
+
+  const updateDecision = (i: number, decision: QuotaRule['decision']) => {
+    onChange(rules.map((r, j) => j === i ? { ...r, decision } : r))
+  }
+
+  return (
+    <>
+      {rules.map((rule, i) => (
+        <div key={i} className="custom-tool-rule-row">
+          <span className="custom-tool-rule-name">{describeQuotaRule(rule)}</span>
+          <select
+            className="custom-tool-rule-select"
+            value={rule.decision}
+            onChange={(e) => updateDecision(i, e.target.value as QuotaRule['decision'])}
+          >
+            <option value="prompt">Prompt</option>
+            <option value="deny">Deny</option>
+          </select>
+          <button
+            type="button"
+            className="custom-tool-rule-remove"
+            onClick={() => onChange(rules.filter((_, j) => j !== i))}
+          >x</button>
+        </div>
+      ))}
+      <div className="add-tool-row">
+        <input
+          className="add-tool-input quota-max-input"
+          type="number"
+          min={0}
+          value={max}
+          onChange={(e) => setMax(e.target.value)}
+        />
+        <select className="add-tool-input" value={selector} onChange={(e) => changeSelector(e.target.value as QuotaSelector)}>
+          <option value="actionClass">Action class</option>
+          <option value="tool">Tool</option>
+          <option value="command">Command (regex)</option>
+        </select>
+        {selector === 'actionClass' ? (
+          <select className="add-tool-input" value={value} onChange={(e) => setValue(e.target.value)}>
+            <option value="read">read</option>
+            <option value="write">write</option>
+            <option value="execute">execute</option>
+            <option value="send">send</option>
+          </select>
+        ) : (
+          <input
+            className="add-tool-input"
+            type="text"
+            placeholder={selector === 'tool' ? 'WebFetch or mcp__github__*' : '^git\\s+push'}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addRule() }}
+          />
+        )}
+        <select className="add-tool-input" value={windowIndex} onChange={(e) => setWindowIndex(Number(e.target.value))}>
+          {QUOTA_WINDOWS.map(([label], i) => <option key={label} value={i}>{label}</option>)}
+        </select>
+        <button type="button" className="add-tool-btn" onClick={addRule}>Add</button>
+      </div>
+    </>
+  )
+}
+
 // ─── MCP tool picker (grouped by server) ────────────────────────────────────
 
 function McpToolPicker({ rules, onChange, serverRules }: {
@@ -339,7 +597,7 @@ function McpToolPicker({ rules, onChange, serverRules }: {
     `mcp__${server.name.toLowerCase().replace(/\s+/g, '-')}__${tool}`
 
   const getDecision = (pattern: string): ToolRuleDecision | 'unset' => {
-    const rule = rules.find(r => r.pattern === pattern)
+    const rule = rules.find(r => isPlainRule(r, pattern))
     return rule ? rule.decision : 'unset'
   }
 
@@ -348,11 +606,11 @@ function McpToolPicker({ rules, onChange, serverRules }: {
     const idx = DECISION_CYCLE.indexOf(current)
     const next = DECISION_CYCLE[(idx + 1) % DECISION_CYCLE.length]
     if (next === 'unset') {
-      onChange(rules.filter(r => r.pattern !== pattern))
+      onChange(rules.filter(r => !isPlainRule(r, pattern)))
     } else {
-      const existing = rules.find(r => r.pattern === pattern)
+      const existing = rules.find(r => isPlainRule(r, pattern))
       if (existing) {
-        onChange(rules.map(r => r.pattern === pattern ? { ...r, decision: next } : r))
+        onChange(rules.map(r => isPlainRule(r, pattern) ? { ...r, decision: next } : r))
       } else {
         onChange([...rules, { pattern, decision: next }])
       }
@@ -403,19 +661,498 @@ function McpToolPicker({ rules, onChange, serverRules }: {
   )
 }
 
+// ─── Lint diagnostics ───────────────────────────────────────────────────────
+
+const LINT_DEBOUNCE_MS = 300
+
+function LintDiagnostics({ diagnostics, showKey = true }: { diagnostics: PolicyLintDiagnostic[]; showKey?: boolean }) {
+  if (!diagnostics.length) return null
+  return (
+    <div className="pe-lint-list">
+      {diagnostics.map((d, i) => (
+        <div key={i} className={`pe-lint is-${d.severity}`}>
+          <span className="pe-lint-severity">{d.severity}</span>
+          {showKey && <span className="pe-lint-key" title={d.key}>{d.key}</span>}
+          <span>{d.message}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/** Count badge for a tab: errors if any, else warnings. */
+function LintBadge({ diagnostics }: { diagnostics: PolicyLintDiagnostic[] }) {
+  const errors = diagnostics.filter((d) => d.severity === 'error').length
+  const warnings = diagnostics.filter((d) => d.severity === 'warning').length
+  if (!errors && !warnings) return null
+  return (
+    <span className={`pe-tab-badge ${errors ? 'is-error' : 'is-warning'}`} title={`${errors} errors, ${warnings} warnings`}>
+      {errors || warnings}
+    </span>
+  )
+}
+
+// ─── Inheritance ────────────────────────────────────────────────────────────
+
+function InheritanceEditor({ policyId, extendsIds, fragmentIds, onExtendsChange, onFragmentsChange }: {
+  policyId: string | undefined
+  extendsIds: string[]
+  fragmentIds: string[]
+  onExtendsChange: (ids: string[]) => void
+  onFragmentsChange: (ids: string[]) => void
+}) {
+  const policies = useAppStore((s) => s.policies)
+  const [fragments, setFragments] = useState<PolicyFragment[]>([])
+  const [pick, setPick] = useState('')
+
+  useEffect(() => {
+    window.latch?.listPolicyFragments?.().then((res) => {
+      if (res?.ok) setFragments(res.fragments)
+    })
+  }, [])
+
+  const nameOf = (id: string) => policies.find((p) => p.id === id)?.name ?? id
+  const candidates = policies.filter((p) => p.id !== policyId && !extendsIds.includes(p.id))
+
+  const addBase = () => {
+    if (!pick) return
+    onExtendsChange([...extendsIds, pick])
+    setPick('')
+  }
+
+  const toggleFragment = (id: string, on: boolean) =>
+    onFragmentsChange(on ? [...fragmentIds, id] : fragmentIds.filter((f) => f !== id))
+
+  return (
+    <>
+      <div className="view-section-label">Extends</div>
+      <div className="pe-hint">
+        Rules from this policy match first, then its fragments, then each base in the order listed.
+        Flags and settings this policy leaves unset come from the first base that sets them.
+      </div>
+      {extendsIds.map((id) => (
+        <div key={id} className="custom-tool-rule-row">
+          <span className="custom-tool-rule-name" title={id}>{nameOf(id)}</span>
+          <button
+            type="button"
+            className="custom-tool-rule-remove"
+            onClick={() => onExtendsChange(extendsIds.filter((x) => x !== id))}
+          >
+            x
+          </button>
+        </div>
+      ))}
+      {candidates.length > 0 && (
+        <div className="custom-tool-rule-row">
+          <select className="custom-tool-rule-select" value={pick} onChange={(e) => setPick(e.target.value)}>
+            <option value="">Select a policy…</option>
+            {candidates.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button type="button" className="panel-action" onClick={addBase} disabled={!pick}>Add</button>
+        </div>
+      )}
+
+      <div className="view-section-label">Rule fragments</div>
+      {fragments.map((f) => (
+        <label key={f.id} className="modal-toggle" title={f.description}>
+          <input
+            type="checkbox"
+            checked={fragmentIds.includes(f.id)}
+            onChange={(e) => toggleFragment(f.id, e.target.checked)}
+          />
+          <span className="modal-toggle-label">{f.name} <code>{f.id}</code></span>
+          <span className="modal-toggle-hint">{f.description}</span>
+        </label>
+      ))}
+    </>
+  )
+}
+
+/** Rule-bearing part of a policy, for the authored / effective comparison. */
+function policyRules(policy: PolicyDocument): Partial<PolicyDocument> {
+  const { id: _id, name: _name, description: _description, ...rules } = policy
+  return rules
+}
+
+function EffectivePolicy({ authored, effective, error }: {
+  authored: PolicyDocument
+  effective: PolicyDocument | null
+  error: string | null
+}) {
+  return (
+    <div className="pe-effective">
+      <div className="pe-effective-col">
+        <label className="modal-label">Authored</label>
+        <pre className="pe-effective-json">{JSON.stringify(policyRules(authored), null, 2)}</pre>
+      </div>
+      <div className="pe-effective-col">
+        <label className="modal-label">Effective</label>
+        {error
+          ? <div className="pe-lint is-error"><span className="pe-lint-severity">error</span><span>{error}</span></div>
+          : <pre className="pe-effective-json">{effective ? JSON.stringify(policyRules(effective), null, 2) : ''}</pre>}
+      </div>
+    </div>
+  )
+}
+
+// ─── Test cases ─────────────────────────────────────────────────────────────
+
+const TEST_HARNESSES = ['claude', 'codex', 'openclaw', 'opencode', 'droid', 'gemini']
+
+function PolicyTests({ tests, onChange, run, error, onRun }: {
+  tests: PolicyTestCase[]
+  onChange: (tests: PolicyTestCase[]) => void
+  run: PolicyTestRun | null
+  error: string | null
+  onRun: () => void
+}) {
+  const [name, setName] = useState('')
+  const [harness, setHarness] = useState('claude')
+  const [toolName, setToolName] = useState('')
+  const [toolInput, setToolInput] = useState('{}')
+  const [expected, setExpected] = useState<SimulatedDecision>('deny')
+  const [inputError, setInputError] = useState<string | null>(null)
+
+  const addTest = () => {
+    if (!toolName.trim()) return
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(toolInput || '{}')
+    } catch (err) {
+      setInputError(`Tool input is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+      return
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      setInputError('Tool input must be a JSON object.')
+      return
+    }
+    setInputError(null)
+    onChange([...tests, {
+      ...(name.trim() ? { name: name.trim() } : {}),
+      harness,
+      toolName: toolName.trim(),
+      toolInput: parsed as Record<string, unknown>,
+      expect: expected,
+    }])
+    setName('')
+    setToolName('')
+    setToolInput('{}')
+  }
+
+  const resultOf = (index: number) => run?.results.find((r) => r.index === index)
+
+  return (
+    <>
+      <div className="pe-hint">
+        Each case is a tool call and the decision this policy must reach for it. Cases run
+        through the authz server&apos;s rule evaluation when the policy is saved; a policy whose
+        tests fail is not saved.
+      </div>
+      {tests.length > 0 && (
+        <div className="pe-diff-list">
+          {tests.map((t, i) => {
+            const result = resultOf(i)
+            return (
+              <div key={i} className="pe-diff-row">
+                <span className={`pe-sim-decision ${result ? (result.passed ? 'is-allow' : 'is-deny') : ''}`}>
+                  {result ? (result.passed ? 'pass' : 'fail') : '—'}
+                </span>
+                <code className="pe-diff-key" title={JSON.stringify(t.toolInput)}>
+                  {t.name || `${t.toolName} ${JSON.stringify(t.toolInput)}`}
+                </code>
+                <span className="pe-diff-section">{t.harness}</span>
+                <span className="pe-diff-value" title={result && !result.passed ? `${result.rule}${result.reason ? ` — ${result.reason}` : ''}` : undefined}>
+                  {result && !result.passed ? `expected ${t.expect}, got ${result.actual}` : `expect ${t.expect}`}
+                </span>
+                <button
+                  type="button"
+                  className="custom-tool-rule-remove"
+                  onClick={() => onChange(tests.filter((_, j) => j !== i))}
+                >
+                  x
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+      {error && <div className="pe-lint is-error"><span className="pe-lint-severity">error</span><span>{error}</span></div>}
+      {run && (
+        <div className="pe-hint">{run.passed} passed, {run.failed} failed</div>
+      )}
+      <div>
+        <button type="button" className="panel-action" onClick={onRun} disabled={!tests.length}>
+          Run tests
+        </button>
+      </div>
+
+      <div className="view-section-label">Add test case</div>
+      <div className="modal-field">
+        <div className="custom-tool-rule-row">
+          <input
+            className="modal-input"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <select className="custom-tool-rule-select" value={harness} onChange={(e) => setHarness(e.target.value)}>
+            {TEST_HARNESSES.map((h) => <option key={h} value={h}>{h}</option>)}
+          </select>
+        </div>
+        <div className="custom-tool-rule-row">
+          <input
+            className="modal-input"
+            placeholder="Tool name (e.g. Bash)"
+            value={toolName}
+            onChange={(e) => setToolName(e.target.value)}
+          />
+          <select className="custom-tool-rule-select" value={expected} onChange={(e) => setExpected(e.target.value as SimulatedDecision)}>
+            <option value="allow">expect allow</option>
+            <option value="prompt">expect prompt</option>
+            <option value="deny">expect deny</option>
+          </select>
+        </div>
+        <textarea
+          className="modal-input"
+          rows={3}
+          placeholder='{"command": "git push --force"}'
+          value={toolInput}
+          onChange={(e) => setToolInput(e.target.value)}
+        />
+        {inputError && <div className="pe-hint">{inputError}</div>}
+        <div>
+          <button type="button" className="panel-action" onClick={addTest} disabled={!toolName.trim()}>
+            Add test case
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
+
+// ─── Revision history ───────────────────────────────────────────────────────
+
+const DIFF_SECTION_LABELS: Record<PolicyDiffChange['section'], string> = {
+  metadata:       'General',
+  permissions:    'Permission',
+  blockedGlobs:   'Blocked path',
+  writeScopes:    'Write scope',
+  commandRules:   'Command rule',
+  quotas:         'Quota',
+  toolRules:      'Tool rule',
+  mcpServerRules: 'MCP server rule',
+  harness:        'Harness setting',
+  llmEvaluator:   'LLM evaluator',
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) return ''
+  if (value && typeof value === 'object' && 'decision' in value) return String((value as { decision: string }).decision)
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function PolicyHistory({ policyId }: { policyId: string }) {
+  const openPolicyEditor = useAppStore((s) => s.openPolicyEditor)
+  const loadPolicies     = useAppStore((s) => s.loadPolicies)
+  const [revisions, setRevisions] = useState<PolicyRevision[]>([])
+  const [from,    setFrom]    = useState<number | null>(null)
+  const [to,      setTo]      = useState<number | null>(null)
+  const [changes, setChanges] = useState<PolicyDiffChange[] | null>(null)
+  const [error,   setError]   = useState<string | null>(null)
+
+  useEffect(() => {
+    window.latch?.listPolicyRevisions?.({ id: policyId }).then((result) => {
+      const revs = result?.revisions ?? []
+      setRevisions(revs)
+      setTo(revs[0]?.revision ?? null)
+      setFrom(revs[1]?.revision ?? null)
+    })
+  }, [policyId])
+
+  useEffect(() => {
+    if (from === null || to === null) { setChanges(null); return }
+    window.latch?.diffPolicyRevisions?.({ id: policyId, from, to }).then((result) => {
+      if (result?.ok && result.diff) {
+        setChanges(result.diff.changes)
+        setError(null)
+      } else {
+        setChanges(null)
+        setError(result?.error ?? 'Failed to load diff.')
+      }
+    })
+  }, [policyId, from, to])
+
+  const handleRollback = async (revision: number) => {
+    if (!window.confirm(`Roll back to revision ${revision}? Unsaved edits will be discarded; the current version stays in history.`)) return
+    const result = await window.latch?.rollbackPolicy?.({ id: policyId, revision })
+    if (!result?.ok) { setError(result?.error ?? 'Rollback failed.'); return }
+    await loadPolicies()
+    const current = await window.latch?.getPolicy?.({ id: policyId })
+    if (current?.ok) openPolicyEditor(current.policy, false)
+  }
+
+  if (revisions.length === 0) {
+    return <div className="pe-hint">No revisions recorded yet — save the policy to start its history.</div>
+  }
+
+  return (
+    <>
+      <div className="view-section-label">Revisions</div>
+      <div className="pe-revision-list">
+        {revisions.map((rev, i) => (
+          <div key={rev.revision} className="pe-revision-row">
+            <span className="pe-revision-num">#{rev.revision}</span>
+            <span className="pe-revision-meta">
+              {new Date(rev.createdAt).toLocaleString()}
+              {rev.author ? ` · ${rev.author}` : ''}
+              {rev.rolledBackFrom ? ` · restored from #${rev.rolledBackFrom}` : ''}
+            </span>
+            {i === 0
+              ? <span className="policy-active-badge">Current</span>
+              : <button type="button" className="panel-action" onClick={() => handleRollback(rev.revision)}>Restore</button>}
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <>
+          <div className="view-section-label">Compare</div>
+          <div className="pe-revision-compare">
+            <select className="modal-input" value={from ?? ''} onChange={(e) => setFrom(Number(e.target.value))}>
+              {revisions.map((rev) => <option key={rev.revision} value={rev.revision}>#{rev.revision}</option>)}
+            </select>
+            <span className="pe-hint">→</span>
+            <select className="modal-input" value={to ?? ''} onChange={(e) => setTo(Number(e.target.value))}>
+              {revisions.map((rev) => <option key={rev.revision} value={rev.revision}>#{rev.revision}</option>)}
+            </select>
+          </div>
+          {error && <div className="pe-hint">{error}</div>}
+          {changes && changes.length === 0 && <div className="pe-hint">No differences.</div>}
+          {changes && changes.length > 0 && (
+            <div className="pe-diff-list">
+              {changes.map((c, i) => (
+                <div key={i} className={`pe-diff-row is-${c.kind}`}>
+                  <span className="pe-diff-kind">{c.kind === 'added' ? '+' : c.kind === 'removed' ? '−' : '~'}</span>
+                  <span className="pe-diff-section">
+                    {DIFF_SECTION_LABELS[c.section]}{c.harness ? ` (${c.harness})` : ''}
+                  </span>
+                  <code className="pe-diff-key">{c.key}</code>
+                  <span className="pe-diff-value">
+                    {c.kind === 'changed'
+                      ? `${formatDiffValue(c.before)} → ${formatDiffValue(c.after)}`
+                      : formatDiffValue(c.kind === 'added' ? c.after : c.before)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
+// ─── Simulation ─────────────────────────────────────────────────────────────
+
+const DECISION_CLASS: Record<SimulatedDecision, string> = {
+  allow:  'is-allow',
+  prompt: 'is-prompt',
+  deny:   'is-deny',
+}
+
+function PolicySimulation({ buildDraft }: { buildDraft: () => PolicyDocument }) {
+  const [running, setRunning] = useState(false)
+  const [result,  setResult]  = useState<PolicySimulationResult | null>(null)
+  const [error,   setError]   = useState<string | null>(null)
+
+  const runSimulation = async () => {
+    setRunning(true)
+    setError(null)
+    const res = await window.latch?.simulatePolicy?.({ policy: buildDraft() })
+    setRunning(false)
+    if (res?.ok && res.result) {
+      setResult(res.result)
+    } else {
+      setResult(null)
+      setError(res?.error ?? 'Simulation failed.')
+    }
+  }
+
+  return (
+    <>
+      <div className="pe-hint">
+        Replays recorded tool calls through this draft and the saved version of the policy,
+        and lists every call whose decision would change.
+      </div>
+      <div>
+        <button type="button" className="panel-action" onClick={runSimulation} disabled={running}>
+          {running ? 'Replaying…' : 'Replay recorded activity'}
+        </button>
+      </div>
+      {error && <div className="pe-hint">{error}</div>}
+      {result && (
+        <>
+          <div className="pe-hint">
+            {result.scope === 'sessions-using-policy' ? 'Sessions using this policy' : 'All recorded activity'}
+            {' · '}{result.evaluated} calls evaluated
+            {result.skipped > 0 && ` · ${result.skipped} skipped (no recorded input)`}
+          </div>
+          {result.changed === 0 ? (
+            <div className="pe-hint">No decisions would change.</div>
+          ) : (
+            <>
+              <div className="view-section-label">
+                {result.changed} decision{result.changed === 1 ? '' : 's'} would change
+                {' — '}
+                {Object.entries(result.transitions).map(([t, n]) => `${t} ${n}`).join(', ')}
+              </div>
+              {result.groups.map((group) => (
+                <div key={group.rule} className="modal-field">
+                  <label className="modal-label">{group.rule} ({group.changes.length})</label>
+                  <div className="pe-diff-list">
+                    {group.changes.map((c) => (
+                      <div key={c.eventId} className="pe-diff-row">
+                        <span className={`pe-sim-decision ${DECISION_CLASS[c.before]}`}>{c.before}</span>
+                        <span className="pe-hint">→</span>
+                        <span className={`pe-sim-decision ${DECISION_CLASS[c.after]}`}>{c.after}</span>
+                        <code className="pe-diff-key">{c.toolName}</code>
+                        <span className="pe-diff-value" title={c.reason ?? undefined}>
+                          {c.detail || new Date(c.timestamp).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const CLAUDE_TOOLS   = ['Read', 'Write', 'Edit', 'Bash', 'WebFetch', 'WebSearch', 'Task', 'NotebookEdit']
 const CODEX_TOOLS    = ['shell', 'read', 'write', 'apply_patch', 'web_search']
 const OPENCLAW_TOOLS = ['read', 'write', 'exec', 'web_search', 'web_fetch', 'browser']
+const DROID_TOOLS    = ['Read', 'LS', 'Create', 'Edit', 'MultiEdit', 'ApplyPatch', 'Execute', 'FetchUrl', 'WebSearch']
+const GEMINI_TOOLS   = ['read_file', 'read_many_files', 'list_directory', 'glob', 'search_file_content', 'write_file', 'replace', 'run_shell_command', 'web_fetch', 'google_web_search']
 
-type PeTab = 'general' | 'claude' | 'codex' | 'openclaw'
+type PeTab = 'general' | 'claude' | 'codex' | 'openclaw' | 'droid' | 'gemini' | 'inheritance' | 'tests' | 'simulate' | 'history'
 
 const PE_TABS: { id: PeTab; label: string }[] = [
   { id: 'general',  label: 'General' },
   { id: 'claude',   label: 'Claude Code' },
   { id: 'codex',    label: 'Codex' },
   { id: 'openclaw', label: 'OpenClaw' },
+  { id: 'droid',    label: 'Droid' },
+  { id: 'gemini',   label: 'Gemini CLI' },
+  { id: 'inheritance', label: 'Inheritance' },
+  { id: 'tests',    label: 'Tests' },
+  { id: 'simulate', label: 'Simulate' },
+  { id: 'history',  label: 'History' },
 ]
 
 // ─── Helpers: convert legacy arrays to/from ToolRule[] ───────────────────────
@@ -456,9 +1193,13 @@ export default function PolicyEditor() {
   const [activeTab, setActiveTab] = useState<PeTab>('general')
   const [name,   setName]   = useState(base?.name        ?? '')
   const [desc,   setDesc]   = useState(base?.description ?? '')
+  const [auditMode, setAuditMode] = useState(base?.mode === 'audit')
   const [perms,  setPerms]  = useState<PolicyPermissions>(base?.permissions ?? DEFAULT_PERMS)
   const [globs,  setGlobs]  = useState<string[]>(base?.permissions?.blockedGlobs ?? [])
   const [commandRules, setCommandRules] = useState<CommandRule[]>(base?.permissions?.commandRules ?? [])
+  const [quotas, setQuotas] = useState<QuotaRule[]>(base?.permissions?.quotas ?? [])
+  /** null = writes unrestricted by scope. */
+  const [writeScopes, setWriteScopes] = useState<string[] | null>(base?.permissions?.writeScopes ?? null)
 
   // Per-harness tool rules (replaces legacy allow/deny arrays)
   const [claudeToolRules,   setClaudeToolRules]   = useState<ToolRule[]>(initToolRules(base?.harnesses?.claude))
@@ -469,15 +1210,32 @@ export default function PolicyEditor() {
   const [codexMcpRules,     setCodexMcpRules]     = useState<McpServerRule[]>(initMcpRules(base?.harnesses?.codex))
   const [openclawToolRules, setOpenclawToolRules] = useState<ToolRule[]>(initToolRules(base?.harnesses?.openclaw))
   const [openclawMcpRules,  setOpenclawMcpRules]  = useState<McpServerRule[]>(initMcpRules(base?.harnesses?.openclaw))
+  const [droidToolRules,    setDroidToolRules]    = useState<ToolRule[]>(initToolRules(base?.harnesses?.droid))
+  const [droidMcpRules,     setDroidMcpRules]     = useState<McpServerRule[]>(initMcpRules(base?.harnesses?.droid))
+  const [droidDenied,       setDroidDenied]       = useState<string[]>(base?.harnesses?.droid?.deniedCommands ?? [])
+  const [geminiToolRules,   setGeminiToolRules]   = useState<ToolRule[]>(initToolRules(base?.harnesses?.gemini))
+  const [geminiMcpRules,    setGeminiMcpRules]    = useState<McpServerRule[]>(initMcpRules(base?.harnesses?.gemini))
+  const [geminiDenied,      setGeminiDenied]      = useState<string[]>(base?.harnesses?.gemini?.deniedCommands ?? [])
+  const [extendsIds,   setExtendsIds]   = useState<string[]>(base?.extends ?? [])
+  const [fragmentIds,  setFragmentIds]  = useState<string[]>(base?.fragments ?? [])
+  const [diagnostics, setDiagnostics] = useState<PolicyLintDiagnostic[]>([])
+  const [tests,        setTests]        = useState<PolicyTestCase[]>(base?.tests ?? [])
+  const [testRun,      setTestRun]      = useState<PolicyTestRun | null>(null)
+  const [testError,    setTestError]    = useState<string | null>(null)
+  const [effective,    setEffective]    = useState<PolicyDocument | null>(null)
+  const [resolveError, setResolveError] = useState<string | null>(null)
 
   // Sync form if the editor is reopened with different policy
   useEffect(() => {
     setActiveTab('general')
     setName(base?.name        ?? '')
     setDesc(base?.description ?? '')
+    setAuditMode(base?.mode === 'audit')
     setPerms(base?.permissions ?? DEFAULT_PERMS)
     setGlobs(base?.permissions?.blockedGlobs ?? [])
     setCommandRules(base?.permissions?.commandRules ?? [])
+    setQuotas(base?.permissions?.quotas ?? [])
+    setWriteScopes(base?.permissions?.writeScopes ?? null)
     setClaudeToolRules(initToolRules(base?.harnesses?.claude))
     setClaudeMcpRules(initMcpRules(base?.harnesses?.claude))
     setCodexApproval(base?.harnesses?.codex?.approvalMode ?? '')
@@ -486,9 +1244,20 @@ export default function PolicyEditor() {
     setCodexMcpRules(initMcpRules(base?.harnesses?.codex))
     setOpenclawToolRules(initToolRules(base?.harnesses?.openclaw))
     setOpenclawMcpRules(initMcpRules(base?.harnesses?.openclaw))
+    setDroidToolRules(initToolRules(base?.harnesses?.droid))
+    setDroidMcpRules(initMcpRules(base?.harnesses?.droid))
+    setDroidDenied(base?.harnesses?.droid?.deniedCommands ?? [])
+    setGeminiToolRules(initToolRules(base?.harnesses?.gemini))
+    setGeminiMcpRules(initMcpRules(base?.harnesses?.gemini))
+    setGeminiDenied(base?.harnesses?.gemini?.deniedCommands ?? [])
+    setExtendsIds(base?.extends ?? [])
+    setFragmentIds(base?.fragments ?? [])
+    setTests(base?.tests ?? [])
+    setTestRun(null)
+    setTestError(null)
   }, [policyEditorPolicy]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const updatePerm = (key: keyof Omit<PolicyPermissions, 'blockedGlobs' | 'commandRules'>, val: boolean) => {
+  const updatePerm = (key: PolicyPermissionFlag, val: boolean) => {
     setPerms((p) => ({ ...p, [key]: val }))
   }
 
@@ -496,13 +1265,17 @@ export default function PolicyEditor() {
   const setGlob   = (i: number, v: string) => setGlobs((g) => g.map((x, j) => j === i ? v : x))
   const removeGlob = (i: number) => setGlobs((g) => g.filter((_, j) => j !== i))
 
-  const handleSave = () => {
+  const setWriteScope    = (i: number, v: string) => setWriteScopes((s) => s && s.map((x, j) => j === i ? v : x))
+  const removeWriteScope = (i: number) => setWriteScopes((s) => s && s.filter((_, j) => j !== i))
+
+  /** Assemble the PolicyDocument from the current form state. */
+  const buildPolicy = (): PolicyDocument => {
     const claude: ClaudePolicyConfig = {}
     if (claudeToolRules.length) {
       claude.toolRules = claudeToolRules
-      // Legacy backward compat
-      claude.allowedTools = claudeToolRules.filter(r => r.decision === 'allow').map(r => r.pattern)
-      claude.deniedTools  = claudeToolRules.filter(r => r.decision === 'deny').map(r => r.pattern)
+      // Legacy backward compat (argument rules can't be expressed as plain lists)
+      claude.allowedTools = claudeToolRules.filter(r => r.decision === 'allow' && !r.when?.length).map(r => r.pattern)
+      claude.deniedTools  = claudeToolRules.filter(r => r.decision === 'deny' && !r.when?.length).map(r => r.pattern)
       if (!claude.allowedTools.length) delete claude.allowedTools
       if (!claude.deniedTools.length)  delete claude.deniedTools
     }
@@ -517,25 +1290,101 @@ export default function PolicyEditor() {
     const openclaw: OpenClawPolicyConfig = {}
     if (openclawToolRules.length) {
       openclaw.toolRules = openclawToolRules
-      // Legacy backward compat
-      openclaw.allowedTools = openclawToolRules.filter(r => r.decision === 'allow').map(r => r.pattern)
-      openclaw.deniedTools  = openclawToolRules.filter(r => r.decision === 'deny').map(r => r.pattern)
+      // Legacy backward compat (argument rules can't be expressed as plain lists)
+      openclaw.allowedTools = openclawToolRules.filter(r => r.decision === 'allow' && !r.when?.length).map(r => r.pattern)
+      openclaw.deniedTools  = openclawToolRules.filter(r => r.decision === 'deny' && !r.when?.length).map(r => r.pattern)
       if (!openclaw.allowedTools.length) delete openclaw.allowedTools
       if (!openclaw.deniedTools.length)  delete openclaw.deniedTools
     }
     if (openclawMcpRules.length) openclaw.mcpServerRules = openclawMcpRules
 
+    const droid: DroidPolicyConfig = {}
+    const deniedCommands = droidDenied.map((c) => c.trim()).filter(Boolean)
+    if (deniedCommands.length)  droid.deniedCommands = deniedCommands
+    if (droidToolRules.length)  droid.toolRules = droidToolRules
+    if (droidMcpRules.length)   droid.mcpServerRules = droidMcpRules
+
+    const gemini: GeminiPolicyConfig = {}
+    const geminiDeniedCommands = geminiDenied.map((c) => c.trim()).filter(Boolean)
+    if (geminiDeniedCommands.length) gemini.deniedCommands = geminiDeniedCommands
+    if (geminiToolRules.length)      gemini.toolRules = geminiToolRules
+    if (geminiMcpRules.length)       gemini.mcpServerRules = geminiMcpRules
+
     const harnesses: HarnessesConfig = {}
     if (Object.keys(claude).length)   harnesses.claude   = claude
     if (Object.keys(codex).length)    harnesses.codex    = codex
     if (Object.keys(openclaw).length) harnesses.openclaw = openclaw
+    if (Object.keys(droid).length)    harnesses.droid    = droid
+    if (Object.keys(gemini).length)   harnesses.gemini   = gemini
+    // No OpenCode tab — keep its rules (e.g. from an imported opencode.json) as loaded
+    if (base?.harnesses?.opencode)    harnesses.opencode = base.harnesses.opencode
 
+    const { writeScopes: _loaded, quotas: _loadedQuotas, ...flags } = perms
     const policy: PolicyDocument = {
       id:          base?.id === '__override__' ? `override-${Date.now()}` : (base?.id ?? `policy-${Date.now()}`),
       name:        name.trim() || 'Untitled Policy',
       description: desc.trim(),
-      permissions: { ...perms, blockedGlobs: globs.filter(Boolean), ...(commandRules.length ? { commandRules } : {}) },
+      permissions: {
+        ...flags,
+        blockedGlobs: globs.filter(Boolean),
+        ...(commandRules.length ? { commandRules } : {}),
+        ...(writeScopes !== null ? { writeScopes: writeScopes.map((s) => s.trim()).filter(Boolean) } : {}),
+        ...(quotas.length ? { quotas } : {}),
+      },
       harnesses,
+      ...(extendsIds.length ? { extends: extendsIds } : {}),
+      ...(fragmentIds.length ? { fragments: fragmentIds } : {}),
+      ...(tests.length ? { tests } : {}),
+      ...(auditMode ? { mode: 'audit' as const } : {}),
+    }
+    return policy
+  }
+
+  // Re-lint and re-resolve the draft as it is edited.
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const draft = buildPolicy()
+      const [lint, resolved] = await Promise.all([
+        window.latch?.lintPolicy?.({ policy: draft }),
+        policyEditorIsOverride ? undefined : window.latch?.resolvePolicy?.({ policy: draft }),
+      ])
+      if (cancelled) return
+      setDiagnostics(lint?.ok ? lint.diagnostics ?? [] : [])
+      setEffective(resolved?.ok ? resolved.policy ?? null : null)
+      setResolveError(resolved && !resolved.ok ? resolved.error ?? 'Failed to resolve policy' : null)
+    }, LINT_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [perms, globs, commandRules, writeScopes, quotas, claudeToolRules, claudeMcpRules, codexToolRules, codexMcpRules, openclawToolRules, openclawMcpRules, droidToolRules, droidMcpRules, droidDenied, geminiToolRules, geminiMcpRules, geminiDenied, extendsIds, fragmentIds]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const sectionDiagnostics = (section: PolicyLintDiagnostic['section']) =>
+    diagnostics.filter((d) => d.section === section && !d.harness)
+  const tabDiagnostics = (tab: PeTab) => {
+    if (tab === 'general') return diagnostics.filter((d) => !d.harness)
+    return diagnostics.filter((d) => d.harness === tab)
+  }
+
+  /** Run the draft's test cases; resolves true when they all pass. */
+  const runTests = async (policy: PolicyDocument): Promise<boolean> => {
+    setTestError(null)
+    const res = await window.latch?.testPolicy?.({ policy })
+    if (!res?.ok || !res.run) {
+      setTestRun(null)
+      setTestError(res?.error ?? 'Failed to run tests.')
+      return false
+    }
+    setTestRun(res.run)
+    return res.run.failed === 0
+  }
+
+  const handleSave = async () => {
+    const policy = buildPolicy()
+    if (!policyEditorIsOverride && policy.tests?.length && !(await runTests(policy))) {
+      setActiveTab('tests')
+      return
     }
     savePolicyFromEditor(policy)
   }
@@ -545,6 +1394,9 @@ export default function PolicyEditor() {
     if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave()
   }
 
+  // Session overrides and unsaved policies have no stored revisions.
+  const showHistory = !policyEditorIsOverride && !!base?.id
+
   const title = policyEditorIsOverride
     ? 'Session Override'
     : (base?.id ? (name || base.name || 'Edit Policy') : 'New Policy')
@@ -568,13 +1420,14 @@ export default function PolicyEditor() {
 
       {/* ── Tabs ─────────────────────────────────────────────────── */}
       <div className="pe-tabs">
-        {PE_TABS.map((tab) => (
+        {PE_TABS.filter((tab) => (tab.id !== 'history' || showHistory) && (!['inheritance', 'tests', 'simulate'].includes(tab.id) || !policyEditorIsOverride)).map((tab) => (
           <button
             key={tab.id}
             className={`pe-tab${activeTab === tab.id ? ' is-active' : ''}`}
             onClick={() => setActiveTab(tab.id)}
           >
             {tab.label}
+            <LintBadge diagnostics={tabDiagnostics(tab.id)} />
           </button>
         ))}
       </div>
@@ -603,6 +1456,20 @@ export default function PolicyEditor() {
               onChange={(e) => setDesc(e.target.value)}
             />
           </div>
+          <label className="modal-toggle">
+            <input
+              type="checkbox"
+              id="pe-audit-mode"
+              checked={auditMode}
+              onChange={(e) => setAuditMode(e.target.checked)}
+            />
+            <span className="modal-toggle-label">Audit mode (observe only)</span>
+            <span className="modal-toggle-hint">
+              {policyEditorIsOverride
+                ? 'Allow every call in this session, recording what the policies would have denied.'
+                : 'Evaluate this policy and record what it would have denied, without blocking anything. Turn off to enforce it.'}
+            </span>
+          </label>
 
           <div className="view-section-label">Permissions</div>
 
@@ -616,7 +1483,7 @@ export default function PolicyEditor() {
                 'When enabled, agents can create and modify files on disk. Disable to make the session read-only.'],
               ['pe-confirm-dest',  'Confirm destructive operations', 'confirmDestructive',
                 'When enabled, high-risk actions (e.g. deleting files, force-pushing) require your explicit approval before proceeding.'],
-            ] as [string, string, keyof Omit<PolicyPermissions, 'blockedGlobs' | 'commandRules'>, string][]
+            ] as [string, string, PolicyPermissionFlag, string][]
           ).map(([id, label, key, tooltip]) => (
             <label key={id} className="modal-toggle" title={tooltip}>
               <input
@@ -630,6 +1497,21 @@ export default function PolicyEditor() {
             </label>
           ))}
 
+          <div className="modal-field">
+            <label className="modal-label" htmlFor="pe-leak-action">Secrets in outbound requests</label>
+            <select
+              className="modal-input"
+              id="pe-leak-action"
+              title="What the gateway proxy does when a request body or query string carries a stored secret or a detected credential."
+              value={perms.outboundLeakAction ?? 'block'}
+              onChange={(e) => setPerms((p) => ({ ...p, outboundLeakAction: e.target.value as OutboundLeakAction }))}
+            >
+              <option value="block">Block the request</option>
+              <option value="strip">Strip the value and send</option>
+              <option value="prompt">Block until approved</option>
+            </select>
+          </div>
+
           <div className="view-section-label">Blocked paths (globs)</div>
           <div className="modal-globs" id="pe-globs-list">
             {globs.map((g, i) => (
@@ -651,13 +1533,64 @@ export default function PolicyEditor() {
               </div>
             ))}
           </div>
+          <LintDiagnostics diagnostics={sectionDiagnostics('blockedGlobs')} />
           <button className="modal-add-glob" onClick={addGlob}>+ Add path</button>
 
+          <div className="view-section-label">Write scopes</div>
+          <label
+            className="modal-toggle"
+            title="Confine file writes (Write/Edit tools and shell redirections) to these directories."
+          >
+            <input
+              type="checkbox"
+              id="pe-write-scopes"
+              checked={writeScopes !== null}
+              onChange={(e) => setWriteScopes(e.target.checked ? ['.', '/tmp'] : null)}
+            />
+            <span className="modal-toggle-label">Only allow writes under these directories</span>
+            <span className="modal-toggle-hint">
+              Relative paths resolve against the session worktree (&quot;.&quot; is the worktree itself). An empty list blocks all file writes.
+            </span>
+          </label>
+          {writeScopes !== null && (
+            <>
+              <div className="modal-globs" id="pe-write-scopes-list">
+                {writeScopes.map((scope, i) => (
+                  <div key={i} className="modal-glob-row">
+                    <input
+                      className="modal-glob-input"
+                      type="text"
+                      placeholder=". or /tmp or ~/.cache"
+                      value={scope}
+                      onChange={(e) => setWriteScope(i, e.target.value)}
+                    />
+                    <button
+                      className="modal-glob-remove"
+                      type="button"
+                      onClick={() => removeWriteScope(i)}
+                    >
+                      x
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button className="modal-add-glob" onClick={() => setWriteScopes((s) => [...(s ?? []), ''])}>+ Add directory</button>
+            </>
+          )}
+          <LintDiagnostics diagnostics={sectionDiagnostics('writeScopes')} showKey={false} />
+
           <div className="view-section-label">Command rules (regex)</div>
           <div className="modal-field">
-            <label className="modal-label">Shell command patterns matched against the full command string</label>
+            <label className="modal-label">Shell command patterns checked against each command in the line (pipelines, &amp;&amp;, subshells, bash -c)</label>
             <CommandRulesEditor rules={commandRules} onChange={setCommandRules} />
           </div>
+          <LintDiagnostics diagnostics={sectionDiagnostics('commandRules')} />
+
+          <div className="view-section-label">Quotas</div>
+          <div className="modal-field">
+            <label className="modal-label">Limit how often matching calls may run in a session; calls over the limit are denied or prompt</label>
+            <QuotasEditor rules={quotas} onChange={setQuotas} />
+          </div>
         </div>
       )}
 
@@ -680,6 +1613,11 @@ export default function PolicyEditor() {
             <label className="modal-label">Custom tool rules</label>
             <CustomToolRules rules={claudeToolRules} builtinTools={CLAUDE_TOOLS} onChange={setClaudeToolRules} />
           </div>
+          <div className="modal-field">
+            <label className="modal-label">Argument rules (match on tool input fields)</label>
+            <ArgumentToolRules rules={claudeToolRules} onChange={setClaudeToolRules} />
+          </div>
+          <LintDiagnostics diagnostics={tabDiagnostics('claude')} />
         </div>
       )}
 
@@ -730,6 +1668,11 @@ export default function PolicyEditor() {
             <label className="modal-label">Custom tool rules</label>
             <CustomToolRules rules={codexToolRules} builtinTools={CODEX_TOOLS} onChange={setCodexToolRules} />
           </div>
+          <div className="modal-field">
+            <label className="modal-label">Argument rules (match on tool input fields)</label>
+            <ArgumentToolRules rules={codexToolRules} onChange={setCodexToolRules} />
+          </div>
+          <LintDiagnostics diagnostics={tabDiagnostics('codex')} />
         </div>
       )}
 
@@ -752,6 +1695,155 @@ export default function PolicyEditor() {
             <label className="modal-label">Custom tool rules</label>
             <CustomToolRules rules={openclawToolRules} builtinTools={OPENCLAW_TOOLS} onChange={setOpenclawToolRules} />
           </div>
+          <div className="modal-field">
+            <label className="modal-label">Argument rules (match on tool input fields)</label>
+            <ArgumentToolRules rules={openclawToolRules} onChange={setOpenclawToolRules} />
+          </div>
+          <LintDiagnostics diagnostics={tabDiagnostics('openclaw')} />
+        </div>
+      )}
+
+      {/* ── Droid tab ────────────────────────────────────────────── */}
+      {activeTab === 'droid' && (
+        <div className="pe-tab-content">
+          <div className="modal-field">
+            <label className="modal-label">Denied command prefixes (Droid refuses these natively)</label>
+            <div className="modal-globs">
+              {droidDenied.map((c, i) => (
+                <div key={i} className="modal-glob-row">
+                  <input
+                    className="modal-glob-input"
+                    type="text"
+                    placeholder="npm publish"
+                    value={c}
+                    onChange={(e) => setDroidDenied((d) => d.map((x, j) => j === i ? e.target.value : x))}
+                  />
+                  <button
+                    className="modal-glob-remove"
+                    type="button"
+                    onClick={() => setDroidDenied((d) => d.filter((_, j) => j !== i))}
+                  >
+                    x
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button className="modal-add-glob" onClick={() => setDroidDenied((d) => [...d, ''])}>+ Add command</button>
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Tool rules</label>
+            <ToolRulesEditor tools={DROID_TOOLS} rules={droidToolRules} onChange={setDroidToolRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">MCP server rules</label>
+            <McpServerRulesEditor rules={droidMcpRules} onChange={setDroidMcpRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">MCP tool rules</label>
+            <McpToolPicker rules={droidToolRules} onChange={setDroidToolRules} serverRules={droidMcpRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Custom tool rules</label>
+            <CustomToolRules rules={droidToolRules} builtinTools={DROID_TOOLS} onChange={setDroidToolRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Argument rules (match on tool input fields)</label>
+            <ArgumentToolRules rules={droidToolRules} onChange={setDroidToolRules} />
+          </div>
+          <LintDiagnostics diagnostics={tabDiagnostics('droid')} />
+        </div>
+      )}
+
+      {/* ── Gemini CLI tab ───────────────────────────────────────── */}
+      {activeTab === 'gemini' && (
+        <div className="pe-tab-content">
+          <div className="modal-field">
+            <label className="modal-label">Denied command prefixes (Gemini CLI excludes these natively)</label>
+            <div className="modal-globs">
+              {geminiDenied.map((c, i) => (
+                <div key={i} className="modal-glob-row">
+                  <input
+                    className="modal-glob-input"
+                    type="text"
+                    placeholder="npm publish"
+                    value={c}
+                    onChange={(e) => setGeminiDenied((d) => d.map((x, j) => j === i ? e.target.value : x))}
+                  />
+                  <button
+                    className="modal-glob-remove"
+                    type="button"
+                    onClick={() => setGeminiDenied((d) => d.filter((_, j) => j !== i))}
+                  >
+                    x
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button className="modal-add-glob" onClick={() => setGeminiDenied((d) => [...d, ''])}>+ Add command</button>
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Tool rules</label>
+            <ToolRulesEditor tools={GEMINI_TOOLS} rules={geminiToolRules} onChange={setGeminiToolRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">MCP server rules</label>
+            <McpServerRulesEditor rules={geminiMcpRules} onChange={setGeminiMcpRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">MCP tool rules</label>
+            <McpToolPicker rules={geminiToolRules} onChange={setGeminiToolRules} serverRules={geminiMcpRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Custom tool rules</label>
+            <CustomToolRules rules={geminiToolRules} builtinTools={GEMINI_TOOLS} onChange={setGeminiToolRules} />
+          </div>
+          <div className="modal-field">
+            <label className="modal-label">Argument rules (match on tool input fields)</label>
+            <ArgumentToolRules rules={geminiToolRules} onChange={setGeminiToolRules} />
+          </div>
+          <LintDiagnostics diagnostics={tabDiagnostics('gemini')} />
+        </div>
+      )}
+
+      {/* ── Inheritance tab ──────────────────────────────────────── */}
+      {activeTab === 'inheritance' && !policyEditorIsOverride && (
+        <div className="pe-tab-content">
+          <InheritanceEditor
+            policyId={base?.id}
+            extendsIds={extendsIds}
+            fragmentIds={fragmentIds}
+            onExtendsChange={setExtendsIds}
+            onFragmentsChange={setFragmentIds}
+          />
+          <div className="view-section-label">Effective policy</div>
+          <EffectivePolicy authored={buildPolicy()} effective={effective} error={resolveError} />
+        </div>
+      )}
+
+      {/* ── Tests tab ────────────────────────────────────────────── */}
+      {activeTab === 'tests' && !policyEditorIsOverride && (
+        <div className="pe-tab-content">
+          <PolicyTests
+            tests={tests}
+            onChange={(next) => { setTests(next); setTestRun(null) }}
+            run={testRun}
+            error={testError}
+            onRun={() => runTests(buildPolicy())}
+          />
+        </div>
+      )}
+
+      {/* ── Simulate tab ─────────────────────────────────────────── */}
+      {activeTab === 'simulate' && !policyEditorIsOverride && (
+        <div className="pe-tab-content">
+          <PolicySimulation buildDraft={buildPolicy} />
+        </div>
+      )}
+
+      {/* ── History tab ──────────────────────────────────────────── */}
+      {activeTab === 'history' && showHistory && base && (
+        <div className="pe-tab-content">
+          <PolicyHistory policyId={base.id} />
         </div>
       )}
     </div>
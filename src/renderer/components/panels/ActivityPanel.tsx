@@ -4,9 +4,9 @@
  * events and radar anomaly signals. Follows the CommsPanel pattern.
  */
 
-import React, { useEffect, useMemo, useRef } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { useAppStore } from '../../store/useAppStore'
-import type { ActivityEvent, RadarSignal } from '../../../types'
+import type { ActivityEvent, ActivityFilter, AuthzDecision, DecisionTrace, RadarSignal } from '../../../types'
 
 function formatTime(ts: string): string {
   const d = new Date(ts)
@@ -23,16 +23,192 @@ function signalLevelClass(level: RadarSignal['level']): string {
   return 'is-low'
 }
 
+const PERIODS: { label: string; ms: number | null }[] = [
+  { label: 'Any time', ms: null },
+  { label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+]
+
+/** Search and filter controls; applied on Enter or when a select changes. */
+function ActivitySearch({ onApply }: { onApply: (filter: ActivityFilter) => void }) {
+  const [text, setText] = useState('')
+  const [toolName, setToolName] = useState('')
+  const [path, setPath] = useState('')
+  const [decision, setDecision] = useState<AuthzDecision | ''>('')
+  const [period, setPeriod] = useState(0)
+
+  const apply = (overrides?: { decision?: AuthzDecision | ''; period?: number }) => {
+    const d = overrides?.decision ?? decision
+    const ms = PERIODS[overrides?.period ?? period].ms
+    const filter: ActivityFilter = {}
+    if (text.trim()) filter.text = text.trim()
+    if (toolName.trim()) filter.toolName = toolName.trim()
+    if (path.trim()) filter.path = path.trim()
+    if (d) filter.decision = d
+    if (ms !== null) filter.since = new Date(Date.now() - ms).toISOString()
+    onApply(filter)
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') apply()
+  }
+
+  return (
+    <div className="activity-search">
+      <input
+        className="wizard-input"
+        placeholder="Search commands, paths, URLs..."
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={onKeyDown}
+      />
+      <div className="activity-search-row">
+        <input
+          className="wizard-input"
+          placeholder="Tool"
+          value={toolName}
+          onChange={(e) => setToolName(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+        <input
+          className="wizard-input"
+          placeholder="Path (glob)"
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+      <div className="activity-search-row">
+        <select
+          className="wizard-input"
+          value={decision}
+          onChange={(e) => {
+            const d = e.target.value as AuthzDecision | ''
+            setDecision(d)
+            apply({ decision: d })
+          }}
+        >
+          <option value="">All decisions</option>
+          <option value="allow">Allowed</option>
+          <option value="deny">Denied</option>
+          <option value="ask">Asked</option>
+        </select>
+        <select
+          className="wizard-input"
+          value={period}
+          onChange={(e) => {
+            const p = Number(e.target.value)
+            setPeriod(p)
+            apply({ period: p })
+          }}
+        >
+          {PERIODS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+        </select>
+      </div>
+    </div>
+  )
+}
+
+const BASELINE_LABELS: Record<DecisionTrace['baseline'], string> = {
+  'merged':             'Merged (strictest wins)',
+  'no-policy':          'No policy — allow all',
+  'emergency-deny-all': 'Emergency deny-all (policy store unavailable)',
+  'inheritance-error':  'Deny-all (policy inheritance could not be resolved)',
+}
+
+const MATCH_LABELS: Record<NonNullable<DecisionTrace['match']>['kind'], string> = {
+  permission:    'Permission',
+  toolRule:      'Tool rule',
+  mcpServerRule: 'MCP server rule',
+  toolList:      'Legacy tool list',
+  blockedGlob:   'Blocked path',
+  commandRule:   'Command rule',
+}
+
+/** Expanded "why" view for one event, loaded on demand. */
+function DecisionTraceView({ eventId }: { eventId: string }) {
+  const [trace, setTrace] = useState<DecisionTrace | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.latch.getActivityTrace({ id: eventId }).then((res) => {
+      if (cancelled) return
+      if (!res.ok) setError(res.error ?? 'Failed to load trace')
+      else setTrace(res.trace ?? null)
+    })
+    return () => { cancelled = true }
+  }, [eventId])
+
+  if (error) return <div className="activity-trace is-error">{error}</div>
+  if (trace === undefined) return <div className="activity-trace">Loading…</div>
+  if (trace === null) return <div className="activity-trace">No trace recorded for this event.</div>
+
+  return (
+    <div className="activity-trace">
+      <div className="activity-trace-row">
+        <span className="activity-trace-key">Baseline</span>
+        <span>{BASELINE_LABELS[trace.baseline]}</span>
+      </div>
+      {trace.policies.length > 0 && (
+        <div className="activity-trace-row">
+          <span className="activity-trace-key">Policies</span>
+          <span>
+            {trace.policies
+              .map((p) => `${p.revision !== null ? `${p.name} (r${p.revision})` : p.name}${p.mode === 'audit' ? ' [audit]' : ''}`)
+              .join(', ')}
+          </span>
+        </div>
+      )}
+      {trace.missingPolicyIds.length > 0 && (
+        <div className="activity-trace-row">
+          <span className="activity-trace-key">Missing</span>
+          <span>{trace.missingPolicyIds.join(', ')}</span>
+        </div>
+      )}
+      <div className="activity-trace-row">
+        <span className="activity-trace-key">Override</span>
+        <span>
+          {!trace.override.applied
+            ? 'None'
+            : trace.override.audit
+              ? 'Audit mode — nothing enforced for this session'
+            : trace.override.changes.length === 0
+              ? 'Applied — no effective changes'
+              : trace.override.changes.map((c) => `${c.kind} ${c.harness ? `${c.harness}.` : ''}${c.section}: ${c.key}`).join('; ')}
+        </span>
+      </div>
+      <div className="activity-trace-row">
+        <span className="activity-trace-key">Matched</span>
+        <span>{trace.match ? `${MATCH_LABELS[trace.match.kind]}: ${trace.match.key}` : 'No rule (default)'}</span>
+      </div>
+      <ol className="activity-trace-steps">
+        {trace.steps.map((step, i) => (
+          <li key={i} className={`activity-trace-step is-${step.outcome}`}>
+            <span className="activity-trace-stage">{step.stage}</span>
+            <span className="activity-trace-outcome">{step.outcome}</span>
+            {step.detail && <span className="activity-trace-detail">{step.detail}</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
 export default function ActivityPanel() {
   const {
     activityEvents,
     activityTotal,
     radarSignals,
+    activityFilter,
     clearActivity,
     loadActivityPanel,
+    setActivityFilter,
   } = useAppStore()
 
   const logRef = useRef<HTMLDivElement>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
 
   useEffect(() => {
     loadActivityPanel()
@@ -64,10 +240,15 @@ export default function ActivityPanel() {
         <span className="activity-stat is-high-risk">High-risk: {highRiskCount}</span>
       </div>
 
+      {/* ── Search ─────────────────────────────────────────────────────── */}
+      <ActivitySearch onApply={setActivityFilter} />
+
       {/* ── Event log ──────────────────────────────────────────────────── */}
       <div className="activity-log" ref={logRef}>
         {activityEvents.length === 0 ? (
-          <div className="comms-empty">No activity events yet.</div>
+          <div className="comms-empty">
+            {Object.keys(activityFilter).length ? 'No matching events.' : 'No activity events yet.'}
+          </div>
         ) : (
           activityEvents.map((event) => (
             <div
@@ -82,12 +263,24 @@ export default function ActivityPanel() {
               </div>
               <div className="activity-event-meta">
                 <span>{event.actionClass}</span>
-                <span>{riskLabel(event.risk)}</span>
+                <span title={event.riskFactors?.join('\n')}>{riskLabel(event.risk)}</span>
                 <span>{formatTime(event.timestamp)}</span>
+                {event.hasTrace && (
+                  <button
+                    className="activity-event-why"
+                    onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  >
+                    {expandedId === event.id ? 'Hide' : 'Why?'}
+                  </button>
+                )}
               </div>
+              {event.detail && (
+                <div className="activity-event-detail" title={event.detail}>{event.detail}</div>
+              )}
               {event.reason && (
                 <div className="activity-event-reason">{event.reason}</div>
               )}
+              {expandedId === event.id && <DecisionTraceView eventId={event.id} />}
             </div>
           ))
         )}
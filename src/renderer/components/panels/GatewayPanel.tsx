@@ -175,6 +175,9 @@ export default function GatewayPanel() {
                 <h4>Policy</h4>
                 <div className="gateway-grid">
                   <span className="gateway-muted">Policy</span><span>{receipt.policy.id}</span>
+                  {receipt.policy.revision !== undefined && (
+                    <><span className="gateway-muted">Revision</span><span>{receipt.policy.revision}</span></>
+                  )}
                   <span className="gateway-muted">Tier</span><span>{receipt.policy.maxDataTier}</span>
                   <span className="gateway-muted">Sandbox</span><span>{receipt.gateway.sandboxType}</span>
                   <span className="gateway-muted">Exit</span><span>{receipt.gateway.exitReason}</span>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { useAppStore } from '../../store/useAppStore'
-import type { PolicyDocument } from '../../../types'
+import type { ApprovalGrant, ApprovalScope, NativeImportIssue, PolicyDocument, QuotaStatus } from '../../../types'
 
 const SEED_IDS = new Set(['default', 'strict', 'read-only'])
 
@@ -28,30 +28,93 @@ function PermIndicators({ policy }: { policy: PolicyDocument | null }) {
   )
 }
 
+// ─── Approval grants ─────────────────────────────────────────────────────────
+
+const SCOPE_LABELS: Record<ApprovalScope, string> = {
+  once:    'Once',
+  exact:   'Exact call, this session',
+  session: 'Any call, this session',
+  project: 'Always (policy rule)',
+}
+
+function GrantItem({ grant, onRevoke }: { grant: ApprovalGrant; onRevoke: () => void }) {
+  const target = grant.target && grant.target.length > 80 ? grant.target.slice(0, 77) + '...' : grant.target
+  const uses = grant.useCount === 1 ? '1 use' : `${grant.useCount} uses`
+  return (
+    <div className="panel-card grant-item">
+      <div className="panel-title">{grant.toolName}</div>
+      {target && <div className="grant-target">{target}</div>}
+      <div className="panel-meta">
+        {SCOPE_LABELS[grant.scope]}{grant.policyId ? ` · ${grant.policyId}` : ''} · {uses}
+      </div>
+      <div className="panel-actions-row">
+        <button className="panel-action is-danger" onClick={onRevoke}>
+          Revoke
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ─── Quotas ──────────────────────────────────────────────────────────────────
+
+function QuotaItem({ quota }: { quota: QuotaStatus }) {
+  const exhausted = quota.used >= quota.max
+  return (
+    <div className="panel-card quota-item">
+      <div className="panel-title">{quota.description}</div>
+      <div className={`panel-meta${exhausted ? ' quota-exhausted' : ''}`}>
+        {quota.used} / {quota.max} used{quota.windowSeconds ? ' in window' : ''}
+        {exhausted ? ` · further calls ${quota.decision === 'deny' ? 'denied' : 'prompt'}` : ''}
+      </div>
+    </div>
+  )
+}
+
 // ─── PolicyPanel ─────────────────────────────────────────────────────────────
 
 export default function PolicyPanel() {
   const {
     activeSessionId,
     sessions,
+    lastActivityTs,
     policies,
     policiesLoaded,
     activePolicyDoc,
     policyGenerating,
     loadPolicies,
     loadPolicyPanel,
+    approvalGrants,
+    loadApprovalGrants,
+    revokeApprovalGrant,
     openPolicyEditor,
     clearSessionOverride,
     generatePolicy,
+    learnPolicy,
+    importNativePolicy,
   } = useAppStore()
 
   const [genPrompt, setGenPrompt] = useState('')
+  const [learning, setLearning] = useState(false)
+  const [learnError, setLearnError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [importUnmapped, setImportUnmapped] = useState<NativeImportIssue[]>([])
+  const [quotas, setQuotas] = useState<QuotaStatus[]>([])
 
   useEffect(() => {
     loadPolicyPanel()
+    loadApprovalGrants()
     if (!policiesLoaded) loadPolicies()
   }, [activeSessionId]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Quota counters move with every tool call, so refresh on session activity.
+  const lastActivity = activeSessionId ? lastActivityTs.get(activeSessionId) : undefined
+  useEffect(() => {
+    if (!activeSessionId) { setQuotas([]); return }
+    window.latch?.getQuotaStatus?.({ sessionId: activeSessionId }).then((res) => setQuotas(res?.quotas ?? []))
+  }, [activeSessionId, lastActivity])
+
   const session  = activeSessionId ? sessions.get(activeSessionId) : undefined
   const override = session?.policyOverride ?? null
 
@@ -85,6 +148,32 @@ export default function PolicyPanel() {
     setGenPrompt('')
   }
 
+  const handleLearn = async () => {
+    if (!activeSessionId || learning) return
+    setLearning(true)
+    setLearnError(null)
+    const result = await learnPolicy([activeSessionId])
+    setLearning(false)
+    if (!result.ok) setLearnError(result.error ?? 'Learning failed.')
+  }
+
+  // The repo root rather than the worktree: a worktree holds the config Latch wrote for the session.
+  const importDir = session?.repoRoot ?? session?.projectDir ?? undefined
+
+  const handleImportNative = async () => {
+    if (importing) return
+    setImporting(true)
+    setImportError(null)
+    setImportUnmapped([])
+    const result = await importNativePolicy(importDir)
+    setImporting(false)
+    if (!result.ok) {
+      if (result.error !== 'Cancelled') setImportError(result.error ?? 'Import failed.')
+      return
+    }
+    setImportUnmapped(result.unmapped ?? [])
+  }
+
   const handleGenKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault()
@@ -144,6 +233,28 @@ export default function PolicyPanel() {
         </div>
       </div>
 
+      {/* ── Approval Grants ────────────────────────────────────────── */}
+      {activeSessionId && (
+        <>
+          <div className="section-label">Approval Grants</div>
+          {approvalGrants.length ? (
+            approvalGrants.map((grant) => (
+              <GrantItem key={grant.id} grant={grant} onRevoke={() => revokeApprovalGrant(grant.id)} />
+            ))
+          ) : (
+            <div className="panel-empty">No active grants for this session.</div>
+          )}
+        </>
+      )}
+
+      {/* ── Quotas ─────────────────────────────────────────────────── */}
+      {activeSessionId && quotas.length > 0 && (
+        <>
+          <div className="section-label">Quotas</div>
+          {quotas.map((quota) => <QuotaItem key={quota.key} quota={quota} />)}
+        </>
+      )}
+
       {/* ── AI Policy Generator ────────────────────────────────────── */}
       <div className="section-label">Generate Policy</div>
       <div className="policy-gen-row">
@@ -167,6 +278,40 @@ export default function PolicyPanel() {
       <div className="policy-gen-hint">
         Describe what the policy should allow or restrict.
       </div>
+
+      {/* ── Import native harness config ───────────────────────────── */}
+      <div className="section-label">Import Harness Config</div>
+      <button className="panel-action" onClick={handleImportNative} disabled={importing}>
+        {importing ? 'Importing...' : importDir ? 'Import from this repo' : 'Import from folder...'}
+      </button>
+      {importError && <div className="cp-error">{importError}</div>}
+      {importUnmapped.length > 0 && (
+        <div className="panel-card">
+          <div className="panel-title">Not imported ({importUnmapped.length})</div>
+          {importUnmapped.map((issue, i) => (
+            <div key={i} className="panel-meta" title={issue.filePath}>
+              <code>{issue.entry}</code> — {issue.reason}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="policy-gen-hint">
+        Converts Claude settings.json permissions, Codex .rules and opencode.json permissions into a policy. Review it before saving.
+      </div>
+
+      {/* ── Learn mode ─────────────────────────────────────────────── */}
+      {activeSessionId && (
+        <>
+          <div className="section-label">Learn Policy</div>
+          <button className="panel-action" onClick={handleLearn} disabled={learning}>
+            {learning ? 'Learning...' : 'Learn from this session'}
+          </button>
+          {learnError && <div className="cp-error">{learnError}</div>}
+          <div className="policy-gen-hint">
+            Builds a policy that allows what this session did and prompts for anything else. Review it before saving.
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react'
 import { useAppStore } from '../../store/useAppStore'
+import type { AuthzMetrics, LatencySummary } from '../../../types'
 
 const DOCKER_IMAGE_OPTIONS = [
   { label: 'Node.js 20',   value: 'node:20' },
@@ -462,12 +463,59 @@ function BudgetSection() {
   )
 }
 
+// ─── Authorization metrics section ───────────────────────────────────────────
+
+function LatencyRow({ label, stats }: { label: string; stats: LatencySummary }) {
+  return (
+    <div className="settings-toggle-desc" style={{ fontFamily: 'var(--font-mono)' }}>
+      {label}: {stats.windowSize
+        ? `p50 ${stats.p50Ms}ms · p95 ${stats.p95Ms}ms · p99 ${stats.p99Ms}ms · max ${stats.maxMs}ms (${stats.count} calls)`
+        : 'no calls yet'}
+    </div>
+  )
+}
+
+function AuthzMetricsSection() {
+  const [metrics, setMetrics] = useState<AuthzMetrics | null>(null)
+
+  const load = async () => {
+    const result = await window.latch?.getAuthzMetrics?.()
+    setMetrics(result?.ok ? result.metrics ?? null : null)
+  }
+
+  useEffect(() => { load() }, [])
+
+  return (
+    <div className="panel-card">
+      {metrics ? (
+        <>
+          <LatencyRow label="/authorize" stats={metrics.endpoints.authorize} />
+          <LatencyRow label="/supervise" stats={metrics.endpoints.supervise} />
+          <div className="settings-toggle-desc" style={{ marginTop: 8 }}>
+            Policy cache: {metrics.policyCache.sessions} sessions compiled, {metrics.policyCache.hits} hits,
+            {' '}{metrics.policyCache.misses} misses, {metrics.policyCache.invalidations} invalidations.
+          </div>
+        </>
+      ) : (
+        <div className="settings-toggle-desc">Authorization server is not running.</div>
+      )}
+      <div className="settings-toggle-desc" style={{ marginTop: 8 }}>
+        Server-side handling time of hook requests over the last 1,000 calls. Calls held for your approval are excluded.
+      </div>
+      <button className="panel-action" onClick={load} style={{ marginTop: 12, alignSelf: 'flex-start' }}>
+        Refresh
+      </button>
+    </div>
+  )
+}
+
 // ─── SettingsPanel ───────────────────────────────────────────────────────────
 
 export default function SettingsPanel() {
   const [autoAccept, setAutoAccept]       = useState(true)
   const [notifications, setNotifications] = useState(true)
   const [telemetry, setTelemetry]         = useState(false)
+  const [tamperPause, setTamperPause]     = useState(false)
   const [loaded, setLoaded]               = useState(false)
 
   const soundNotifications = useAppStore((s) => s.soundNotifications)
@@ -475,15 +523,17 @@ export default function SettingsPanel() {
   // Load saved toggle states on mount
   useEffect(() => {
     const load = async () => {
-      const [aa, notif, tel] = await Promise.all([
+      const [aa, notif, tel, pause] = await Promise.all([
         window.latch?.getSetting?.({ key: 'auto-accept' }),
         window.latch?.getSetting?.({ key: 'notifications-enabled' }),
         window.latch?.getSetting?.({ key: 'telemetry-enabled' }),
+        window.latch?.getSetting?.({ key: 'config-tamper-pause' }),
       ])
-      // Default: auto-accept ON, notifications ON, telemetry OFF
+      // Default: auto-accept ON, notifications ON, telemetry OFF, tamper pause OFF
       if (aa?.ok && aa.value !== null) setAutoAccept(aa.value === 'true')
       if (notif?.ok && notif.value !== null) setNotifications(notif.value === 'true')
       if (tel?.ok && tel.value !== null) setTelemetry(tel.value === 'true')
+      if (pause?.ok && pause.value !== null) setTamperPause(pause.value === 'true')
       setLoaded(true)
     }
     load()
@@ -529,6 +579,10 @@ export default function SettingsPanel() {
       <div className="view-section-label">Budgets</div>
       <BudgetSection />
 
+      {/* ── Authorization ───────────────────────────────────────── */}
+      <div className="view-section-label">Authorization</div>
+      <AuthzMetricsSection />
+
       {/* ── General ─────────────────────────────────────────────── */}
       <div className="view-section-label">General</div>
       <div className="panel-card">
@@ -539,6 +593,12 @@ export default function SettingsPanel() {
             label="Auto-accept"
             description="Automatically approve tool calls from harnesses."
           />
+          <Toggle
+            on={tamperPause}
+            onChange={(v) => handleToggle('config-tamper-pause', v, setTamperPause)}
+            label="Pause on config tampering"
+            description="Pause a session when its agent edits or deletes the policy config Latch generated. The file is restored either way."
+          />
           <Toggle
             on={notifications}
             onChange={(v) => handleToggle('notifications-enabled', v, setNotifications)}
@@ -13,6 +13,7 @@ import type {
   TabRecord,
   HarnessRecord,
   PolicyDocument,
+  NativeImportIssue,
   McpServerRecord,
   SecretRecord,
   ServiceRecord,
@@ -25,9 +26,12 @@ import type {
   DockerStatus,
   GatewayConfig,
   ActivityEvent,
+  ActivityFilter,
   RadarSignal,
   PendingApproval,
   ApprovalDecision,
+  ApprovalGrant,
+  ApprovalScope,
   FeedItem,
   UsageEvent,
   UsageSummary,
@@ -38,6 +42,7 @@ import type {
   LiveEvent,
   LiveSessionStats,
   BudgetAlert,
+  ConfigTamperAlert,
   Checkpoint,
   PlaybackSpeed,
   Issue,
@@ -114,6 +119,7 @@ function inferHarnessLabel(harnessId: string | null): string {
     codex:    'Codex',
     openclaw: 'OpenClaw',
     droid:    'Droid',
+    gemini:   'Gemini CLI',
     opencode: 'OpenCode',
   };
   return map[harnessId] ?? harnessId;
@@ -167,6 +173,7 @@ export interface AppState {
   // ── Activity ────────────────────────────────────────────────────────────────
   activityEvents: ActivityEvent[];
   activityTotal:  number;
+  activityFilter: ActivityFilter;
   radarSignals:   RadarSignal[];
 
   // ── Feed ──────────────────────────────────────────────────────────────────
@@ -197,6 +204,9 @@ export interface AppState {
   // ── Budget Enforcement ─────────────────────────────────────────────────────
   activeBudgetAlert: BudgetAlert | null;
 
+  // ── Config Tamper ───────────────────────────────────────────────────────────
+  activeTamperAlert: ConfigTamperAlert | null;
+
   // ── Replay ────────────────────────────────────────────────────────────────
   replayConversationId: string | null;
   replayTurns: TimelineTurn[];
@@ -222,6 +232,8 @@ export interface AppState {
 
   // ── Approvals ──────────────────────────────────────────────────────────────
   pendingApprovals: PendingApproval[];
+  /** Grants that apply to the active session (PolicyPanel). */
+  approvalGrants: ApprovalGrant[];
 
   // ── Agent status ───────────────────────────────────────────────────────────
   /** Epoch ms of the last activity event per session — used for running/idle. */
@@ -331,9 +343,12 @@ export interface AppState {
 
   // Policy generation
   generatePolicy:   (prompt: string) => Promise<void>;
+  learnPolicy:      (sessionIds: string[]) => Promise<{ ok: boolean; error?: string }>;
+  importNativePolicy: (dir?: string) => Promise<{ ok: boolean; unmapped?: NativeImportIssue[]; error?: string }>;
 
   // Activity
   loadActivityPanel:    () => Promise<void>;
+  setActivityFilter:    (filter: ActivityFilter) => Promise<void>;
   clearActivity:        () => Promise<void>;
   handleActivityEvent:  (event: ActivityEvent) => void;
   handleRadarSignal:    (signal: RadarSignal) => void;
@@ -369,6 +384,10 @@ export interface AppState {
   respondBudgetAlert: (alertId: string, action: 'kill' | 'extend') => Promise<void>;
   dismissBudgetAlert: () => void;
 
+  // Config tamper
+  handleConfigTamperAlert: (alert: ConfigTamperAlert) => void;
+  respondConfigTamper:     (sessionId: string, action: 'resume' | 'kill') => Promise<void>;
+
   // Rewind (from Replay)
   executeRewind: (checkpointId: string, sessionId: string) => Promise<{ ok: boolean; rewindContext?: string; error?: string }>;
 
@@ -397,7 +416,9 @@ export interface AppState {
   // Approvals
   handleApprovalRequest:  (approval: PendingApproval) => void;
   handleApprovalResolved: (payload: { id: string }) => void;
-  resolveApproval:        (id: string, decision: ApprovalDecision) => Promise<void>;
+  resolveApproval:        (id: string, decision: ApprovalDecision, scope?: ApprovalScope) => Promise<void>;
+  loadApprovalGrants:     () => Promise<void>;
+  revokeApprovalGrant:    (id: string) => Promise<void>;
 
   // PTY helpers (called from PTY event handlers in App.tsx)
   handlePtyData: (tabId: string, data: string) => void;
@@ -432,6 +453,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   defaultDockerImage: 'node:20',
   activityEvents:   [],
   activityTotal:    0,
+  activityFilter:   {},
   radarSignals:     [],
   feedItems:           [],
   feedUnread:          0,
@@ -449,6 +471,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   liveSessionStats:    new Map(),
   liveDetailSessionId: null,
   activeBudgetAlert:   null,
+  activeTamperAlert:   null,
   replayConversationId:     null,
   replayTurns:              [],
   replayCurrentIndex:       0,
@@ -469,6 +492,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   issueStartProjectDir:     null,
   issueStartBranchName:     '',
   pendingApprovals: [],
+  approvalGrants:   [],
   lastActivityTs:   new Map(),
   _statusTick:      0,
   agentsContent:    '',
@@ -956,6 +980,47 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     const cwd = worktreePath ?? repoRoot ?? projectDir ?? undefined;
 
+    // ── Repo policy (.latch/policy.yaml) ─────────────────────────────────
+    // Stacked with the selected policies once approved; a changed file is only
+    // picked up after re-approval, otherwise the approved copy keeps applying.
+    if (repoRoot && window.latch?.discoverRepoPolicy) {
+      const found = await window.latch.discoverRepoPolicy({ repoRoot });
+      const discovery = found?.ok ? found.discovery : null;
+      if (!found?.ok) {
+        terminalManager.writeln(tabId, `\x1b[33mRepo policy ignored: ${found?.error ?? 'unknown error'}\x1b[0m`);
+      } else if (discovery) {
+        let apply = discovery.status !== 'new';
+        if (discovery.status === 'changed') {
+          terminalManager.writeln(tabId, `\x1b[1;33m⚠ Repo policy changed since you approved it: ${discovery.filePath}\x1b[0m`);
+          for (const c of discovery.changes) {
+            terminalManager.writeln(tabId, `\x1b[33m  ${c.kind} ${c.section}${c.harness ? ` (${c.harness})` : ''}: ${c.key}\x1b[0m`);
+          }
+        }
+        const question = discovery.status === 'new'
+          ? `This repo ships a policy (${discovery.filePath}): "${discovery.policy.name}".\n\nApply it to this session? It is stacked with your selected policies — the strictest rule wins.`
+          : `The repo policy "${discovery.policy.name}" has ${discovery.changes.length} change(s) since you approved it (see the terminal).\n\nApprove the new version? Cancel keeps using the previously approved copy.`;
+        if (discovery.status !== 'approved' && window.confirm(question)) {
+          const approved = await window.latch.approveRepoPolicy?.({ repoRoot });
+          if (approved?.ok) {
+            apply = true;
+            get().loadPolicies();
+          } else {
+            terminalManager.writeln(tabId, `\x1b[33mRepo policy not applied: ${approved?.error ?? 'unknown error'}\x1b[0m`);
+          }
+        }
+        if (apply && !session.policyIds?.includes(discovery.policyId)) {
+          session.policyIds = [...(session.policyIds ?? []), discovery.policyId];
+          set((s) => {
+            const sessions = new Map(s.sessions);
+            const sess     = sessions.get(sessionId);
+            if (sess) sessions.set(sessionId, { ...sess, policyIds: session.policyIds });
+            return { sessions };
+          });
+        }
+        if (apply) terminalManager.writeln(tabId, `\x1b[2mRepo policy: ${discovery.policy.name}\x1b[0m`);
+      }
+    }
+
     // ── Docker sandbox setup ──────────────────────────────────────────────
     let dockerContainerId: string | undefined;
 
@@ -1029,6 +1094,7 @@ export const useAppStore = create<AppState>((set, get) => ({
           harnessId: session.harnessId,
           policyIds: session.policyIds,
           policyOverride: session.policyOverride,
+          workspaceRoot: worktreePath ?? projectDir ?? null,
         });
       }
 
@@ -1082,6 +1148,7 @@ export const useAppStore = create<AppState>((set, get) => ({
         serviceIds: sessionState.gateway.serviceIds,
         maxDataTier: sessionState.gateway.maxDataTier,
         policyId: session.policyIds[0] ?? 'default',
+        policyIds: session.policyIds,
         policyOverride: session.policyOverride,
         workspacePath: worktreePath ?? projectDir ?? null,
         enableTls: false,
@@ -1682,10 +1749,24 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  learnPolicy: async (sessionIds) => {
+    const result = await window.latch?.learnPolicy?.({ sessionIds });
+    if (!result?.ok || !result.policy) return { ok: false, error: result?.error ?? 'Learning failed.' };
+    get().openPolicyEditor(result.policy, false);
+    return { ok: true };
+  },
+
+  importNativePolicy: async (dir) => {
+    const result = await window.latch?.importNativePolicy?.({ dir });
+    if (!result?.ok || !result.policy) return { ok: false, error: result?.error ?? 'Import failed.' };
+    get().openPolicyEditor(result.policy, false);
+    return { ok: true, unmapped: result.unmapped ?? [] };
+  },
+
   // ── Activity ─────────────────────────────────────────────────────────────────
 
   loadActivityPanel: async () => {
-    const result = await window.latch?.listActivity?.({ limit: 200 });
+    const result = await window.latch?.listActivity?.({ ...get().activityFilter, limit: 200 });
     const signalResult = await window.latch?.getRadarSignals?.();
     set({
       activityEvents: result?.events ?? [],
@@ -1694,6 +1775,11 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
 
+  setActivityFilter: async (filter) => {
+    set({ activityFilter: filter });
+    await get().loadActivityPanel();
+  },
+
   clearActivity: async () => {
     await window.latch?.clearActivity?.();
     set({ activityEvents: [], activityTotal: 0 });
@@ -1704,6 +1790,8 @@ export const useAppStore = create<AppState>((set, get) => ({
     set((s) => {
       const lastActivityTs = new Map(s.lastActivityTs);
       lastActivityTs.set(event.sessionId, Date.now());
+      // While searching, the list shows query results — don't mix in live events.
+      if (Object.keys(s.activityFilter).length > 0) return { lastActivityTs };
       return {
         activityEvents: [event, ...s.activityEvents].slice(0, 500),
         activityTotal:  s.activityTotal + 1,
@@ -1879,6 +1967,15 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ activeBudgetAlert: null })
   },
 
+  handleConfigTamperAlert: (alert: ConfigTamperAlert) => {
+    set({ activeTamperAlert: alert })
+  },
+
+  respondConfigTamper: async (sessionId: string, action: 'resume' | 'kill') => {
+    await window.latch?.respondConfigTamper?.({ sessionId, action })
+    set({ activeTamperAlert: null })
+  },
+
   // ── Rewind (from Replay) ─────────────────────────────────────────────────
 
   executeRewind: async (checkpointId, sessionId) => {
@@ -2214,7 +2311,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     }));
   },
 
-  resolveApproval: async (id, decision) => {
+  resolveApproval: async (id, decision, scope = 'once') => {
     // Find the approval before removing it (need promptTool + sessionId)
     const approval = get().pendingApprovals.find((a) => a.id === id)
 
@@ -2222,7 +2319,13 @@ export const useAppStore = create<AppState>((set, get) => ({
     set((s) => ({
       pendingApprovals: s.pendingApprovals.filter((a) => a.id !== id),
     }));
-    await window.latch?.resolveApproval?.({ id, decision });
+    await window.latch?.resolveApproval?.({ id, decision, scope });
+
+    if (decision === 'approve' && scope !== 'once') {
+      get().loadApprovalGrants()
+      // Project grants add a rule to the session's policy.
+      if (scope === 'project') get().loadPolicies()
+    }
 
     // For prompt tool approvals on NON-Claude harnesses (Codex/OpenClaw):
     // auto-send a retry message since those harnesses use the old hook-based
@@ -2241,6 +2344,27 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  loadApprovalGrants: async () => {
+    const { activeSessionId } = get()
+    if (!activeSessionId) { set({ approvalGrants: [] }); return }
+    const result = await window.latch?.listGrants?.({ sessionId: activeSessionId })
+    set({ approvalGrants: result?.ok ? result.grants : [] })
+  },
+
+  revokeApprovalGrant: async (id) => {
+    const grant = get().approvalGrants.find((g) => g.id === id)
+    const result = await window.latch?.revokeGrant?.({ id })
+    if (!result?.ok) {
+      console.error('Grant revocation failed:', result?.error)
+      return
+    }
+    await get().loadApprovalGrants()
+    if (grant?.scope === 'project') {
+      await get().loadPolicies()
+      await get().loadPolicyPanel()
+    }
+  },
+
   // ── PTY event handlers ───────────────────────────────────────────────────────
 
   handlePtyData: (tabId, data) => {
@@ -13,12 +13,14 @@ import {
 import {
   promptText, promptSelect, promptConfirm, promptMultiSelect, promptCycleGrid,
 } from '../prompts'
-import type { PolicyDocument, PolicyPermissions, ToolRule, McpServerRule, HarnessesConfig } from '../../../types'
+import type { PolicyDocument, PolicyPermissions, ToolRule, McpServerRule, HarnessesConfig, SimulatedDecision, PolicyLintDiagnostic } from '../../../types'
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const CLAUDE_TOOLS   = ['Read', 'Write', 'Edit', 'Bash', 'WebFetch', 'WebSearch', 'Task', 'NotebookEdit']
 const OPENCLAW_TOOLS = ['read', 'write', 'exec', 'web_search', 'web_fetch', 'browser']
+const DROID_TOOLS    = ['Read', 'LS', 'Create', 'Edit', 'MultiEdit', 'ApplyPatch', 'Execute', 'FetchUrl', 'WebSearch']
+const GEMINI_TOOLS   = ['read_file', 'read_many_files', 'list_directory', 'glob', 'search_file_content', 'write_file', 'replace', 'run_shell_command', 'web_fetch', 'google_web_search']
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -33,6 +35,18 @@ function ruleCountSummary(rules: ToolRule[]): string {
   return parts.join(', ') || `${DIM}none${RESET}`
 }
 
+function colorDecision(d: SimulatedDecision): string {
+  if (d === 'allow')  return `${GREEN}allow${RESET}`
+  if (d === 'prompt') return `${YELLOW}prompt${RESET}`
+  return `${RED}deny${RESET}`
+}
+
+function colorSeverity(d: PolicyLintDiagnostic): string {
+  if (d.severity === 'error')   return `${RED}error${RESET}  `
+  if (d.severity === 'warning') return `${YELLOW}warning${RESET}`
+  return `${DIM}info${RESET}   `
+}
+
 // ─── Commands ───────────────────────────────────────────────────────────────
 
 async function policyList(runner: CommandRunner): Promise<void> {
@@ -157,6 +171,8 @@ async function policyCreate(runner: CommandRunner): Promise<void> {
   for (const harness of installedHarnesses) {
     const builtinTools = harness.id === 'claude' ? CLAUDE_TOOLS
                        : harness.id === 'openclaw' ? OPENCLAW_TOOLS
+                       : harness.id === 'droid' ? DROID_TOOLS
+                       : harness.id === 'gemini' ? GEMINI_TOOLS
                        : []
 
     if (builtinTools.length === 0) continue
@@ -185,6 +201,14 @@ async function policyCreate(runner: CommandRunner): Promise<void> {
       harnesses.openclaw = {}
       if (combinedRules.length) harnesses.openclaw.toolRules = combinedRules
       if (allMcpServerRules.length) harnesses.openclaw.mcpServerRules = allMcpServerRules
+    } else if (harness.id === 'droid') {
+      harnesses.droid = {}
+      if (combinedRules.length) harnesses.droid.toolRules = combinedRules
+      if (allMcpServerRules.length) harnesses.droid.mcpServerRules = allMcpServerRules
+    } else if (harness.id === 'gemini') {
+      harnesses.gemini = {}
+      if (combinedRules.length) harnesses.gemini.toolRules = combinedRules
+      if (allMcpServerRules.length) harnesses.gemini.mcpServerRules = allMcpServerRules
     } else if (harness.id === 'codex') {
       harnesses.codex = {}
       if (allMcpServerRules.length) harnesses.codex.mcpServerRules = allMcpServerRules
@@ -323,8 +347,193 @@ async function policyDelete(runner: CommandRunner, args: string[]): Promise<void
   if (result?.ok) {
     writeln(tabId, `  ${GREEN}✓${RESET} Policy deleted.`)
   } else {
-    writeln(tabId, `  ${RED}✗${RESET} Failed to delete policy.`)
+    writeln(tabId, `  ${RED}✗${RESET} Failed to delete: ${result?.error ?? 'Unknown error'}`)
+  }
+  writeln(tabId, '')
+}
+
+async function policySimulate(runner: CommandRunner, args: string[]): Promise<void> {
+  const { tabId } = runner
+  const id = args[0]
+
+  if (!id) {
+    writeln(tabId, `  ${RED}Usage:${RESET} latch policy simulate <policy-id> [revision]`)
+    writeln(tabId, `  ${DIM}Replays recorded activity against the saved policy, compared with an earlier revision (default: the previous one).${RESET}`)
+    writeln(tabId, '')
+    return
+  }
+
+  const s = spinner(tabId, 'Loading policy...')
+  const [result, revResult] = await Promise.all([
+    window.latch.getPolicy({ id }),
+    window.latch.listPolicyRevisions({ id }),
+  ])
+  s.stop()
+
+  if (!result?.ok || !result.policy) {
+    writeln(tabId, `  ${RED}Policy not found:${RESET} ${id}`)
+    writeln(tabId, '')
+    return
   }
+
+  // Compare against the requested revision, else the previous one. A policy
+  // with a single revision is compared against not having it at all.
+  const revisions = revResult?.revisions ?? []
+  let baselineRevision: number | null
+  if (args[1]) {
+    baselineRevision = Number(args[1])
+    if (!Number.isInteger(baselineRevision) || !revisions.some((r) => r.revision === baselineRevision)) {
+      writeln(tabId, `  ${RED}Unknown revision:${RESET} ${args[1]}`)
+      writeln(tabId, '')
+      return
+    }
+  } else {
+    baselineRevision = revisions[1]?.revision ?? null
+  }
+
+  const p = result.policy
+  const against = baselineRevision === null ? 'no policy' : `revision ${baselineRevision}`
+  const simSpinner = spinner(tabId, `Replaying activity for ${p.name} against ${against}...`)
+  const sim = await window.latch.simulatePolicy({ policy: p, baselineRevision })
+  simSpinner.stop()
+
+  if (!sim?.ok || !sim.result) {
+    writeln(tabId, `  ${RED}✗${RESET} Simulation failed: ${sim?.error ?? 'Unknown error'}`)
+    writeln(tabId, '')
+    return
+  }
+
+  const r = sim.result
+  writeln(tabId, '')
+  writeln(tabId, `  ${BOLD}${p.name}${RESET} ${DIM}(${p.id}) vs ${against}${RESET}`)
+  writeln(tabId, `  ${DIM}${r.scope === 'sessions-using-policy' ? 'Sessions using this policy' : 'All recorded activity'} · ${r.evaluated} calls evaluated${r.skipped ? ` · ${r.skipped} skipped (no recorded input)` : ''}${RESET}`)
+  writeln(tabId, '')
+
+  if (r.changed === 0) {
+    writeln(tabId, `  ${GREEN}✓${RESET} No decisions would change.`)
+    writeln(tabId, '')
+    return
+  }
+
+  const transitions = Object.entries(r.transitions).map(([t, n]) => `${t} ${BOLD}${n}${RESET}`).join(', ')
+  writeln(tabId, `  ${YELLOW}${r.changed} decision${r.changed === 1 ? '' : 's'} would change:${RESET} ${transitions}`)
+
+  for (const group of r.groups) {
+    writeln(tabId, '')
+    writeln(tabId, `  ${CYAN}${BOLD}${group.rule}${RESET} ${DIM}(${group.changes.length})${RESET}`)
+    const rows = group.changes.map((c) => [
+      `${colorDecision(c.before)} → ${colorDecision(c.after)}`,
+      c.toolName,
+      c.detail || `${DIM}—${RESET}`,
+      new Date(c.timestamp).toLocaleString(),
+    ])
+    writeln(tabId, table(['Change', 'Tool', 'Input', 'When'], rows))
+  }
+  writeln(tabId, '')
+}
+
+async function policyTest(runner: CommandRunner, args: string[]): Promise<void> {
+  const { tabId } = runner
+  const id = args[0]
+
+  const s = spinner(tabId, 'Loading policies...')
+  const listed = await window.latch.listPolicies()
+  s.stop()
+
+  const all: PolicyDocument[] = listed?.ok ? listed.policies ?? [] : []
+  let targets: PolicyDocument[]
+  if (id) {
+    const policy = all.find((p) => p.id === id)
+    if (!policy) {
+      writeln(tabId, `  ${RED}Policy not found:${RESET} ${id}`)
+      writeln(tabId, '')
+      return
+    }
+    targets = [policy]
+  } else {
+    targets = all.filter((p) => p.tests?.length)
+  }
+
+  if (!targets.some((p) => p.tests?.length)) {
+    writeln(tabId, `  ${DIM}No test cases defined. Add them in the policy editor's Tests tab.${RESET}`)
+    writeln(tabId, '')
+    return
+  }
+
+  let passed = 0
+  let failed = 0
+  for (const policy of targets) {
+    const res = await window.latch.testPolicy({ policy })
+    writeln(tabId, '')
+    writeln(tabId, `  ${BOLD}${policy.name}${RESET} ${DIM}(${policy.id})${RESET}`)
+    if (!res?.ok || !res.run) {
+      writeln(tabId, `  ${RED}✗${RESET} ${res?.error ?? 'Failed to run tests'}`)
+      failed += policy.tests?.length ?? 0
+      continue
+    }
+    for (const r of res.run.results) {
+      const label = r.name || `${r.toolName} ${DIM}(${r.harness})${RESET}`
+      if (r.passed) {
+        writeln(tabId, `  ${GREEN}✓${RESET} ${label} ${DIM}→${RESET} ${colorDecision(r.actual)}`)
+      } else {
+        writeln(tabId, `  ${RED}✗${RESET} ${label} ${DIM}expected${RESET} ${colorDecision(r.expected)}${DIM}, got${RESET} ${colorDecision(r.actual)} ${DIM}— ${r.rule}${RESET}`)
+      }
+    }
+    passed += res.run.passed
+    failed += res.run.failed
+  }
+
+  writeln(tabId, '')
+  const summary = `${passed} passed, ${failed} failed`
+  writeln(tabId, failed ? `  ${RED}${summary}${RESET}` : `  ${GREEN}${summary}${RESET}`)
+  writeln(tabId, '')
+}
+
+async function policyLint(runner: CommandRunner, args: string[]): Promise<void> {
+  const { tabId } = runner
+
+  const s = spinner(tabId, 'Loading policies...')
+  const listed = await window.latch.listPolicies()
+  s.stop()
+
+  const all: PolicyDocument[] = listed?.ok ? listed.policies ?? [] : []
+  const missing = args.filter((id) => !all.some((p) => p.id === id))
+  if (missing.length) {
+    writeln(tabId, `  ${RED}Policy not found:${RESET} ${missing.join(', ')}`)
+    writeln(tabId, '')
+    return
+  }
+  const targets = args.length ? all.filter((p) => args.includes(p.id)) : all
+  if (!targets.length) {
+    writeln(tabId, `  ${DIM}No policies defined. Create one with:${RESET} ${GREEN}latch policy create${RESET}`)
+    writeln(tabId, '')
+    return
+  }
+
+  const counts = { error: 0, warning: 0, info: 0 }
+  for (const policy of targets) {
+    const res = await window.latch.lintPolicy({ policy })
+    if (!res?.ok) {
+      writeln(tabId, '')
+      writeln(tabId, `  ${BOLD}${policy.name}${RESET} ${DIM}(${policy.id})${RESET}`)
+      writeln(tabId, `  ${RED}✗${RESET} ${res?.error ?? 'Failed to lint policy'}`)
+      continue
+    }
+    const diagnostics = res.diagnostics ?? []
+    if (!diagnostics.length) continue
+
+    writeln(tabId, '')
+    writeln(tabId, `  ${BOLD}${policy.name}${RESET} ${DIM}(${policy.id})${RESET}`)
+    for (const d of diagnostics) {
+      counts[d.severity]++
+      const where = `${d.section}${d.harness ? `.${d.harness}` : ''}${d.index !== undefined ? `[${d.index}]` : ''}`
+      writeln(tabId, `  ${colorSeverity(d)} ${DIM}${where}${RESET} ${JSON.stringify(d.key)}: ${d.message}`)
+    }
+  }
+
+  writeln(tabId, '')
+  const summary = `${targets.length} ${targets.length === 1 ? 'policy' : 'policies'}: ${counts.error} errors, ${counts.warning} warnings, ${counts.info} notes`
+  writeln(tabId, counts.error ? `  ${RED}${summary}${RESET}` : `  ${GREEN}${summary}${RESET}`)
   writeln(tabId, '')
 }
 
@@ -337,5 +546,8 @@ registerGroup('policy', {
     create: { description: 'Create a new policy (wizard)',   usage: 'latch policy create',            run: policyCreate },
     edit:   { description: 'View/edit an existing policy',   usage: 'latch policy edit <id>',         run: policyEdit },
     delete: { description: 'Delete a policy',                usage: 'latch policy delete <id>',       run: policyDelete },
+    simulate: { description: 'Replay recorded activity against a policy', usage: 'latch policy simulate <id> [revision]', run: policySimulate },
+    test:   { description: 'Run policy test cases',          usage: 'latch policy test [id]',         run: policyTest },
+    lint:   { description: 'Check policies for dead or conflicting rules', usage: 'latch policy lint [id...]', run: policyLint },
   },
 })
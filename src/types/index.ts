@@ -20,10 +20,20 @@ export interface ModelRecord {
 
 export type ToolRuleDecision = 'allow' | 'deny' | 'prompt'
 
+export type ToolInputPredicateOp = 'glob' | 'regex' | 'domain' | 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+
+export interface ToolInputPredicate {
+  field: string             // dot path into tool_input ("url", "options.repo")
+  op: ToolInputPredicateOp
+  value: string | number    // glob, regex, domain ("*.example.com" includes subdomains), or comparand
+  negate?: boolean
+}
+
 export interface ToolRule {
   pattern: string           // exact name or prefix glob ("mcp__github__*")
   decision: ToolRuleDecision
   reason?: string
+  when?: ToolInputPredicate[]  // all must hold for the rule to match
 }
 
 export interface CommandRule {
@@ -32,6 +42,21 @@ export interface CommandRule {
   reason?: string
 }
 
+/**
+ * A limit on how often matching calls may run in a session. Set at most one
+ * of actionClass, tool and command to choose what counts; a rule with none
+ * counts every call.
+ */
+export interface QuotaRule {
+  actionClass?: ActionClass    // "write" counts Write/Edit/… calls
+  tool?: string                // exact name or prefix glob, as in ToolRule
+  command?: string             // regex matched against each command in a shell call
+  max: number
+  windowSeconds?: number       // sliding window; unset = the whole session
+  decision: 'deny' | 'prompt'  // what happens to calls over the limit
+  reason?: string
+}
+
 export interface McpServerRule {
   server: string            // MCP server name (e.g. "github")
   decision: ToolRuleDecision
@@ -45,8 +70,28 @@ export interface PolicyPermissions {
   confirmDestructive: boolean;
   blockedGlobs: string[];
   commandRules?: CommandRule[];
+  /**
+   * Directories file writes are confined to (Write/Edit/NotebookEdit and
+   * shell output redirections). Relative entries resolve against the session
+   * worktree / project dir; `.` is the workspace itself. Unset = unrestricted,
+   * empty = no file writes.
+   */
+  writeScopes?: string[];
+  /** Per-session limits, checked by the authz server on every call. */
+  quotas?: QuotaRule[];
+  /**
+   * What the gateway proxy does when an outbound request body or query
+   * string carries a SecretStore value or a detected credential. Unset = block.
+   */
+  outboundLeakAction?: OutboundLeakAction;
 }
 
+/** The on/off gates of PolicyPermissions, as shown by permission toggles. */
+export type PolicyPermissionFlag = 'allowBash' | 'allowNetwork' | 'allowFileWrite' | 'confirmDestructive';
+
+/** block = refuse the request; strip = remove the value and forward; prompt = refuse until approved. */
+export type OutboundLeakAction = 'block' | 'strip' | 'prompt';
+
 export interface ClaudePolicyConfig {
   allowedTools?: string[];
   deniedTools?: string[];
@@ -86,11 +131,27 @@ export interface OpenCodePolicyConfig {
   mcpServerRules?: McpServerRule[];
 }
 
+export interface DroidPolicyConfig {
+  /** Shell command prefixes Droid refuses natively (settings.json commandDenylist). */
+  deniedCommands?: string[];
+  toolRules?: ToolRule[];
+  mcpServerRules?: McpServerRule[];
+}
+
+export interface GeminiPolicyConfig {
+  /** Shell command prefixes Gemini CLI refuses natively (settings.json tools.exclude `run_shell_command(...)`). */
+  deniedCommands?: string[];
+  toolRules?: ToolRule[];
+  mcpServerRules?: McpServerRule[];
+}
+
 export interface HarnessesConfig {
   claude?: ClaudePolicyConfig;
   codex?: CodexPolicyConfig;
   openclaw?: OpenClawPolicyConfig;
   opencode?: OpenCodePolicyConfig;
+  droid?: DroidPolicyConfig;
+  gemini?: GeminiPolicyConfig;
 }
 
 export interface LlmEvaluatorConfig {
@@ -101,6 +162,9 @@ export interface LlmEvaluatorConfig {
   model?: string;
 }
 
+/** `audit` evaluates a policy and records what it would have decided without enforcing it. */
+export type PolicyMode = 'enforce' | 'audit';
+
 export interface PolicyDocument {
   id: string;
   name: string;
@@ -108,6 +172,117 @@ export interface PolicyDocument {
   permissions: PolicyPermissions;
   harnesses: HarnessesConfig;
   llmEvaluator?: LlmEvaluatorConfig;
+  /** Policies this one inherits from, earlier ids taking precedence. */
+  extends?: string[];
+  /** Built-in rule fragments mixed into this policy, by id. */
+  fragments?: string[];
+  /** Expected decisions for sample tool calls, checked before the policy is saved. */
+  tests?: PolicyTestCase[];
+  /** Unset means enforce. On a session override, `audit` puts the whole session in audit mode. */
+  mode?: PolicyMode;
+}
+
+/** A sample tool call and the decision a policy must reach for it. */
+export interface PolicyTestCase {
+  name?: string;
+  /** Harness the call comes from (claude, codex, openclaw, opencode, …). */
+  harness: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  /** Session workspace the call runs in, for relative write scopes. */
+  workspaceRoot?: string;
+  expect: SimulatedDecision;
+}
+
+/** A named, reusable set of harness-agnostic rules a policy can mix in. */
+export interface PolicyFragment {
+  id: string;
+  name: string;
+  description: string;
+  blockedGlobs?: string[];
+  commandRules?: CommandRule[];
+}
+
+export interface PolicyRevision {
+  policyId: string;
+  /** Monotonic per-policy revision number, starting at 1. */
+  revision: number;
+  /** SHA-256 of the canonical JSON body. */
+  hash: string;
+  author: string | null;
+  /** Set when this revision was created by rolling back to an earlier one. */
+  rolledBackFrom: number | null;
+  createdAt: string;
+  /** Full document snapshot — only present when a single revision is fetched. */
+  policy?: PolicyDocument;
+}
+
+export type PolicyDiffSection =
+  | 'metadata'
+  | 'permissions'
+  | 'blockedGlobs'
+  | 'writeScopes'
+  | 'commandRules'
+  | 'quotas'
+  | 'toolRules'
+  | 'mcpServerRules'
+  | 'harness'
+  | 'llmEvaluator'
+
+export interface PolicyDiffChange {
+  section: PolicyDiffSection;
+  /** Harness the change applies to (toolRules / mcpServerRules / harness sections only). */
+  harness?: keyof HarnessesConfig;
+  /** Flag name, glob, rule pattern or MCP server name identifying the changed item. */
+  key: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PolicyDiff {
+  policyId: string;
+  fromRevision: number;
+  toRevision: number;
+  changes: PolicyDiffChange[];
+}
+
+/** Approval state of a repo's `.latch/policy.yaml` relative to the copy stored in Latch. */
+export type RepoPolicyStatus = 'new' | 'approved' | 'changed'
+
+export interface RepoPolicyDiscovery {
+  /** Id the repo policy is stored under once approved. */
+  policyId: string;
+  /** Absolute path of the policy file. */
+  filePath: string;
+  status: RepoPolicyStatus;
+  policy: PolicyDocument;
+  /** How the file differs from the last approved copy ('changed' only). */
+  changes: PolicyDiffChange[];
+}
+
+export type PolicyLintSeverity = 'error' | 'warning' | 'info'
+
+export type PolicyLintCode =
+  | 'shadowed-rule'       // an earlier rule always wins, so this one never applies
+  | 'overlapping-rule'    // an earlier rule with a different decision wins for some calls
+  | 'unreachable-rule'    // a permission flag blocks the action class before the rule is checked
+  | 'invalid-regex'
+  | 'redos-regex'         // nested unbounded repetition; times out (= no match) on hostile input
+  | 'unmatchable-glob'
+  | 'unknown-mcp-server'
+
+export interface PolicyLintDiagnostic {
+  code: PolicyLintCode;
+  severity: PolicyLintSeverity;
+  section: PolicyDiffSection;
+  /** Harness the rule belongs to (toolRules / mcpServerRules / harness sections only). */
+  harness?: keyof HarnessesConfig;
+  /** Position of the offending entry in its list. */
+  index?: number;
+  /** Glob, rule pattern or MCP server name the diagnostic is about. */
+  key: string;
+  message: string;
 }
 
 // ─── MCP Server ──────────────────────────────────────────────────────────────
@@ -129,6 +304,8 @@ export interface McpServerRecord {
   tags: string[]
   tools: string[]
   toolDescriptions: Record<string, string>
+  /** User overrides of how Latch classifies each tool, keyed by tool name. */
+  toolClassifications?: Record<string, ToolClassification>
   catalogId: string | null
 }
 
@@ -137,6 +314,25 @@ export interface McpToolInfo {
   description: string
 }
 
+/** Action class and risk Latch assigns a tool call. */
+export interface ToolClassification {
+  actionClass: ActionClass
+  risk: RiskLevel
+}
+
+export interface ToolClassificationSuggestion extends ToolClassification {
+  /** Why this was suggested, e.g. `Description says "delete".` */
+  reason: string
+}
+
+/** How an MCP tool is classified without an override, and what its description suggests. */
+export interface McpToolClassificationInfo {
+  tool: string
+  /** Classification from built-in name heuristics (what applies with no override). */
+  heuristic: ToolClassification
+  suggestion: ToolClassificationSuggestion | null
+}
+
 // ─── Secret ──────────────────────────────────────────────────────────────────
 
 /** Metadata for an encrypted secret. Raw values never cross to the renderer. */
@@ -325,6 +521,8 @@ export interface SessionReceipt {
   policy: {
     id: string
     hash: string
+    /** PolicyStore revision in force when the session started (absent on older receipts). */
+    revision?: number
     maxDataTier: DataTier
     servicesGranted: string[]
   }
@@ -541,6 +739,192 @@ export interface ActivityEvent {
   decision: AuthzDecision;
   reason: string | null;
   harnessId: string;
+  /** Recorded tool input, with secrets masked (only present when fetched for replay or tracing). */
+  toolInput?: Record<string, unknown> | null;
+  /** One-line summary of the redacted input: the command, file path or URL. */
+  detail?: string | null;
+  /** True when a decision trace was recorded (fetch it with getActivityTrace). */
+  hasTrace?: boolean;
+  /** What the session's audit-mode policies would have decided; `decision` was reached without them. */
+  auditDecision?: AuthzDecision | null;
+  /** Why the call got its risk (target path, network access, flags, recent denials), most significant first. */
+  riskFactors?: string[];
+}
+
+/** Filters for listing activity. All given filters must match. */
+export interface ActivityFilter {
+  sessionId?: string;
+  toolName?: string;
+  decision?: AuthzDecision;
+  /** Glob (or substring, when it has no wildcard) over the file path in the tool input. */
+  path?: string;
+  /** Full-text search over tool name, redacted input and reason. */
+  text?: string;
+  /** ISO timestamps bounding the event time (inclusive). */
+  since?: string;
+  until?: string;
+}
+
+/** Which part of a policy produced an authorization decision. */
+export type AuthzRuleKind =
+  | 'permission'
+  | 'toolRule'
+  | 'mcpServerRule'
+  | 'toolList'
+  | 'blockedGlob'
+  | 'commandRule'
+
+export interface AuthzRuleMatch {
+  kind: AuthzRuleKind;
+  /** Permission flag, rule pattern, MCP server name or glob that matched. */
+  key: string;
+}
+
+/** A stage of the authorization pipeline, in the order the authz server runs them. */
+export type DecisionTraceStage =
+  | 'rules'
+  | 'llm-evaluator'
+  | 'approval-grant'
+  | 'confirm-destructive'
+  | 'user-approval'
+  | 'audit'
+  | 'quota'
+
+export interface DecisionTraceStep {
+  stage: DecisionTraceStage;
+  outcome: 'allow' | 'deny' | 'prompt' | 'skipped';
+  detail: string | null;
+}
+
+/** How an activity event's decision was reached ("why was this allowed/denied"). */
+export interface DecisionTrace {
+  /** How the base policy was chosen: merged from selected policies, none selected, store unavailable, or a selected policy's `extends` could not be resolved. */
+  baseline: 'merged' | 'no-policy' | 'emergency-deny-all' | 'inheritance-error';
+  /** Policies merged strictest-wins by computeStrictestBaseline. Those in audit mode only count toward the audit decision. */
+  policies: { id: string; name: string; revision: number | null; mode?: PolicyMode }[];
+  /** Selected policy ids that no longer exist. */
+  missingPolicyIds: string[];
+  /** Session override, and what it changed relative to the merged baseline. `audit` when it puts the session in audit mode. */
+  override: { applied: boolean; changes: PolicyDiffChange[]; audit?: boolean };
+  /** The rule that produced the static decision, if any. */
+  match: AuthzRuleMatch | null;
+  steps: DecisionTraceStep[];
+}
+
+/** How much of a quota a session has used. */
+export interface QuotaStatus {
+  key: string;
+  /** e.g. "max 20 write calls per minute". */
+  description: string;
+  used: number;
+  max: number;
+  windowSeconds: number | null;
+  decision: 'deny' | 'prompt';
+}
+
+/** Latency over the most recent samples of one endpoint. */
+export interface LatencySummary {
+  /** Samples recorded since startup. */
+  count: number;
+  /** Samples the percentiles are computed over (most recent). */
+  windowSize: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+/** Authz server health: hook round-trip latency and effective-policy cache use. */
+export interface AuthzMetrics {
+  /** Server-side handling time of hook requests, excluding time held for user approval. */
+  endpoints: { authorize: LatencySummary; supervise: LatencySummary };
+  policyCache: { sessions: number; hits: number; misses: number; invalidations: number };
+}
+
+export type SimulatedDecision = 'allow' | 'prompt' | 'deny'
+
+export interface PolicySimulationChange {
+  eventId: string;
+  sessionId: string;
+  timestamp: string;
+  toolName: string;
+  harnessId: string;
+  /** Short command / path summary of the recorded tool input. */
+  detail: string;
+  before: SimulatedDecision;
+  after: SimulatedDecision;
+  reason: string | null;
+}
+
+export interface PolicySimulationGroup {
+  /** Human-readable label of the rule responsible for the change. */
+  rule: string;
+  match: AuthzRuleMatch | null;
+  changes: PolicySimulationChange[];
+}
+
+export interface PolicySimulationResult {
+  policyId: string;
+  /** Sessions that used the policy, or all activity when no recorded session did. */
+  scope: 'sessions-using-policy' | 'all-activity';
+  evaluated: number;
+  /** Events skipped because no tool input was recorded for them. */
+  skipped: number;
+  changed: number;
+  /** Count per transition, keyed "before→after" (e.g. "allow→deny"). */
+  transitions: Record<string, number>;
+  groups: PolicySimulationGroup[];
+}
+
+export interface PolicyTestResult {
+  /** Position of the case in the policy's `tests`. */
+  index: number;
+  name?: string;
+  harness: string;
+  toolName: string;
+  expected: SimulatedDecision;
+  actual: SimulatedDecision;
+  /** Human-readable label of the rule that decided the call. */
+  rule: string;
+  reason: string | null;
+  passed: boolean;
+}
+
+export interface PolicyTestRun {
+  policyId: string;
+  passed: number;
+  failed: number;
+  results: PolicyTestResult[];
+}
+
+/** Calls an audit-mode policy would have stopped while it was in audit mode. */
+export interface PolicyAuditStats {
+  policyId: string;
+  wouldDeny: number;
+  wouldPrompt: number;
+}
+
+/** What learn mode observed in the sessions a policy was learned from. */
+export interface PolicyLearnSummary {
+  sessionIds: string[];
+  /** Allowed tool calls the policy was learned from. */
+  events: number;
+  /** Calls left out: denied, recorded without input, or from a harness policies can't target. */
+  skipped: number;
+  tools: string[];
+  mcpServers: string[];
+  commandPrefixes: string[];
+  /** Globs covering the files that were written. */
+  writePaths: string[];
+  domains: string[];
+}
+
+/** A native harness permission entry that policy import could not translate. */
+export interface NativeImportIssue {
+  filePath: string;
+  /** The entry as written, or `(file)` when the whole file was skipped. */
+  entry: string;
+  reason: string;
 }
 
 export interface RadarSignal {
@@ -612,6 +996,17 @@ export interface BudgetAlert {
   timestamp: string
 }
 
+/** A session paused because harness config Latch generated for it was changed or deleted. */
+export interface ConfigTamperAlert {
+  id: string
+  sessionId: string
+  filePath: string
+  change: 'modified' | 'deleted'
+  /** Whether Latch's copy of the file was written back. */
+  restored: boolean
+  timestamp: string
+}
+
 // ── Leak Detection ─────────────────────────────────────────────────────────
 
 export interface LeakMatch {
@@ -674,6 +1069,30 @@ export interface IssueRepo {
 
 export type ApprovalDecision = 'approve' | 'deny'
 
+/** How far an approval reaches.
+ *  - once:    the retry of this exact call (within the grant window)
+ *  - exact:   this exact command/path/input, for the rest of the session
+ *  - session: any call to this tool, for the rest of the session
+ *  - project: this exact call, written into the session's policy as an allow rule
+ */
+export type ApprovalScope = 'once' | 'exact' | 'session' | 'project'
+
+export interface ApprovalGrant {
+  id: string
+  /** Session the approval was given in. */
+  sessionId: string
+  scope: ApprovalScope
+  toolName: string
+  /** Argument the grant is pinned to (command, path, URL or canonical input JSON); null = any input. */
+  target: string | null
+  /** Policy the allow rule was written into (project scope). */
+  policyId: string | null
+  createdAt: string
+  expiresAt: string | null
+  useCount: number
+  lastUsedAt: string | null
+}
+
 export interface PendingApproval {
   id: string
   sessionId: string
@@ -686,6 +1105,8 @@ export interface PendingApproval {
   timeoutMs: number
   timeoutDefault: ApprovalDecision
   reason?: string
+  /** Why the call got its risk, most significant first. */
+  riskFactors?: string[]
   /** True when this approval is for an explicit "prompt" tool rule.
    *  When approved, a grant is set and the terminal auto-sends a retry message.
    */
@@ -707,6 +1128,7 @@ export interface SupervisorAction {
   reason: string | null
   actionClass: ActionClass
   risk: RiskLevel
+  riskFactors?: string[]
   timestamp: number
 }
 
@@ -977,8 +1399,24 @@ export interface LatchAPI {
 
   listPolicies(): Promise<{ ok: boolean; policies: PolicyDocument[] }>;
   getPolicy(payload: { id: string }): Promise<{ ok: boolean; policy: PolicyDocument }>;
-  savePolicy(policy: PolicyDocument): Promise<{ ok: boolean; error?: string }>;
-  deletePolicy(payload: { id: string }): Promise<{ ok: boolean }>;
+  savePolicy(policy: PolicyDocument): Promise<{ ok: boolean; revision?: number; error?: string }>;
+  deletePolicy(payload: { id: string }): Promise<{ ok: boolean; error?: string }>;
+  listPolicyRevisions(payload: { id: string }): Promise<{ ok: boolean; revisions: PolicyRevision[] }>;
+  getPolicyRevision(payload: { id: string; revision: number }): Promise<{ ok: boolean; revision?: PolicyRevision; error?: string }>;
+  diffPolicyRevisions(payload: { id: string; from: number; to: number }): Promise<{ ok: boolean; diff?: PolicyDiff; error?: string }>;
+  rollbackPolicy(payload: { id: string; revision: number }): Promise<{ ok: boolean; revision?: number; error?: string }>;
+  simulatePolicy(payload: { policy: PolicyDocument; baselineRevision?: number | null; sessionId?: string; limit?: number }): Promise<{ ok: boolean; result?: PolicySimulationResult; error?: string }>;
+  lintPolicy(payload: { policy: PolicyDocument }): Promise<{ ok: boolean; diagnostics?: PolicyLintDiagnostic[]; error?: string }>;
+  resolvePolicy(payload: { policy: PolicyDocument }): Promise<{ ok: boolean; policy?: PolicyDocument; error?: string }>;
+  listPolicyFragments(): Promise<{ ok: boolean; fragments: PolicyFragment[] }>;
+  testPolicy(payload: { policy: PolicyDocument }): Promise<{ ok: boolean; run?: PolicyTestRun; error?: string }>;
+  learnPolicy(payload: { sessionIds: string[] }): Promise<{ ok: boolean; policy?: PolicyDocument; summary?: PolicyLearnSummary; error?: string }>;
+  importNativePolicy(payload: { dir?: string }): Promise<{ ok: boolean; policy?: PolicyDocument; sources?: string[]; unmapped?: NativeImportIssue[]; error?: string }>;
+  getPolicyAuditStats(): Promise<{ ok: boolean; stats: PolicyAuditStats[]; error?: string }>;
+  exportPolicy(payload: { id: string }): Promise<{ ok: boolean; filePath?: string; error?: string }>;
+  importPolicy(): Promise<{ ok: boolean; policy?: PolicyDocument; error?: string }>;
+  discoverRepoPolicy(payload: { repoRoot: string }): Promise<{ ok: boolean; discovery?: RepoPolicyDiscovery | null; error?: string }>;
+  approveRepoPolicy(payload: { repoRoot: string }): Promise<{ ok: boolean; policyId?: string; revision?: number; error?: string }>;
   enforcePolicy(payload: {
     policyIds: string[];
     policyOverride?: PolicyDocument | null;
@@ -1002,6 +1440,7 @@ export interface LatchAPI {
   deleteMcpServer(payload: { id: string }): Promise<{ ok: boolean }>;
   syncMcpServers(payload: { harnessId: string; targetDir?: string }): Promise<{ ok: boolean; path?: string; error?: string }>;
   introspectMcpServer(payload: { id: string }): Promise<{ ok: boolean; tools?: McpToolInfo[]; error?: string }>;
+  classifyMcpTools(payload: { server: string; tools: string[]; toolDescriptions?: Record<string, string> }): Promise<{ ok: boolean; tools: McpToolClassificationInfo[]; error?: string }>;
 
   // Docker sandbox
   dockerDetect(): Promise<{ ok: boolean; available: boolean; version?: string }>;
@@ -1021,6 +1460,8 @@ export interface LatchAPI {
     serviceIds: string[]
     maxDataTier: DataTier
     policyId: string
+    /** Every policy on the session; the outbound leak action is resolved across them. */
+    policyIds?: string[]
     policyOverride?: PolicyDocument | null
     workspacePath: string | null
     enableTls?: boolean
@@ -1047,18 +1488,23 @@ export interface LatchAPI {
   }): Promise<{ ok: boolean; error?: string }>;
 
   // Activity / Authz
-  listActivity(payload?: { sessionId?: string; limit?: number; offset?: number }): Promise<{ ok: boolean; events: ActivityEvent[]; total: number }>;
+  listActivity(payload?: ActivityFilter & { limit?: number; offset?: number }): Promise<{ ok: boolean; events: ActivityEvent[]; total: number; error?: string }>;
+  getActivityTrace(payload: { id: string }): Promise<{ ok: boolean; event?: ActivityEvent; trace?: DecisionTrace | null; error?: string }>;
   clearActivity(payload?: { sessionId?: string }): Promise<{ ok: boolean }>;
   exportActivity(payload?: { sessionId?: string; format?: 'json' | 'csv' }): Promise<{ ok: boolean; filePath?: string; count?: number; error?: string }>;
   getRadarSignals(): Promise<{ ok: boolean; signals: RadarSignal[] }>;
   getAuthzPort(): Promise<{ ok: boolean; port: number }>;
-  authzRegister(payload: { sessionId: string; harnessId: string; policyIds: string[]; policyOverride?: PolicyDocument | null }): Promise<{ ok: boolean }>;
+  getAuthzMetrics(): Promise<{ ok: boolean; metrics?: AuthzMetrics; error?: string }>;
+  authzRegister(payload: { sessionId: string; harnessId: string; policyIds: string[]; policyOverride?: PolicyDocument | null; workspaceRoot?: string | null }): Promise<{ ok: boolean }>;
   authzUnregister(payload: { sessionId: string }): Promise<{ ok: boolean }>;
+  getQuotaStatus(payload: { sessionId: string }): Promise<{ ok: boolean; quotas: QuotaStatus[]; error?: string }>;
   onActivityEvent(callback: (event: ActivityEvent) => void): () => void;
   onRadarSignal(callback: (signal: RadarSignal) => void): () => void;
 
   // Approval flow
-  resolveApproval(payload: { id: string; decision: ApprovalDecision }): Promise<{ ok: boolean }>;
+  resolveApproval(payload: { id: string; decision: ApprovalDecision; scope?: ApprovalScope }): Promise<{ ok: boolean }>;
+  listGrants(payload: { sessionId: string }): Promise<{ ok: boolean; grants: ApprovalGrant[]; error?: string }>;
+  revokeGrant(payload: { id: string }): Promise<{ ok: boolean; error?: string }>;
   onApprovalRequest(callback: (approval: PendingApproval) => void): () => void;
   onApprovalResolved(callback: (payload: { id: string }) => void): () => void;
 
@@ -1144,6 +1590,8 @@ export interface LatchAPI {
   onLiveEvent(callback: (event: LiveEvent) => void): () => void;
   onBudgetAlert(callback: (alert: BudgetAlert) => void): () => void;
   respondBudgetAlert(payload: { alertId: string; action: 'kill' | 'extend' }): Promise<{ ok: boolean }>;
+  onConfigTamperAlert(callback: (alert: ConfigTamperAlert) => void): () => void;
+  respondConfigTamper(payload: { sessionId: string; action: 'resume' | 'kill' }): Promise<{ ok: boolean; error?: string }>;
 
   // Rewind / Checkpoints
   listCheckpoints(payload: { sessionId: string }): Promise<{ ok: boolean; checkpoints: Checkpoint[] }>;